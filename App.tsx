@@ -122,12 +122,18 @@ import OnboardingIntro from './src/screens/OnboardingIntro';
 import ChessComUsername from './src/screens/ChessComUsername';
 import OnboardingDone from './src/screens/OnboardingDone';
 import AskCoach from './src/screens/AskCoach';
+import Puzzles from './src/screens/Puzzles';
+import Repertoire from './src/screens/Repertoire';
+import Drills from './src/screens/Drills';
 
 type RootStackParamList = {
   OnboardingIntro: undefined;
   ChessComUsername: undefined;
   OnboardingDone: undefined;
   Chat: undefined;
+  Puzzles: undefined;
+  Repertoire: undefined;
+  Drills: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -169,6 +175,9 @@ export default function App() {
             <Stack.Screen name="ChessComUsername" component={ChessComUsername} />
             <Stack.Screen name="OnboardingDone" component={OnboardingDone} />
             <Stack.Screen name="Chat" component={AskCoach} />
+            <Stack.Screen name="Puzzles" component={Puzzles} />
+            <Stack.Screen name="Repertoire" component={Repertoire} />
+            <Stack.Screen name="Drills" component={Drills} />
           </Stack.Navigator>
         </NavigationContainer>
       </SafeAreaProvider>
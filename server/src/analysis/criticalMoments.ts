@@ -0,0 +1,73 @@
+/**
+ * Critical Moments
+ *
+ * Which moves of a game deserve a deeper engine search after the shallow scan:
+ * - swing: the move moved its side's win probability by 5+ points either way
+ * - sharp: only one move holds (the engine's best is 15+ points ahead of its
+ *   second choice), or there's a forced mate on the board
+ * - best_move_differs: the engine wanted another move and the played one cost 2+ points
+ * Forced moves (a single legal reply, e.g. most recaptures out of check) are
+ * never re-searched. Games get a budget, biggest moments first.
+ */
+
+import { winPercent } from './moveClassification';
+import type { Evaluation } from '../services/positionAnalyzer';
+
+export type CriticalReason = 'swing' | 'sharp' | 'best_move_differs';
+
+type ScanEval = Pick<Evaluation, 'eval' | 'mate' | 'bestMove' | 'lines'>;
+
+export interface ScannedPly {
+  side: 'W' | 'B';
+  uci: string;              // Move played
+  forced: boolean;          // The only legal move
+  before: ScanEval | null;  // Shallow evals (centipawns, White's perspective); null if not analyzed
+  after: ScanEval | null;
+}
+
+export interface CriticalPly {
+  ply: number;              // Index into the scanned plies
+  reasons: CriticalReason[];
+  weight: number;           // Win-probability points at stake, for ranking
+}
+
+const SWING_PERCENT = 5;
+const SHARP_GAP_PERCENT = 15;
+const DIFFERS_LOSS_PERCENT = 2;
+const REVIEW_SHARE = 0.15;  // At most this share of a game's moves is re-searched...
+const MIN_REVIEW_PLIES = 3; // ...but short games still get their few critical moments
+
+function moverWin(evalCp: number, side: 'W' | 'B'): number {
+  return winPercent((side === 'W' ? evalCp : -evalCp) / 100);
+}
+
+/**
+ * Plies to re-search, most important first, within the game's budget
+ */
+export function findCriticalPlies(plies: ScannedPly[]): CriticalPly[] {
+  const critical: CriticalPly[] = [];
+
+  for (const [ply, scan] of plies.entries()) {
+    if (scan.forced || !scan.before || !scan.after) continue;
+
+    const reasons: CriticalReason[] = [];
+    const before = moverWin(scan.before.eval, scan.side);
+    const after = moverWin(scan.after.eval, scan.side);
+    const swing = Math.abs(before - after);
+    if (swing >= SWING_PERCENT) reasons.push('swing');
+
+    const [first, second] = scan.before.lines ?? [];
+    const gap = first && second ? moverWin(first.eval, scan.side) - moverWin(second.eval, scan.side) : 0;
+    if (gap >= SHARP_GAP_PERCENT || scan.before.mate !== undefined) reasons.push('sharp');
+
+    const loss = Math.max(0, before - after);
+    if (scan.before.bestMove && scan.before.bestMove !== scan.uci && loss >= DIFFERS_LOSS_PERCENT) {
+      reasons.push('best_move_differs');
+    }
+
+    if (reasons.length > 0) critical.push({ ply, reasons, weight: Math.max(swing, gap, loss) });
+  }
+
+  const budget = Math.max(MIN_REVIEW_PLIES, Math.ceil(plies.length * REVIEW_SHARE));
+  return critical.sort((a, b) => b.weight - a.weight).slice(0, budget);
+}
@@ -0,0 +1,198 @@
+/**
+ * Endgame Analysis
+ *
+ * Classifies the endgames a game reaches by material signature (rook endings,
+ * king and pawn, opposite-colored bishops...) and compares the eval when each
+ * type was first reached with the final result:
+ * - A position is an endgame once at most 6 queens, rooks and minor pieces
+ *   are left (both sides together)
+ * - A game can pass through several types (a rook-and-minor ending traded
+ *   down to a rook ending counts for both)
+ * - "Winning" means +2 or better for the user at entry, or a tablebase win
+ */
+
+import { Chess } from 'chess.js';
+import type { CompactGameSummaryT } from '../summaries/schemas';
+import type { EndgameTypeStatsT, EndgameTypeT } from '../profile/schema';
+
+type KeyPositionT = CompactGameSummaryT['keyPositions'][number];
+
+const MAX_ENDGAME_PIECES = 6;
+const WINNING_EVAL = 2.0;
+const MAX_EXAMPLES = 3;
+
+export const ENDGAME_LABELS: Record<EndgameTypeT, string> = {
+  pawn: 'King and pawn endings',
+  rook: 'Rook endings',
+  queen: 'Queen endings',
+  opposite_bishops: 'Opposite-colored bishop endings',
+  minor_pieces: 'Minor-piece endings',
+  rook_vs_minor: 'Rook vs minor piece endings',
+  rook_and_minor: 'Rook and minor piece endings',
+  mixed: 'Queen and piece endings',
+};
+
+/**
+ * First time a game reached an endgame type
+ */
+export interface EndgameEntry {
+  type: EndgameTypeT;
+  moveNo: number;
+  fen: string;
+  eval: number | null;                    // Pawns, user's side
+  outlook: 'winning' | 'equal' | 'losing' | null; // null: no eval to go on
+}
+
+type PieceCounts = { n: number; b: number; r: number; q: number };
+
+function isLightSquare(square: string): boolean {
+  return (square.charCodeAt(0) - 97 + Number(square[1])) % 2 === 0;
+}
+
+/**
+ * Endgame type of a position, or null if it isn't an endgame yet
+ */
+export function classifyEndgame(fen: string): EndgameTypeT | null {
+  const counts: Record<'w' | 'b', PieceCounts> = { w: { n: 0, b: 0, r: 0, q: 0 }, b: { n: 0, b: 0, r: 0, q: 0 } };
+  const bishopSquares: Record<'w' | 'b', boolean[]> = { w: [], b: [] };
+
+  for (const row of new Chess(fen).board()) {
+    for (const piece of row) {
+      if (!piece || piece.type === 'k' || piece.type === 'p') continue;
+      counts[piece.color][piece.type]++;
+      if (piece.type === 'b') bishopSquares[piece.color].push(isLightSquare(piece.square));
+    }
+  }
+
+  const total = (c: PieceCounts) => c.n + c.b + c.r + c.q;
+  const minors = (c: PieceCounts) => c.n + c.b;
+  const { w, b } = counts;
+  if (total(w) + total(b) > MAX_ENDGAME_PIECES) return null;
+
+  if (total(w) + total(b) === 0) return 'pawn';
+  if (w.q + b.q > 0) return w.q + b.q === total(w) + total(b) ? 'queen' : 'mixed';
+  if (w.r + b.r === 0) {
+    const oppositeBishops = w.b === 1 && b.b === 1 && w.n + b.n === 0 && bishopSquares.w[0] !== bishopSquares.b[0];
+    return oppositeBishops ? 'opposite_bishops' : 'minor_pieces';
+  }
+  if (minors(w) + minors(b) === 0) return 'rook';
+  const rooksOnly = (c: PieceCounts) => c.r > 0 && minors(c) === 0;
+  const minorsOnly = (c: PieceCounts) => c.r === 0 && minors(c) > 0;
+  return (rooksOnly(w) && minorsOnly(b)) || (rooksOnly(b) && minorsOnly(w)) ? 'rook_vs_minor' : 'rook_and_minor';
+}
+
+/**
+ * The user's outlook after a move: the tablebase result when there is one, else the eval
+ */
+function entryOutlook(game: CompactGameSummaryT, pos: KeyPositionT, evalUser: number | null): EndgameEntry['outlook'] {
+  if (pos.tablebase) {
+    // wdl is for the side to move after the move - the mover's opponent
+    const userToMove = (pos.side === 'W') !== (game.userColor === 'white');
+    const wdl = pos.tablebase.wdl;
+    if (wdl === 'win') return userToMove ? 'winning' : 'losing';
+    if (wdl === 'loss') return userToMove ? 'losing' : 'winning';
+    return 'equal';
+  }
+  if (evalUser === null) return null;
+  if (evalUser >= WINNING_EVAL) return 'winning';
+  if (evalUser <= -WINNING_EVAL) return 'losing';
+  return 'equal';
+}
+
+/**
+ * Endgame types a game went through, in the order it reached them
+ */
+export function endgameEntries(game: CompactGameSummaryT): EndgameEntry[] {
+  const entries: EndgameEntry[] = [];
+  const seen = new Set<EndgameTypeT>();
+  const evals = game.analysis?.engine !== 'none';
+
+  for (const pos of game.keyPositions) {
+    const type = classifyEndgame(pos.fen);
+    if (!type || seen.has(type)) continue;
+    seen.add(type);
+
+    const evalUser = evals && pos.evalAfter !== null
+      ? (game.userColor === 'white' ? pos.evalAfter : -pos.evalAfter)
+      : null;
+    entries.push({ type, moveNo: pos.moveNo, fen: pos.fen, eval: evalUser, outlook: entryOutlook(game, pos, evalUser) });
+  }
+  return entries;
+}
+
+type Outcome = 'win' | 'draw' | 'loss' | null;
+
+function outcome(result: CompactGameSummaryT['result']): Outcome {
+  if (result === 'win' || result === 'checkmate') return 'win';
+  if (result === 'loss' || result === 'resign' || result === 'timeout') return 'loss';
+  if (result === 'draw' || result === 'stalemate') return 'draw';
+  return null;
+}
+
+function percent(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 100) : null;
+}
+
+/**
+ * Results by endgame type, most played first
+ */
+export function analyzeEndgames(games: CompactGameSummaryT[]): EndgameTypeStatsT[] {
+  const byType = new Map<EndgameTypeT, EndgameTypeStatsT & { evalSum: number; evalCount: number; missed: string[] }>();
+
+  for (const game of games) {
+    const result = outcome(game.result);
+    if (!result) continue;
+
+    for (const entry of endgameEntries(game)) {
+      let stats = byType.get(entry.type);
+      if (!stats) {
+        stats = {
+          type: entry.type,
+          games: 0, wins: 0, draws: 0, losses: 0,
+          avgEntryEval: null,
+          winning: { games: 0, converted: 0 },
+          equal: { games: 0, won: 0, lost: 0 },
+          losing: { games: 0, saved: 0 },
+          conversionRate: null,
+          saveRate: null,
+          exampleGameIds: [],
+          evalSum: 0, evalCount: 0, missed: [],
+        };
+        byType.set(entry.type, stats);
+      }
+
+      stats.games++;
+      if (result === 'win') stats.wins++;
+      else if (result === 'draw') stats.draws++;
+      else stats.losses++;
+
+      if (entry.eval !== null) {
+        stats.evalSum += entry.eval;
+        stats.evalCount++;
+      }
+      if (entry.outlook === 'winning') {
+        stats.winning.games++;
+        if (result === 'win') stats.winning.converted++;
+        else stats.missed.push(game.gameId);
+      } else if (entry.outlook === 'losing') {
+        stats.losing.games++;
+        if (result !== 'loss') stats.losing.saved++;
+      } else if (entry.outlook === 'equal') {
+        stats.equal.games++;
+        if (result === 'win') stats.equal.won++;
+        if (result === 'loss') stats.equal.lost++;
+      }
+    }
+  }
+
+  return [...byType.values()]
+    .map(({ evalSum, evalCount, missed, ...stats }) => ({
+      ...stats,
+      avgEntryEval: evalCount > 0 ? Math.round((evalSum / evalCount) * 100) / 100 : null,
+      conversionRate: percent(stats.winning.converted, stats.winning.games),
+      saveRate: percent(stats.losing.saved, stats.losing.games),
+      // Most recent missed conversions (games are sorted oldest first)
+      exampleGameIds: missed.slice(-MAX_EXAMPLES).reverse(),
+    }))
+    .sort((a, b) => b.games - a.games);
+}
@@ -0,0 +1,112 @@
+/**
+ * Engine Lines
+ *
+ * The engine's top candidate moves (MultiPV) in SAN, for storing on key positions
+ * and for telling the user which moves were fine and where the best one led:
+ * - Lines come in as UCI from Stockfish or the Lichess cloud and are converted here
+ * - Each line is cut at the first move that can't be replayed (e.g. Chess960 castling,
+ *   which chess.js doesn't know), so what's stored is always legal SAN
+ */
+
+import { Chess } from 'chess.js';
+import type { EngineLine as UciLine } from '../services/stockfish';
+import type { EngineLineT } from '../summaries/schemas';
+import { classifyMove } from './moveClassification';
+
+const MAX_LINE_PLIES = 8; // Enough to show the idea without storing the whole search
+
+/**
+ * Convert engine lines (UCI, centipawns) for a position to SAN lines (pawns)
+ */
+export function toEngineLines(
+  fen: string,
+  lines: UciLine[] | undefined,
+  options: { chess960?: boolean } = {}
+): EngineLineT[] {
+  if (!lines || lines.length === 0) return [];
+
+  // Chess960 X-FEN castling rights don't load into chess.js; castling ends the line instead
+  const parts = fen.split(' ');
+  const startFen = options.chess960 ? [...parts.slice(0, 2), '-', ...parts.slice(3)].join(' ') : fen;
+
+  const result: EngineLineT[] = [];
+  for (const line of lines) {
+    const san = uciToSan(startFen, line.pv.slice(0, MAX_LINE_PLIES));
+    if (san.length === 0) continue;
+    result.push({
+      move: san[0],
+      uci: line.move,
+      eval: line.mate ? line.mate * 100 : line.eval / 100, // Same scale as evalBefore/evalAfter
+      mate: line.mate ?? null,
+      line: san,
+    });
+  }
+  return result;
+}
+
+/**
+ * Replay UCI moves from a position, stopping at the first one that doesn't apply
+ */
+function uciToSan(fen: string, moves: string[]): string[] {
+  let chess: Chess;
+  try {
+    chess = new Chess(fen);
+  } catch {
+    return [];
+  }
+
+  const san: string[] = [];
+  for (const uci of moves) {
+    try {
+      const mv = chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] });
+      san.push(mv.san);
+    } catch {
+      break;
+    }
+  }
+  return san;
+}
+
+/**
+ * "+0.4", "-1.2" or "#3" / "#-2" (White's perspective)
+ */
+export function formatLineEval(line: Pick<EngineLineT, 'eval' | 'mate'>): string {
+  if (line.mate !== null) return `#${line.mate}`;
+  return `${line.eval > 0 ? '+' : ''}${line.eval.toFixed(1)}`;
+}
+
+/**
+ * SAN line with move numbers: "12. Nf3 Nc6 13. Bb5" or "12... Nc6 13. Bb5"
+ */
+export function formatLine(line: string[], moveNo: number, side: 'W' | 'B'): string {
+  const parts: string[] = [];
+  let number = moveNo;
+  let white = side === 'W';
+  for (const [i, san] of line.entries()) {
+    if (white) parts.push(`${number}. ${san}`);
+    else parts.push(i === 0 ? `${number}... ${san}` : san);
+    if (!white) number++;
+    white = !white;
+  }
+  return parts.join(' ');
+}
+
+/**
+ * "Nf3 (+0.3), Bc4 (+0.2), d4 (+0.1)"
+ */
+export function formatAlternatives(lines: EngineLineT[]): string {
+  return lines.map(l => `${l.move} (${formatLineEval(l)})`).join(', ');
+}
+
+/**
+ * Alternatives that were as good as the engine's first choice - any that would
+ * have classified as excellent or good against it (see moveClassification)
+ */
+export function soundAlternatives(lines: EngineLineT[], side: 'W' | 'B'): EngineLineT[] {
+  const best = lines[0];
+  if (!best) return [];
+  return lines.filter(l => {
+    const label = classifyMove({ side, evalBefore: best.eval, evalAfter: l.eval });
+    return label === 'excellent' || label === 'good';
+  });
+}
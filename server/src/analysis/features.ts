@@ -1,5 +1,6 @@
 import { Chess, Square, PieceSymbol, Color } from 'chess.js';
-import type { CompactGameSummaryT } from '../summaries/schemas';
+import type { CompactGameSummaryT, TacticT } from '../summaries/schemas';
+import { getMoveClassification, isBlunder, moveAccuracy } from './moveClassification';
 
 /**
  * Rich feature vector for a single position
@@ -83,11 +84,12 @@ export interface PositionFeatures {
   eval_before_cp: number;
   eval_after_cp: number;
   eval_swing_cp: number; // negative = user's position got worse
-  move_accuracy: number; // 0-1 (1 = perfect)
+  move_accuracy: number; // 0-1 (1 = perfect), from win-probability loss
   was_best_move: boolean;
-  was_blunder: boolean; // swing < -200cp
-  was_mistake: boolean; // swing < -100cp
-  was_inaccuracy: boolean; // swing < -50cp
+  was_blunder: boolean; // Shared move classification (moveClassification.ts)
+  was_mistake: boolean;
+  was_inaccuracy: boolean;
+  tactics: TacticT[]; // Tactics the user missed or allowed with this move (tactics.ts)
   
   // ===== GAME CONTEXT =====
   time_control: 'bullet' | 'blitz' | 'rapid' | 'daily';
@@ -159,6 +161,10 @@ function extractPositionFeatures(
   }
   
   const evalSwingCp = Math.round(evalSwing * 100);
+
+  // Move quality labels belong to whoever moved, and only the user's moves are judged
+  const label = moveSide === 'user' ? getMoveClassification(position) : null;
+  const accuracy = moveSide === 'user' ? moveAccuracy(position) : null;
   
   return {
     gameId: game.gameId,
@@ -175,11 +181,12 @@ function extractPositionFeatures(
     eval_before_cp: Math.round(evalBefore * 100),
     eval_after_cp: Math.round(evalAfter * 100),
     eval_swing_cp: evalSwingCp,
-    move_accuracy: calculateAccuracy(evalSwingCp),
-    was_best_move: position.move === position.bestMove,
-    was_blunder: evalSwingCp < -200,
-    was_mistake: evalSwingCp < -100 && evalSwingCp >= -200,
-    was_inaccuracy: evalSwingCp < -50 && evalSwingCp >= -100,
+    move_accuracy: accuracy !== null ? accuracy / 100 : 1,
+    was_best_move: label === 'best',
+    was_blunder: label !== null && isBlunder(position),
+    was_mistake: label === 'mistake',
+    was_inaccuracy: label === 'inaccuracy',
+    tactics: moveSide === 'user' ? position.tactics : [],
     
     time_control: game.timeControl.type,
     game_phase: determinePhase(position.moveNo, material.material_total),
@@ -581,20 +588,20 @@ function analyzeTactical(chess: Chess, userColor: Color, oppColor: Color) {
   };
 }
 
-function calculateAccuracy(evalSwingCp: number): number {
-  // Map eval swing to accuracy score (0-1)
-  // Perfect move = 0 swing = 1.0 accuracy
-  // -300cp swing = 0.0 accuracy
-  const maxSwing = 300;
-  return Math.max(0, 1 - Math.abs(evalSwingCp) / maxSwing);
-}
-
 function determinePhase(moveNo: number, materialTotal: number): 'opening' | 'middlegame' | 'endgame' {
   if (moveNo <= 10) return 'opening';
   if (materialTotal < 20) return 'endgame';
   return 'middlegame';
 }
 
+/**
+ * Game phase of a position, by the same rule as the features' game_phase
+ */
+export function phaseOfPosition(fen: string, moveNo: number): 'opening' | 'middlegame' | 'endgame' {
+  const material = calculateMaterial(new Chess(fen), 'w', 'b');
+  return determinePhase(moveNo, material.material_total);
+}
+
 function normalizeResult(result: CompactGameSummaryT['result']): 'win' | 'loss' | 'draw' | 'other' {
   if (result === 'win') return 'win';
   if (result === 'loss') return 'loss';
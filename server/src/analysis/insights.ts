@@ -1,5 +1,6 @@
 import type { Pattern } from './patterns';
 import type { CompactGameSummaryT } from '../summaries/schemas';
+import { describeTactic } from './tactics';
 
 export interface Insight {
   id: string;
@@ -7,7 +8,7 @@ export interface Insight {
   summary: string; // 2-3 sentence overview
   impact: string; // "This costs you ~X rating points"
   priority: number; // 1-10
-  category: 'weakness' | 'strength' | 'opening' | 'phase' | 'general';
+  category: 'weakness' | 'strength' | 'opening' | 'phase' | 'tactics' | 'general';
   
   // Supporting patterns
   patterns: Pattern[];
@@ -27,7 +28,7 @@ export interface Insight {
     exampleGames: Array<{
       gameId: string;
       opponent: string | null;
-      chesscomUrl: string | null;
+      gameUrl: string | null;
       moveNo: number;
       fen: string;
       description: string;
@@ -52,8 +53,9 @@ export function generateInsights(
   const insights: Insight[] = [];
   
   // === INSIGHT 1: Biggest Weakness ===
+  // Tactical motifs get their own insight below
   const topWeakness = patterns
-    .filter(p => p.type === 'weakness')
+    .filter(p => p.type === 'weakness' && !p.conditions.tactic)
     .sort((a, b) => b.priority - a.priority)[0];
   
   if (topWeakness) {
@@ -90,6 +92,12 @@ export function generateInsights(
     insights.push(phaseInsight);
   }
   
+  // === INSIGHT 3b: Tactical Blind Spot ===
+  const tacticInsight = generateTacticInsight(patterns, summaries);
+  if (tacticInsight) {
+    insights.push(tacticInsight);
+  }
+  
   // === INSIGHT 4: Top Strength (if exists) ===
   const topStrength = patterns
     .filter(p => p.type === 'strength')
@@ -121,7 +129,7 @@ function generateWeaknessInsight(pattern: Pattern, summaries: CompactGameSummary
     return {
       gameId: ex.gameId,
       opponent: game?.opponent || 'Unknown',
-      chesscomUrl: game?.chesscomUrl || null,
+      gameUrl: game?.gameUrl || null,
       moveNo: ex.moveNo,
       fen: ex.fen,
       description: `Move ${ex.moveNo}: Lost ${Math.abs(ex.evalSwing)}cp due to ${pattern.name.toLowerCase()}`,
@@ -186,7 +194,7 @@ function generateOpeningInsight(
     return {
       gameId: ex.gameId,
       opponent: game?.opponent || 'Unknown',
-      chesscomUrl: game?.chesscomUrl || null,
+      gameUrl: game?.gameUrl || null,
       moveNo: ex.moveNo,
       fen: ex.fen,
       description: `${worstOpening.name} - Critical mistake at move ${ex.moveNo}`,
@@ -270,7 +278,7 @@ function generatePhaseInsight(patterns: Pattern[], summaries: CompactGameSummary
       return {
         gameId: ex.gameId,
         opponent: game?.opponent || 'Unknown',
-        chesscomUrl: game?.chesscomUrl || null,
+        gameUrl: game?.gameUrl || null,
         moveNo: ex.moveNo,
         fen: ex.fen,
         description: `${weakestPhase.phase} mistake at move ${ex.moveNo}`,
@@ -314,6 +322,73 @@ function generatePhaseInsight(patterns: Pattern[], summaries: CompactGameSummary
   };
 }
 
+function generateTacticInsight(patterns: Pattern[], summaries: CompactGameSummaryT[]): Insight | null {
+  // Most frequent first - a blind spot is about how often, not how costly
+  const tacticPatterns = patterns
+    .filter(p => p.conditions.tactic)
+    .sort((a, b) => b.frequency - a.frequency || a.impact - b.impact);
+  
+  const main = tacticPatterns[0];
+  if (!main) return null;
+  
+  const label: string = main.conditions.label;
+  const plural = describeTactic({ motif: main.conditions.motif, piece: main.conditions.piece }, true);
+  const missed = main.conditions.tactic === 'missed';
+  const gameIds = new Set(main.gameIds);
+  const ratingImpact = Math.round(Math.abs(main.impact) * main.frequency / 100 * 0.3);
+  
+  const exampleGames = main.examples.slice(0, 3).map(ex => {
+    const game = summaries.find(g => g.gameId === ex.gameId);
+    return {
+      gameId: ex.gameId,
+      opponent: game?.opponent || 'Unknown',
+      gameUrl: game?.gameUrl || null,
+      moveNo: ex.moveNo,
+      fen: ex.fen,
+      description: `Move ${ex.moveNo}: ${missed ? 'missed' : 'allowed'} ${label}`,
+      evalLoss: ex.evalSwing
+    };
+  });
+  
+  const others = tacticPatterns.slice(1, 3).map(p => p.name.toLowerCase());
+  
+  return {
+    id: 'tactics_blind_spot',
+    title: `Tactical Blind Spot: ${main.name}`,
+    summary: `${main.description} On average these cost you ${Math.abs(main.impact)}cp.${others.length > 0 ? ` Also recurring: ${others.join(' and ')}.` : ''}`,
+    impact: `Spotting these could gain you ~${ratingImpact} rating points`,
+    priority: 9,
+    category: 'tactics',
+    patterns: tacticPatterns.slice(0, 3),
+    actionPlan: {
+      immediate: missed
+        ? `Solve 10 puzzles on ${plural} today`
+        : `Before every move in today's games, ask: "Does my opponent have any ${plural}?"`,
+      nextGames: [
+        missed ? `Look for ${plural} whenever the opponent's pieces are loose or lined up` : `Check your opponent's checks, captures and threats before each move`,
+        `Take an extra moment on moves where pieces come into contact`,
+        `After each game, review the positions where ${plural} were on the board`
+      ],
+      studyPlan: [
+        main.recommendation,
+        `Work through a themed puzzle set on ${plural} until you spot them quickly`,
+        `Revisit the example positions below and find the tactic yourself`
+      ],
+      resources: [
+        `Search YouTube: "chess ${plural} explained"`,
+        `Lichess puzzle themes: ${plural}`
+      ]
+    },
+    evidence: {
+      totalGames: gameIds.size,
+      totalPositions: main.frequency,
+      exampleGames
+    },
+    estimatedRatingImpact: ratingImpact,
+    confidence: main.confidence
+  };
+}
+
 function generateStrengthInsight(pattern: Pattern, summaries: CompactGameSummaryT[]): Insight {
   const gameIds = new Set(pattern.gameIds); // Use the gameIds from pattern, not just examples
   
@@ -322,7 +397,7 @@ function generateStrengthInsight(pattern: Pattern, summaries: CompactGameSummary
     return {
       gameId: ex.gameId,
       opponent: game?.opponent || 'Unknown',
-      chesscomUrl: game?.chesscomUrl || null,
+      gameUrl: game?.gameUrl || null,
       moveNo: ex.moveNo,
       fen: ex.fen,
       description: `Strong ${pattern.name.toLowerCase()} at move ${ex.moveNo}`,
@@ -7,6 +7,7 @@
 
 import type { CompactGameSummaryT } from '../summaries/schemas';
 import type { HistoricalStatsT } from '../profile/historicalStats';
+import { isBlunder, isMistake, isUserMove } from './moveClassification';
 
 /**
  * Analysis depth options
@@ -380,19 +381,18 @@ async function analyzeGames(
         message: `Analyzing game ${i + 1}/${games.length}...`,
       });
 
-      // Find critical positions
+      // Find critical positions: the user's mistakes and blunders
       for (const pos of game.keyPositions) {
+        if (!isUserMove(game, pos) || !(isBlunder(pos) || isMistake(pos))) continue;
         const swing = Math.abs((pos.evalAfter ?? 0) - (pos.evalBefore ?? 0));
-        if (swing > 2 || pos.tag.includes('blunder')) {
-          keyPositions.push({
-            gameId: game.gameId,
-            moveNumber: pos.moveNo,
-            fen: pos.fen,
-            description: pos.tag.includes('blunder')
-              ? `Blunder on move ${pos.moveNo}`
-              : `Critical position (${swing.toFixed(1)} pawn swing)`,
-          });
-        }
+        keyPositions.push({
+          gameId: game.gameId,
+          moveNumber: pos.moveNo,
+          fen: pos.fen,
+          description: isBlunder(pos)
+            ? `Blunder on move ${pos.moveNo}`
+            : `Mistake on move ${pos.moveNo} (${swing.toFixed(1)} pawn swing)`,
+        });
       }
 
       // Limit key positions
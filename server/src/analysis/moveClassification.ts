@@ -0,0 +1,155 @@
+/**
+ * Move Classification
+ *
+ * The one definition of move quality used across ingest, profile and coaching.
+ * Evals are converted to the mover's win probability, and a move is judged by how
+ * much win probability it gave away - so +9 -> +7 (still completely winning) is
+ * fine while +1 -> -1 is a real mistake.
+ *
+ * Labels: best / excellent / good / inaccuracy / mistake / blunder / missed_win
+ */
+
+import type { CompactGameSummaryT, KeyPositionTablebaseT, MoveClassificationT } from '../summaries/schemas';
+
+type KeyPositionT = CompactGameSummaryT['keyPositions'][number];
+
+// Win-probability loss (percentage points) at which each label starts
+const EXCELLENT_LOSS = 2;
+const GOOD_LOSS = 5;
+const INACCURACY_LOSS = 10;
+const MISTAKE_LOSS = 20;
+
+// A "missed win": winning before the move, no better than equal after it
+const WINNING_PERCENT = 80;
+const NOT_WINNING_PERCENT = 50;
+
+/**
+ * Win percentage for White (0-100) from an eval in pawns (Lichess formula).
+ * Mate scores are stored as huge evals and clamp to ~97.5%.
+ */
+export function winPercent(evalPawns: number): number {
+  const cp = Math.max(-1000, Math.min(1000, evalPawns * 100));
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+}
+
+/**
+ * Win percentage for the side that made the move
+ */
+function moverWinPercent(evalWhite: number, side: 'W' | 'B'): number {
+  return winPercent(side === 'W' ? evalWhite : -evalWhite);
+}
+
+/**
+ * Win-probability points the mover gave away (0 if the move held or improved)
+ */
+export function winPercentLoss(pos: Pick<KeyPositionT, 'side' | 'evalBefore' | 'evalAfter'>): number | null {
+  if (pos.evalBefore === null || pos.evalAfter === null) return null;
+  return Math.max(0, moverWinPercent(pos.evalBefore, pos.side) - moverWinPercent(pos.evalAfter, pos.side));
+}
+
+/**
+ * Per-move accuracy (0-100) from the drop in win percentage (Lichess formula)
+ */
+export function moveAccuracy(pos: Pick<KeyPositionT, 'side' | 'evalBefore' | 'evalAfter'>): number | null {
+  const loss = winPercentLoss(pos);
+  if (loss === null) return null;
+  return Math.max(0, Math.min(100, 103.1668 * Math.exp(-0.04354 * loss) - 3.1669));
+}
+
+/**
+ * Label a move. `playedBest` is true when the move matches the engine's choice.
+ * Returns null when the move has no evals.
+ */
+export function classifyMove(
+  pos: Pick<KeyPositionT, 'side' | 'evalBefore' | 'evalAfter'>,
+  playedBest: boolean = false
+): MoveClassificationT | null {
+  const loss = winPercentLoss(pos);
+  if (loss === null) return null;
+  if (playedBest) return 'best';
+
+  const before = moverWinPercent(pos.evalBefore!, pos.side);
+  const after = moverWinPercent(pos.evalAfter!, pos.side);
+  if (before >= WINNING_PERCENT && after <= NOT_WINNING_PERCENT) return 'missed_win';
+
+  if (loss < EXCELLENT_LOSS) return 'excellent';
+  if (loss < GOOD_LOSS) return 'good';
+  if (loss < INACCURACY_LOSS) return 'inaccuracy';
+  if (loss < MISTAKE_LOSS) return 'mistake';
+  return 'blunder';
+}
+
+/**
+ * Tablebase results are exact, so in covered endgames they overrule a shallow
+ * eval: giving away a won result is a missed win, turning a draw into a loss is
+ * a blunder, and a move that keeps the result is at worst an inaccuracy.
+ */
+export function classifyWithTablebase(
+  label: MoveClassificationT | null,
+  tablebase: KeyPositionTablebaseT | null
+): MoveClassificationT | null {
+  if (!tablebase || tablebase.before === null) return label;
+  if (tablebase.thrown === 'win_to_draw' || tablebase.thrown === 'win_to_loss') return 'missed_win';
+  if (tablebase.thrown === 'draw_to_loss') return 'blunder';
+  if (label === 'mistake' || label === 'blunder' || label === 'missed_win') return 'inaccuracy';
+  return label;
+}
+
+/**
+ * The stored label, or one computed from the evals for summaries saved before
+ * classification existed (best-move matches can't be recovered for those)
+ */
+export function getMoveClassification(pos: KeyPositionT): MoveClassificationT | null {
+  return pos.classification ?? classifyMove(pos);
+}
+
+/**
+ * Blunders include thrown-away wins - both decide games
+ */
+export function isBlunder(pos: KeyPositionT): boolean {
+  const label = getMoveClassification(pos);
+  return label === 'blunder' || label === 'missed_win';
+}
+
+export function isMistake(pos: KeyPositionT): boolean {
+  return getMoveClassification(pos) === 'mistake';
+}
+
+export function isInaccuracy(pos: KeyPositionT): boolean {
+  return getMoveClassification(pos) === 'inaccuracy';
+}
+
+/**
+ * Inaccuracy or worse
+ */
+export function isError(pos: KeyPositionT): boolean {
+  return isBlunder(pos) || isMistake(pos) || isInaccuracy(pos);
+}
+
+export function isUserMove(game: Pick<CompactGameSummaryT, 'userColor'>, pos: KeyPositionT): boolean {
+  return (pos.side === 'W') === (game.userColor === 'white');
+}
+
+/**
+ * Count the user's errors in a game (fills the summary's mistake/blunder fields)
+ */
+export function countUserErrors(
+  keyPositions: KeyPositionT[],
+  userColor: 'white' | 'black'
+): { inaccuracies: number; mistakes: number; blunders: number; missedWins: number } {
+  const userMoves = keyPositions.filter(p => isUserMove({ userColor }, p));
+  return {
+    inaccuracies: userMoves.filter(isInaccuracy).length,
+    mistakes: userMoves.filter(isMistake).length,
+    blunders: userMoves.filter(isBlunder).length,
+    missedWins: userMoves.filter(p => getMoveClassification(p) === 'missed_win').length,
+  };
+}
+
+/**
+ * The game with its error counts recomputed from the move labels.
+ * Summaries saved before classification existed have all counts at zero.
+ */
+export function withErrorCounts(game: CompactGameSummaryT): CompactGameSummaryT {
+  return { ...game, ...countUserErrors(game.keyPositions, game.userColor) };
+}
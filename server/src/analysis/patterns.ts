@@ -1,5 +1,6 @@
 import type { PositionFeatures } from './features';
-import type { CompactGameSummaryT } from '../summaries/schemas';
+import type { CompactGameSummaryT, TacticalMotifT, TacticT } from '../summaries/schemas';
+import { describeTactic } from './tactics';
 
 export interface Pattern {
   id: string;
@@ -103,6 +104,16 @@ export function discoverPatterns(
   patterns.push(...openingPatterns);
   console.log(`  Found ${openingPatterns.length} opening patterns\n`);
   
+  // === STRATEGY 4: Tactical Motifs ===
+  // Mates swing the eval past the checkmate cutoff, so every user move counts here
+  console.log('⚔️  Strategy 4: Finding tactical motif patterns...');
+  const tacticPatterns = findTacticalMotifPatterns(
+    features.filter(f => f.move_side === 'user'),
+    { minOccurrences: 3 }
+  );
+  patterns.push(...tacticPatterns);
+  console.log(`  Found ${tacticPatterns.length} tactical motif patterns\n`);
+  
   // Sort by priority and return top N
   const sortedPatterns = patterns
     .sort((a, b) => b.priority - a.priority)
@@ -373,6 +384,85 @@ function findOpeningPatterns(
   return patterns;
 }
 
+/**
+ * Find tactics the user keeps missing or walking into (the motifs tagged on
+ * their mistakes), compared with how often the other motifs come up
+ */
+function findTacticalMotifPatterns(
+  positions: PositionFeatures[],
+  options: { minOccurrences: number }
+): Pattern[] {
+  const patterns: Pattern[] = [];
+  
+  for (const kind of ['missed', 'allowed'] as const) {
+    // Group by named tactic ("knight fork", "back-rank mate"), once per position
+    const byTactic = new Map<string, { tactic: TacticT; positions: PositionFeatures[] }>();
+    for (const pos of positions) {
+      const seen = new Set<string>();
+      for (const tactic of pos.tactics.filter(t => t.kind === kind)) {
+        const label = describeTactic(tactic);
+        if (seen.has(label)) continue;
+        seen.add(label);
+        if (!byTactic.has(label)) byTactic.set(label, { tactic, positions: [] });
+        byTactic.get(label)!.positions.push(pos);
+      }
+    }
+    
+    const total = [...byTactic.values()].reduce((sum, g) => sum + g.positions.length, 0);
+    const verb = kind === 'missed' ? 'miss' : 'walk into';
+    
+    for (const [label, { tactic, positions: tacticPositions }] of byTactic.entries()) {
+      const count = tacticPositions.length;
+      if (count < options.minOccurrences) continue;
+      
+      // How much more often than the average other motif
+      const others = byTactic.size - 1;
+      const otherAvg = others > 0 ? (total - count) / others : 0;
+      const ratio = otherAvg > 0 ? count / otherAvg : null;
+      
+      const measured = tacticPositions.filter(p => Math.abs(p.eval_swing_cp) < 5000);
+      const avgImpact = measured.length > 0
+        ? measured.reduce((sum, p) => sum + p.eval_swing_cp, 0) / measured.length
+        : -500; // Only mates: count them as a lost piece
+      
+      const plural = describeTactic(tactic, true);
+      const gameIds = Array.from(new Set(tacticPositions.map(p => p.gameId)));
+      const description = ratio !== null && ratio >= 1.5
+        ? `You ${verb} ${plural} ${Math.round(ratio * 10) / 10}× more often than other tactics (${count} times in ${gameIds.length} games).`
+        : `You ${verb} ${plural} ${count} times in ${gameIds.length} games (${Math.round(count / total * 100)}% of the tactics you ${verb}).`;
+      
+      patterns.push({
+        id: `tactic_${kind}_${tactic.motif}_${tactic.piece}`,
+        type: 'weakness',
+        name: `${kind === 'missed' ? 'Missed' : 'Allowed'} ${titleCase(plural)}`,
+        description,
+        frequency: count,
+        impact: Math.round(avgImpact),
+        confidence: Math.min(1, count / 10), // Confidence based on sample size
+        correlation: 0, // Not a correlation pattern
+        pValue: 0.05,
+        conditions: { tactic: kind, motif: tactic.motif, piece: tactic.piece, label },
+        examples: tacticPositions
+          .slice()
+          .sort((a, b) => a.eval_swing_cp - b.eval_swing_cp)
+          .slice(0, 3)
+          .map(p => ({
+            gameId: p.gameId,
+            moveNo: p.moveNo,
+            fen: p.fen,
+            evalSwing: p.eval_swing_cp,
+            context: `Move ${p.moveNo}: ${kind} ${label} (${p.game_phase})`
+          })),
+        gameIds,
+        priority: calculatePriority(count * 5, Math.abs(avgImpact)), // Each one is a whole mistake
+        recommendation: generateTacticRecommendation(tactic.motif, kind, plural)
+      });
+    }
+  }
+  
+  return patterns;
+}
+
 // ===== STATISTICAL HELPERS =====
 
 function analyzeFeatureCorrelation(
@@ -478,6 +568,27 @@ function findTopExamples(
   }));
 }
 
+function titleCase(text: string): string {
+  return text.replace(/(^|[\s-])(\w)/g, (_, sep, ch) => sep + ch.toUpperCase());
+}
+
+function generateTacticRecommendation(motif: TacticalMotifT, kind: 'missed' | 'allowed', plural: string): string {
+  const habits: Record<TacticalMotifT, string> = {
+    fork: 'look for squares where one piece hits two targets',
+    pin: 'look along lines through the king and queen',
+    skewer: 'check which valuable pieces stand on the same line',
+    discovered_attack: 'ask what the pieces behind a moving piece attack',
+    back_rank_mate: 'check whether the king has an escape square off the back rank',
+    removal_of_defender: 'ask which piece is the only guard of another',
+    overloading: 'look for pieces that guard two things at once',
+    hanging_piece: 'list every undefended piece on the board',
+  };
+  
+  return kind === 'missed'
+    ? `Solve puzzles themed on ${plural}, and in your games ${habits[motif]} before settling on a move`
+    : `Before each move, ${habits[motif]} - this time for your opponent's reply`;
+}
+
 function generateDescription(featureName: string, impact: number, category: string): string {
   const isPositive = impact > 0;
   const direction = isPositive ? 'correlates with better positions' : 'correlates with worse positions';
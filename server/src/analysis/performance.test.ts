@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computePerformance, expectedScore, gameScore } from './performance';
+import { CompactGameSummary, type CompactGameSummaryT } from '../summaries/schemas';
+
+let gameCount = 0;
+
+function game(result: string, userRating: number | null, oppRating: number | null, rated = true): CompactGameSummaryT {
+  return CompactGameSummary.parse({
+    gameId: `g${++gameCount}`,
+    date: '2026-01-01',
+    userColor: 'white',
+    result,
+    rated,
+    opponent: 'x',
+    timeControl: { type: 'blitz', base: 300, increment: 0 },
+    userRating,
+    oppRating,
+    whiteRating: userRating,
+    blackRating: oppRating,
+    keyPositions: [],
+  });
+}
+
+test('expected score follows the Elo curve', () => {
+  assert.equal(expectedScore(1500, 1500), 0.5);
+  assert.ok(Math.abs(expectedScore(1900, 1500) - 10 / 11) < 1e-9); // 400 points: 10 to 1
+  assert.ok(Math.abs(expectedScore(1500, 1720) + expectedScore(1720, 1500) - 1) < 1e-9);
+});
+
+test('game scores count wins, losses and draws however the game ended', () => {
+  assert.deepEqual(['win', 'checkmate'].map(r => gameScore(game(r, 1500, 1500))), [1, 1]);
+  assert.deepEqual(['loss', 'resign', 'timeout'].map(r => gameScore(game(r, 1500, 1500))), [0, 0, 0]);
+  assert.deepEqual(['draw', 'stalemate'].map(r => gameScore(game(r, 1500, 1500))), [0.5, 0.5]);
+  assert.deepEqual(['abort', 'other'].map(r => gameScore(game(r, 1500, 1500))), [null, null]);
+});
+
+test('only rated games with both ratings and a result count', () => {
+  assert.equal(computePerformance([]), null);
+  assert.equal(computePerformance([
+    game('win', 1500, 1500, false),
+    game('win', null, 1500),
+    game('win', 1500, null),
+    game('abort', 1500, 1500),
+  ]), null);
+});
+
+test('scoring as expected performs at the opponents\' average', () => {
+  const p = computePerformance([
+    game('win', 1500, 1500),
+    game('loss', 1500, 1500),
+    game('draw', 1500, 1500),
+    game('draw', 1500, 1500),
+  ])!;
+  assert.equal(p.games, 4);
+  assert.equal(p.score, 2);
+  assert.equal(p.scoreVsExpected, 0);
+  assert.equal(p.performanceRating, 1500);
+  // Wilson 95% interval on 2/4: 15.0% - 85.0%
+  assert.deepEqual(p.scoreVsExpectedRange, [-35, 35]);
+  assert.equal(p.performanceRange[0] + p.performanceRange[1], 3000);
+});
+
+test('a perfect score is capped 800 above the opponents, with a wide interval', () => {
+  const p = computePerformance([game('win', 1500, 1500)])!;
+  assert.equal(p.scoreRate, 100);
+  assert.equal(p.scoreVsExpected, 50);
+  assert.equal(p.performanceRating, 2300);
+  // One game: the interval's low end is a 20.7% score
+  assert.deepEqual(p.performanceRange, [1266, 2300]);
+});
+
+test('beating stronger opponents beats expectation', () => {
+  const p = computePerformance([game('win', 1500, 1700), game('draw', 1500, 1700)])!;
+  assert.equal(p.expectedRate, Math.round(expectedScore(1500, 1700) * 1000) / 10);
+  assert.ok(p.scoreVsExpected > 50);
+  assert.equal(p.avgOpponentRating, 1700);
+  assert.ok(p.performanceRating > 1700);
+});
@@ -0,0 +1,146 @@
+/**
+ * Performance Rating
+ *
+ * Elo math over the user's rated games, so results are read against who they
+ * played rather than as raw win rates:
+ * - Expected score per game from the rating gap (the Elo logistic curve)
+ * - Score vs expected: how far above or below the ratings' prediction the
+ *   user scored, in percentage points
+ * - Performance rating: the rating whose expected score against the same
+ *   opponents equals the user's actual score (capped at ±800 from their average)
+ * - 95% Wilson intervals on the score rate, carried over to both numbers so
+ *   small samples read as such
+ */
+
+import type { CompactGameSummaryT } from '../summaries/schemas';
+import type { PerformanceBreakdownT, PerformanceStatsT } from '../profile/schema';
+import { getMonth } from '../profile/historicalStats';
+
+const MAX_RATING_GAP = 800;
+const Z_95 = 1.96;
+
+/**
+ * Expected score (0-1) for a player against an opponent
+ */
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * Rating gap that gives a score rate (0-1), capped at ±800
+ */
+function ratingGapForScore(rate: number): number {
+  if (rate <= 0) return -MAX_RATING_GAP;
+  if (rate >= 1) return MAX_RATING_GAP;
+  const gap = 400 * Math.log10(rate / (1 - rate));
+  return Math.max(-MAX_RATING_GAP, Math.min(MAX_RATING_GAP, gap));
+}
+
+/**
+ * 95% Wilson interval for a rate (0-1) over n games
+ */
+function wilsonInterval(rate: number, n: number): [number, number] {
+  const z2 = Z_95 * Z_95;
+  const center = (rate + z2 / (2 * n)) / (1 + z2 / n);
+  const half = (Z_95 * Math.sqrt((rate * (1 - rate)) / n + z2 / (4 * n * n))) / (1 + z2 / n);
+  return [Math.max(0, center - half), Math.min(1, center + half)];
+}
+
+/**
+ * The user's score in a game (1, 0.5, 0), or null if it wasn't played out
+ */
+export function gameScore(game: CompactGameSummaryT): number | null {
+  if (game.result === 'win' || game.result === 'checkmate') return 1;
+  if (game.result === 'loss' || game.result === 'resign' || game.result === 'timeout') return 0;
+  if (game.result === 'draw' || game.result === 'stalemate') return 0.5;
+  return null;
+}
+
+/**
+ * Rated games with both ratings and a result
+ */
+function ratedGames(games: CompactGameSummaryT[]) {
+  const rated: { score: number; rating: number; opponentRating: number }[] = [];
+  for (const game of games) {
+    const score = gameScore(game);
+    if (!game.rated || game.userRating === null || game.oppRating === null || score === null) continue;
+    rated.push({ score, rating: game.userRating, opponentRating: game.oppRating });
+  }
+  return rated;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Score vs expected and performance rating over a set of games, or null
+ * when none of them were rated with both ratings known
+ */
+export function computePerformance(games: CompactGameSummaryT[]): PerformanceStatsT | null {
+  const rated = ratedGames(games);
+  const n = rated.length;
+  if (n === 0) return null;
+
+  const score = rated.reduce((sum, g) => sum + g.score, 0);
+  const expected = rated.reduce((sum, g) => sum + expectedScore(g.rating, g.opponentRating), 0);
+  const avgRating = rated.reduce((sum, g) => sum + g.rating, 0) / n;
+  const avgOpponentRating = rated.reduce((sum, g) => sum + g.opponentRating, 0) / n;
+
+  const rate = score / n;
+  const expectedRate = expected / n;
+  const [low, high] = wilsonInterval(rate, n);
+
+  return {
+    games: n,
+    score,
+    expectedScore: round1(expected),
+    scoreRate: round1(rate * 100),
+    expectedRate: round1(expectedRate * 100),
+    scoreVsExpected: round1((rate - expectedRate) * 100),
+    scoreVsExpectedRange: [round1((low - expectedRate) * 100), round1((high - expectedRate) * 100)],
+    avgRating: Math.round(avgRating),
+    avgOpponentRating: Math.round(avgOpponentRating),
+    performanceRating: Math.round(avgOpponentRating + ratingGapForScore(rate)),
+    performanceRange: [
+      Math.round(avgOpponentRating + ratingGapForScore(low)),
+      Math.round(avgOpponentRating + ratingGapForScore(high)),
+    ],
+  };
+}
+
+/**
+ * Performance overall, by color and by month (games sorted oldest first),
+ * or null without rated games
+ */
+export function computePerformanceBreakdown(games: CompactGameSummaryT[]): PerformanceBreakdownT | null {
+  const overall = computePerformance(games);
+  if (!overall) return null;
+
+  const months = new Map<string, CompactGameSummaryT[]>();
+  for (const game of games) {
+    const month = getMonth(new Date(game.date));
+    if (!months.has(month)) months.set(month, []);
+    months.get(month)!.push(game);
+  }
+
+  const byMonth: PerformanceBreakdownT['byMonth'] = [];
+  for (const [month, monthGames] of Array.from(months.entries())) {
+    const performance = computePerformance(monthGames);
+    if (performance) byMonth.push({ month, ...performance });
+  }
+
+  return {
+    overall,
+    white: computePerformance(games.filter(g => g.userColor === 'white')),
+    black: computePerformance(games.filter(g => g.userColor === 'black')),
+    byMonth: byMonth.sort((a, b) => a.month.localeCompare(b.month)),
+  };
+}
+
+/**
+ * "performance 1640 (1480-1800), +8% vs expected against 1590 avg over 12 rated games"
+ */
+export function formatPerformance(p: PerformanceStatsT): string {
+  const sign = p.scoreVsExpected >= 0 ? '+' : '';
+  return `performance ${p.performanceRating} (${p.performanceRange[0]}-${p.performanceRange[1]}), ` +
+    `${sign}${p.scoreVsExpected}% vs expected against ${p.avgOpponentRating} avg over ${p.games} rated games`;
+}
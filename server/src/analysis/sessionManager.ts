@@ -3,13 +3,15 @@
  *
  * Tracks ongoing analysis sessions and provides progress updates.
  * Enables real-time progress streaming and incremental results.
+ * Sessions are keyed by user ID (background re-analysis uses `<userId>:reanalysis`,
+ * scouting `<userId>:scout:<opponent>`).
  */
 
 import { EventEmitter } from 'events';
 
 export interface AnalysisProgress {
   userId: string;
-  status: 'pending' | 'fetching' | 'analyzing' | 'complete' | 'error';
+  status: 'pending' | 'fetching' | 'analyzing' | 'paused' | 'cancelled' | 'complete' | 'error';
   totalGames: number;
   gamesAnalyzed: number;
   gamesRemaining: number;
@@ -132,7 +134,8 @@ export function completeSession(userId: string): void {
 }
 
 /**
- * Mark session as errored
+ * Mark session as errored. Subscribers see it as a progress update with status
+ * 'error' - not as an 'error' event, which throws when nobody listens for it.
  */
 export function errorSession(userId: string, error: string): void {
   const session = sessions.get(userId);
@@ -143,7 +146,36 @@ export function errorSession(userId: string, error: string): void {
   session.progress.completedAt = Date.now();
 
   session.emitter.emit('progress', session.progress);
-  session.emitter.emit('error', { error, progress: session.progress });
+  session.emitter.emit('failed', { error, progress: session.progress });
+}
+
+/**
+ * Mark session as paused (the ingest queue starts a new session on resume)
+ */
+export function pauseSession(userId: string): void {
+  const session = sessions.get(userId);
+  if (!session) return;
+
+  session.progress.status = 'paused';
+  session.progress.estimatedSecondsRemaining = null;
+
+  session.emitter.emit('progress', session.progress);
+}
+
+/**
+ * Mark session as cancelled by the user
+ */
+export function cancelSession(userId: string): void {
+  const session = sessions.get(userId);
+  if (!session) return;
+
+  session.progress.status = 'cancelled';
+  session.progress.completedAt = Date.now();
+  session.progress.estimatedSecondsRemaining = null;
+
+  session.abortController.abort();
+  session.emitter.emit('progress', session.progress);
+  session.emitter.emit('cancelled');
 }
 
 /**
@@ -0,0 +1,284 @@
+/**
+ * Tactical Motifs
+ *
+ * Names the tactic behind a mistake by replaying engine lines on a board:
+ * - missed: the engine's best line in the position the mover faced (there was
+ *   a tactic and the mover played something else)
+ * - allowed: the opponent's best reply after the move (the move walked into one)
+ * Motifs: fork, pin, skewer, discovered attack, back-rank mate, removal of the
+ * defender, overloading and hanging pieces. Only the attacker's first few moves
+ * are read - that's where the tactic is; the rest is the engine cashing in.
+ */
+
+import { Chess, type Color, type Move, type PieceSymbol, type Square } from 'chess.js';
+import type { MoveClassificationT, TacticalMotifT, TacticT } from '../summaries/schemas';
+
+const ATTACKER_MOVES = 3;     // Attacker moves read per line
+const MIN_TARGET_VALUE = 3;   // Loose pawns aren't worth naming a tactic after
+
+const VALUES: Record<PieceSymbol, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 100 };
+
+const PIECE_NAMES: Record<PieceSymbol, string> = {
+  p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king',
+};
+
+const MOTIF_NAMES: Record<TacticalMotifT, string> = {
+  fork: 'fork',
+  pin: 'pin',
+  skewer: 'skewer',
+  discovered_attack: 'discovered attack',
+  back_rank_mate: 'back-rank mate',
+  removal_of_defender: 'removal of the defender',
+  overloading: 'overloading',
+  hanging_piece: 'hanging piece',
+};
+
+const MOTIF_PLURALS: Record<TacticalMotifT, string> = {
+  fork: 'forks',
+  pin: 'pins',
+  skewer: 'skewers',
+  discovered_attack: 'discovered attacks',
+  back_rank_mate: 'back-rank mates',
+  removal_of_defender: 'removals of the defender',
+  overloading: 'overloaded defenders',
+  hanging_piece: 'hanging pieces',
+};
+
+// Tags on key positions with a named tactic (contentSelector looks for missed_tactic)
+export const TACTIC_TAGS = ['missed_tactic', 'allowed_tactic'] as const;
+
+const ROOK_DIRECTIONS = [[0, 1], [0, -1], [1, 0], [-1, 0]];
+const BISHOP_DIRECTIONS = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+type Motif = Pick<TacticT, 'motif' | 'piece'>;
+
+/**
+ * "knight fork", "back-rank mate", "hanging piece" (or "knight forks"...) -
+ * forks, pins and skewers are named after the piece that makes them
+ */
+export function describeTactic(tactic: Motif, plural: boolean = false): string {
+  const name = (plural ? MOTIF_PLURALS : MOTIF_NAMES)[tactic.motif];
+  const byPiece = tactic.motif === 'fork' || tactic.motif === 'pin' || tactic.motif === 'skewer';
+  return byPiece ? `${PIECE_NAMES[tactic.piece]} ${name}` : name;
+}
+
+/**
+ * Tactics behind a move: missed in the best line (when the move wasn't it) and
+ * allowed in the opponent's reply. Only mistakes, blunders and missed wins are
+ * read - smaller slips rarely hide a tactic.
+ */
+export function findMoveTactics(ply: {
+  classification: MoveClassificationT | null;
+  fenBefore: string;
+  fenAfter: string;
+  playedBest: boolean;
+  bestLine: string[] | undefined;     // SAN from fenBefore
+  replyLine: string[] | undefined;    // SAN from fenAfter
+  chess960?: boolean;
+}): TacticT[] {
+  const { classification, chess960 = false } = ply;
+  if (classification !== 'mistake' && classification !== 'blunder' && classification !== 'missed_win') return [];
+
+  const missed = ply.playedBest || !ply.bestLine ? [] : findMotifs(ply.fenBefore, ply.bestLine, chess960);
+  const allowed = ply.replyLine ? findMotifs(ply.fenAfter, ply.replyLine, chess960) : [];
+  return [
+    ...missed.map(m => ({ ...m, kind: 'missed' as const })),
+    ...allowed.map(m => ({ ...m, kind: 'allowed' as const })),
+  ];
+}
+
+/**
+ * A key position's tags with the tactic tags brought up to date
+ */
+export function withTacticTags(tags: string[], tactics: TacticT[]): string[] {
+  const kept = tags.filter(t => !(TACTIC_TAGS as readonly string[]).includes(t));
+  if (tactics.some(t => t.kind === 'missed')) kept.push('missed_tactic');
+  if (tactics.some(t => t.kind === 'allowed')) kept.push('allowed_tactic');
+  return kept;
+}
+
+/**
+ * Motifs in a line (SAN) for the side to move at its start, first occurrence each
+ */
+export function findMotifs(fen: string, line: string[], chess960: boolean = false): Motif[] {
+  const moves = replay(fen, line, chess960);
+  if (moves.length === 0) return [];
+
+  const attacker = moves[0].color;
+  const defender: Color = attacker === 'w' ? 'b' : 'w';
+  const found = new Map<TacticalMotifT, PieceSymbol>();
+  const add = (motif: TacticalMotifT, piece: PieceSymbol) => {
+    if (!found.has(motif)) found.set(motif, piece);
+  };
+
+  for (const mv of moves) {
+    if (mv.color === attacker && mv.san.endsWith('#') && isBackRankMate(mv, defender)) add('back_rank_mate', mv.piece);
+  }
+
+  const attackerMoves = moves
+    .map((mv, i) => ({ mv, i }))
+    .filter(({ mv }) => mv.color === attacker)
+    .slice(0, ATTACKER_MOVES);
+
+  for (const { mv, i } of attackerMoves) {
+    const before = new Chess(mv.before);
+    const after = new Chess(mv.after);
+
+    if (i === 0 && isHangingCapture(before, mv, defender)) add('hanging_piece', mv.piece);
+    if (isFork(after, mv, defender)) add('fork', mv.piece);
+    const lineMotif = pinOrSkewer(after, mv, defender);
+    if (lineMotif) add(lineMotif, mv.piece);
+    if (isDiscoveredAttack(before, after, mv, defender)) add('discovered_attack', mv.piece);
+
+    const combination = defenderCombination(before, mv, moves[i + 1], moves[i + 2], defender);
+    if (combination) add(combination, mv.piece);
+  }
+
+  return [...found].map(([motif, piece]) => ({ motif, piece }));
+}
+
+/**
+ * Play the line, stopping at the first move that doesn't apply (Chess960
+ * castling rights are dropped - chess.js can't load them)
+ */
+function replay(fen: string, line: string[], chess960: boolean): Move[] {
+  const parts = fen.split(' ');
+  let chess: Chess;
+  try {
+    chess = new Chess(chess960 ? [...parts.slice(0, 2), '-', ...parts.slice(3)].join(' ') : fen);
+  } catch {
+    return [];
+  }
+
+  const moves: Move[] = [];
+  for (const san of line) {
+    try {
+      moves.push(chess.move(san));
+    } catch {
+      break;
+    }
+  }
+  return moves;
+}
+
+function pieceAt(chess: Chess, file: number, rank: number): { square: Square; type: PieceSymbol; color: Color } | null {
+  if (file < 0 || file > 7 || rank < 0 || rank > 7) return null;
+  const square = `${'abcdefgh'[file]}${rank + 1}` as Square;
+  const piece = chess.get(square);
+  return piece ? { square, type: piece.type, color: piece.color } : null;
+}
+
+function defenderPieces(chess: Chess, color: Color) {
+  return chess.board().flat().filter((p): p is NonNullable<typeof p> => p !== null && p.color === color);
+}
+
+function isDefended(chess: Chess, square: Square, color: Color): boolean {
+  return chess.attackers(square, color).length > 0;
+}
+
+/**
+ * A piece worth winning from `by`: the king, anything worth more, or anything undefended
+ */
+function isTarget(chess: Chess, target: { square: Square; type: PieceSymbol; color: Color }, by: PieceSymbol): boolean {
+  if (target.type === 'k') return true;
+  if (VALUES[target.type] < MIN_TARGET_VALUE) return false;
+  return VALUES[target.type] > VALUES[by] || !isDefended(chess, target.square, target.color);
+}
+
+/**
+ * The first move takes a piece nobody was guarding
+ */
+function isHangingCapture(before: Chess, mv: Move, defender: Color): boolean {
+  if (!mv.captured || VALUES[mv.captured] < MIN_TARGET_VALUE) return false;
+  return !isDefended(before, mv.to, defender);
+}
+
+/**
+ * The moved piece attacks two or more targets at once
+ */
+function isFork(after: Chess, mv: Move, defender: Color): boolean {
+  const piece = mv.promotion ?? mv.piece;
+  const targets = defenderPieces(after, defender).filter(t =>
+    after.attackers(t.square, mv.color).includes(mv.to) && isTarget(after, t, piece)
+  );
+  return targets.length >= 2;
+}
+
+/**
+ * A slider lined up on two enemy pieces: the front one can't move without
+ * losing a bigger one behind it (pin), or must move and give up the one behind (skewer)
+ */
+function pinOrSkewer(after: Chess, mv: Move, defender: Color): 'pin' | 'skewer' | null {
+  const piece = mv.promotion ?? mv.piece;
+  const directions =
+    piece === 'r' ? ROOK_DIRECTIONS :
+    piece === 'b' ? BISHOP_DIRECTIONS :
+    piece === 'q' ? [...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS] :
+    [];
+
+  const file = mv.to.charCodeAt(0) - 97;
+  const rank = Number(mv.to[1]) - 1;
+  for (const [df, dr] of directions) {
+    const onRay: NonNullable<ReturnType<typeof pieceAt>>[] = [];
+    for (let f = file + df, r = rank + dr; onRay.length < 2 && f >= 0 && f < 8 && r >= 0 && r < 8; f += df, r += dr) {
+      const found = pieceAt(after, f, r);
+      if (found) onRay.push(found);
+    }
+    const [front, back] = onRay;
+    if (!front || !back || front.color !== defender || back.color !== defender) continue;
+
+    // A pawn pinned to the king is everyday chess, not a tactic
+    if (VALUES[back.type] > VALUES[front.type] && VALUES[front.type] >= MIN_TARGET_VALUE && isTarget(after, back, piece)) return 'pin';
+    if (VALUES[front.type] > VALUES[back.type] && isTarget(after, front, piece) && VALUES[back.type] >= MIN_TARGET_VALUE) {
+      return 'skewer';
+    }
+  }
+  return null;
+}
+
+/**
+ * Moving the piece uncovers another one's attack on a target
+ */
+function isDiscoveredAttack(before: Chess, after: Chess, mv: Move, defender: Color): boolean {
+  const sliders = defenderPieces(after, mv.color).filter(p =>
+    (p.type === 'b' || p.type === 'r' || p.type === 'q') && p.square !== mv.to
+  );
+  return defenderPieces(after, defender).some(target =>
+    sliders.some(s =>
+      after.attackers(target.square, mv.color).includes(s.square) &&
+      !before.attackers(target.square, mv.color).includes(s.square) &&
+      isTarget(after, target, s.type)
+    )
+  );
+}
+
+/**
+ * A capture that takes away (removal of the defender) or draws away
+ * (overloading) the only guard of another piece, which the next move wins
+ */
+function defenderCombination(
+  before: Chess,
+  mv: Move,
+  reply: Move | undefined,
+  next: Move | undefined,
+  defender: Color
+): 'removal_of_defender' | 'overloading' | null {
+  if (!mv.captured || !reply || !next?.captured || next.to === mv.to) return null;
+  if (VALUES[next.captured] < MIN_TARGET_VALUE || reply.from === next.to) return null;
+
+  const guards = before.attackers(next.to, defender);
+  if (guards.includes(mv.to)) return 'removal_of_defender';
+  if (reply.to === mv.to && reply.captured && guards.includes(reply.from)) return 'overloading';
+  return null;
+}
+
+/**
+ * Mate by a rook or queen along the back rank the king is stuck on
+ */
+function isBackRankMate(mv: Move, defender: Color): boolean {
+  const piece = mv.promotion ?? mv.piece;
+  if (piece !== 'r' && piece !== 'q') return false;
+  const backRank = defender === 'w' ? '1' : '8';
+  const king = new Chess(mv.after).findPiece({ type: 'k', color: defender })[0];
+  return king?.[1] === backRank && mv.to[1] === backRank;
+}
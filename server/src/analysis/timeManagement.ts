@@ -0,0 +1,248 @@
+/**
+ * Time Management Analysis
+ *
+ * Uses the per-move clocks parsed from PGN %clk comments to answer:
+ * - Does the blunder rate climb as the clock runs down?
+ * - Where is time being burned on moves that didn't need thought?
+ * - How many games are lost on time from winning positions?
+ */
+
+import { Chess } from 'chess.js';
+import type { CompactGameSummaryT } from '../summaries/schemas';
+import type { TimeManagementStatsT, TimeExampleT } from '../profile/schema';
+import { isBlunder, isUserMove, moveAccuracy } from './moveClassification';
+
+type KeyPositionT = CompactGameSummaryT['keyPositions'][number];
+
+// Clock thresholds (seconds)
+export const TIME_SCRAMBLE_SECONDS = 120;
+const DECIDED_EVAL = 5.0;             // Positions this lopsided rarely need deep thought
+const WINNING_EVAL = 2.0;             // "Winning" when flagging
+const MAX_EXAMPLES = 3;
+
+const TIME_BUCKETS: { label: string; minSeconds: number; maxSeconds: number | null }[] = [
+  { label: '<10s', minSeconds: 0, maxSeconds: 10 },
+  { label: '10-30s', minSeconds: 10, maxSeconds: 30 },
+  { label: '30s-1m', minSeconds: 30, maxSeconds: 60 },
+  { label: '1-2m', minSeconds: 60, maxSeconds: 120 },
+  { label: '2m+', minSeconds: 120, maxSeconds: null },
+];
+
+/**
+ * True if any of the game's moves carries a clock reading
+ */
+export function hasClockData(game: CompactGameSummaryT): boolean {
+  return game.keyPositions.some(p => p.clock !== null);
+}
+
+/**
+ * Eval from the user's point of view (pawns, positive = good for the user)
+ */
+function userEval(game: CompactGameSummaryT, evalWhite: number | null): number | null {
+  if (evalWhite === null) return null;
+  return game.userColor === 'white' ? evalWhite : -evalWhite;
+}
+
+/**
+ * Seconds that count as "too long" for an easy move in this time control
+ */
+function slowMoveThreshold(game: CompactGameSummaryT): number | null {
+  const base = game.timeControl.base;
+  if (base === null || base <= 0) return null;
+  return Math.max(5, base * 0.05);
+}
+
+/**
+ * Why a move didn't need much thought, or null if it wasn't easy
+ * (only legal move, a recapture, or a position that was already decided)
+ */
+function easyMoveReason(
+  game: CompactGameSummaryT,
+  pos: KeyPositionT,
+  previous: KeyPositionT | undefined
+): string | null {
+  const before = userEval(game, pos.evalBefore);
+  if (before !== null && Math.abs(before) >= DECIDED_EVAL) {
+    return before > 0 ? 'position was already winning' : 'position was already lost';
+  }
+
+  if (!previous) return null;
+
+  const prevTarget = previous.move?.match(/x([a-h][1-8])/)?.[1];
+  const target = pos.move?.match(/x([a-h][1-8])/)?.[1];
+  if (prevTarget && target && prevTarget === target) return 'simple recapture';
+
+  try {
+    const chess = new Chess(previous.fen);
+    if (chess.moves().length === 1) return 'only legal move';
+  } catch {
+    // Unparseable FEN - just skip the only-move check
+  }
+
+  return null;
+}
+
+function toExample(game: CompactGameSummaryT, pos: KeyPositionT, description: string): TimeExampleT {
+  return {
+    gameId: game.gameId,
+    moveNumber: pos.moveNo,
+    move: pos.move ?? null,
+    fen: pos.fen,
+    clock: pos.clock,
+    timeSpent: pos.timeSpent,
+    description,
+  };
+}
+
+function formatSeconds(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const m = Math.floor(seconds / 60);
+  const s = Math.round(seconds % 60);
+  return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10;
+}
+
+/**
+ * Seconds on the mover's clock when they started thinking about this move
+ */
+function clockBeforeMove(game: CompactGameSummaryT, pos: KeyPositionT): number | null {
+  if (pos.clock === null) return null;
+  return Math.max(0, pos.clock + (pos.timeSpent ?? 0) - (game.timeControl.increment ?? 0));
+}
+
+/**
+ * Number of the user's blunders made with under 2 minutes on the clock
+ */
+export function countTimeScrambleBlunders(game: CompactGameSummaryT): number {
+  return game.keyPositions.filter(p => {
+    const clock = clockBeforeMove(game, p);
+    return isUserMove(game, p) && clock !== null && clock < TIME_SCRAMBLE_SECONDS && isBlunder(p);
+  }).length;
+}
+
+function isLossOnTime(game: CompactGameSummaryT): boolean {
+  return game.termination === 'time' && (game.result === 'loss' || game.result === 'timeout');
+}
+
+/**
+ * Last known eval (user's point of view) before the game ended
+ */
+function finalUserEval(game: CompactGameSummaryT): number | null {
+  const last = [...game.keyPositions].reverse().find(p => p.evalAfter !== null);
+  return last ? userEval(game, last.evalAfter) : null;
+}
+
+/**
+ * True if the user lost on time while ahead on the board
+ */
+export function lostOnTimeFromWinning(game: CompactGameSummaryT): boolean {
+  if (!isLossOnTime(game)) return false;
+  const evalAtFlag = finalUserEval(game);
+  return evalAtFlag !== null && evalAtFlag >= WINNING_EVAL;
+}
+
+/**
+ * Analyze time management across games.
+ * Returns null when none of the games have clock data.
+ */
+export function analyzeTimeManagement(games: CompactGameSummaryT[]): TimeManagementStatsT | null {
+  const clockGames = games.filter(g => g.timeControl.type !== 'daily' && hasClockData(g));
+  if (clockGames.length === 0) return null;
+
+  const buckets = TIME_BUCKETS.map(b => ({ ...b, moves: 0, blunders: 0, blunderRate: 0 }));
+  const timeSpent: number[] = [];
+  const scrambleAccuracy: number[] = [];
+  const otherAccuracy: number[] = [];
+  let timeScrambleMoves = 0;
+  let timeScrambleBlunders = 0;
+
+  const slowEasy: { example: TimeExampleT; spent: number }[] = [];
+  let slowEasyTotal = 0;
+
+  let lossesOnTime = 0;
+  const flaggedWinning: TimeExampleT[] = [];
+
+  for (const game of clockGames) {
+    const threshold = slowMoveThreshold(game);
+
+    game.keyPositions.forEach((pos, idx) => {
+      if (!isUserMove(game, pos)) return;
+
+      if (pos.timeSpent !== null) timeSpent.push(pos.timeSpent);
+
+      // Blunder rate by clock. Bucket on the time left *before* the move was made.
+      const clockBefore = clockBeforeMove(game, pos);
+      if (clockBefore === null) return;
+      const blunder = isBlunder(pos);
+      const bucket = buckets.find(b => clockBefore >= b.minSeconds && (b.maxSeconds === null || clockBefore < b.maxSeconds));
+      if (bucket) {
+        bucket.moves++;
+        if (blunder) bucket.blunders++;
+      }
+
+      const accuracy = moveAccuracy(pos);
+      if (clockBefore < TIME_SCRAMBLE_SECONDS) {
+        timeScrambleMoves++;
+        if (blunder) timeScrambleBlunders++;
+        if (accuracy !== null) scrambleAccuracy.push(accuracy);
+      } else if (accuracy !== null) {
+        otherAccuracy.push(accuracy);
+      }
+
+      // Slow moves in easy positions
+      if (threshold !== null && pos.timeSpent !== null && pos.timeSpent >= threshold) {
+        const reason = easyMoveReason(game, pos, game.keyPositions[idx - 1]);
+        if (reason) {
+          slowEasyTotal += pos.timeSpent;
+          slowEasy.push({
+            spent: pos.timeSpent,
+            example: toExample(game, pos, `Spent ${formatSeconds(pos.timeSpent)} on ${pos.move ?? 'a move'} (${reason})`),
+          });
+        }
+      }
+    });
+
+    if (isLossOnTime(game)) {
+      lossesOnTime++;
+      const lastPos = game.keyPositions[game.keyPositions.length - 1];
+      if (lastPos && lostOnTimeFromWinning(game)) {
+        flaggedWinning.push(toExample(
+          game,
+          lastPos,
+          `Lost on time vs ${game.opponent || 'opponent'} while up ${finalUserEval(game)!.toFixed(1)}`
+        ));
+      }
+    }
+  }
+
+  for (const b of buckets) {
+    b.blunderRate = b.moves > 0 ? Math.round((b.blunders / b.moves) * 1000) / 10 : 0;
+  }
+
+  return {
+    gamesWithClockData: clockGames.length,
+    avgTimePerMove: average(timeSpent),
+    blunderRateByTimeLeft: buckets,
+    timeScrambleMoves,
+    timeScrambleBlunders,
+    accuracyLast2Min: average(scrambleAccuracy),
+    accuracyOtherwise: average(otherAccuracy),
+    slowEasyMoves: {
+      count: slowEasy.length,
+      totalTimeSpent: Math.round(slowEasyTotal),
+      examples: slowEasy
+        .sort((a, b) => b.spent - a.spent)
+        .slice(0, MAX_EXAMPLES)
+        .map(s => s.example),
+    },
+    lossesOnTime,
+    lossesOnTimeFromWinning: {
+      count: flaggedWinning.length,
+      examples: flaggedWinning.slice(-MAX_EXAMPLES).reverse(),
+    },
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Drill Lines
+ *
+ * Opening lines from the user's own games that went wrong: the moves from the
+ * starting position up to the user's first inaccuracy (or worse) in the
+ * opening. The user replays their line against the server and has to find a
+ * better move where they went wrong - the engine's best and near-equal moves
+ * and the book moves are accepted. Standard games with engine evals only.
+ */
+
+import type { CompactGameSummaryT } from '../summaries/schemas';
+import { isError, isUserMove } from '../analysis/moveClassification';
+import { toEpd } from '../openings/ecoTree';
+import { DEFAULT_MAX_PLY } from '../openings/repertoire';
+import { bookAnswers, engineAnswers } from '../training/items';
+import { updateDrillSet } from './store';
+import type { DrillSetT, DrillT } from './schema';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/**
+ * The drill for a game: its line up to the user's first opening error, or null
+ */
+function drillFromGame(game: CompactGameSummaryT, now: Date): DrillT | null {
+  const positions = game.keyPositions.slice(0, DEFAULT_MAX_PLY);
+  const line: string[] = [];
+
+  for (let i = 0; i < positions.length; i++) {
+    const pos = positions[i];
+    // Older summaries kept only selected moves - stop at the first gap
+    if (!pos.move || pos.side !== (i % 2 === 0 ? 'W' : 'B') || pos.moveNo !== Math.floor(i / 2) + 1) return null;
+
+    if (isUserMove(game, pos) && isError(pos)) {
+      const fen = i === 0 ? START_FEN : positions[i - 1].fen;
+      const answers = [...new Set([...engineAnswers(pos.alternatives, pos.side), ...bookAnswers(fen)])];
+      if (answers.length === 0 || answers.includes(pos.move)) return null;
+
+      return {
+        id: `drill:${game.userColor}:${toEpd(fen)}`,
+        color: game.userColor,
+        line,
+        fen,
+        answers,
+        played: pos.move,
+        opening: game.opening.name,
+        gameIds: [game.gameId],
+        gameUrl: game.gameUrl,
+        date: game.date,
+        box: 0,
+        due: now.toISOString(),
+        attempts: 0,
+        passes: 0,
+        lastAttemptAt: null,
+        createdAt: now.toISOString(),
+      };
+    }
+    line.push(pos.move);
+  }
+  return null;
+}
+
+/**
+ * Add drills for games stored since the last sync (mutates the set). A game
+ * that reached a known drill position adds itself to that drill.
+ */
+export function collectDrills(set: DrillSetT, summaries: CompactGameSummaryT[], now: Date = new Date()): number {
+  const byId = new Map(set.drills.map(d => [d.id, d]));
+  const known = new Set(set.drills.flatMap(d => d.gameIds));
+  const byDate = [...summaries].sort((a, b) => b.date.localeCompare(a.date));
+  let added = 0;
+
+  for (const game of byDate) {
+    if (known.has(game.gameId) || game.variant !== 'standard' || game.startFen) continue;
+    if (game.analysis?.engine === 'none') continue;
+
+    const drill = drillFromGame(game, now);
+    if (!drill) continue;
+
+    const existing = byId.get(drill.id);
+    if (existing) {
+      existing.gameIds.push(game.gameId);
+      if (game.date > existing.date) {
+        existing.date = game.date;
+        existing.gameUrl = drill.gameUrl;
+      }
+      continue;
+    }
+    byId.set(drill.id, drill);
+    set.drills.push(drill);
+    added++;
+  }
+  return added;
+}
+
+/**
+ * Sync drills with the stored games. Returns the updated set.
+ */
+export function syncDrills(userId: string, summaries: CompactGameSummaryT[]): Promise<DrillSetT> {
+  return updateDrillSet(userId, (set) => {
+    const added = collectDrills(set, summaries);
+    if (added > 0) console.log(`[Drills] ${added} new opening drills for ${userId}`);
+    return set;
+  });
+}
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+export const Drill = z.object({
+  id: z.string(),                   // `drill:${color}:${epd}` - one per position, however many games reached it
+  color: z.enum(["white", "black"]), // The user's color
+  line: z.array(z.string()),        // SAN from the starting position up to the critical position
+  fen: z.string(),                  // Critical position, user to move
+  answers: z.array(z.string()),     // Accepted moves (SAN): the engine's best and near-equal ones, and the book moves
+  played: z.string(),               // What the user played there (SAN)
+  opening: z.string().nullable().default(null),
+  gameIds: z.array(z.string()).default([]), // Games that reached the position and went wrong the same way
+  gameUrl: z.string().nullable().default(null),
+  date: z.string(),                 // Most recent of those games
+
+  // Leitner scheduling: a pass moves the line up a box (longer wait), a failure sends it back to box 0
+  box: z.number().default(0),
+  due: z.string(),                  // ISO timestamp
+  attempts: z.number().default(0),
+  passes: z.number().default(0),
+  lastAttemptAt: z.string().nullable().default(null),
+  createdAt: z.string(),
+});
+export type DrillT = z.infer<typeof Drill>;
+
+export const DrillAttempt = z.object({
+  drillId: z.string(),
+  at: z.string(),
+  passed: z.boolean(),
+  move: z.string(),                 // The user's move at the critical position (SAN)
+});
+export type DrillAttemptT = z.infer<typeof DrillAttempt>;
+
+export const DrillSet = z.object({
+  userId: z.string(),
+  drills: z.array(Drill).default([]),
+  attempts: z.array(DrillAttempt).default([]), // Most recent attempts, oldest first (capped)
+  updatedAt: z.string(),
+});
+export type DrillSetT = z.infer<typeof DrillSet>;
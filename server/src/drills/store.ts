@@ -0,0 +1,56 @@
+/**
+ * Drill Storage
+ *
+ * A user's opening drills, their scheduling state and recent attempts, next to
+ * their game summaries (data/<userId>/drills.json).
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DrillSet, type DrillSetT } from './schema';
+
+const DATA_ROOT = path.join(process.cwd(), 'data');
+
+function drillsPath(userId: string): string {
+  return path.join(DATA_ROOT, userId, 'drills.json');
+}
+
+/**
+ * Load a user's drills (an empty set if they have none yet)
+ */
+export async function loadDrillSet(userId: string): Promise<DrillSetT> {
+  try {
+    const raw = await fs.readFile(drillsPath(userId), 'utf8');
+    return DrillSet.parse(JSON.parse(raw));
+  } catch (err: any) {
+    if (err?.code === 'ENOENT' || err?.code === 'ENOTDIR') {
+      return DrillSet.parse({ userId, updatedAt: new Date().toISOString() });
+    }
+    throw err;
+  }
+}
+
+async function saveDrillSet(userId: string, set: DrillSetT): Promise<void> {
+  await fs.mkdir(path.join(DATA_ROOT, userId), { recursive: true });
+  const validated = DrillSet.parse({ ...set, updatedAt: new Date().toISOString() });
+  await fs.writeFile(drillsPath(userId), JSON.stringify(validated, null, 2), 'utf8');
+}
+
+// Per-user lock: syncing new lines and recording attempts both load-modify-save the same file
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Load, change and save a user's drills without racing other updates
+ */
+export function updateDrillSet<T>(userId: string, fn: (set: DrillSetT) => T | Promise<T>): Promise<T> {
+  const run = async () => {
+    const set = await loadDrillSet(userId);
+    const result = await fn(set);
+    await saveDrillSet(userId, set);
+    return result;
+  };
+  const prev = locks.get(userId) ?? Promise.resolve();
+  const next = prev.then(run, run);
+  locks.set(userId, next.catch(() => undefined));
+  return next;
+}
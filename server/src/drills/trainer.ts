@@ -0,0 +1,193 @@
+/**
+ * Drill Trainer
+ *
+ * Playing through opening drills:
+ * - The server plays the opponent's moves from the user's game; the user
+ *   replays their own moves up to the critical position, then has to find a
+ *   better move than the one they played (see drills/lines.ts)
+ * - Like puzzles, attempts are checked from the user's moves so far (UCI), so
+ *   the clients don't need move rules. Illegal moves and moves off the line
+ *   before the critical position aren't held against the user
+ * - Leitner boxes: a pass waits longer before the line comes back (1, 3, 7,
+ *   14 days), a failure brings it back right away - weak lines come up most
+ */
+
+import { Chess } from 'chess.js';
+import { findMove } from '../puzzles/trainer';
+import type { DrillSetT, DrillT } from './schema';
+
+const BOX_DAYS = [0, 1, 3, 7, 14];
+const ATTEMPT_LIMIT = 1000;  // Attempts kept for stats
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A drill as the user sees it (no answers)
+ */
+export interface DrillView {
+  id: string;
+  color: 'white' | 'black';
+  side: 'W' | 'B';
+  fen: string;                  // Starting position, with the opponent's first move played when the user is Black
+  lastMove: string | null;      // UCI
+  userMoves: number;            // Moves the user plays, the critical one included
+  moveNo: number;               // Move number of the critical position
+  played: string;               // What the user played there in the game (SAN)
+  opening: string | null;
+  games: number;
+  gameUrl: string | null;
+  date: string;
+  box: number;
+  attempts: number;
+  passes: number;
+}
+
+export interface DrillResult {
+  // correct: on the line, keep going; off_line: not the user's move from the game, try again;
+  // illegal: try again; passed / failed: the critical move was (not) one of the answers
+  status: 'correct' | 'off_line' | 'illegal' | 'passed' | 'failed';
+  fen: string;                  // Position after the user's move (and the opponent's reply, if any)
+  lastMove: string | null;      // UCI of the last move on the board
+  reply: string | null;         // The opponent's answer (SAN) when the line continues
+  critical: boolean;            // The user's next move is the one that went wrong in the game
+  expected?: string;            // The user's move in the game (SAN), for off_line
+  move?: string;                // The user's critical move (SAN), once the drill is over
+  answers?: string[];           // Accepted moves (SAN), once the drill is over
+  played?: string;
+}
+
+function userToMove(drill: DrillT, ply: number): boolean {
+  return (ply % 2 === 0) === (drill.color === 'white');
+}
+
+/**
+ * Replay the user's moves so far (UCI) against the drill's line
+ */
+export function checkDrill(drill: DrillT, moves: string[]): DrillResult {
+  const chess = new Chess();
+  let lastMove: string | null = null;
+  let reply: string | null = null;
+  let next = 0;
+
+  for (let ply = 0; ply <= drill.line.length; ply++) {
+    const critical = ply === drill.line.length;
+    if (!critical && !userToMove(drill, ply)) {
+      const played = chess.move(drill.line[ply]);
+      lastMove = played.lan;
+      reply = played.san;
+      continue;
+    }
+
+    if (next >= moves.length) return { status: 'correct', fen: chess.fen(), lastMove, reply, critical };
+    const move = findMove(chess, moves[next]);
+    if (!move) return { status: 'illegal', fen: chess.fen(), lastMove, reply: null, critical };
+
+    if (critical) {
+      chess.move(move);
+      return {
+        status: drill.answers.includes(move.san) ? 'passed' : 'failed',
+        fen: chess.fen(),
+        lastMove: move.lan,
+        reply: null,
+        critical,
+        move: move.san,
+        answers: drill.answers,
+        played: drill.played,
+      };
+    }
+    if (move.san !== drill.line[ply]) {
+      return { status: 'off_line', fen: chess.fen(), lastMove, reply: null, critical, expected: drill.line[ply] };
+    }
+
+    chess.move(move);
+    lastMove = move.lan;
+    reply = null;
+    next++;
+  }
+
+  // Unreachable - the critical position always ends the loop
+  return { status: 'correct', fen: chess.fen(), lastMove, reply, critical: true };
+}
+
+export function toDrillView(drill: DrillT): DrillView {
+  const start = checkDrill(drill, []);
+  return {
+    id: drill.id,
+    color: drill.color,
+    side: drill.color === 'white' ? 'W' : 'B',
+    fen: start.fen,
+    lastMove: start.lastMove,
+    userMoves: drill.line.filter((_, ply) => userToMove(drill, ply)).length + 1,
+    moveNo: Math.floor(drill.line.length / 2) + 1,
+    played: drill.played,
+    opening: drill.opening,
+    games: drill.gameIds.length,
+    gameUrl: drill.gameUrl,
+    date: drill.date,
+    box: drill.box,
+    attempts: drill.attempts,
+    passes: drill.passes,
+  };
+}
+
+/**
+ * The next drill: due lines in the lowest box first (the weakest), then the
+ * ones coming up soonest. The line just played waits its turn when there are others.
+ */
+export function pickNextDrill(set: DrillSetT, color?: 'white' | 'black', now: Date = new Date()): DrillT | null {
+  const nowIso = now.toISOString();
+  const candidates = set.drills
+    .filter(d => !color || d.color === color)
+    .sort((a, b) => {
+      const aDue = a.due <= nowIso;
+      const bDue = b.due <= nowIso;
+      if (aDue !== bDue) return aDue ? -1 : 1;
+      return aDue && a.box !== b.box ? a.box - b.box : a.due.localeCompare(b.due);
+    });
+
+  const last = set.attempts[set.attempts.length - 1]?.drillId;
+  return candidates.find(d => d.id !== last) ?? candidates[0] ?? null;
+}
+
+/**
+ * Drills due now
+ */
+export function dueDrills(set: DrillSetT, color?: 'white' | 'black', now: Date = new Date()): DrillT[] {
+  const nowIso = now.toISOString();
+  return set.drills.filter(d => (!color || d.color === color) && d.due <= nowIso);
+}
+
+/**
+ * Record a finished drill on the set (mutates it)
+ */
+export function recordDrillAttempt(set: DrillSetT, drill: DrillT, passed: boolean, move: string, now: Date = new Date()): void {
+  drill.box = passed ? Math.min(drill.box + 1, BOX_DAYS.length - 1) : 0;
+  drill.due = new Date(now.getTime() + BOX_DAYS[drill.box] * DAY_MS).toISOString();
+  drill.attempts++;
+  if (passed) drill.passes++;
+  drill.lastAttemptAt = now.toISOString();
+
+  set.attempts.push({ drillId: drill.id, at: now.toISOString(), passed, move });
+  if (set.attempts.length > ATTEMPT_LIMIT) set.attempts.splice(0, set.attempts.length - ATTEMPT_LIMIT);
+}
+
+/**
+ * Progress over the user's drills, with the lines they fail most
+ */
+export function drillStats(set: DrillSetT) {
+  const tried = set.drills.filter(d => d.attempts > 0);
+  const attempts = tried.reduce((n, d) => n + d.attempts, 0);
+  const passes = tried.reduce((n, d) => n + d.passes, 0);
+
+  return {
+    drills: set.drills.length,
+    tried: tried.length,
+    mastered: set.drills.filter(d => d.box === BOX_DAYS.length - 1).length,
+    passRate: attempts > 0 ? Math.round((passes / attempts) * 100) : null,
+    weakest: tried
+      .filter(d => d.passes < d.attempts)
+      .sort((a, b) => a.passes / a.attempts - b.passes / b.attempts || b.attempts - a.attempts)
+      .slice(0, 3)
+      .map(d => ({ id: d.id, opening: d.opening, line: d.line, played: d.played, attempts: d.attempts, passes: d.passes })),
+  };
+}
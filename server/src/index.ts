@@ -5,9 +5,24 @@ import askRoutes from './routes/ask';
 import pollRoutes from './routes/poll';
 import ingestRoutes from './routes/ingest';
 import ingestLocalRoutes from './routes/ingestLocal';
+import ingestLichessRoutes from './routes/ingestLichess';
+import syncRoutes from './routes/sync';
 import insightsRoutes from './routes/insights';
 import analyzeStreamRoutes from './routes/analyzeStream';
+import ingestJobRoutes from './routes/ingestJobs';
+import reanalyzeRoutes from './routes/reanalyze';
+import puzzleRoutes from './routes/puzzles';
+import trainingRoutes from './routes/training';
+import repertoireRoutes from './routes/repertoire';
+import drillRoutes from './routes/drills';
+import scoutRoutes from './routes/scout';
+import { resumeIngestJobs } from './jobs/ingestQueue';
+import { reanalyzeLegacyEvals } from './jobs/reanalysisQueue';
 import { env } from './services/env';
+import { getAllEngineHealth, getEngineHealth, getEngineSchedulerStats } from './services/stockfish';
+import { listEngineProfiles } from './services/engineProfiles';
+import { getAnalysisStats } from './services/positionAnalyzer';
+import { isTablebaseAvailable, tablebasePieceLimit } from './services/tablebase';
 
 const PORT = env.PORT;
 
@@ -18,20 +33,52 @@ async function buildServer() {
     origin: true,
   });
 
-  app.get('/health', async () => {
-    return { ok: true } as const;
+  // 503 once no engine can analyze; degraded (some engines restarting) and
+  // not_started (started on first use) still count as ok
+  app.get('/health', async (_req, reply) => {
+    const stockfish = getEngineHealth();
+    const ok = stockfish.status !== 'down' && stockfish.status !== 'unavailable';
+    return reply.code(ok ? 200 : 503).send({ ok, stockfish });
+  });
+
+  // Engine queue depth / wait times, position analysis counters and engine profiles
+  app.get('/health/engine', async () => {
+    return {
+      scheduler: getEngineSchedulerStats(),
+      analysis: getAnalysisStats(),
+      pools: getAllEngineHealth(),
+      tablebase: { available: isTablebaseAvailable(), pieces: tablebasePieceLimit() },
+      ...listEngineProfiles(),
+    };
   });
 
   await app.register(askRoutes);
   await app.register(pollRoutes);
   await app.register(ingestRoutes);
   await app.register(ingestLocalRoutes);
+  await app.register(ingestLichessRoutes);
+  await app.register(syncRoutes);
   await app.register(insightsRoutes);
   await app.register(analyzeStreamRoutes);
+  await app.register(ingestJobRoutes);
+  await app.register(reanalyzeRoutes);
+  await app.register(puzzleRoutes);
+  await app.register(trainingRoutes);
+  await app.register(repertoireRoutes);
+  await app.register(drillRoutes);
+  await app.register(scoutRoutes);
 
   try {
     await app.listen({ port: PORT, host: '0.0.0.0' });
     app.log.info(`Server listening on http://localhost:${PORT}`);
+
+    // Pick up background imports interrupted by the last shutdown
+    const resumed = await resumeIngestJobs();
+    if (resumed > 0) app.log.info(`Resumed ${resumed} ingest job(s)`);
+
+    // Games stored before evals were normalized to White's perspective
+    const legacy = await reanalyzeLegacyEvals();
+    if (legacy > 0) app.log.info(`Re-analyzing games with legacy evals for ${legacy} user(s)`);
   } catch (err) {
     app.log.error(err);
     process.exit(1);
@@ -0,0 +1,169 @@
+/**
+ * Chess960 Replay
+ *
+ * chess.js only knows standard castling, so Chess960 games are replayed here:
+ * - Castling moves are applied by hand (king to the g/c-file, rook to the f/d-file)
+ * - Castling rights are tracked per rook file and written back into each FEN (X-FEN "KQkq")
+ * - Every other move goes through chess.js, loaded without castling rights so it
+ *   never generates standard castling from a shuffled back rank
+ */
+
+import { Chess, type Color, type Square } from 'chess.js';
+
+/**
+ * One replayed move, shaped like chess.js verbose history (flags: c = capture, k/q = castling)
+ */
+export interface ReplayedMove {
+  san: string;
+  lan: string;      // UCI; castling is king-takes-rook, as Stockfish reports it in Chess960 mode
+  color: Color;
+  flags: string;
+  before: string;   // X-FEN before the move (for the engine in UCI_Chess960 mode)
+  after: string;    // X-FEN after the move
+}
+
+type CastlingSide = 'king' | 'queen';
+type CastlingRights = Record<Color, Record<CastlingSide, string | null>>; // Rook file, null = right lost
+
+const FILES = 'abcdefgh';
+
+function backRank(color: Color): string {
+  return color === 'w' ? '1' : '8';
+}
+
+function kingFile(chess: Chess, color: Color): string | null {
+  const square = chess.findPiece({ type: 'k', color }).find(sq => sq[1] === backRank(color));
+  return square ? square[0] : null;
+}
+
+/**
+ * Rook file for a castling right. "K"/"Q" (X-FEN) mean the outermost rook on that
+ * side of the king; file letters (Shredder-FEN, e.g. "HAha") name the rook directly.
+ */
+function rookFileFor(chess: Chess, color: Color, side: CastlingSide): string | null {
+  const king = kingFile(chess, color);
+  if (!king) return null;
+  const files = side === 'king'
+    ? FILES.slice(FILES.indexOf(king) + 1).split('').reverse()
+    : FILES.slice(0, FILES.indexOf(king)).split('');
+  return files.find(f => {
+    const piece = chess.get(`${f}${backRank(color)}` as Square);
+    return piece?.type === 'r' && piece.color === color;
+  }) ?? null;
+}
+
+function parseCastlingRights(chess: Chess, castling: string): CastlingRights {
+  const rights: CastlingRights = { w: { king: null, queen: null }, b: { king: null, queen: null } };
+  if (castling === '-') return rights;
+
+  for (const ch of castling) {
+    const color: Color = ch === ch.toUpperCase() ? 'w' : 'b';
+    const flag = ch.toLowerCase();
+    if (flag === 'k') rights[color].king = rookFileFor(chess, color, 'king');
+    else if (flag === 'q') rights[color].queen = rookFileFor(chess, color, 'queen');
+    else if (FILES.includes(flag)) {
+      const king = kingFile(chess, color);
+      if (king) rights[color][flag > king ? 'king' : 'queen'] = flag;
+    }
+  }
+  return rights;
+}
+
+function castlingField(rights: CastlingRights): string {
+  const field =
+    (rights.w.king ? 'K' : '') + (rights.w.queen ? 'Q' : '') +
+    (rights.b.king ? 'k' : '') + (rights.b.queen ? 'q' : '');
+  return field || '-';
+}
+
+function withCastling(fen: string, rights: CastlingRights): string {
+  const parts = fen.split(' ');
+  parts[2] = castlingField(rights);
+  return parts.join(' ');
+}
+
+/**
+ * A rook leaving (or being captured on) its starting square loses that right
+ */
+function clearRookRight(rights: CastlingRights, square: string): void {
+  const color: Color | null = square[1] === '1' ? 'w' : square[1] === '8' ? 'b' : null;
+  if (!color) return;
+  if (rights[color].king === square[0]) rights[color].king = null;
+  if (rights[color].queen === square[0]) rights[color].queen = null;
+}
+
+/**
+ * Apply a castling move. The PGN comes from a site that already validated it,
+ * so only the rook's presence is checked here.
+ */
+function applyCastling(chess: Chess, color: Color, side: CastlingSide, rights: CastlingRights, san: string): void {
+  const rank = backRank(color);
+  const king = kingFile(chess, color);
+  const rook = rights[color][side];
+  if (!king || !rook) throw new Error(`Illegal castling move: ${san}`);
+
+  chess.remove(`${king}${rank}` as Square);
+  chess.remove(`${rook}${rank}` as Square);
+  chess.put({ type: 'k', color }, `${side === 'king' ? 'g' : 'c'}${rank}` as Square);
+  chess.put({ type: 'r', color }, `${side === 'king' ? 'f' : 'd'}${rank}` as Square);
+
+  // put()/remove() don't advance the game, so finish the move through the FEN
+  const parts = chess.fen().split(' ');
+  parts[1] = color === 'w' ? 'b' : 'w';
+  parts[2] = '-';
+  parts[3] = '-';
+  parts[4] = String(Number(parts[4]) + 1);
+  if (color === 'b') parts[5] = String(Number(parts[5]) + 1);
+  chess.load(parts.join(' '));
+
+  rights[color] = { king: null, queen: null };
+}
+
+/**
+ * Replay Chess960 mainline moves (SAN) from the game's starting FEN
+ */
+export function replayChess960(startFen: string, sans: string[]): ReplayedMove[] {
+  const [board, turn = 'w', castling = '-', ep = '-', halfmove = '0', fullmove = '1'] = startFen.trim().split(/\s+/);
+  const chess = new Chess([board, turn, '-', ep, halfmove, fullmove].join(' '));
+  const rights = parseCastlingRights(chess, castling);
+  const moves: ReplayedMove[] = [];
+
+  for (const token of sans) {
+    const san = token.replace(/[!?]+$/, '');
+    const color = chess.turn();
+    const before = withCastling(chess.fen(), rights);
+    const castle = san.replace(/0/g, 'O').match(/^O-O(-O)?/);
+
+    if (castle) {
+      const side: CastlingSide = castle[1] ? 'queen' : 'king';
+      const kingFrom = kingFile(chess, color);
+      const rookFrom = rights[color][side];
+      applyCastling(chess, color, side, rights, san);
+      const suffix = chess.isCheckmate() ? '#' : chess.inCheck() ? '+' : '';
+      moves.push({
+        san: `${castle[0]}${suffix}`,
+        lan: `${kingFrom}${backRank(color)}${rookFrom}${backRank(color)}`,
+        color,
+        flags: side === 'king' ? 'k' : 'q',
+        before,
+        after: withCastling(chess.fen(), rights),
+      });
+      continue;
+    }
+
+    const mv = chess.move(san);
+    if (mv.piece === 'k') rights[color] = { king: null, queen: null };
+    clearRookRight(rights, mv.from);
+    clearRookRight(rights, mv.to);
+    moves.push({
+      san: mv.san,
+      lan: mv.lan,
+      color,
+      flags: mv.flags,
+      before,
+      after: withCastling(chess.fen(), rights),
+    });
+  }
+
+  return moves;
+}
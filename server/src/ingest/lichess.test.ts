@@ -0,0 +1,73 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { fetchLichessGames } from './lichess';
+
+const PGN_A = '[Event "Rated blitz game"]\n[Site "https://lichess.org/aaaa"]\n\n1. e4 e5 1-0';
+const PGN_B = '[Event "Rated rapid game"]\n[Site "https://lichess.org/bbbb"]\n\n1. d4 d5 0-1';
+
+// Fixture server for LICHESS_API_URL: /ndjson, /pgn, /endless (never finishes) and /missing
+let server: Server;
+let lastQuery: URLSearchParams | null = null;
+let endlessClosed: Promise<void>;
+
+before(async () => {
+  let markClosed!: () => void;
+  endlessClosed = new Promise(resolve => { markClosed = resolve; });
+
+  server = createServer((req, res) => {
+    const url = new URL(req.url!, 'http://localhost');
+    lastQuery = url.searchParams;
+    const user = url.pathname.split('/').pop();
+
+    if (user === 'ndjson') {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.write(JSON.stringify({ id: 'aaaa', pgn: PGN_A }) + '\n{not json}\n');
+      res.write(JSON.stringify({ id: 'nopgn' }) + '\n');
+      // Last line without a trailing newline, split across chunks
+      const last = JSON.stringify({ id: 'bbbb', pgn: PGN_B });
+      res.write(last.slice(0, 20));
+      res.end(last.slice(20));
+    } else if (user === 'pgn') {
+      res.writeHead(200, { 'Content-Type': 'application/x-chess-pgn' });
+      res.end(`${PGN_A}\n\n\n${PGN_B}\n\n`);
+    } else if (user === 'endless') {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.on('close', markClosed);
+      const timer = setInterval(() => res.write(JSON.stringify({ id: 'aaaa', pgn: PGN_A }) + '\n'), 10);
+      res.on('close', () => clearInterval(timer));
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  process.env.LICHESS_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+test('parses NDJSON, skipping malformed lines and games without a PGN', async () => {
+  const games = await fetchLichessGames('NDJSON', { since: 1000, rated: true });
+  assert.deepEqual(games, [PGN_A, PGN_B]);
+  assert.equal(lastQuery?.get('pgnInJson'), 'true');
+  assert.equal(lastQuery?.get('since'), '1000');
+  assert.equal(lastQuery?.get('rated'), 'true');
+});
+
+test('falls back to a plain PGN stream', async () => {
+  assert.deepEqual(await fetchLichessGames('pgn'), [PGN_A, PGN_B]);
+});
+
+test('stops at max and cancels the rest of the export', { timeout: 2000 }, async () => {
+  const games = await fetchLichessGames('endless', { max: 3 });
+  assert.equal(games.length, 3);
+  await endlessClosed; // Times out if the response is left streaming
+});
+
+test('throws when the export fails', async () => {
+  await assert.rejects(fetchLichessGames('missing'), /lichess export failed: 404/);
+});
@@ -0,0 +1,134 @@
+/**
+ * Lichess Game Export
+ * https://lichess.org/api#tag/Games/operation/apiGamesUser
+ *
+ * Streams a user's games as NDJSON (one game per line, PGN embedded via
+ * `pgnInJson`) and falls back to a plain PGN stream when the server answers
+ * with `application/x-chess-pgn`. The base URL can be pointed at a local
+ * fixture server through LICHESS_API_URL.
+ */
+
+const DEFAULT_LICHESS_API_URL = 'https://lichess.org';
+
+export interface LichessExportOptions {
+  max?: number;            // Maximum number of games to return (latest first)
+  since?: number;          // Only games played at/after this epoch ms
+  until?: number;          // Only games played before this epoch ms
+  rated?: boolean;         // Only rated (true) or casual (false) games
+}
+
+interface LichessGameLine {
+  id?: string;
+  pgn?: string;
+}
+
+function lichessBaseUrl(): string {
+  return (process.env.LICHESS_API_URL || DEFAULT_LICHESS_API_URL).replace(/\/+$/, '');
+}
+
+function buildExportUrl(username: string, options: LichessExportOptions): string {
+  const u = username.trim().toLowerCase();
+  const params = new URLSearchParams({
+    pgnInJson: 'true',
+    clocks: 'true',
+    opening: 'true',
+    moves: 'true',
+    tags: 'true',
+  });
+  if (options.max !== undefined) params.set('max', String(options.max));
+  if (options.since !== undefined) params.set('since', String(options.since));
+  if (options.until !== undefined) params.set('until', String(options.until));
+  if (options.rated !== undefined) params.set('rated', String(options.rated));
+  return `${lichessBaseUrl()}/api/games/user/${encodeURIComponent(u)}?${params.toString()}`;
+}
+
+/**
+ * Stream PGNs for a Lichess user, latest first.
+ * Yields one PGN string per game as soon as it arrives.
+ */
+export async function* streamLichessGames(
+  username: string,
+  options: LichessExportOptions = {}
+): AsyncGenerator<string> {
+  const res = await fetch(buildExportUrl(username, options), {
+    headers: { Accept: 'application/x-ndjson' },
+  });
+  if (!res.ok) {
+    throw new Error(`lichess export failed: ${res.status}`);
+  }
+  if (!res.body) return;
+
+  const contentType = res.headers.get('content-type') || '';
+  const isNdjson = !/x-chess-pgn/i.test(contentType);
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  // A consumer that stops early (break in for await) lands in the finally,
+  // which cancels the response so the rest of the export isn't downloaded
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (value) buffer += decoder.decode(value, { stream: true });
+      if (done) buffer += decoder.decode();
+
+      if (isNdjson) {
+        let newline = buffer.indexOf('\n');
+        while (newline >= 0) {
+          const pgn = parseNdjsonLine(buffer.slice(0, newline));
+          buffer = buffer.slice(newline + 1);
+          if (pgn) yield pgn;
+          newline = buffer.indexOf('\n');
+        }
+      } else {
+        // A game is complete once the next one's [Event header has started
+        const games = buffer.split(/\n\n(?=\[Event )/);
+        buffer = done ? '' : games.pop() || '';
+        for (const pgn of games) {
+          if (pgn.trim()) yield pgn.trim();
+        }
+      }
+
+      if (done) {
+        finished = true;
+        break;
+      }
+    }
+  } finally {
+    if (!finished) await reader.cancel().catch(() => undefined);
+  }
+
+  if (isNdjson) {
+    const pgn = parseNdjsonLine(buffer);
+    if (pgn) yield pgn;
+  }
+}
+
+/**
+ * Fetch PGNs for a Lichess user, latest first
+ */
+export async function fetchLichessGames(
+  username: string,
+  options: LichessExportOptions = {}
+): Promise<string[]> {
+  const games: string[] = [];
+  for await (const pgn of streamLichessGames(username, options)) {
+    games.push(pgn);
+    if (options.max !== undefined && games.length >= options.max) break; // Cancels the stream
+  }
+  return games;
+}
+
+function parseNdjsonLine(line: string): string | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+  try {
+    const game = JSON.parse(trimmed) as LichessGameLine;
+    return typeof game.pgn === 'string' && game.pgn.trim() ? game.pgn.trim() : null;
+  } catch (err) {
+    console.error('[Lichess] Skipping malformed NDJSON line:', err);
+    return null;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * PGN File Handling
+ *
+ * Helpers for uploaded PGN files (club databases, OTB tournament exports):
+ * - Decode bytes as UTF-8/UTF-16 (BOM-aware) with a Latin-1 fallback
+ * - Split a file into games without relying on the [Event] tag coming first
+ * - Validate games up-front so bad ones can be reported individually
+ * - Guess whose games these are (most frequent player)
+ */
+
+import { Chess } from 'chess.js';
+import { parsePgnHeaders, parseMainline, detectVariant } from './pgnToSummary';
+import { replayChess960 } from './chess960';
+
+export interface PgnGameError {
+  index: number;          // 1-based position of the game in the upload
+  white: string | null;
+  black: string | null;
+  date: string | null;
+  error: string;
+}
+
+/**
+ * Decode an uploaded PGN file.
+ * Honors UTF-8/UTF-16 byte order marks; files that aren't valid UTF-8
+ * (typical for older ChessBase/Windows exports) are read as Latin-1.
+ */
+export function decodePgnBuffer(buf: Buffer): string {
+  if (buf.length >= 3 && buf[0] === 0xef && buf[1] === 0xbb && buf[2] === 0xbf) {
+    return buf.subarray(3).toString('utf8');
+  }
+  if (buf.length >= 2 && buf[0] === 0xff && buf[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(buf.subarray(2));
+  }
+  if (buf.length >= 2 && buf[0] === 0xfe && buf[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(buf.subarray(2));
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buf);
+  } catch {
+    return buf.toString('latin1');
+  }
+}
+
+/**
+ * Split PGN text into individual games.
+ * A new game starts at the first tag line that follows movetext, so files
+ * that don't separate games with blank lines (or don't lead with [Event]) work too.
+ */
+export function splitPgnGames(text: string): string[] {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const games: string[] = [];
+  let current: string[] = [];
+  let sawMoves = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const isTag = /^\[\w+\s+"/.test(trimmed);
+
+    if (isTag && sawMoves) {
+      games.push(current.join('\n').trim());
+      current = [];
+      sawMoves = false;
+    }
+    if (trimmed && !isTag) sawMoves = true;
+    current.push(line);
+  }
+
+  const last = current.join('\n').trim();
+  if (last) games.push(last);
+  return games.filter(g => /^\[\w+\s+"/m.test(g));
+}
+
+/**
+ * Check that a game's moves parse. Returns the error message, or null if valid.
+ */
+export function validatePgnGame(pgn: string): string | null {
+  const headers = parsePgnHeaders(pgn);
+  const variant = detectVariant(headers);
+  if (!variant) return `Unsupported variant: ${headers.Variant || headers.VariantType}`;
+  try {
+    if (variant === 'chess960') {
+      if (!headers.FEN) return 'Chess960 game has no FEN header';
+      const moves = replayChess960(headers.FEN, parseMainline(pgn).map(m => m.san));
+      return moves.length === 0 ? 'Game has no moves' : null;
+    }
+    const chess = new Chess();
+    chess.loadPgn(pgn);
+    if (chess.history().length === 0) return 'Game has no moves';
+    return null;
+  } catch (err: any) {
+    return err?.message || 'Invalid PGN';
+  }
+}
+
+/**
+ * Build a per-game error entry with enough header info to find the game again
+ */
+export function describeGameError(pgn: string, index: number, error: string): PgnGameError {
+  const headers = parsePgnHeaders(pgn);
+  return {
+    index,
+    white: headers.White || null,
+    black: headers.Black || null,
+    date: headers.Date || null,
+    error,
+  };
+}
+
+/**
+ * Most frequent player name across the games (case-insensitive).
+ * Returns the name as written in the file, or null if the file has no player tags.
+ */
+export function detectMostFrequentPlayer(pgns: string[]): { name: string; games: number } | null {
+  const counts = new Map<string, { name: string; games: number }>();
+
+  for (const pgn of pgns) {
+    const headers = parsePgnHeaders(pgn);
+    for (const raw of [headers.White, headers.Black]) {
+      const name = raw?.trim();
+      if (!name || name === '?') continue;
+      const key = name.toLowerCase();
+      const entry = counts.get(key) || { name, games: 0 };
+      entry.games++;
+      counts.set(key, entry);
+    }
+  }
+
+  let best: { name: string; games: number } | null = null;
+  for (const entry of counts.values()) {
+    if (!best || entry.games > best.games) best = entry;
+  }
+  return best;
+}
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { gameIdFromPgn, gameIdsFromPgn, isGameStored } from './pgnToSummary';
+
+const headers = (extra: string) =>
+  `[Event "Club Night"]\n[Date "2026.09.01"]\n[Round "?"]\n[White "Ann"]\n[Black "Bob"]\n[Result "1-0"]\n${extra}\n`;
+
+const chesscom = (link: string) =>
+  `[Event "Live Chess"]\n[Site "Chess.com"]\n[Date "2026.09.01"]\n[Round "-"]\n[White "ann"]\n[Black "bob"]\n` +
+  `[Result "1-0"]\n[Link "${link}"]\n\n1. e4 e5 2. Qh5 Nc6 3. Bc4 Nf6 4. Qxf7# 1-0`;
+
+test('same-day rematches with the same result get their own ids', () => {
+  assert.notEqual(
+    gameIdFromPgn(chesscom('https://www.chess.com/game/live/1')),
+    gameIdFromPgn(chesscom('https://www.chess.com/game/live/2'))
+  );
+  assert.notEqual(
+    gameIdFromPgn(`${headers('')}\n1. e4 e5 2. Qh5 Nc6 3. Bc4 Nf6 4. Qxf7# 1-0`),
+    gameIdFromPgn(`${headers('')}\n1. d4 d5 2. c4 e6 1-0`)
+  );
+});
+
+test('a local game keeps its id whatever its comments and layout', () => {
+  const plain = `${headers('')}\n1. e4 e5 2. Nf3 1-0`;
+  const annotated = `${headers('[Annotator "Ann"]')}\n1. e4 { [%clk 0:05:00] } e5\n2. Nf3 {good} 1-0\n`;
+  assert.equal(gameIdFromPgn(plain), gameIdFromPgn(annotated));
+});
+
+test('games stored under their old header-only id are still recognized', () => {
+  const first = chesscom('https://www.chess.com/game/live/1');
+  const [id, legacy] = gameIdsFromPgn(first);
+  assert.equal(id, gameIdFromPgn(first));
+  assert.ok(legacy && legacy !== id);
+  assert.equal(isGameStored(new Set([legacy]), first), true);
+  assert.equal(isGameStored(new Set(['other']), first), false);
+
+  // Lichess ids already told rematches apart
+  const lichess = '[Event "Rated blitz game"]\n[Site "https://lichess.org/aaaa"]\n[White "a"]\n[Black "b"]\n\n1. e4 1-0';
+  assert.deepEqual(gameIdsFromPgn(lichess), [gameIdFromPgn(lichess)]);
+});
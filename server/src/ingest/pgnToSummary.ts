@@ -1,8 +1,20 @@
 import { Chess } from 'chess.js';
 import crypto from 'crypto';
-import { CompactGameSummary, type CompactGameSummaryT } from '../summaries/schemas';
-import { fetchOpeningName } from './chesscom';
-import { analyzePosition } from '../services/positionAnalyzer';
+import { CompactGameSummary, EVAL_PERSPECTIVE_VERSION, type CompactGameSummaryT, type EngineLineT, type GameAnalysisT, type GameSiteT, type GameTerminationT, type GameVariantT, type KeyPositionTablebaseT, type MoveClassificationT, type TacticT } from '../summaries/schemas';
+import { identifyOpening, nameForEco, parseOpeningName } from '../openings/ecoTree';
+import { replayChess960 } from './chess960';
+import { analyzePosition, type Evaluation } from '../services/positionAnalyzer';
+import type { EngineRequestOptions } from '../services/stockfish';
+import { profileForTask, type EngineProfile } from '../services/engineProfiles';
+import { evalCacheKey } from '../services/evalCache';
+import { isTablebasePosition, probeTablebase, tablebaseMove, type TablebaseProbe } from '../services/tablebase';
+import { classifyMove, classifyWithTablebase, countUserErrors } from '../analysis/moveClassification';
+import { toEngineLines } from '../analysis/engineLines';
+import { findMoveTactics, withTacticTags } from '../analysis/tactics';
+import { findCriticalPlies } from '../analysis/criticalMoments';
+
+// Candidate moves stored per position (MultiPV); 1 keeps just the best move
+const MULTIPV = Math.max(1, parseInt(process.env.STOCKFISH_MULTIPV || '3', 10) || 1);
 
 type Headers = Record<string, string>;
 
@@ -29,30 +41,97 @@ function mapResultForUser(
 
 function toIso(dateStr: string | undefined): string {
   if (!dateStr) return new Date().toISOString();
-  // Chess.com date format usually YYYY.MM.DD
+  // Chess.com date format usually YYYY.MM.DD; OTB files often have unknown parts ("2023.??.??")
   const parts = dateStr.split('.');
   if (parts.length === 3) {
     const [y, m, d] = parts.map((x) => parseInt(x, 10));
-    if (y && m && d) return new Date(y, m - 1, d).toISOString();
+    if (y) return new Date(y, (m || 1) - 1, d || 1).toISOString();
   }
-  return new Date(dateStr).toISOString();
+  const parsed = new Date(dateStr);
+  return isNaN(parsed.getTime()) ? new Date().toISOString() : parsed.toISOString();
+}
+
+// The moves alone: comments (clocks, evals) and layout differ between exports of one game
+function moveText(pgn: string): string {
+  return pgn.replace(/^\s*\[.*\]\s*$/gm, '').replace(/\{[^}]*\}/g, ' ').replace(/\s+/g, ' ').trim();
 }
 
-function hashId(h: Headers): string {
-  const base = [h.Event, h.Date, h.Round, h.White, h.Black, h.Result].join('|');
+function hashId(h: Headers, site: GameSiteT, pgn: string | null): string {
+  const parts = [h.Event, h.Date, h.Round, h.White, h.Black, h.Result];
+  // Rounds are "-" online and often "?" over the board, so same-day rematches with the
+  // same result need something more: the game URL online ([Site] on Lichess, [Link] on
+  // Chess.com), the moves in local files. Without `pgn` it's the id chess.com and
+  // local games had before, which games stored back then still carry.
+  if (site === 'lichess') parts.push(h.Site);
+  else if (pgn !== null && site === 'chess.com' && h.Link) parts.push(h.Link);
+  else if (pgn !== null && site === 'local') parts.push(crypto.createHash('sha1').update(moveText(pgn)).digest('hex'));
+  const base = parts.join('|');
   return crypto.createHash('sha1').update(base).digest('hex').slice(0, 16);
 }
 
-function isStandard(headers: Headers): boolean {
+function detectSite(headers: Headers): GameSiteT {
+  const site = headers.Site || '';
+  if (/lichess\.org/i.test(site)) return 'lichess';
+  if (/chess\.com/i.test(site)) return 'chess.com';
+  return 'local';
+}
+
+/**
+ * The gameId a PGN will get once summarized - cheap, no engine work.
+ * Lets ingest skip games that are already stored.
+ */
+export function gameIdFromPgn(pgn: string): string {
+  const headers = parsePgnHeaders(pgn);
+  return hashId(headers, detectSite(headers), pgn);
+}
+
+/**
+ * Ids a stored copy of the game may have: its gameId, then for chess.com and
+ * local games the header-only id they got before rematches were told apart
+ */
+export function gameIdsFromPgn(pgn: string): string[] {
+  const headers = parsePgnHeaders(pgn);
+  const site = detectSite(headers);
+  const ids = [hashId(headers, site, pgn)];
+  const legacy = hashId(headers, site, null);
+  if (legacy !== ids[0]) ids.push(legacy);
+  return ids;
+}
+
+/**
+ * Whether a game is among the stored ids (under either of its ids, see gameIdsFromPgn)
+ */
+export function isGameStored(storedIds: Set<string>, pgn: string): boolean {
+  return gameIdsFromPgn(pgn).some(id => storedIds.has(id));
+}
+
+function extractGameUrl(headers: Headers): string | null {
+  // Chess.com puts the game link in [Link]; Lichess uses [Site]
+  if (headers.Link) return headers.Link;
+  if (headers.Site && /^https?:\/\//i.test(headers.Site)) return headers.Site;
+  return null;
+}
+
+/**
+ * Which variant the game was played in, or null if we can't analyze it (crazyhouse, atomic, ...).
+ * Chess.com: [Variant "Chess960"]; Lichess: "Chess960" / "From Position"; any other
+ * game with [SetUp "1"] + [FEN] is treated as standard rules from a custom position.
+ */
+export function detectVariant(headers: Headers): GameVariantT | null {
   const variant = headers.Variant || headers.VariantType;
-  return !variant || /standard/i.test(variant);
+  if (variant && /960|fischer\s*random/i.test(variant)) return 'chess960';
+  if (variant && /from position/i.test(variant)) return 'fromPosition';
+  if (variant && !/standard/i.test(variant)) return null;
+  return headers.SetUp === '1' && headers.FEN ? 'fromPosition' : 'standard';
 }
 
 function parseTimeControl(tc: string | undefined): { type: 'bullet' | 'blitz' | 'rapid' | 'daily'; base: number | null; increment: number | null } {
-  // e.g., 600+5 or 1/86400 (daily)
-  if (!tc) return { type: 'rapid', base: null, increment: null };
-  if (tc.includes('/')) return { type: 'daily', base: null, increment: null };
-  const [baseStr, incStr] = tc.split('+');
+  // e.g., 600+5, 1/86400 (chess.com daily) or - (lichess correspondence)
+  if (!tc || tc === '?') return { type: 'rapid', base: null, increment: null };
+  if (/^1\/\d+$/.test(tc) || tc === '-') return { type: 'daily', base: null, increment: null };
+  // OTB multi-period controls like 40/5400+30:1800+30 - classify on the first period
+  const firstPeriod = tc.split(':')[0];
+  const [baseStr, incStr] = (firstPeriod.includes('/') ? firstPeriod.split('/')[1] : firstPeriod).split('+');
   const base = Number(baseStr || '0');
   const increment = Number(incStr || '0');
   let type: 'bullet' | 'blitz' | 'rapid' = 'rapid';
@@ -62,46 +141,357 @@ function parseTimeControl(tc: string | undefined): { type: 'bullet' | 'blitz' |
   return { type, base, increment };
 }
 
+function parseRating(elo: string | undefined): number | null {
+  // Unrated OTB games use "?" or leave the header empty
+  const rating = Number(elo);
+  return elo && Number.isFinite(rating) && rating > 0 ? rating : null;
+}
+
 /**
- * Analyze ALL moves in a game with parallel batching
- * Returns evaluations for every position in the game
+ * Map the Termination header onto a fixed set of endings.
+ * Chess.com: "X won on time", "Game drawn by repetition", ...
+ * Lichess: "Normal", "Time forfeit", "Abandoned" (checkmate shows up as '#' in the moves)
  */
-async function analyzeAllMoves(
-  pgn: string,
-  options: { batchSize?: number } = {}
-): Promise<{ 
-  moveNo: number; 
-  side: 'W' | 'B'; 
-  move: string;
-  fen: string; 
-  tag: string[]; 
+function parseTermination(termination: string | undefined, pgn: string): GameTerminationT | null {
+  if (!termination) return null;
+  const t = termination.toLowerCase();
+  if (t.includes('timeout vs insufficient')) return 'insufficient_material';
+  if (t.includes('on time') || t.includes('time forfeit') || t.includes('timeout')) return 'time';
+  if (t.includes('checkmate')) return 'checkmate';
+  if (t.includes('resignation')) return 'resignation';
+  if (t.includes('abandon')) return 'abandoned';
+  if (t.includes('agreement')) return 'agreement';
+  if (t.includes('repetition')) return 'repetition';
+  if (t.includes('stalemate')) return 'stalemate';
+  if (t.includes('insufficient')) return 'insufficient_material';
+  if (t === 'normal') {
+    if (/#/.test(stripHeaders(pgn))) return 'checkmate';
+    return /^(1-0|0-1)$/.test(parsePgnHeaders(pgn).Result || '') ? 'resignation' : 'other';
+  }
+  return 'other';
+}
+
+function stripHeaders(pgn: string): string {
+  return pgn.replace(/^\s*\[[^\]]*\]\s*$/gm, '');
+}
+
+/**
+ * Parse a %clk annotation, e.g. "[%clk 0:02:13.4]" -> 133.4 seconds
+ */
+function parseClockComment(comment: string): number | null {
+  const m = comment.match(/\[%clk\s+(?:(\d+):)?(\d+):(\d+(?:\.\d+)?)\]/);
+  if (!m) return null;
+  const [, h, min, sec] = m;
+  return Number(h || 0) * 3600 + Number(min) * 60 + Number(sec);
+}
+
+/**
+ * Walk the mainline movetext: every move's SAN and the %clk value that follows it.
+ * Variations, NAGs and the result token are skipped.
+ */
+export function parseMainline(pgn: string): { san: string; clock: number | null }[] {
+  const text = stripHeaders(pgn);
+  const moves: { san: string; clock: number | null }[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '{') {
+      const end = text.indexOf('}', i);
+      const comment = text.slice(i, end === -1 ? text.length : end + 1);
+      const clock = parseClockComment(comment);
+      if (clock !== null && moves.length > 0) moves[moves.length - 1].clock = clock;
+      i = end === -1 ? text.length : end + 1;
+    } else if (ch === '(') {
+      // Skip (possibly nested) variations - only mainline moves have clocks we care about
+      let depth = 0;
+      while (i < text.length) {
+        if (text[i] === '{') {
+          const end = text.indexOf('}', i);
+          i = end === -1 ? text.length : end;
+        } else if (text[i] === '(') depth++;
+        else if (text[i] === ')' && --depth === 0) break;
+        i++;
+      }
+      i++;
+    } else if (ch === ';') {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end + 1;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else {
+      let j = i;
+      while (j < text.length && !/[\s{}();]/.test(text[j])) j++;
+      const token = text.slice(i, j).replace(/^\d+\.+/, '');
+      i = j;
+      if (!token || /^\$\d+$/.test(token) || /^(1-0|0-1|1\/2-1\/2|\*)$/.test(token)) continue;
+      moves.push({ san: token, clock: null });
+    }
+  }
+
+  return moves;
+}
+
+/**
+ * Read the %clk value after every mainline move.
+ * Returns one entry per ply (null where the move carries no clock).
+ */
+export function extractMoveClocks(pgn: string): (number | null)[] {
+  return parseMainline(pgn).map(m => m.clock);
+}
+
+/**
+ * Turn clock readings into time spent per move.
+ * A move's cost is the mover's previous clock (or the base time on their first
+ * move) plus the increment, minus what is left after the move.
+ */
+function computeTimeSpent(
+  clocks: (number | null)[],
+  base: number | null,
+  increment: number | null
+): (number | null)[] {
+  const lastClock: [number | null, number | null] = [base, base];
+  return clocks.map((clock, ply) => {
+    const side = ply % 2;
+    const previous = lastClock[side];
+    lastClock[side] = clock;
+    if (clock === null || previous === null) return null;
+    const spent = previous + (increment ?? 0) - clock;
+    return Math.max(0, Math.round(spent * 10) / 10);
+  });
+}
+
+/**
+ * Legal moves in a position (null if chess.js can't load it). Chess960
+ * castling rights are dropped - they don't decide whether a move is forced.
+ */
+export function legalMoveCount(fen: string, chess960: boolean): number | null {
+  const parts = fen.split(' ');
+  try {
+    return new Chess(chess960 ? [...parts.slice(0, 2), '-', ...parts.slice(3)].join(' ') : fen).moves().length;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A move to evaluate: the positions either side of it
+ */
+export interface PlyToAnalyze {
+  side: 'W' | 'B';
+  uci: string;
+  fenBefore: string;
+  fenAfter: string;
+}
+
+/**
+ * Engine results for a move (evals in pawns, White's perspective)
+ */
+export interface AnalyzedPly {
   evalBefore: number | null;
   evalAfter: number | null;
   bestMove: string | null;
-}[]> {
-  const { batchSize = 20 } = options;
-  
-  const chess = new Chess();
-  chess.loadPgn(pgn, { sloppy: true });
-  const history = chess.history({ verbose: true });
+  alternatives: EngineLineT[];
+  classification: MoveClassificationT | null;
+  tablebase: KeyPositionTablebaseT | null;
+  tactics: TacticT[];
+}
 
-  // Collect all positions to analyze
-  const positionsToAnalyze: {
+/**
+ * Evaluate a game's moves in two passes: a shallow scan of every position
+ * (parallel batches), then a deeper search of the critical moments it finds
+ * (see criticalMoments.ts), whose moves are then judged on the deeper evals
+ * alone. The scan uses the ingest profile unless told otherwise
+ * (background re-analysis scans stored games deeper). Endgame positions the
+ * Syzygy tablebases cover get their exact result, which overrules the evals
+ * when classifying. Mistakes get the tactic behind them named (see tactics.ts).
+ */
+export async function analyzePlies(
+  plies: PlyToAnalyze[],
+  options: {
+    chess960?: boolean;
+    batchSize?: number;
+    engine?: EngineRequestOptions;
+    scanProfile?: EngineProfile;
+  } = {}
+): Promise<{ plies: AnalyzedPly[]; analysis: GameAnalysisT }> {
+  const { chess960 = false, batchSize = 20, engine = {}, scanProfile = profileForTask('ingest') } = options;
+
+  // Every position once: the start, then the position after each move (a move's
+  // position after is the next move's position before). Repeated positions
+  // collapse onto one search; checkmate and stalemate have nothing to search.
+  const evaluate = async (fens: string[], searchProfile: EngineProfile): Promise<Map<string, Evaluation | null>> => {
+    const unique = new Map<string, string>();
+    for (const fen of fens) {
+      if (legalMoveCount(fen, chess960) !== 0) unique.set(evalCacheKey(fen, chess960), fen);
+    }
+
+    const results = new Map<string, Evaluation | null>();
+    const entries = [...unique.entries()];
+    for (let i = 0; i < entries.length; i += batchSize) {
+      await Promise.all(entries.slice(i, i + batchSize).map(async ([key, fen]) => {
+        try {
+          const evaluation = await analyzePosition(fen, { profile: searchProfile, chess960, multiPv: MULTIPV, ...engine });
+          // Depth 0 = no engine available, so there's nothing to judge the move by
+          results.set(key, evaluation.depth > 0 ? evaluation : null);
+        } catch (error) {
+          if (engine.signal?.aborted) throw error;
+          console.error(`Failed to analyze position ${fen}:`, error);
+          results.set(key, null);
+        }
+      }));
+    }
+    return results;
+  };
+
+  // Pass 1: shallow scan of the whole game
+  const gameFens = plies.length > 0 ? [plies[0].fenBefore, ...plies.map(p => p.fenAfter)] : [];
+  const scanned = await evaluate(gameFens, scanProfile);
+  const evalAt = (evals: Map<string, Evaluation | null>, fen: string) => evals.get(evalCacheKey(fen, chess960)) ?? null;
+
+  // Pass 2: deeper search around the moments that decide the game
+  const reviewProfile = profileForTask('review');
+  const critical = findCriticalPlies(plies.map(ply => ({
+    side: ply.side,
+    uci: ply.uci,
+    forced: legalMoveCount(ply.fenBefore, chess960) === 1,
+    before: evalAt(scanned, ply.fenBefore),
+    after: evalAt(scanned, ply.fenAfter),
+  })));
+  const reviewFens = critical.flatMap(c => [plies[c.ply].fenBefore, plies[c.ply].fenAfter]);
+  const reviewed = reviewFens.length > 0 ? await evaluate(reviewFens, reviewProfile) : new Map<string, Evaluation | null>();
+  const criticalPlies = new Set(critical.map(c => c.ply));
+
+  // Both evals of a move come from the same pass, so a move is never judged by a
+  // deep search on one side and a shallow one on the other: critical moves use
+  // the review, every other move (including neighbours sharing a position) the scan
+  const moveEvalsAt = (ply: PlyToAnalyze, index: number) => {
+    const scan = { before: evalAt(scanned, ply.fenBefore), after: evalAt(scanned, ply.fenAfter) };
+    if (!criticalPlies.has(index)) return scan;
+    const review = { before: evalAt(reviewed, ply.fenBefore), after: evalAt(reviewed, ply.fenAfter) };
+    if (!review.before || !review.after) return scan;
+    // A scan can be deeper than the review profile (re-analysis at a high target depth)
+    const depth = (pair: typeof scan) => Math.min(pair.before?.depth ?? 0, pair.after?.depth ?? 0);
+    return depth(review) >= depth(scan) ? review : scan;
+  };
+
+  // Exact results where the tablebases cover the position
+  const probes = new Map<string, TablebaseProbe | null>();
+  await Promise.all(gameFens.filter(isTablebasePosition).map(async (fen) => {
+    probes.set(fen, await probeTablebase(fen));
+  }));
+
+  const analyzed = plies.map((ply, index): AnalyzedPly => {
+    const tablebase = tablebaseMove(probes.get(ply.fenBefore) ?? null, probes.get(ply.fenAfter) ?? null);
+    const { before: evalBefore, after: evalAfter } = moveEvalsAt(ply, index);
+    const moveEvals = {
+      side: ply.side,
+      evalBefore: evalBefore ? evalBefore.eval / 100 : null, // Convert centipawns to pawns
+      evalAfter: evalAfter ? evalAfter.eval / 100 : null,
+    };
+    const playedBest = evalBefore?.bestMove === ply.uci;
+    const alternatives = toEngineLines(ply.fenBefore, evalBefore?.lines, { chess960 });
+    const classification = classifyWithTablebase(
+      evalBefore && evalAfter ? classifyMove(moveEvals, playedBest) : null,
+      tablebase
+    );
+    return {
+      evalBefore: moveEvals.evalBefore,
+      evalAfter: moveEvals.evalAfter,
+      bestMove: evalBefore?.bestMove || null,
+      alternatives,
+      classification,
+      tablebase,
+      tactics: findMoveTactics({
+        classification,
+        fenBefore: ply.fenBefore,
+        fenAfter: ply.fenAfter,
+        playedBest,
+        bestLine: alternatives[0]?.line,
+        replyLine: toEngineLines(ply.fenAfter, evalAfter?.lines?.slice(0, 1), { chess960 })[0]?.line,
+        chess960,
+      }),
+    };
+  });
+
+  // What the scan ran on, for the summary's analysis record
+  const scanResults = [...scanned.values()];
+  const evaluated = scanResults.filter((e): e is Evaluation => e !== null);
+  const engineUsed = evaluated.find(e => e.engine)?.engine;
+  const analysis: GameAnalysisT = {
+    engine: evaluated.length === 0 ? 'none'
+      : evaluated.some(e => e.source === 'stockfish') ? engineUsed?.backend ?? 'native'
+      : 'lichess',
+    depth: evaluated.length > 0 ? Math.min(...evaluated.map(e => e.depth)) : null,
+    engineName: engineUsed?.engine ?? null,
+    profile: engineUsed?.profile ?? null,
+    reviewed: [...reviewed.values()].filter(e => e !== null).length,
+    reviewProfile: reviewFens.length > 0 ? reviewProfile.name : null,
+    unevaluated: scanResults.length - evaluated.length,
+    evalPerspective: EVAL_PERSPECTIVE_VERSION,
+    analyzedAt: new Date().toISOString(),
+  };
+  return { plies: analyzed, analysis };
+}
+
+/**
+ * Analyze ALL moves in a game (see analyzePlies)
+ * Returns evaluations for every position in the game
+ */
+async function analyzeAllMoves(
+  pgn: string,
+  options: {
+    batchSize?: number;
+    base?: number | null;
+    increment?: number | null;
+    variant?: GameVariantT;
+    startFen?: string | null;
+    engine?: EngineRequestOptions;
+  } = {}
+): Promise<{
+  positions: ({
     moveNo: number;
     side: 'W' | 'B';
     move: string;
-    fenBefore: string;
-    fenAfter: string;
+    fen: string;
     tag: string[];
-  }[] = [];
+    clock: number | null;
+    timeSpent: number | null;
+  } & AnalyzedPly)[];
+  analysis: GameAnalysisT;
+}> {
+  const { batchSize = 20, base = null, increment = null, variant = 'standard', startFen = null, engine = {} } = options;
+  const chess960 = variant === 'chess960';
+
+  // Per-ply SAN and clocks from the movetext (%clk comments: Chess.com and Lichess both emit them)
+  const mainline = parseMainline(pgn);
+  const clocks = mainline.map(m => m.clock);
+  const timeSpent = computeTimeSpent(clocks, base, increment);
+
+  // chess.js honours SetUp/FEN on its own; Chess960 castling needs our replay
+  let history: { san: string; lan: string; color: 'w' | 'b'; flags: string; before: string; after: string }[];
+  if (chess960 && startFen) {
+    history = replayChess960(startFen, mainline.map(m => m.san));
+  } else {
+    const chess = new Chess();
+    chess.loadPgn(pgn, { sloppy: true });
+    history = chess.history({ verbose: true });
+  }
 
-  chess.reset();
-  for (const mv of history) {
-    const fenBefore = chess.fen();
-    chess.move(mv);
-    const fullMove = chess.turn() === 'w' ? chess.moveNumber() - 1 : chess.moveNumber();
+  // Collect all positions to analyze
+  const positionsToAnalyze: (PlyToAnalyze & {
+    moveNo: number;
+    move: string;
+    tag: string[];
+    clock: number | null;
+    timeSpent: number | null;
+  })[] = [];
+
+  for (const [ply, mv] of history.entries()) {
+    const fenBefore = mv.before;
+    const fenAfter = mv.after;
+    const fullMove = Number(fenBefore.split(' ')[5]) || 1; // Move number the move was played on
     const side: 'W' | 'B' = mv.color === 'w' ? 'W' : 'B';
-    const fenAfter = chess.fen();
 
     // Tag special moves
     const tags: string[] = [];
@@ -114,118 +504,109 @@ async function analyzeAllMoves(
       moveNo: fullMove,
       side,
       move: mv.san,
+      uci: mv.lan,
       fenBefore,
       fenAfter,
-      tag: tags
+      tag: tags,
+      clock: clocks[ply] ?? null,
+      timeSpent: timeSpent[ply] ?? null
     });
   }
 
-  // Analyze in parallel batches
-  const analyzed: {
-    moveNo: number;
-    side: 'W' | 'B';
-    move: string;
-    fen: string;
-    tag: string[];
-    evalBefore: number | null;
-    evalAfter: number | null;
-    bestMove: string | null;
-  }[] = [];
-
-  for (let i = 0; i < positionsToAnalyze.length; i += batchSize) {
-    const batch = positionsToAnalyze.slice(i, i + batchSize);
-    
-    // Analyze each position in the batch in parallel
-    const batchResults = await Promise.all(
-      batch.map(async (pos) => {
-        try {
-          // Analyze both before and after positions in parallel
-          const [evalBefore, evalAfter] = await Promise.all([
-            analyzePosition(pos.fenBefore),
-            analyzePosition(pos.fenAfter)
-          ]);
-          
-          return {
-            moveNo: pos.moveNo,
-            side: pos.side,
-            move: pos.move,
-            fen: pos.fenAfter,
-            tag: pos.tag,
-            evalBefore: evalBefore.eval / 100, // Convert centipawns to pawns
-            evalAfter: evalAfter.eval / 100,
-            bestMove: evalBefore.bestMove || null
-          };
-        } catch (error) {
-          console.error(`Failed to analyze position at move ${pos.moveNo}:`, error);
-          return {
-            moveNo: pos.moveNo,
-            side: pos.side,
-            move: pos.move,
-            fen: pos.fenAfter,
-            tag: pos.tag,
-            evalBefore: null,
-            evalAfter: null,
-            bestMove: null
-          };
-        }
-      })
-    );
-    
-    analyzed.push(...batchResults);
-  }
-
-  return analyzed;
+  const { plies, analysis } = await analyzePlies(positionsToAnalyze, { chess960, batchSize, engine });
+  const positions = positionsToAnalyze.map((pos, i) => ({
+    moveNo: pos.moveNo,
+    side: pos.side,
+    move: pos.move,
+    fen: pos.fenAfter,
+    ...plies[i],
+    tag: withTacticTags(pos.tag, plies[i].tactics),
+    clock: pos.clock,
+    timeSpent: pos.timeSpent
+  }));
+  return { positions, analysis };
 }
 
-export async function pgnToSummary(pgn: string, username: string): Promise<CompactGameSummaryT | null> {
+/**
+ * Analyze a game into a summary (null if it isn't the user's or the variant isn't supported).
+ * Engine searches run at ingest priority unless told otherwise; aborting the
+ * signal cancels them and rejects instead of saving a half-analyzed game.
+ */
+export async function pgnToSummary(
+  pgn: string,
+  username: string,
+  engine: EngineRequestOptions = {}
+): Promise<CompactGameSummaryT | null> {
   const headers = parsePgnHeaders(pgn);
-  if (!isStandard(headers)) return null;
+  const variant = detectVariant(headers);
+  if (!variant) return null;
+  const startFen = variant === 'standard' ? null : headers.FEN || null;
+  if (variant === 'chess960' && !startFen) return null; // Can't replay without the shuffled start
   const rated = /rated/i.test(headers.Event || '') || /rated/i.test(headers.Termination || '');
 
-  const white = (headers.White || '').toLowerCase();
-  const black = (headers.Black || '').toLowerCase();
-  const user = username.toLowerCase();
+  const white = (headers.White || '').trim().toLowerCase();
+  const black = (headers.Black || '').trim().toLowerCase();
+  const user = username.trim().toLowerCase();
   if (white !== user && black !== user) return null;
 
-  const gameId = hashId(headers);
+  const site = detectSite(headers);
+  const gameId = hashId(headers, site, pgn);
   const date = toIso(headers.Date);
   const tc = parseTimeControl(headers.TimeControl);
   
-  // Fetch opening name from ECO code if not provided
-  const eco = headers.ECO ?? null;
-  const openingName = headers.Opening || (await fetchOpeningName(eco));
-  const opening = { eco, name: openingName };
-  
   const userColor = white === user ? 'white' : 'black';
   const result = mapResultForUser(headers.Result, userColor);
 
-  // Extract player names and Chess.com URL for better game references
+  // Extract player names and game URL for better game references
   const whitePlayer = headers.White || null;
   const blackPlayer = headers.Black || null;
   const opponent = userColor === 'white' ? blackPlayer : whitePlayer;
-  const chesscomUrl = headers.Link || null;
+  const gameUrl = extractGameUrl(headers);
 
   // Analyze all moves in the game (not just key positions)
-  const keyPositions = await analyzeAllMoves(pgn, { batchSize: 20 });
+  const { positions: keyPositions, analysis } = await analyzeAllMoves(pgn, {
+    batchSize: 20,
+    base: tc.base,
+    increment: tc.increment,
+    variant,
+    startFen,
+    engine: { priority: 'ingest', ...engine },
+  });
+  if (analysis.engine === 'none' && keyPositions.length > 0) {
+    console.warn(`[Ingest] Game ${gameId} saved without engine analysis - re-analyze once an engine is available`);
+  }
+
+  // Identify the opening from the positions reached; fall back to the headers
+  // (ECO codes don't apply to Chess960)
+  const identified = variant === 'chess960' ? null : identifyOpening(keyPositions.map(p => p.fen));
+  const eco = variant === 'chess960' ? null : headers.ECO ?? null;
+  const headerName = variant === 'chess960' ? null : headers.Opening || nameForEco(eco);
+  const opening = identified ?? { eco, name: headerName, ...(headerName ? parseOpeningName(headerName) : {}) };
+
+  const whiteRating = parseRating(headers.WhiteElo);
+  const blackRating = parseRating(headers.BlackElo);
 
   const summary: CompactGameSummaryT = CompactGameSummary.parse({
     gameId,
     date,
-    site: 'chess.com',
+    site,
     rated,
-    variant: 'standard',
+    variant,
+    startFen,
     timeControl: tc,
     userColor,
-    userRating: headers.WhiteElo ? Number(headers.WhiteElo) : null,
-    oppRating: headers.BlackElo ? Number(headers.BlackElo) : null,
+    userRating: userColor === 'white' ? whiteRating : blackRating,
+    oppRating: userColor === 'white' ? blackRating : whiteRating,
+    whiteRating,
+    blackRating,
     result,
+    termination: parseTermination(headers.Termination, pgn),
     opening,
-    mistakes: 0,
-    blunders: 0,
-    inaccuracies: 0,
+    ...countUserErrors(keyPositions, userColor),
     keyPositions,
+    analysis,
     // Enhanced game references
-    chesscomUrl,
+    gameUrl,
     whitePlayer,
     blackPlayer,
     opponent,
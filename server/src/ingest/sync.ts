@@ -0,0 +1,144 @@
+/**
+ * Incremental Chess.com Sync
+ *
+ * Fetches and analyzes only games that are new since the last run:
+ * - Archive months older than the cursor are complete and never re-read
+ * - Remaining months are fetched with If-None-Match/If-Modified-Since (304 = skip)
+ * - Within a month, games up to the last one seen and games already stored are skipped
+ * - New games are analyzed through the user's ingest job (jobs/ingestQueue.ts),
+ *   so a sync never analyzes a game another import is already working on
+ */
+
+import { listArchives, fetchArchiveIfModified } from './chesscom';
+import { gameIdFromPgn, isGameStored, parsePgnHeaders } from './pgnToSummary';
+import { loadSyncState, saveSyncState, type ChessComSyncStateT } from './syncState';
+import { loadSummaries, loadGameIds } from '../summaries/store';
+import { enqueueIngest, waitForGames } from '../jobs/ingestQueue';
+import type { IngestJobStatusT } from '../jobs/ingestJobStore';
+
+export interface SyncOptions {
+  limitMonths?: number;  // Archive months to read on the first sync
+  limitGames?: number;   // Max new games to analyze per sync
+  onProgress?: (processed: number, total: number) => void;
+  signal?: AbortSignal;  // Stop early (already-analyzed games are kept, queued ones keep analyzing)
+}
+
+export interface SyncResult {
+  added: number;
+  total: number;
+  firstSync: boolean;
+  archivesChecked: number;
+  archivesNotModified: number;
+  limited: boolean;       // More new games remain - run sync again to pick them up
+  pending: number;        // Queued but not analyzed yet (job paused or cancelled, or the wait was aborted)
+  jobStatus: IngestJobStatusT | null;
+}
+
+/**
+ * "YYYY/MM" from an archive URL like .../games/2024/05
+ */
+function archiveMonth(url: string): string {
+  const m = url.match(/(\d{4})\/(\d{2})\/?$/);
+  return m ? `${m[1]}/${m[2]}` : url;
+}
+
+/**
+ * Sync a user's chess.com games, analyzing only what's new
+ */
+export async function syncChessCom(
+  userId: string,
+  username: string,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  const { limitMonths = 12, limitGames = 100, onProgress, signal } = options;
+  const user = username.trim().toLowerCase();
+
+  const state = await loadSyncState(userId);
+  const cursor = state.chesscom?.username === user ? state.chesscom : null;
+  const firstSync = !cursor?.lastArchiveMonth;
+
+  // Latest first. Months before the cursor month are complete.
+  const archives = await listArchives(user);
+  const toCheck = firstSync
+    ? archives.slice(0, limitMonths)
+    : archives.filter(url => archiveMonth(url) >= cursor!.lastArchiveMonth!);
+
+  const knownIds = await loadGameIds(userId);
+  const newPgns: string[] = [];
+  const fetchedValidators: ChessComSyncStateT['archives'] = {};
+  let archivesNotModified = 0;
+  let limited = false;
+  let newestSeen: { gameId: string; url: string | null } | null = null;
+
+  archiveLoop: for (const url of toCheck) {
+    if (signal?.aborted) {
+      limited = true;
+      break;
+    }
+    const archive = await fetchArchiveIfModified(url, cursor?.archives[url] ?? null);
+    if (archive.notModified) {
+      archivesNotModified++;
+      continue;
+    }
+    fetchedValidators[url] = { etag: archive.etag, lastModified: archive.lastModified };
+
+    // Archives are oldest-first; walk newest-first so the limit keeps the latest games
+    const games = archive.pgn.split(/\n\n(?=\[Event )/).filter(Boolean).reverse();
+    if (url === archives[0] && games.length > 0) {
+      newestSeen = { gameId: gameIdFromPgn(games[0]), url: parsePgnHeaders(games[0]).Link ?? null };
+    }
+    for (const pgn of games) {
+      // Everything older was seen last run. The URL also matches markers saved
+      // before chess.com ids included it.
+      if (cursor?.lastGameId && gameIdFromPgn(pgn) === cursor.lastGameId) break;
+      if (cursor?.lastGameUrl && parsePgnHeaders(pgn).Link === cursor.lastGameUrl) break;
+      if (isGameStored(knownIds, pgn)) continue;
+      if (newPgns.length >= limitGames) {
+        limited = true;
+        break archiveLoop;
+      }
+      newPgns.push(pgn);
+    }
+  }
+
+  console.log(`[Sync] ${user}: ${toCheck.length} archives checked (${archivesNotModified} unchanged), ${newPgns.length} new games`);
+
+  // Analyze new games through the user's ingest job, which saves after each batch
+  const { gameIds } = await enqueueIngest(userId, newPgns.map(pgn => ({ pgn, player: user })));
+  const result = await waitForGames(userId, gameIds, {
+    signal,
+    onProgress: ({ done, skipped, failed }) => onProgress?.(done + skipped + failed, gameIds.length),
+  });
+  const added = result.done;
+  if (result.pending > 0 || result.failed > 0) limited = true;
+
+  // Only advance the cursor when nothing was left behind; otherwise the next
+  // run revisits the same months (already-stored games are still skipped)
+  const now = new Date().toISOString();
+  if (!limited) {
+    const newestArchive = archives[0] ?? null;
+    state.chesscom = {
+      username: user,
+      lastArchiveMonth: newestArchive ? archiveMonth(newestArchive) : cursor?.lastArchiveMonth ?? null,
+      lastGameId: newestSeen?.gameId ?? cursor?.lastGameId ?? null,
+      lastGameUrl: newestSeen ? newestSeen.url : cursor?.lastGameUrl ?? null,
+      archives: { ...(cursor?.archives ?? {}), ...fetchedValidators },
+      lastSyncAt: now,
+    };
+  } else if (cursor) {
+    state.chesscom = { ...cursor, lastSyncAt: now };
+  }
+  await saveSyncState(state);
+
+  const total = (await loadSummaries(userId)).length;
+  return {
+    added,
+    total,
+    firstSync,
+    archivesChecked: toCheck.length,
+    archivesNotModified,
+    limited,
+    pending: result.pending,
+    jobStatus: result.status,
+  };
+}
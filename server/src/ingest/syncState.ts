@@ -0,0 +1,65 @@
+/**
+ * Sync State Storage
+ *
+ * Per-user cursor for incremental imports, stored alongside summaries.
+ * Remembers which archive month and game were seen last, plus the archive
+ * ETag/Last-Modified values so unchanged months can be skipped with a 304.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+
+const DATA_ROOT = path.join(process.cwd(), 'data');
+
+export const ArchiveValidatorsSchema = z.object({
+  etag: z.string().nullable().default(null),
+  lastModified: z.string().nullable().default(null),
+});
+
+export const ChessComSyncState = z.object({
+  username: z.string(),                                  // Lowercased chess.com username the cursor belongs to
+  lastArchiveMonth: z.string().nullable().default(null), // "YYYY/MM" of the newest archive fully synced
+  lastGameId: z.string().nullable().default(null),       // Newest game seen in that archive
+  lastGameUrl: z.string().nullable().default(null),
+  archives: z.record(z.string(), ArchiveValidatorsSchema).default({}), // Archive URL -> validators
+  lastSyncAt: z.string().nullable().default(null),       // ISO timestamp
+});
+
+export type ChessComSyncStateT = z.infer<typeof ChessComSyncState>;
+
+export const SyncState = z.object({
+  userId: z.string(),
+  chesscom: ChessComSyncState.nullable().default(null),
+});
+
+export type SyncStateT = z.infer<typeof SyncState>;
+
+function syncStatePath(userId: string): string {
+  return path.join(DATA_ROOT, userId, 'sync.json');
+}
+
+/**
+ * Load a user's sync state (empty state if none saved yet)
+ */
+export async function loadSyncState(userId: string): Promise<SyncStateT> {
+  try {
+    const raw = await fs.readFile(syncStatePath(userId), 'utf8');
+    return SyncState.parse(JSON.parse(raw));
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT' && err?.code !== 'ENOTDIR') {
+      console.error('[SyncState] Failed to load sync state:', err);
+    }
+    return { userId, chesscom: null };
+  }
+}
+
+/**
+ * Save a user's sync state
+ */
+export async function saveSyncState(state: SyncStateT): Promise<void> {
+  const dir = path.join(DATA_ROOT, state.userId);
+  await fs.mkdir(dir, { recursive: true });
+  const validated = SyncState.parse(state);
+  await fs.writeFile(syncStatePath(state.userId), JSON.stringify(validated, null, 2), 'utf8');
+}
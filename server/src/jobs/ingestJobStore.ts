@@ -0,0 +1,90 @@
+/**
+ * Ingest Job Storage
+ *
+ * One background-analysis job per user, stored alongside summaries with the
+ * PGNs still to analyze, so a restart can pick up where it stopped.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+
+const DATA_ROOT = path.join(process.cwd(), 'data');
+
+export const IngestJobGame = z.object({
+  gameId: z.string(),
+  pgn: z.string(),
+  player: z.string(),                                  // Whose game this is (passed to pgnToSummary)
+  priority: z.enum(['interactive', 'ingest']).default('ingest'), // interactive = someone is waiting on it; analyzed first
+  status: z.enum(['pending', 'done', 'skipped', 'failed']).default('pending'), // skipped = not the player's / unsupported
+  attempts: z.number().default(0),
+  nextAttemptAt: z.number().nullable().default(null),  // Epoch ms; retry backoff
+  lastError: z.string().nullable().default(null),
+});
+
+export type IngestJobGameT = z.infer<typeof IngestJobGame>;
+
+export const IngestJobStatus = z.enum(['queued', 'running', 'paused', 'cancelled', 'complete']);
+export type IngestJobStatusT = z.infer<typeof IngestJobStatus>;
+
+export const IngestJob = z.object({
+  userId: z.string(),
+  status: IngestJobStatus,
+  createdAt: z.string(),   // ISO timestamp
+  updatedAt: z.string(),   // ISO timestamp
+  games: z.array(IngestJobGame).default([]),
+});
+
+export type IngestJobT = z.infer<typeof IngestJob>;
+
+function ingestJobPath(userId: string): string {
+  return path.join(DATA_ROOT, userId, 'ingest-job.json');
+}
+
+/**
+ * Load a user's ingest job (null if none saved)
+ */
+export async function loadIngestJob(userId: string): Promise<IngestJobT | null> {
+  try {
+    const raw = await fs.readFile(ingestJobPath(userId), 'utf8');
+    return IngestJob.parse(JSON.parse(raw));
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT' && err?.code !== 'ENOTDIR') {
+      console.error('[IngestJobStore] Failed to load ingest job:', err);
+    }
+    return null;
+  }
+}
+
+/**
+ * Save a user's ingest job
+ */
+export async function saveIngestJob(job: IngestJobT): Promise<void> {
+  const dir = path.join(DATA_ROOT, job.userId);
+  await fs.mkdir(dir, { recursive: true });
+  job.updatedAt = new Date().toISOString();
+  const validated = IngestJob.parse(job);
+  await fs.writeFile(ingestJobPath(job.userId), JSON.stringify(validated), 'utf8');
+}
+
+/**
+ * Users with a saved ingest job (for resuming on boot)
+ */
+export async function listIngestJobUsers(): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(DATA_ROOT);
+  } catch {
+    return [];
+  }
+  const users: string[] = [];
+  for (const userId of entries) {
+    try {
+      await fs.access(ingestJobPath(userId));
+      users.push(userId);
+    } catch {
+      // No job for this user
+    }
+  }
+  return users;
+}
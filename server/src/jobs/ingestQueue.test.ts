@@ -0,0 +1,54 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+
+const PGN = '[Event "Rated blitz game"]\n[Site "https://lichess.org/aaaa"]\n[White "me"]\n[Black "them"]\n\n1. e4 e5 1-0';
+
+// Stores resolve data/ against the working directory when they load
+let queue: typeof import('./ingestQueue');
+let store: typeof import('./ingestJobStore');
+
+before(async () => {
+  process.chdir(mkdtempSync(path.join(tmpdir(), 'ingest-queue-')));
+  queue = await import('./ingestQueue');
+  store = await import('./ingestJobStore');
+});
+
+test('games queued on a paused job are reported as pending, not as an empty result', async () => {
+  const now = new Date().toISOString();
+  await store.saveIngestJob({ userId: 'u', status: 'paused', createdAt: now, updatedAt: now, games: [] });
+
+  const first = await queue.enqueueIngest('u', [{ pgn: PGN, player: 'me' }], 'interactive');
+  assert.equal(first.queued, 1);
+  assert.equal(first.job?.status, 'paused');
+  assert.equal(queue.isIngestRunning('u'), false);
+
+  const result = await queue.waitForGames('u', first.gameIds);
+  assert.equal(result.status, 'paused');
+  assert.equal(result.pending, 1);
+  assert.equal(result.done, 0);
+  assert.match(queue.pendingMessage('u', result), /paused/);
+
+  // Queuing the same game again doesn't add it twice, but the caller can still wait on it
+  const again = await queue.enqueueIngest('u', [{ pgn: PGN, player: 'me' }]);
+  assert.equal(again.queued, 0);
+  assert.deepEqual(again.gameIds, first.gameIds);
+
+  const job = await queue.getIngestJob('u');
+  assert.equal(job?.games.length, 1);
+  assert.equal(job?.games[0].priority, 'interactive');
+  assert.equal(queue.describeIngestJob(job!).games.pending, 1);
+});
+
+test('waitForGames follows a running job until its games are settled', async () => {
+  // Not the player's game: analysis skips it without touching the engine
+  const { gameIds, job } = await queue.enqueueIngest('v', [{ pgn: PGN, player: 'someone-else' }], 'interactive');
+  assert.equal(job?.status, 'queued');
+
+  const result = await queue.waitForGames('v', gameIds);
+  assert.equal(result.pending, 0);
+  assert.equal(result.skipped, 1);
+  assert.deepEqual(result.games.map(g => g.status), ['skipped']);
+});
@@ -0,0 +1,457 @@
+/**
+ * Ingest Job Queue
+ *
+ * Persistent background analysis for imported games:
+ * - The job (with its PGNs) is saved after every batch, and resumeIngestJobs()
+ *   picks interrupted jobs back up when the server boots
+ * - One job per user: new requests merge their games into it, skipping games
+ *   already queued or stored, so nothing is analyzed twice
+ * - Games whose analysis throws are retried with exponential backoff
+ * - Jobs can be paused, resumed and cancelled; progress goes through sessionManager
+ * - Every import goes through here. Callers that answer with results (quick
+ *   start, small uploads, sync) queue at interactive priority and wait for
+ *   their own games with waitForGames()
+ */
+
+import { pgnToSummary, gameIdsFromPgn } from '../ingest/pgnToSummary';
+import { upsertSummaries, loadGameIds } from '../summaries/store';
+import { generatePuzzlesInBackground } from '../puzzles/generator';
+import type { CompactGameSummaryT } from '../summaries/schemas';
+import {
+  createSession,
+  updateProgress,
+  completeSession,
+  pauseSession,
+  cancelSession,
+} from '../analysis/sessionManager';
+import {
+  loadIngestJob,
+  saveIngestJob,
+  listIngestJobUsers,
+  type IngestJobT,
+  type IngestJobGameT,
+  type IngestJobStatusT,
+} from './ingestJobStore';
+
+export type IngestPriority = IngestJobGameT['priority'];
+
+const BATCH_SIZE = 8;                 // Process 8 games concurrently
+const MAX_ATTEMPTS = 3;               // Then the game is marked failed
+const RETRY_BASE_MS = 30 * 1000;      // 30s, 60s, ... between attempts
+const MAX_IDLE_WAIT_MS = 5 * 1000;    // Re-check for new games while waiting on a retry
+
+interface Runner {
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+// Active runners by user, and a per-user lock so job file updates don't interleave
+const runners = new Map<string, Runner>();
+const locks = new Map<string, Promise<unknown>>();
+
+// Callbacks for waitForGames, called after each batch and when a runner stops
+const batchListeners = new Map<string, Set<() => void>>();
+
+function notifyBatch(userId: string): void {
+  const listeners = batchListeners.get(userId);
+  if (!listeners) return;
+  batchListeners.delete(userId);
+  for (const listener of listeners) listener();
+}
+
+/**
+ * Resolves after the user's next batch, when their runner stops, or on abort
+ */
+function nextBatch(userId: string, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    let listeners = batchListeners.get(userId);
+    if (!listeners) batchListeners.set(userId, listeners = new Set());
+    listeners.add(resolve);
+    signal?.addEventListener('abort', () => {
+      batchListeners.get(userId)?.delete(resolve);
+      resolve();
+    }, { once: true });
+  });
+}
+
+function withLock<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+  const prev = locks.get(userId) ?? Promise.resolve();
+  const next = prev.then(fn, fn);
+  locks.set(userId, next.catch(() => undefined));
+  return next;
+}
+
+/**
+ * Load, change and save a user's job under the lock
+ */
+function updateJob(userId: string, fn: (job: IngestJobT) => void): Promise<IngestJobT | null> {
+  return withLock(userId, async () => {
+    const job = await loadIngestJob(userId);
+    if (!job) return null;
+    fn(job);
+    await saveIngestJob(job);
+    return job;
+  });
+}
+
+function isFinished(job: IngestJobT): boolean {
+  return job.status === 'complete' || job.status === 'cancelled';
+}
+
+function pendingGames(job: IngestJobT): IngestJobGameT[] {
+  return job.games.filter(g => g.status === 'pending');
+}
+
+/**
+ * Queue games for background analysis. Games already stored are skipped, and
+ * games already in the user's job aren't queued twice (queuing them again at
+ * interactive priority moves them up). Returns the job, how many games were
+ * newly queued, and the ids of the requested games the job is analyzing.
+ */
+export async function enqueueIngest(
+  userId: string,
+  games: { pgn: string; player: string }[],
+  priority: IngestPriority = 'ingest'
+): Promise<{ job: IngestJobT | null; queued: number; gameIds: string[] }> {
+  const result = await withLock(userId, async () => {
+    let job = await loadIngestJob(userId);
+    if (!job || isFinished(job)) {
+      const now = new Date().toISOString();
+      job = { userId, status: 'queued', createdAt: now, updatedAt: now, games: [] };
+    }
+
+    const stored = await loadGameIds(userId);
+    const inJob = new Map(job.games.map(g => [g.gameId, g]));
+
+    let queued = 0;
+    const gameIds: string[] = [];
+    for (const { pgn, player } of games) {
+      const ids = gameIdsFromPgn(pgn);
+      if (ids.some(id => stored.has(id))) continue;
+      const gameId = ids[0];
+      // Games queued before rematches got their own ids are still queued under the old one
+      const existing = ids.map(id => inJob.get(id)).find(g => g !== undefined);
+      if (existing) {
+        if (existing.status === 'pending' && priority === 'interactive') existing.priority = priority;
+        if (!gameIds.includes(existing.gameId)) gameIds.push(existing.gameId);
+        continue;
+      }
+      const game: IngestJobGameT = { gameId, pgn, player, priority, status: 'pending', attempts: 0, nextAttemptAt: null, lastError: null };
+      job.games.push(game);
+      inJob.set(gameId, game);
+      gameIds.push(gameId);
+      queued++;
+    }
+
+    if (queued === 0 && job.games.length === 0) return { job: null, queued, gameIds };
+    await saveIngestJob(job);
+    return { job, queued, gameIds };
+  });
+
+  if (result.job && result.queued > 0 && result.job.status !== 'paused') {
+    startRunner(userId, pendingGames(result.job).length);
+  }
+  return result;
+}
+
+/**
+ * Current job for a user (null if none)
+ */
+export function getIngestJob(userId: string): Promise<IngestJobT | null> {
+  return loadIngestJob(userId);
+}
+
+export function isIngestRunning(userId: string): boolean {
+  return runners.has(userId);
+}
+
+/**
+ * Job state without the PGNs
+ */
+export function describeIngestJob(job: IngestJobT) {
+  const count = (status: string) => job.games.filter(g => g.status === status).length;
+  return {
+    userId: job.userId,
+    status: job.status,
+    running: isIngestRunning(job.userId),
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    games: {
+      total: job.games.length,
+      pending: count('pending'),
+      done: count('done'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+    },
+    retrying: job.games
+      .filter(g => g.status === 'pending' && g.attempts > 0)
+      .map(g => ({ gameId: g.gameId, attempts: g.attempts, nextAttemptAt: g.nextAttemptAt, error: g.lastError })),
+    failed: job.games
+      .filter(g => g.status === 'failed')
+      .map(g => ({ gameId: g.gameId, attempts: g.attempts, error: g.lastError })),
+  };
+}
+
+export interface IngestWaitResult {
+  status: IngestJobStatusT | null;  // The job's status when the wait ended
+  done: number;
+  skipped: number;                  // Not the player's game, or unsupported variant
+  failed: number;                   // Failed at least once (may still be retried in the background)
+  pending: number;                  // Not analyzed yet (job paused, cancelled or wait aborted)
+  games: { gameId: string; status: IngestJobGameT['status']; error: string | null }[];
+}
+
+/**
+ * Why games a caller waited on aren't analyzed yet (for API responses)
+ */
+export function pendingMessage(userId: string, result: Pick<IngestWaitResult, 'status' | 'pending'>): string {
+  const why = result.status === 'paused'
+    ? 'the import is paused - resume it at /ingest/jobs/resume'
+    : result.status === 'cancelled'
+      ? 'the import was cancelled'
+      : 'they are still queued';
+  return `${result.pending} games not analyzed yet: ${why}. Follow progress at /ingest/jobs?userId=${userId}`;
+}
+
+/**
+ * Wait until each of the given games has been analyzed (or has failed once),
+ * or until the job stops running (paused, cancelled) or the signal aborts.
+ * Aborting only stops the wait - the games stay queued.
+ */
+export async function waitForGames(
+  userId: string,
+  gameIds: string[],
+  options: { signal?: AbortSignal; onProgress?: (result: IngestWaitResult) => void } = {}
+): Promise<IngestWaitResult> {
+  const ids = new Set(gameIds);
+  while (true) {
+    const job = await loadIngestJob(userId);
+    const games = (job?.games ?? []).filter(g => ids.has(g.gameId));
+    const waiting = games.filter(g => g.status === 'pending' && g.attempts === 0);
+    const result: IngestWaitResult = {
+      status: job?.status ?? null,
+      done: games.filter(g => g.status === 'done').length,
+      skipped: games.filter(g => g.status === 'skipped').length,
+      failed: games.filter(g => g.status === 'failed' || (g.status === 'pending' && g.attempts > 0)).length,
+      pending: waiting.length,
+      games: games.map(g => ({ gameId: g.gameId, status: g.status, error: g.lastError })),
+    };
+    options.onProgress?.(result);
+    if (waiting.length === 0 || !runners.has(userId) || options.signal?.aborted) return result;
+    await nextBatch(userId, options.signal);
+  }
+}
+
+/**
+ * Pause after the current batch. Returns null if there's no active job.
+ */
+export async function pauseIngest(userId: string): Promise<IngestJobT | null> {
+  const job = await updateJob(userId, job => {
+    if (job.status === 'queued' || job.status === 'running') job.status = 'paused';
+  });
+  if (!job || job.status !== 'paused') return null;
+  runners.get(userId)?.controller.abort();
+  pauseSession(userId);
+  return job;
+}
+
+/**
+ * Resume a paused job. Returns null if there's no paused job.
+ */
+export async function resumeIngest(userId: string): Promise<IngestJobT | null> {
+  let resumed = false;
+  const job = await updateJob(userId, job => {
+    if (job.status === 'paused') {
+      job.status = 'queued';
+      resumed = true;
+    }
+  });
+  if (!job || !resumed) return null;
+  await runners.get(userId)?.done; // A paused runner may still be finishing its batch
+  startRunner(userId, pendingGames(job).length);
+  return job;
+}
+
+/**
+ * Cancel a job. Games analyzed so far are kept. Returns null if there's no active job.
+ */
+export async function cancelIngest(userId: string): Promise<IngestJobT | null> {
+  let cancelled = false;
+  const job = await updateJob(userId, job => {
+    if (!isFinished(job)) {
+      job.status = 'cancelled';
+      cancelled = true;
+    }
+  });
+  if (!job || !cancelled) return null;
+  runners.get(userId)?.controller.abort();
+  cancelSession(userId);
+  return job;
+}
+
+/**
+ * Restart jobs that were queued or running when the server stopped
+ */
+export async function resumeIngestJobs(): Promise<number> {
+  let resumed = 0;
+  for (const userId of await listIngestJobUsers()) {
+    if (runners.has(userId)) continue;
+    const job = await loadIngestJob(userId);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) continue;
+    const pending = pendingGames(job).length;
+    if (pending === 0) {
+      await updateJob(userId, j => { j.status = 'complete'; });
+      continue;
+    }
+    console.log(`[IngestQueue] Resuming job for ${userId}: ${pending} games left`);
+    startRunner(userId, pending);
+    resumed++;
+  }
+  return resumed;
+}
+
+/**
+ * Start analyzing a user's job unless it's already running.
+ * The progress session is created right away so callers can subscribe to it.
+ */
+function startRunner(userId: string, pending: number): void {
+  if (runners.has(userId)) return;
+
+  createSession(userId, pending);
+  updateProgress(userId, { status: 'analyzing' });
+
+  const controller = new AbortController();
+  const runner: Runner = {
+    controller,
+    done: runJob(userId, controller.signal)
+      .catch(err => {
+        console.error(`[IngestQueue] Job failed for ${userId}:`, err);
+      })
+      .finally(() => {
+        if (runners.get(userId) === runner) runners.delete(userId);
+        notifyBatch(userId);
+      }),
+  };
+  runners.set(userId, runner);
+}
+
+/**
+ * Sleep that ends early when the job is paused or cancelled
+ */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+async function runJob(userId: string, signal: AbortSignal): Promise<void> {
+  const started = await updateJob(userId, job => {
+    if (job.status === 'queued' || job.status === 'running') job.status = 'running';
+  });
+  if (!started || started.status !== 'running') return; // Paused or cancelled before it began
+  let job: IngestJobT = started;
+
+  let processed = 0;
+  let batchNum = 0;
+
+  while (!signal.aborted) {
+    const pending = pendingGames(job);
+
+    if (pending.length === 0) {
+      // Finish under the lock so games queued meanwhile aren't left behind
+      const finished = await withLock(userId, async () => {
+        const latest = await loadIngestJob(userId);
+        if (!latest || signal.aborted) return true;
+        if (pendingGames(latest).length > 0) {
+          job = latest;
+          return false;
+        }
+        latest.status = 'complete';
+        await saveIngestJob(latest);
+        runners.delete(userId);
+        return true;
+      });
+      if (finished) break;
+      continue;
+    }
+
+    const now = Date.now();
+    // Games someone is waiting on go first (sort is stable, so queue order holds otherwise)
+    const batch = pending
+      .filter(g => !g.nextAttemptAt || g.nextAttemptAt <= now)
+      .sort((a, b) => (a.priority === 'interactive' ? 0 : 1) - (b.priority === 'interactive' ? 0 : 1))
+      .slice(0, BATCH_SIZE);
+    if (batch.length === 0) {
+      // Everything left is waiting on a retry
+      const nextAt = Math.min(...pending.map(g => g.nextAttemptAt ?? now));
+      await wait(Math.min(MAX_IDLE_WAIT_MS, Math.max(0, nextAt - now)), signal);
+      job = (await loadIngestJob(userId)) ?? job;
+      continue;
+    }
+    batchNum++;
+
+    const results = await Promise.all(
+      batch.map(async (g) => {
+        try {
+          return { gameId: g.gameId, summary: await pgnToSummary(g.pgn, g.player, { priority: g.priority, userId, signal }), error: null };
+        } catch (err: any) {
+          return { gameId: g.gameId, summary: null, error: err?.message || 'Analysis failed' };
+        }
+      })
+    );
+
+    const valid = results.map(r => r.summary).filter((s): s is CompactGameSummaryT => s !== null);
+    if (valid.length > 0) {
+      await upsertSummaries(userId, valid);
+    }
+
+    // Apply results to the saved job (it may have gained games or been paused meanwhile)
+    const updated = await updateJob(userId, latest => {
+      for (const r of results) {
+        const g = latest.games.find(x => x.gameId === r.gameId);
+        if (!g) continue;
+        if (r.error && signal.aborted) continue; // Cancelled mid-analysis - still pending
+        if (!r.error) {
+          g.status = r.summary ? 'done' : 'skipped';
+          g.lastError = null;
+          continue;
+        }
+        g.attempts++;
+        g.lastError = r.error;
+        if (g.attempts >= MAX_ATTEMPTS) {
+          g.status = 'failed';
+          console.warn(`[IngestQueue] Giving up on ${g.gameId} after ${g.attempts} attempts: ${r.error}`);
+        } else {
+          g.nextAttemptAt = Date.now() + RETRY_BASE_MS * 2 ** (g.attempts - 1);
+        }
+      }
+    });
+    if (!updated) return;
+    job = updated;
+    notifyBatch(userId);
+
+    // Games waiting on a retry are still pending
+    processed += results.filter(r => job.games.find(g => g.gameId === r.gameId)?.status !== 'pending').length;
+    const remaining = pendingGames(job).length;
+    updateProgress(userId, {
+      totalGames: processed + remaining,
+      gamesAnalyzed: processed,
+      gamesRemaining: remaining,
+      currentBatch: batchNum,
+      totalBatches: batchNum + Math.ceil(remaining / BATCH_SIZE),
+    });
+  }
+
+  if (!signal.aborted) {
+    completeSession(userId);
+    const failed = job.games.filter(g => g.status === 'failed').length;
+    console.log(`[IngestQueue] Job complete for ${userId}: ${processed} games processed, ${failed} failed`);
+    // Puzzles from the new games are ready before the user asks for them
+    if (job.games.some(g => g.status === 'done')) generatePuzzlesInBackground(userId);
+  }
+}
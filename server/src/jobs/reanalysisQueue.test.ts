@@ -0,0 +1,88 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { Chess } from 'chess.js';
+import { CompactGameSummary } from '../summaries/schemas';
+
+// The stores resolve data/ from the working directory when they're loaded
+const dir = mkdtempSync(path.join(tmpdir(), 'reanalysis-test-'));
+let queue: typeof import('./reanalysisQueue');
+let sessions: typeof import('../analysis/sessionManager');
+
+before(async () => {
+  process.chdir(dir);
+  queue = await import('./reanalysisQueue');
+  sessions = await import('../analysis/sessionManager');
+});
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+// A short game with every move stored and evaluated
+function summary(analysis: Record<string, unknown> | null) {
+  const chess = new Chess();
+  const keyPositions = ['e4', 'e5', 'Nf3', 'Nc6'].map((san, i) => {
+    chess.move(san);
+    return { moveNo: Math.floor(i / 2) + 1, side: i % 2 ? 'B' : 'W', move: san, fen: chess.fen(), evalBefore: 0.2, evalAfter: 0.2 };
+  });
+  return CompactGameSummary.parse({
+    gameId: 'g1',
+    date: '2026-01-01',
+    userColor: 'white',
+    result: 'win',
+    opponent: 'x',
+    timeControl: { type: 'blitz', base: 300, increment: 0 },
+    opening: { eco: 'C44', name: "King's Knight Opening" },
+    keyPositions,
+    analysis,
+  });
+}
+
+const analyzed = { engine: 'native', depth: 14, analyzedAt: '2026-01-01T00:00:00.000Z' };
+
+test('games at or above the target depth are up to date', () => {
+  assert.equal(queue.needsReanalysis(summary(analyzed), 14), false);
+  assert.equal(queue.needsReanalysis(summary(analyzed), 16), true);
+});
+
+test('games without an analysis record qualify whatever the target depth', () => {
+  assert.equal(queue.needsReanalysis(summary(null), 1), true);
+  assert.equal(queue.needsReanalysis(summary(null), 0), true);
+});
+
+test('games with an older eval perspective qualify whatever their depth', () => {
+  assert.equal(queue.needsReanalysis(summary({ ...analyzed, depth: 30, evalPerspective: 0 }), 12), true);
+});
+
+test('games without an engine or with missing evals qualify', () => {
+  assert.equal(queue.needsReanalysis(summary({ ...analyzed, engine: 'none' }), 0), true);
+  assert.equal(queue.needsReanalysis(summary({ ...analyzed, unevaluated: 1 }), 0), true);
+});
+
+test('key positions replay into the plies to analyze', () => {
+  const plies = queue.replayKeyPositions(summary(analyzed));
+  assert.deepEqual(plies?.map(p => `${p.side}:${p.uci}`), ['W:e2e4', 'B:e7e5', 'W:g1f3', 'B:b8c6']);
+});
+
+test('a run that fails is reported on its session instead of taking the server down', async () => {
+  // Games whose moves don't match their positions are skipped without the engine
+  const games = [1, 2, 3, 4, 5].map(n => ({ ...summary(null), gameId: `g${n}` }));
+  for (const game of games) game.keyPositions[1].fen = game.keyPositions[0].fen;
+  const file = path.join(dir, 'data', 'u1', 'summaries.json');
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(games));
+
+  const { queued } = await queue.startReanalysis('u1', 14);
+  assert.equal(queued, 5);
+  // The second batch can't load the games
+  const sessionId = queue.reanalysisSessionId('u1');
+  const unsubscribe = sessions.subscribeToProgress(sessionId, (progress) => {
+    if (progress.gamesAnalyzed === 4) writeFileSync(file, '{ not json');
+  });
+
+  await queue.waitForReanalysis('u1');
+  unsubscribe();
+  assert.equal(sessions.getProgress(sessionId)?.status, 'error');
+  assert.equal(queue.isReanalysisRunning('u1'), false);
+});
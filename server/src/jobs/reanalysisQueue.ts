@@ -0,0 +1,294 @@
+/**
+ * Re-analysis Queue
+ *
+ * Brings stored games up to a target engine depth in the background:
+ * - Picks games analyzed below the target depth, without an engine, or with
+ *   positions left unevaluated, and always games without an analysis record:
+ *   their evals may use the old sign convention whatever their depth
+ *   (restarted on boot by reanalyzeLegacyEvals)
+ * - Replays each game from its key positions and re-runs the two-pass analysis
+ *   at `reanalysis` priority, so imports and interactive requests go first
+ * - Key position evals, classifications, tactics and error counts are updated in place;
+ *   the profile, historical stats and analysis caches are rebuilt afterwards
+ * - One run per user, in memory. Progress goes through sessionManager under
+ *   reanalysisSessionId(), so it doesn't replace an import's session. An
+ *   interrupted run is simply started again: finished games no longer qualify.
+ */
+
+import { Chess } from 'chess.js';
+import { analyzePlies, legalMoveCount, type PlyToAnalyze } from '../ingest/pgnToSummary';
+import { replayChess960 } from '../ingest/chess960';
+import { loadSummaries, upsertSummaries, listSummaryUsers } from '../summaries/store';
+import { CompactGameSummary, hasLegacyEvalPerspective, type CompactGameSummaryT } from '../summaries/schemas';
+import { countUserErrors } from '../analysis/moveClassification';
+import { withTacticTags } from '../analysis/tactics';
+import { profileForTask, type EngineProfile } from '../services/engineProfiles';
+import { loadProfile, regenerateProfile } from '../profile/store';
+import { regenerateHistoricalStats } from '../profile/historicalStore';
+import { clearAnalysisCache } from '../analysis/analysisCache';
+import { clearResponseCache } from '../services/responseCache';
+import {
+  createSession,
+  updateProgress,
+  completeSession,
+  errorSession,
+  cancelSession,
+} from '../analysis/sessionManager';
+
+const BATCH_SIZE = 4;       // Games at a time - each one already fans out over the pool
+
+interface Runner {
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+const runners = new Map<string, Runner>();
+
+/**
+ * Progress session key for a user's re-analysis
+ */
+export function reanalysisSessionId(userId: string): string {
+  return `${userId}:reanalysis`;
+}
+
+/**
+ * Default target: the depth of the reanalysis profile (null if it only limits nodes or time)
+ */
+export function defaultTargetDepth(): number | null {
+  return profileForTask('reanalysis').limits.depth ?? null;
+}
+
+/**
+ * Whether a stored game falls short of the target depth, has missing evals, or
+ * may have evals in the old sign convention (no analysis record or an older version)
+ */
+export function needsReanalysis(summary: CompactGameSummaryT, targetDepth: number): boolean {
+  if (summary.keyPositions.length === 0) return false;
+
+  const { analysis } = summary;
+  if (!analysis || hasLegacyEvalPerspective(summary)) return true;
+  if (analysis.engine === 'none' || analysis.unevaluated > 0) return true;
+  if ((analysis.depth ?? 0) < targetDepth) return true;
+
+  // Checkmate and stalemate have no eval to fill in
+  const chess960 = summary.variant === 'chess960';
+  return summary.keyPositions.some(pos =>
+    pos.evalBefore === null || (pos.evalAfter === null && legalMoveCount(pos.fen, chess960) !== 0)
+  );
+}
+
+/**
+ * Rebuild the moves of a game from its key positions. Null when they don't
+ * form the whole game (e.g. older summaries that kept only selected moves).
+ */
+export function replayKeyPositions(summary: CompactGameSummaryT): PlyToAnalyze[] | null {
+  const sans: string[] = [];
+  for (const pos of summary.keyPositions) {
+    if (!pos.move) return null; // Very old summaries didn't store the move
+    sans.push(pos.move);
+  }
+  let history: { lan: string; color: 'w' | 'b'; before: string; after: string }[];
+  try {
+    if (summary.variant === 'chess960') {
+      if (!summary.startFen) return null;
+      history = replayChess960(summary.startFen, sans);
+    } else {
+      const chess = summary.startFen ? new Chess(summary.startFen) : new Chess();
+      history = sans.map(san => chess.move(san));
+    }
+  } catch {
+    return null;
+  }
+
+  // Placement, side to move, castling and en passant must match what was stored
+  const board = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+  if (history.length !== summary.keyPositions.length) return null;
+  if (history.some((mv, i) => board(mv.after) !== board(summary.keyPositions[i].fen))) return null;
+
+  return history.map(mv => ({
+    side: mv.color === 'w' ? 'W' : 'B',
+    uci: mv.lan,
+    fenBefore: mv.before,
+    fenAfter: mv.after,
+  }));
+}
+
+/**
+ * Re-analyze one stored game. Null when it can't be replayed or no engine ran
+ * (the stored analysis is kept).
+ */
+async function reanalyzeSummary(
+  userId: string,
+  summary: CompactGameSummaryT,
+  profile: EngineProfile,
+  signal: AbortSignal
+): Promise<CompactGameSummaryT | null> {
+  const plies = replayKeyPositions(summary);
+  if (!plies) {
+    console.warn(`[Reanalysis] Skipping ${summary.gameId}: key positions don't replay as a full game`);
+    return null;
+  }
+
+  const { plies: analyzed, analysis } = await analyzePlies(plies, {
+    chess960: summary.variant === 'chess960',
+    scanProfile: profile,
+    engine: { priority: 'reanalysis', userId, signal },
+  });
+  if (analysis.engine === 'none') return null;
+
+  const keyPositions = summary.keyPositions.map((pos, i) => ({
+    ...pos,
+    ...analyzed[i],
+    tag: withTacticTags(pos.tag, analyzed[i].tactics),
+  }));
+  return CompactGameSummary.parse({
+    ...summary,
+    ...countUserErrors(keyPositions, summary.userColor),
+    keyPositions,
+    analysis,
+  });
+}
+
+export function isReanalysisRunning(userId: string): boolean {
+  return runners.has(userId);
+}
+
+/**
+ * Start re-analyzing a user's games below `targetDepth`. Returns how many games
+ * were queued (0 when everything is up to date or a run is already going).
+ * The progress session is created right away so callers can subscribe to it.
+ */
+export async function startReanalysis(
+  userId: string,
+  targetDepth: number
+): Promise<{ queued: number; upToDate: number }> {
+  if (runners.has(userId)) return { queued: 0, upToDate: 0 };
+
+  const summaries = await loadSummaries(userId);
+  const gameIds = summaries.filter(s => needsReanalysis(s, targetDepth)).map(s => s.gameId);
+  if (runners.has(userId)) return { queued: 0, upToDate: 0 }; // Started meanwhile
+  if (gameIds.length === 0) return { queued: 0, upToDate: summaries.length };
+
+  // Search at least as deep as the target, even if the profile stops short of it
+  const base = profileForTask('reanalysis');
+  const profile: EngineProfile = { ...base, limits: { ...base.limits, depth: Math.max(base.limits.depth ?? 0, targetDepth) } };
+
+  const sessionId = reanalysisSessionId(userId);
+  createSession(sessionId, gameIds.length);
+  updateProgress(sessionId, { status: 'analyzing', totalBatches: Math.ceil(gameIds.length / BATCH_SIZE) });
+
+  const controller = new AbortController();
+  const runner: Runner = {
+    controller,
+    done: runReanalysis(userId, gameIds, profile, controller.signal)
+      // Nothing awaits the run, so this must never throw
+      .catch(err => {
+        console.error(`[Reanalysis] Run failed for ${userId}:`, err);
+        try {
+          errorSession(sessionId, err?.message || 'Re-analysis failed');
+        } catch (sessionErr) {
+          console.error(`[Reanalysis] Couldn't report the failure for ${userId}:`, sessionErr);
+        }
+      })
+      .finally(() => {
+        if (runners.get(userId) === runner) runners.delete(userId);
+      }),
+  };
+  runners.set(userId, runner);
+  console.log(`[Reanalysis] ${gameIds.length} games for ${userId} below depth ${targetDepth}`);
+  return { queued: gameIds.length, upToDate: summaries.length - gameIds.length };
+}
+
+/**
+ * Re-analyze the games of every user with evals in the old sign convention,
+ * so they stop skewing profiles and trends (run on boot). Target depth 0 keeps
+ * it to those games and ones missing evals. Returns how many runs started.
+ */
+export async function reanalyzeLegacyEvals(): Promise<number> {
+  let started = 0;
+  for (const userId of await listSummaryUsers()) {
+    if (runners.has(userId)) continue;
+    const summaries = await loadSummaries(userId);
+    // Games whose moves weren't all stored can't be replayed - nothing to start for them
+    if (!summaries.some(s => hasLegacyEvalPerspective(s) && replayKeyPositions(s) !== null)) continue;
+    const { queued } = await startReanalysis(userId, 0);
+    if (queued > 0) started++;
+  }
+  return started;
+}
+
+/**
+ * Stop after the games in flight. Games finished so far are kept.
+ * Returns false if nothing was running.
+ */
+export function cancelReanalysis(userId: string): boolean {
+  const runner = runners.get(userId);
+  if (!runner) return false;
+  runner.controller.abort();
+  cancelSession(reanalysisSessionId(userId));
+  return true;
+}
+
+/**
+ * Resolves when the user's run stops (finished or cancelled)
+ */
+export async function waitForReanalysis(userId: string): Promise<void> {
+  await runners.get(userId)?.done;
+}
+
+async function runReanalysis(
+  userId: string,
+  gameIds: string[],
+  profile: EngineProfile,
+  signal: AbortSignal
+): Promise<void> {
+  const sessionId = reanalysisSessionId(userId);
+  let processed = 0;
+  let updated = 0;
+  let failed = 0;
+
+  for (let i = 0; i < gameIds.length && !signal.aborted; i += BATCH_SIZE) {
+    // Fresh copies - an import may have replaced games since the run started
+    const ids = new Set(gameIds.slice(i, i + BATCH_SIZE));
+    const batch = (await loadSummaries(userId)).filter(s => ids.has(s.gameId));
+
+    const results = await Promise.all(batch.map(async (summary) => {
+      try {
+        return await reanalyzeSummary(userId, summary, profile, signal);
+      } catch (err: any) {
+        if (!signal.aborted) {
+          console.warn(`[Reanalysis] Failed on ${summary.gameId}: ${err?.message || err}`);
+          failed++;
+        }
+        return null;
+      }
+    }));
+
+    const valid = results.filter((s): s is CompactGameSummaryT => s !== null);
+    if (valid.length > 0) {
+      await upsertSummaries(userId, valid);
+      updated += valid.length;
+    }
+    if (signal.aborted) break;
+
+    processed += ids.size;
+    updateProgress(sessionId, {
+      gamesAnalyzed: processed,
+      gamesRemaining: gameIds.length - processed,
+      currentBatch: i / BATCH_SIZE + 1,
+    });
+  }
+
+  // Everything derived from the evals is stale now (also after a cancel)
+  if (updated > 0) {
+    const summaries = await loadSummaries(userId);
+    const existing = await loadProfile(userId);
+    await regenerateProfile(userId, summaries, existing?.chesscomUsername);
+    await regenerateHistoricalStats(userId, summaries);
+    await clearAnalysisCache(userId);
+    clearResponseCache();
+  }
+
+  console.log(`[Reanalysis] ${signal.aborted ? 'Cancelled' : 'Done'} for ${userId}: ${updated} games updated, ${failed} failed`);
+  if (!signal.aborted) completeSession(sessionId);
+}
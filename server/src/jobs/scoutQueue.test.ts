@@ -0,0 +1,74 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+// Games the scouted player isn't in are summarized as null, without the engine
+const pgn = (n: number) => `[Event "Live Chess"]\n[Site "Chess.com"]\n[Date "2026.09.0${n}"]\n` +
+  `[White "a"]\n[Black "b"]\n[Result "1-0"]\n[Link "https://www.chess.com/game/live/${n}"]\n\n1. e4 e5 1-0`;
+
+// The stores resolve data/ from the working directory when they're loaded
+const dir = mkdtempSync(path.join(tmpdir(), 'scout-test-'));
+const ownSummaries = path.join(dir, 'data', 'u1', 'summaries.json');
+let server: Server;
+let archive: string;
+let queue: typeof import('./scoutQueue');
+let sessions: typeof import('../analysis/sessionManager');
+
+before(async () => {
+  server = createServer((req, res) => {
+    res.end(req.url === '/games/2026/09/pgn' ? `${pgn(1)}\n\n${pgn(2)}\n` : '');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  archive = `http://127.0.0.1:${(server.address() as AddressInfo).port}/games/2026/09`;
+
+  process.chdir(dir);
+  queue = await import('./scoutQueue');
+  sessions = await import('../analysis/sessionManager');
+});
+
+after(() => {
+  server.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test('with nothing new to analyze the report is rebuilt right away', async () => {
+  const { queued, result } = await queue.startScouting('u1', 'opp', { archives: [`${archive}/empty`], limitGames: 10 });
+  assert.equal(queued, 0);
+  assert.equal(result?.added, 0);
+  assert.equal(result?.report.opponent, 'opp');
+  assert.equal(result?.report.gamesAnalyzed, 0);
+  assert.equal(queue.isScoutRunning('u1', 'opp'), false);
+  assert.ok(existsSync(path.join(dir, 'data', 'u1', 'scouting', 'opp.json')));
+});
+
+test('new games are analyzed in the background', async () => {
+  const { queued, result } = await queue.startScouting('u1', 'opp', { archives: [archive], limitGames: 10 });
+  assert.equal(queued, 2);
+  assert.equal(result, null);
+  assert.equal(queue.isScoutRunning('u1', 'opp'), true);
+
+  const done = await queue.waitForScouting('u1', 'opp');
+  assert.deepEqual([done?.added, done?.failed], [0, 0]);
+  assert.equal(sessions.getProgress(queue.scoutSessionId('u1', 'opp'))?.status, 'complete');
+});
+
+test('a run that fails is reported on its session instead of taking the server down', async () => {
+  // Saving the report reads the user's own games
+  mkdirSync(path.dirname(ownSummaries), { recursive: true });
+  writeFileSync(ownSummaries, '{ not json');
+
+  const { queued } = await queue.startScouting('u1', 'opp', { archives: [archive], limitGames: 10 });
+  assert.equal(queued, 2);
+  assert.equal(await queue.waitForScouting('u1', 'opp'), null);
+  assert.equal(sessions.getProgress(queue.scoutSessionId('u1', 'opp'))?.status, 'error');
+  assert.equal(queue.isScoutRunning('u1', 'opp'), false);
+
+  // Nothing is left behind - the next run starts over
+  rmSync(ownSummaries);
+  assert.equal((await queue.startScouting('u1', 'opp', { archives: [archive], limitGames: 10 })).queued, 2);
+  await queue.waitForScouting('u1', 'opp');
+});
@@ -0,0 +1,210 @@
+/**
+ * Scouting Queue
+ *
+ * Analyzes an opponent's recent games in the background (see routes/scout.ts):
+ * - New games are collected from the Chess.com archives up front, then analyzed
+ *   from the opponent's side at `ingest` priority, a batch at a time
+ * - Games that fail to analyze are left out and counted; the next run tries them again
+ * - The scouting file is only locked to merge the finished games and rebuild the
+ *   report, so reading or re-scouting the opponent never waits on the engine
+ * - One run per user and opponent, in memory. Progress goes through
+ *   sessionManager under scoutSessionId(). Cancelling keeps the games finished so far.
+ */
+
+import { fetchArchive } from '../ingest/chesscom';
+import { pgnToSummary, gameIdFromPgn, isGameStored } from '../ingest/pgnToSummary';
+import { loadSummaries } from '../summaries/store';
+import type { CompactGameSummaryT } from '../summaries/schemas';
+import { loadScoutFile, updateScoutFile } from '../scouting/store';
+import { buildScoutingReport } from '../scouting/report';
+import type { ScoutingReportT } from '../scouting/schema';
+import {
+  createSession,
+  updateProgress,
+  completeSession,
+  errorSession,
+  cancelSession,
+} from '../analysis/sessionManager';
+
+const BATCH_SIZE = 8;          // Games analyzed concurrently
+const MAX_STORED_GAMES = 200;  // Per opponent, newest kept
+
+export interface ScoutResult {
+  report: ScoutingReportT;
+  added: number;
+  failed: number;
+}
+
+interface Runner {
+  controller: AbortController;
+  done: Promise<ScoutResult | null>;
+}
+
+const runners = new Map<string, Runner>();
+
+function runnerKey(userId: string, opponent: string): string {
+  return `${userId}:${opponent}`;
+}
+
+/**
+ * Progress session key for scouting an opponent
+ */
+export function scoutSessionId(userId: string, opponent: string): string {
+  return `${userId}:scout:${opponent}`;
+}
+
+export function isScoutRunning(userId: string, opponent: string): boolean {
+  return runners.has(runnerKey(userId, opponent));
+}
+
+/**
+ * The opponent's games from the archives (latest month first) that aren't stored
+ * yet, newest first
+ */
+async function collectNewGames(archives: string[], knownIds: Set<string>, limitGames: number): Promise<string[]> {
+  const pgns: string[] = [];
+  for (const url of archives) {
+    if (pgns.length >= limitGames) break;
+    // Games within a month come oldest first
+    const raw = await fetchArchive(url);
+    const games = raw.split(/\n\n(?=\[Event )/).filter(Boolean).reverse();
+    for (const pgn of games) {
+      if (pgns.length >= limitGames) break;
+      if (isGameStored(knownIds, pgn)) continue;
+      pgns.push(pgn);
+    }
+  }
+  return pgns;
+}
+
+/**
+ * Merge analyzed games into the opponent's file and rebuild the report
+ */
+async function saveScoutedGames(
+  userId: string,
+  opponent: string,
+  games: CompactGameSummaryT[]
+): Promise<{ report: ScoutingReportT; added: number }> {
+  const ownSummaries = await loadSummaries(userId);
+  return updateScoutFile(userId, opponent, (file) => {
+    // Another run may have stored some of them meanwhile
+    const knownIds = new Set(file.summaries.map(s => s.gameId));
+    const added = games.filter(s => !knownIds.has(s.gameId));
+    file.summaries = [...file.summaries, ...added]
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      .slice(0, MAX_STORED_GAMES);
+    file.report = buildScoutingReport(userId, opponent, file.summaries, ownSummaries);
+    return { report: file.report, added: added.length };
+  });
+}
+
+/**
+ * Scout an opponent from their monthly archives (latest first). With nothing new
+ * to analyze the report is rebuilt right away and returned as `result`; otherwise
+ * the games are analyzed in the background and `queued` says how many. Returns
+ * neither when a run for the opponent is already going.
+ * The progress session is created right away so callers can subscribe to it.
+ */
+export async function startScouting(
+  userId: string,
+  opponent: string,
+  options: { archives: string[]; limitGames: number }
+): Promise<{ queued: number; result: ScoutResult | null }> {
+  const key = runnerKey(userId, opponent);
+  if (runners.has(key)) return { queued: 0, result: null };
+
+  const file = await loadScoutFile(userId, opponent);
+  const pgns = await collectNewGames(options.archives, new Set(file.summaries.map(s => s.gameId)), options.limitGames);
+  if (runners.has(key)) return { queued: 0, result: null }; // Started meanwhile
+
+  if (pgns.length === 0) {
+    const saved = await saveScoutedGames(userId, opponent, []);
+    return { queued: 0, result: { ...saved, failed: 0 } };
+  }
+
+  const sessionId = scoutSessionId(userId, opponent);
+  createSession(sessionId, pgns.length);
+  updateProgress(sessionId, { status: 'analyzing' });
+
+  const controller = new AbortController();
+  const runner: Runner = {
+    controller,
+    done: runScouting(userId, opponent, pgns, controller.signal)
+      // Nothing awaits the run, so this must never throw
+      .catch((err): null => {
+        console.error(`[Scout] Run failed for ${opponent} (user ${userId}):`, err);
+        try {
+          errorSession(sessionId, err?.message || 'Scouting failed');
+        } catch (sessionErr) {
+          console.error(`[Scout] Couldn't report the failure for ${opponent} (user ${userId}):`, sessionErr);
+        }
+        return null;
+      })
+      .finally(() => {
+        if (runners.get(key) === runner) runners.delete(key);
+      }),
+  };
+  runners.set(key, runner);
+  console.log(`[Scout] Analyzing ${pgns.length} new games for ${opponent} (user ${userId})`);
+  return { queued: pgns.length, result: null };
+}
+
+/**
+ * Stop after the games in flight. Games finished so far are kept.
+ * Returns false if nothing was running.
+ */
+export function cancelScouting(userId: string, opponent: string): boolean {
+  const runner = runners.get(runnerKey(userId, opponent));
+  if (!runner) return false;
+  runner.controller.abort();
+  cancelSession(scoutSessionId(userId, opponent));
+  return true;
+}
+
+/**
+ * Resolves with the run's result when it stops (null if it failed or nothing was running)
+ */
+export async function waitForScouting(userId: string, opponent: string): Promise<ScoutResult | null> {
+  return (await runners.get(runnerKey(userId, opponent))?.done) ?? null;
+}
+
+async function runScouting(
+  userId: string,
+  opponent: string,
+  pgns: string[],
+  signal: AbortSignal
+): Promise<ScoutResult> {
+  const sessionId = scoutSessionId(userId, opponent);
+  const analyzed: CompactGameSummaryT[] = [];
+  let processed = 0;
+  let failed = 0;
+
+  for (let i = 0; i < pgns.length && !signal.aborted; i += BATCH_SIZE) {
+    const batch = pgns.slice(i, i + BATCH_SIZE);
+    const results = await Promise.all(batch.map(async (pgn) => {
+      try {
+        return await pgnToSummary(pgn, opponent, { priority: 'ingest', userId, signal });
+      } catch (err: any) {
+        if (!signal.aborted) {
+          console.warn(`[Scout] Failed to analyze ${gameIdFromPgn(pgn)}: ${err?.message || err}`);
+          failed++;
+        }
+        return null;
+      }
+    }));
+    analyzed.push(...results.filter((s): s is CompactGameSummaryT => s !== null));
+    if (signal.aborted) break;
+
+    processed += batch.length;
+    updateProgress(sessionId, {
+      gamesAnalyzed: processed,
+      gamesRemaining: pgns.length - processed,
+      currentBatch: i / BATCH_SIZE + 1,
+    });
+  }
+
+  const saved = await saveScoutedGames(userId, opponent, analyzed);
+  console.log(`[Scout] ${signal.aborted ? 'Cancelled' : 'Done'} for ${opponent} (user ${userId}): ${saved.added} games added, ${failed} failed`);
+  if (!signal.aborted) completeSession(sessionId);
+  return { ...saved, failed };
+}
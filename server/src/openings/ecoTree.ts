@@ -0,0 +1,209 @@
+/**
+ * ECO Tree
+ *
+ * Offline opening identification from positions rather than PGN headers:
+ * - eco.tsv holds ~3,600 named positions (ECO code, name, EPD) from the Lichess
+ *   chess-openings dataset, so transpositions land on the same name
+ * - A game's opening is the deepest named position it reached
+ * - Names follow "Family: Variation, Subvariation" and are split into that hierarchy
+ */
+
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+
+export interface OpeningNode {
+  eco: string;
+  name: string;
+  family: string;
+  variation: string | null;
+  subvariation: string | null;
+}
+
+export interface IdentifiedOpening extends OpeningNode {
+  ply: number;                  // Ply of the deepest named position (1 = after White's first move)
+  leftTheoryPly: number | null; // First ply past that position, null if the game ended in book
+}
+
+export interface OpeningHierarchy {
+  family: string | null;
+  variation: string | null;
+  subvariation: string | null;
+}
+
+export interface FamilyNode {
+  name: string;
+  ecoCodes: Set<string>;
+  positions: number;                        // Named positions in the dataset (rough popularity)
+  variations: Map<string, VariationNode>;
+}
+
+export interface VariationNode {
+  name: string;
+  ecoCodes: Set<string>;
+  subvariations: Set<string>;
+}
+
+interface EcoIndex {
+  byEpd: Map<string, OpeningNode>;
+  byEco: Map<string, OpeningNode[]>;
+  families: Map<string, FamilyNode>;
+}
+
+const ECO_FILE = fileURLToPath(new URL('./eco.tsv', import.meta.url));
+
+let index: EcoIndex | null = null;
+
+/**
+ * Split a dataset name into family / variation / subvariation.
+ * "Sicilian Defense: Najdorf Variation, English Attack" -> Sicilian Defense / Najdorf Variation / English Attack
+ * A few names have no colon ("London System, with Bd3") - the first comma part is the family.
+ */
+export function parseOpeningName(name: string): OpeningHierarchy {
+  const colon = name.indexOf(':');
+  const family = colon >= 0 ? name.slice(0, colon) : name.split(',')[0];
+  const rest = colon >= 0 ? name.slice(colon + 1) : name.split(',').slice(1).join(',');
+  const parts = rest.split(',').map(p => p.trim()).filter(Boolean);
+  return {
+    family: family.trim() || null,
+    variation: parts[0] ?? null,
+    subvariation: parts.length > 1 ? parts.slice(1).join(', ') : null,
+  };
+}
+
+function loadIndex(): EcoIndex {
+  if (index) return index;
+
+  const byEpd = new Map<string, OpeningNode>();
+  const byEco = new Map<string, OpeningNode[]>();
+  const families = new Map<string, FamilyNode>();
+
+  const lines = fs.readFileSync(ECO_FILE, 'utf-8').split('\n').slice(1); // Skip header row
+  for (const line of lines) {
+    const [eco, name, epd] = line.split('\t');
+    if (!eco || !name || !epd) continue;
+
+    const { family, variation, subvariation } = parseOpeningName(name);
+    const node: OpeningNode = { eco, name, family: family!, variation, subvariation };
+    byEpd.set(epd, node);
+    if (!byEco.has(eco)) byEco.set(eco, []);
+    byEco.get(eco)!.push(node);
+
+    if (!families.has(node.family)) {
+      families.set(node.family, { name: node.family, ecoCodes: new Set(), positions: 0, variations: new Map() });
+    }
+    const fam = families.get(node.family)!;
+    fam.ecoCodes.add(eco);
+    fam.positions++;
+    if (variation) {
+      if (!fam.variations.has(variation)) {
+        fam.variations.set(variation, { name: variation, ecoCodes: new Set(), subvariations: new Set() });
+      }
+      const v = fam.variations.get(variation)!;
+      v.ecoCodes.add(eco);
+      if (subvariation) v.subvariations.add(subvariation);
+    }
+  }
+
+  console.log(`[ECO] Loaded ${byEpd.size} named positions in ${families.size} families`);
+  index = { byEpd, byEco, families };
+  return index;
+}
+
+/**
+ * EPD key for a FEN: board, side to move, castling, en passant (no move counters)
+ */
+export function toEpd(fen: string): string {
+  return fen.trim().split(/\s+/).slice(0, 4).join(' ');
+}
+
+/**
+ * Named opening for a position, or null if it isn't in the book.
+ * The dataset only records an en passant square when the capture is possible,
+ * so positions are retried without it.
+ */
+export function lookupPosition(fen: string): OpeningNode | null {
+  const { byEpd } = loadIndex();
+  const epd = toEpd(fen);
+  const found = byEpd.get(epd);
+  if (found) return found;
+  const parts = epd.split(' ');
+  if (parts[3] && parts[3] !== '-') {
+    return byEpd.get([...parts.slice(0, 3), '-'].join(' ')) ?? null;
+  }
+  return null;
+}
+
+/**
+ * Identify a game's opening from the position after each ply (index 0 = after ply 1).
+ * Returns the deepest named position reached, even if the game left the book
+ * and transposed back in later.
+ */
+export function identifyOpening(fens: string[]): IdentifiedOpening | null {
+  for (let i = fens.length - 1; i >= 0; i--) {
+    const node = lookupPosition(fens[i]);
+    if (node) {
+      const ply = i + 1;
+      return { ...node, ply, leftTheoryPly: ply < fens.length ? ply + 1 : null };
+    }
+  }
+  return null;
+}
+
+/**
+ * Hierarchy for a stored game opening. Summaries saved before position-based
+ * identification only have a name (or just an ECO code), so fall back to those.
+ */
+export function openingHierarchy(opening: {
+  eco: string | null;
+  name: string | null;
+  family?: string | null;
+  variation?: string | null;
+  subvariation?: string | null;
+}): OpeningHierarchy {
+  if (opening.family) {
+    return { family: opening.family, variation: opening.variation ?? null, subvariation: opening.subvariation ?? null };
+  }
+  if (opening.name) return parseOpeningName(opening.name);
+  return { family: opening.eco ? getFamilyForEco(opening.eco) : null, variation: null, subvariation: null };
+}
+
+/**
+ * "Family: Variation" - the level openings are grouped at for stats
+ */
+export function variationLabel(h: OpeningHierarchy): string | null {
+  if (!h.family) return null;
+  return h.variation ? `${h.family}: ${h.variation}` : h.family;
+}
+
+/**
+ * Most general name for an ECO code (for games with only an ECO header)
+ */
+export function nameForEco(eco: string | null): string | null {
+  if (!eco) return null;
+  const nodes = loadIndex().byEco.get(eco.toUpperCase());
+  if (!nodes || nodes.length === 0) return null;
+  return nodes.reduce((a, b) => (b.name.length < a.name.length ? b : a)).name;
+}
+
+/**
+ * Family most positions under an ECO code belong to (codes can span families)
+ */
+export function getFamilyForEco(eco: string): string | null {
+  const nodes = loadIndex().byEco.get(eco.toUpperCase());
+  if (!nodes || nodes.length === 0) return null;
+  const counts = new Map<string, number>();
+  for (const n of nodes) counts.set(n.family, (counts.get(n.family) || 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+export function getEcoCodesForFamily(family: string): string[] {
+  return [...(loadIndex().families.get(family)?.ecoCodes ?? [])].sort();
+}
+
+export function isEcoInFamily(eco: string, family: string): boolean {
+  return loadIndex().families.get(family)?.ecoCodes.has(eco.toUpperCase()) ?? false;
+}
+
+export function getFamilies(): FamilyNode[] {
+  return [...loadIndex().families.values()];
+}
@@ -0,0 +1,261 @@
+/**
+ * Opening Repertoire
+ *
+ * Move tree of the user's games from the starting position, one tree per
+ * color (standard games only). Every node is a move and carries:
+ * - How often it was played and how it scored (from the user's side)
+ * - The average eval after it and the engine's choice in its place
+ * - Whether it's still book (openings/eco.tsv), the parent's most played move,
+ *   and - for the user's moves - whether this is where they left the book or
+ *   strayed from their usual line
+ */
+
+import { Chess } from 'chess.js';
+import type { CompactGameSummaryT } from '../summaries/schemas';
+import { lookupPosition } from './ecoTree';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+export const DEFAULT_MAX_PLY = 24;
+
+export type RepertoireColor = 'white' | 'black';
+
+export interface RepertoireNode {
+  move: string | null;          // SAN (null at the root)
+  uci: string | null;
+  ply: number;                  // 0 = starting position
+  byUser: boolean;              // The user made this move
+  fen: string;                  // Position after the move
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  score: number;                // 0-100, the user's points per game
+  frequency: number;            // 0-100, share of the parent's games that went this way
+  avgEval: number | null;       // After the move, pawns from the user's side (engine-analyzed games only)
+  engineBest: string | null;    // Engine's choice in the position the move was played from (SAN)
+  inBook: boolean;
+  opening: string | null;       // Book name of the position, if it has one
+  mainLine: boolean;            // The most played move from the parent position
+  deviation: 'left_book' | 'off_main_line' | null; // User moves: first move out of book, or not their usual choice
+  children: RepertoireNode[];   // Most played first
+}
+
+/**
+ * A spot where the user tends to go their own way
+ */
+export interface RepertoireDeviation {
+  path: string[];               // SAN moves up to and including the deviation
+  kind: 'left_book' | 'off_main_line';
+  move: string;
+  games: number;
+  frequency: number;            // Share of the games reaching the position
+  mainMove: string | null;      // The user's usual move there (for off_main_line)
+  bookMoves: string[];          // Moves that stay in book (for left_book, most played by the user first)
+}
+
+export interface RepertoireTree {
+  color: RepertoireColor;
+  games: number;
+  maxPly: number;
+  root: RepertoireNode;
+}
+
+type Outcome = 'win' | 'draw' | 'loss' | null;
+
+function outcome(result: CompactGameSummaryT['result']): Outcome {
+  if (result === 'win' || result === 'checkmate') return 'win';
+  if (result === 'loss' || result === 'resign' || result === 'timeout') return 'loss';
+  if (result === 'draw' || result === 'stalemate') return 'draw';
+  return null;
+}
+
+// Running totals while the tree is built
+interface Building extends RepertoireNode {
+  evalSum: number;
+  evalCount: number;
+  childMap: Map<string, Building>;
+}
+
+function newNode(move: string | null, uci: string | null, ply: number, byUser: boolean, fen: string): Building {
+  const book = ply === 0 ? null : lookupPosition(fen);
+  return {
+    move, uci, ply, byUser, fen,
+    games: 0, wins: 0, draws: 0, losses: 0, score: 0, frequency: 100,
+    avgEval: null, engineBest: null,
+    inBook: ply === 0 || book !== null,
+    opening: book?.name ?? null,
+    mainLine: true, deviation: null,
+    children: [],
+    evalSum: 0, evalCount: 0, childMap: new Map(),
+  };
+}
+
+function addResult(node: Building, result: Outcome): void {
+  node.games++;
+  if (result === 'win') node.wins++;
+  else if (result === 'draw') node.draws++;
+  else if (result === 'loss') node.losses++;
+}
+
+/**
+ * Engine's choice before a move, in SAN (stored alternatives, or the UCI best move)
+ */
+function engineBestSan(fenBefore: string, pos: CompactGameSummaryT['keyPositions'][number]): string | null {
+  if (pos.alternatives[0]) return pos.alternatives[0].move;
+  if (!pos.bestMove) return null;
+  try {
+    const uci = pos.bestMove;
+    return new Chess(fenBefore).move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] }).san;
+  } catch {
+    return null;
+  }
+}
+
+function sanToUci(fenBefore: string, san: string): string | null {
+  try {
+    return new Chess(fenBefore).move(san).lan;
+  } catch {
+    return null;
+  }
+}
+
+function finalize(node: Building, parentGames: number): RepertoireNode {
+  const decided = node.wins + node.draws + node.losses;
+  const children = [...node.childMap.values()]
+    .sort((a, b) => b.games - a.games)
+    .map(child => finalize(child, node.games));
+  children.forEach((child, i) => {
+    child.mainLine = i === 0;
+    if (child.byUser) {
+      child.deviation = node.inBook && !child.inBook ? 'left_book' : i > 0 ? 'off_main_line' : null;
+    }
+  });
+
+  return {
+    move: node.move,
+    uci: node.uci,
+    ply: node.ply,
+    byUser: node.byUser,
+    fen: node.fen,
+    games: node.games,
+    wins: node.wins,
+    draws: node.draws,
+    losses: node.losses,
+    score: decided > 0 ? Math.round(((node.wins + node.draws / 2) / decided) * 100) : 0,
+    frequency: parentGames > 0 ? Math.round((node.games / parentGames) * 100) : 100,
+    avgEval: node.evalCount > 0 ? Math.round((node.evalSum / node.evalCount) * 100) / 100 : null,
+    engineBest: node.engineBest,
+    inBook: node.inBook,
+    opening: node.opening,
+    mainLine: node.mainLine,
+    deviation: node.deviation,
+    children,
+  };
+}
+
+/**
+ * Build the repertoire tree for one color from the first `maxPly` plies of
+ * each standard game. Summaries that kept only selected moves stop at the
+ * first gap.
+ */
+export function buildRepertoire(
+  summaries: CompactGameSummaryT[],
+  color: RepertoireColor,
+  maxPly: number = DEFAULT_MAX_PLY
+): RepertoireTree {
+  const root = newNode(null, null, 0, false, START_FEN);
+  const games = summaries.filter(g => g.variant === 'standard' && !g.startFen && g.userColor === color);
+  const userSide = color === 'white' ? 'W' : 'B';
+
+  for (const game of games) {
+    const result = outcome(game.result);
+    const engineRan = game.analysis?.engine !== 'none';
+    addResult(root, result);
+
+    let node = root;
+    const positions = game.keyPositions.slice(0, maxPly);
+    for (let i = 0; i < positions.length; i++) {
+      const pos = positions[i];
+      if (!pos.move || pos.side !== (i % 2 === 0 ? 'W' : 'B') || pos.moveNo !== Math.floor(i / 2) + 1) break;
+
+      let child = node.childMap.get(pos.move);
+      if (!child) {
+        child = newNode(pos.move, sanToUci(node.fen, pos.move), i + 1, pos.side === userSide, pos.fen);
+        node.childMap.set(pos.move, child);
+      }
+      child.engineBest ??= engineBestSan(node.fen, pos);
+      addResult(child, result);
+      if (engineRan && pos.evalAfter !== null) {
+        child.evalSum += color === 'white' ? pos.evalAfter : -pos.evalAfter;
+        child.evalCount++;
+      }
+      node = child;
+    }
+  }
+
+  return { color, games: games.length, maxPly, root: finalize(root, games.length) };
+}
+
+/**
+ * The node reached by a sequence of SAN moves, or null if the user's games never got there
+ */
+export function findNode(tree: RepertoireTree, path: string[]): RepertoireNode | null {
+  let node: RepertoireNode | undefined = tree.root;
+  for (const move of path) {
+    node = node.children.find(c => c.move === move);
+    if (!node) return null;
+  }
+  return node;
+}
+
+/**
+ * A copy of a subtree cut to `depth` levels of moves played in at least `minGames` games
+ */
+export function pruneNode(node: RepertoireNode, depth: number, minGames: number = 1): RepertoireNode {
+  return {
+    ...node,
+    children: depth <= 0
+      ? []
+      : node.children.filter(c => c.games >= minGames).map(c => pruneNode(c, depth - 1, minGames)),
+  };
+}
+
+/**
+ * Where the user leaves book or their usual line, most games first (below `path`)
+ */
+export function findDeviations(node: RepertoireNode, path: string[] = [], minGames: number = 2): RepertoireDeviation[] {
+  const found: RepertoireDeviation[] = [];
+
+  const walk = (parent: RepertoireNode, parentPath: string[]) => {
+    for (const child of parent.children) {
+      const childPath = [...parentPath, child.move!];
+      if (child.deviation && child.games >= minGames) {
+        found.push({
+          path: childPath,
+          kind: child.deviation,
+          move: child.move!,
+          games: child.games,
+          frequency: child.frequency,
+          mainMove: child.deviation === 'off_main_line' ? parent.children[0].move : null,
+          bookMoves: child.deviation === 'left_book' ? bookMoves(parent) : [],
+        });
+      }
+      walk(child, childPath);
+    }
+  };
+  walk(node, path);
+
+  return found.sort((a, b) => b.games - a.games);
+}
+
+/**
+ * Up to five moves from a position that stay in book: the user's own first, then the rest
+ */
+function bookMoves(node: RepertoireNode): string[] {
+  const played = node.children.filter(c => c.inBook).map(c => c.move!);
+  const chess = new Chess(node.fen);
+  const others = chess.moves({ verbose: true })
+    .filter(m => !played.includes(m.san) && lookupPosition(m.after) !== null)
+    .map(m => m.san);
+  return [...played, ...others].slice(0, 5);
+}
@@ -4,19 +4,32 @@
  * Analyzes all games to build a comprehensive player profile with:
  * - Opening repertoire analysis
  * - Phase performance (opening/middlegame/endgame)
+ * - Performance rating and score vs expected (by color, month, opening, time control)
+ * - Clock-based time management
+ * - Endgame conversion by endgame type
+ * - Per-variant results (Chess960 etc. kept apart from standard play)
+ * - Spaced-repetition review accuracy (added by the store, see withTrainingStats)
  * - Pattern-based weakness/strength detection
  * - Pre-computed summaries for instant chatbot responses
  */
 
 import type { CompactGameSummaryT } from '../summaries/schemas';
-import { getFamilyForEco } from '../data/ecoDatabase';
+import { openingHierarchy, variationLabel } from '../openings/ecoTree';
+import { analyzeTimeManagement, countTimeScrambleBlunders, hasClockData } from '../analysis/timeManagement';
+import { analyzeEndgames, ENDGAME_LABELS } from '../analysis/endgames';
+import { computePerformance, computePerformanceBreakdown } from '../analysis/performance';
+import { isBlunder, isError, isMistake, isUserMove, withErrorCounts } from '../analysis/moveClassification';
 import type {
   PlayerProfileT,
   OpeningStatsT,
   PhaseStatsT,
   PlayerPatternT,
   TimeControlStatsT,
+  TimeManagementStatsT,
   ResultPatternsT,
+  VariantStatsT,
+  TrainingStatsT,
+  EndgameTypeStatsT,
 } from './schema';
 
 /**
@@ -31,20 +44,29 @@ export function generateProfile(
     return createEmptyProfile(userId, chesscomUsername);
   }
 
-  // Sort games by date for trend analysis
-  const sortedGames = [...summaries].sort(
+  // Sort games by date for trend analysis (counts come from the shared move labels)
+  const allGames = summaries.map(withErrorCounts).sort(
     (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
   );
 
+  // Ratings, openings and patterns don't carry over between variants, so the
+  // main stats come from standard games (or all games if there are none)
+  const standardGames = allGames.filter(g => g.variant === 'standard');
+  const sortedGames = standardGames.length > 0 ? standardGames : allGames;
+  const variants = computeVariantStats(allGames);
+
   // Compute all stats
   const overall = computeOverallStats(sortedGames);
+  const performance = computePerformanceBreakdown(sortedGames);
   const openings = computeOpeningStats(sortedGames, overall.winRate);
   const phases = computePhaseStats(sortedGames);
   const timeControls = computeTimeControlStats(sortedGames);
+  const timeManagement = analyzeTimeManagement(sortedGames);
+  const endgames = analyzeEndgames(sortedGames);
   const resultPatterns = computeResultPatterns(sortedGames);
 
   // Detect patterns (weaknesses and strengths)
-  const patterns = detectPatterns(sortedGames, openings, phases, overall);
+  const patterns = detectPatterns(sortedGames, openings, phases, overall, timeManagement, endgames);
   const weaknesses = patterns.filter(p => p.type === 'weakness').sort((a, b) => b.severity - a.severity);
   const strengths = patterns.filter(p => p.type === 'strength').sort((a, b) => b.severity - a.severity);
 
@@ -57,14 +79,19 @@ export function generateProfile(
     generatedAt: new Date().toISOString(),
     gamesAnalyzed: summaries.length,
     dateRange: {
-      oldest: sortedGames[0].date,
-      newest: sortedGames[sortedGames.length - 1].date,
+      oldest: allGames[0].date,
+      newest: allGames[allGames.length - 1].date,
     },
     overall,
+    performance,
     openings,
     phases,
     timeControls,
+    timeManagement,
+    variants,
+    endgames,
     resultPatterns,
+    training: null,
     weaknesses,
     strengths,
     summaries: summariesObj,
@@ -91,9 +118,14 @@ function createEmptyProfile(userId: string, chesscomUsername: string | null): Pl
       currentRating: null,
       trend: 'stable',
     },
+    performance: null,
     openings: [],
     phases: [],
     timeControls: [],
+    timeManagement: null,
+    variants: [],
+    endgames: [],
+    training: null,
     resultPatterns: {
       winPatterns: { byCheckmate: 0, byResignation: 0, byTimeout: 0, avgGameLength: 0 },
       lossPatterns: { byCheckmate: 0, byResignation: 0, byTimeout: 0, avgGameLength: 0, avgMoveOfDecisiveMistake: null },
@@ -170,16 +202,20 @@ function computeWinRate(games: CompactGameSummaryT[]): number {
   return total > 0 ? (wins / total) * 100 : 50;
 }
 
+const MIN_RATED_GAMES = 3;        // Rated games before openings are judged against the ratings
+const SIGNIFICANT_SCORE_GAP = 10; // Percentage points above/below the expected score
+
 /**
  * Compute opening-specific stats with pattern detection
  */
 function computeOpeningStats(games: CompactGameSummaryT[], overallWinRate: number): OpeningStatsT[] {
-  // Group games by opening
+  // Group games by opening variation ("Sicilian Defense: Najdorf Variation");
+  // subvariations split the games too thinly for stats
   const openingMap = new Map<string, CompactGameSummaryT[]>();
 
   for (const game of games) {
-    const openingName = game.opening?.name || 'Unknown';
-    if (openingName === 'Unknown' || !openingName) continue;
+    const openingName = variationLabel(openingHierarchy(game.opening));
+    if (!openingName) continue;
 
     if (!openingMap.has(openingName)) {
       openingMap.set(openingName, []);
@@ -193,7 +229,7 @@ function computeOpeningStats(games: CompactGameSummaryT[], overallWinRate: numbe
     if (openingGames.length < 2) continue; // Need at least 2 games for meaningful stats
 
     const eco = openingGames[0].opening?.eco || null;
-    const family = eco ? getFamilyForEco(eco) : null;
+    const family = openingHierarchy(openingGames[0].opening).family;
 
     const asWhite = openingGames.filter(g => g.userColor === 'white').length;
     const asBlack = openingGames.filter(g => g.userColor === 'black').length;
@@ -211,18 +247,25 @@ function computeOpeningStats(games: CompactGameSummaryT[], overallWinRate: numbe
     const evalAt10 = computeAvgEvalAtMove(openingGames, 10);
     const evalAt20 = computeAvgEvalAtMove(openingGames, 20);
 
-    // Find typical deviation from "book" (first mistake move)
+    // Find typical deviation from "book" (where the game left theory, else first mistake move)
     const deviationMoves = openingGames
-      .map(g => findFirstMistakeMove(g))
+      .map(g => findDeviationMove(g))
       .filter((m): m is number => m !== null);
     const typicalDeviationMove = deviationMoves.length > 0
       ? Math.round(deviationMoves.reduce((a, b) => a + b, 0) / deviationMoves.length)
       : null;
 
-    // Classify as weakness/strength
+    // Classify as weakness/strength against the ratings when enough games were
+    // rated (45% against much stronger players is a good result), else by win rate
+    const performance = computePerformance(openingGames);
+    const rated = performance && performance.games >= MIN_RATED_GAMES ? performance : null;
     const significantDiff = 15; // 15% difference from overall
-    const isWeakness = winRate < overallWinRate - significantDiff && openingGames.length >= 3;
-    const isStrength = winRate > overallWinRate + significantDiff && openingGames.length >= 3;
+    const isWeakness = openingGames.length >= 3 && (rated
+      ? rated.scoreVsExpected <= -SIGNIFICANT_SCORE_GAP
+      : winRate < overallWinRate - significantDiff);
+    const isStrength = openingGames.length >= 3 && (rated
+      ? rated.scoreVsExpected >= SIGNIFICANT_SCORE_GAP
+      : winRate > overallWinRate + significantDiff);
     const needsStudy = isWeakness && openingGames.length >= 5; // Plays it often but struggles
 
     // Select example games (best win, worst loss, most recent)
@@ -239,6 +282,7 @@ function computeOpeningStats(games: CompactGameSummaryT[], overallWinRate: numbe
       losses,
       draws,
       winRate: Math.round(winRate * 10) / 10,
+      performance,
       avgAccuracy: null,
       avgMistakesPerGame: Math.round(avgMistakes * 10) / 10,
       avgBlundersPerGame: Math.round(avgBlunders * 10) / 10,
@@ -272,10 +316,13 @@ function computeAvgEvalAtMove(games: CompactGameSummaryT[], moveNo: number): num
   return Math.round((evals.reduce((a, b) => a + b, 0) / evals.length) * 100) / 100;
 }
 
+function findDeviationMove(game: CompactGameSummaryT): number | null {
+  if (game.opening.leftTheoryPly !== null) return Math.ceil(game.opening.leftTheoryPly / 2);
+  return findFirstMistakeMove(game);
+}
+
 function findFirstMistakeMove(game: CompactGameSummaryT): number | null {
-  const mistakePos = game.keyPositions.find(p =>
-    p.tag.includes('mistake') || p.tag.includes('blunder') || p.tag.includes('inaccuracy')
-  );
+  const mistakePos = game.keyPositions.find(p => isUserMove(game, p) && isError(p));
   return mistakePos?.moveNo || null;
 }
 
@@ -335,8 +382,9 @@ function computePhaseStats(games: CompactGameSummaryT[]): PhaseStatsT[] {
             totalEvalChange += change;
           }
 
-          if (pos.tag.includes('mistake')) totalMistakes++;
-          if (pos.tag.includes('blunder')) totalBlunders++;
+          if (!isUserMove(game, pos)) continue;
+          if (isMistake(pos)) totalMistakes++;
+          if (isBlunder(pos)) totalBlunders++;
         }
       }
     }
@@ -384,10 +432,10 @@ function detectCommonMistakeTypes(games: CompactGameSummaryT[], moveRange: [numb
 
   for (const game of games) {
     const phasePositions = game.keyPositions.filter(
-      p => p.moveNo >= moveRange[0] && p.moveNo <= moveRange[1]
+      p => p.moveNo >= moveRange[0] && p.moveNo <= moveRange[1] && isUserMove(game, p)
     );
-    blunderCount += phasePositions.filter(p => p.tag.includes('blunder')).length;
-    mistakeCount += phasePositions.filter(p => p.tag.includes('mistake')).length;
+    blunderCount += phasePositions.filter(isBlunder).length;
+    mistakeCount += phasePositions.filter(isMistake).length;
   }
 
   if (blunderCount > games.length * 0.3) types.push('tactical oversights');
@@ -418,21 +466,25 @@ function computeTimeControlStats(games: CompactGameSummaryT[]): TimeControlStats
 
     const avgMistakes = tcGames.reduce((sum, g) => sum + g.mistakes, 0) / tcGames.length;
 
-    // Time pressure analysis - count late blunders
+    // Time pressure analysis - blunders under 2 minutes when clocks are known,
+    // otherwise fall back to counting late blunders
     const blundersInTimeScramble = tcGames.reduce((sum, game) => {
+      if (hasClockData(game)) return sum + countTimeScrambleBlunders(game);
       const lateBlunders = game.keyPositions.filter(
-        p => p.moveNo >= 35 && p.tag.includes('blunder')
+        p => p.moveNo >= 35 && isUserMove(game, p) && isBlunder(p)
       ).length;
       return sum + lateBlunders;
     }, 0);
+    const tcTimeManagement = analyzeTimeManagement(tcGames);
 
     stats.push({
       type: type as TimeControlStatsT['type'],
       gamesPlayed: tcGames.length,
       winRate: Math.round(winRate * 10) / 10,
+      performance: computePerformance(tcGames),
       avgAccuracy: null,
       avgMistakesPerGame: Math.round(avgMistakes * 10) / 10,
-      avgAccuracyLast2Min: null,
+      avgAccuracyLast2Min: tcTimeManagement?.accuracyLast2Min ?? null,
       blundersInTimeScramble,
     });
   }
@@ -440,6 +492,42 @@ function computeTimeControlStats(games: CompactGameSummaryT[]): TimeControlStats
   return stats.sort((a, b) => b.gamesPlayed - a.gamesPlayed);
 }
 
+/**
+ * Compute per-variant results (games sorted oldest first)
+ */
+function computeVariantStats(games: CompactGameSummaryT[]): VariantStatsT[] {
+  const variantMap = new Map<VariantStatsT['variant'], CompactGameSummaryT[]>();
+
+  for (const game of games) {
+    if (!variantMap.has(game.variant)) variantMap.set(game.variant, []);
+    variantMap.get(game.variant)!.push(game);
+  }
+
+  const stats: VariantStatsT[] = [];
+
+  for (const [variant, variantGames] of Array.from(variantMap.entries())) {
+    const { wins, losses, draws, winRate, ratingRange, currentRating } = computeOverallStats(variantGames);
+    const avgMistakes = variantGames.reduce((sum, g) => sum + g.mistakes, 0) / variantGames.length;
+    const avgBlunders = variantGames.reduce((sum, g) => sum + g.blunders, 0) / variantGames.length;
+
+    stats.push({
+      variant,
+      gamesPlayed: variantGames.length,
+      wins,
+      losses,
+      draws,
+      winRate,
+      ratingRange,
+      currentRating,
+      avgMistakesPerGame: Math.round(avgMistakes * 10) / 10,
+      avgBlundersPerGame: Math.round(avgBlunders * 10) / 10,
+      exampleGameIds: variantGames.slice(-3).reverse().map(g => g.gameId),
+    });
+  }
+
+  return stats.sort((a, b) => b.gamesPlayed - a.gamesPlayed);
+}
+
 /**
  * Compute result patterns
  */
@@ -447,15 +535,17 @@ function computeResultPatterns(games: CompactGameSummaryT[]): ResultPatternsT {
   const wins = games.filter(g => g.result === 'win' || g.result === 'checkmate');
   const losses = games.filter(g => g.result === 'loss' || g.result === 'resign' || g.result === 'timeout');
 
-  // Win patterns
-  const winByCheckmate = wins.filter(g => g.result === 'checkmate').length;
-  const winByResignation = wins.filter(g => g.result === 'win').length; // opponent resigned
-  const winByTimeout = 0; // Would need more detailed result data
+  // Win patterns (older summaries have no termination - treat plain wins as resignations)
+  const winByCheckmate = wins.filter(g => g.result === 'checkmate' || g.termination === 'checkmate').length;
+  const winByResignation = wins.filter(g =>
+    g.termination ? g.termination === 'resignation' : g.result === 'win'
+  ).length;
+  const winByTimeout = wins.filter(g => g.termination === 'time').length;
 
   // Loss patterns
-  const lossByCheckmate = losses.filter(g => g.result === 'checkmate').length;
-  const lossByResignation = losses.filter(g => g.result === 'resign').length;
-  const lossByTimeout = losses.filter(g => g.result === 'timeout').length;
+  const lossByCheckmate = losses.filter(g => g.result === 'checkmate' || g.termination === 'checkmate').length;
+  const lossByResignation = losses.filter(g => g.result === 'resign' || g.termination === 'resignation').length;
+  const lossByTimeout = losses.filter(g => g.result === 'timeout' || g.termination === 'time').length;
 
   // Average game length
   const avgWinLength = wins.length > 0
@@ -467,7 +557,7 @@ function computeResultPatterns(games: CompactGameSummaryT[]): ResultPatternsT {
 
   // Average move of decisive mistake in losses
   const decisiveMistakeMoves = losses
-    .map(g => g.keyPositions.find(p => p.tag.includes('blunder'))?.moveNo)
+    .map(g => g.keyPositions.find(p => isUserMove(g, p) && isBlunder(p))?.moveNo)
     .filter((m): m is number => m !== undefined);
   const avgMoveOfDecisiveMistake = decisiveMistakeMoves.length > 0
     ? Math.round(decisiveMistakeMoves.reduce((a, b) => a + b, 0) / decisiveMistakeMoves.length)
@@ -515,15 +605,23 @@ function detectPatterns(
   games: CompactGameSummaryT[],
   openings: OpeningStatsT[],
   phases: PhaseStatsT[],
-  overall: { winRate: number }
+  overall: { winRate: number },
+  timeManagement: TimeManagementStatsT | null,
+  endgames: EndgameTypeStatsT[]
 ): PlayerPatternT[] {
   const patterns: PlayerPatternT[] = [];
   let patternId = 1;
 
   // 1. Opening weaknesses
   for (const opening of openings) {
+    // Judged against the ratings when enough games were rated (see computeOpeningStats)
+    const rated = opening.performance && opening.performance.games >= MIN_RATED_GAMES ? opening.performance : null;
+    const ratedStats = rated
+      ? `${Math.round(rated.scoreRate)}% score vs ${Math.round(rated.expectedRate)}% expected (performance ${rated.performanceRating} vs ${rated.avgRating} rating)`
+      : null;
+
     if (opening.isWeakness && opening.gamesPlayed >= 3) {
-      const winDiff = Math.round(overall.winRate - opening.winRate);
+      const winDiff = Math.round(rated ? -rated.scoreVsExpected : overall.winRate - opening.winRate);
       const confidence = getConfidence(opening.gamesPlayed);
       const baseSeverity = Math.min(10, Math.max(1, Math.round(winDiff / 5) + (opening.needsStudy ? 2 : 0)));
       const adjustedSeverity = adjustSeverityForConfidence(baseSeverity, confidence);
@@ -542,10 +640,12 @@ function detectPatterns(
         title: opening.name,
         description: opening.typicalDeviationMove
           ? `Struggles after move ${opening.typicalDeviationMove}${confidenceNote}`
+          : rated
+          ? `Scores ${winDiff}% below what the ratings predict${confidenceNote}`
           : `Win rate ${winDiff}% below average${confidenceNote}`,
         severity: adjustedSeverity,
         frequency: `${opening.gamesPlayed} games`,
-        stats: `${Math.round(opening.winRate)}% win rate vs ${Math.round(overall.winRate)}% overall`,
+        stats: ratedStats ?? `${Math.round(opening.winRate)}% win rate vs ${Math.round(overall.winRate)}% overall`,
         sampleSize: opening.gamesPlayed,
         confidence,
         recommendation: confidence === 'low'
@@ -557,7 +657,8 @@ function detectPatterns(
 
     if (opening.isStrength && opening.gamesPlayed >= 3) {
       const confidence = getConfidence(opening.gamesPlayed);
-      const baseSeverity = Math.min(10, Math.round((opening.winRate - overall.winRate) / 5));
+      const gain = rated ? rated.scoreVsExpected : opening.winRate - overall.winRate;
+      const baseSeverity = Math.min(10, Math.max(1, Math.round(gain / 5)));
       const adjustedSeverity = adjustSeverityForConfidence(baseSeverity, confidence);
 
       patterns.push({
@@ -565,10 +666,12 @@ function detectPatterns(
         type: 'strength',
         category: 'opening',
         title: opening.name,
-        description: `Strong performance with ${Math.round(opening.winRate)}% win rate`,
+        description: rated
+          ? `Scores ${Math.round(gain)}% above what the ratings predict (performance ${rated.performanceRating})`
+          : `Strong performance with ${Math.round(opening.winRate)}% win rate`,
         severity: adjustedSeverity,
         frequency: `${opening.gamesPlayed} games`,
-        stats: `${Math.round(opening.winRate)}% win rate vs ${Math.round(overall.winRate)}% overall`,
+        stats: ratedStats ?? `${Math.round(opening.winRate)}% win rate vs ${Math.round(overall.winRate)}% overall`,
         sampleSize: opening.gamesPlayed,
         confidence,
         recommendation: `Continue playing ${opening.name} - it's one of your best openings`,
@@ -632,32 +735,264 @@ function detectPatterns(
     });
   }
 
-  // 4. Time pressure weakness (blunders late in games)
-  const lateBlunders = games.reduce((sum, game) => {
-    return sum + game.keyPositions.filter(p => p.moveNo >= 35 && p.tag.includes('blunder')).length;
-  }, 0);
+  // 4. Time pressure weakness
+  if (timeManagement) {
+    patterns.push(...detectTimePatterns(timeManagement, () => patternId++));
+  } else {
+    // No clock data - fall back to blunders late in games
+    const lateBlunders = games.reduce((sum, game) => {
+      return sum + game.keyPositions.filter(p => p.moveNo >= 35 && isUserMove(game, p) && isBlunder(p)).length;
+    }, 0);
 
-  if (lateBlunders > games.length * 0.3) {
-    const confidence = getConfidence(games.length);
+    if (lateBlunders > games.length * 0.3) {
+      const confidence = getConfidence(games.length);
+      patterns.push({
+        id: `time-weakness-${patternId++}`,
+        type: 'weakness',
+        category: 'time',
+        title: 'Time pressure blunders',
+        description: 'Making mistakes when time gets low',
+        severity: adjustSeverityForConfidence(Math.min(10, Math.round((lateBlunders / games.length) * 5)), confidence),
+        frequency: `${lateBlunders} late-game blunders`,
+        stats: `${((lateBlunders / games.length) * 100).toFixed(0)}% of games have late blunders`,
+        sampleSize: games.length,
+        confidence,
+        recommendation: 'Practice time management - aim to have 2+ minutes at move 30',
+        exampleGameIds: [],
+      });
+    }
+  }
+
+  // 5. Endgame conversion by endgame type
+  patterns.push(...detectEndgamePatterns(endgames, () => patternId++));
+
+  return patterns;
+}
+
+/**
+ * Detect time management patterns from clock data
+ */
+function detectTimePatterns(tm: TimeManagementStatsT, nextId: () => number): PlayerPatternT[] {
+  const patterns: PlayerPatternT[] = [];
+  const confidence = getConfidence(tm.gamesWithClockData);
+
+  // Blunder rate under 30s vs with 2+ minutes
+  const lowTime = tm.blunderRateByTimeLeft.filter(b => b.maxSeconds !== null && b.maxSeconds <= 30);
+  const lowMoves = lowTime.reduce((sum, b) => sum + b.moves, 0);
+  const lowBlunders = lowTime.reduce((sum, b) => sum + b.blunders, 0);
+  const lowRate = lowMoves > 0 ? (lowBlunders / lowMoves) * 100 : 0;
+  const relaxed = tm.blunderRateByTimeLeft.find(b => b.maxSeconds === null);
+  const relaxedRate = relaxed?.blunderRate ?? 0;
+
+  if (lowMoves >= 10 && lowBlunders >= 3 && lowRate > Math.max(relaxedRate * 2, 5)) {
     patterns.push({
-      id: `time-weakness-${patternId++}`,
+      id: `time-weakness-${nextId()}`,
       type: 'weakness',
       category: 'time',
       title: 'Time pressure blunders',
-      description: 'Making mistakes when time gets low',
-      severity: adjustSeverityForConfidence(Math.min(10, Math.round((lateBlunders / games.length) * 5)), confidence),
-      frequency: `${lateBlunders} late-game blunders`,
-      stats: `${((lateBlunders / games.length) * 100).toFixed(0)}% of games have late blunders`,
-      sampleSize: games.length,
+      description: 'Blunder rate jumps when the clock drops under 30 seconds',
+      severity: adjustSeverityForConfidence(Math.min(10, Math.round(lowRate / 5) + 2), confidence),
+      frequency: `${lowBlunders} blunders in ${lowMoves} moves under 30s`,
+      stats: `${lowRate.toFixed(0)}% blunder rate under 30s vs ${relaxedRate.toFixed(0)}% with 2+ minutes`,
+      sampleSize: tm.gamesWithClockData,
       confidence,
       recommendation: 'Practice time management - aim to have 2+ minutes at move 30',
       exampleGameIds: [],
     });
   }
 
+  // Burning clock on easy moves
+  if (tm.slowEasyMoves.count >= 3) {
+    patterns.push({
+      id: `time-weakness-${nextId()}`,
+      type: 'weakness',
+      category: 'time',
+      title: 'Slow on easy moves',
+      description: 'Spending too long on recaptures, only moves and already-decided positions',
+      severity: adjustSeverityForConfidence(Math.min(10, tm.slowEasyMoves.count), confidence),
+      frequency: `${tm.slowEasyMoves.count} slow easy moves`,
+      stats: `${Math.round(tm.slowEasyMoves.totalTimeSpent / 60)} minutes spent on moves that needed little thought`,
+      sampleSize: tm.gamesWithClockData,
+      confidence,
+      recommendation: 'Play obvious moves quickly and save your clock for critical positions',
+      exampleGameIds: [...new Set(tm.slowEasyMoves.examples.map(e => e.gameId))],
+      examplePositions: tm.slowEasyMoves.examples.map(e => ({
+        gameId: e.gameId,
+        fen: e.fen,
+        moveNumber: e.moveNumber,
+        description: e.description,
+      })),
+    });
+  }
+
+  // Flagging in winning positions
+  if (tm.lossesOnTimeFromWinning.count >= 2) {
+    patterns.push({
+      id: `time-weakness-${nextId()}`,
+      type: 'weakness',
+      category: 'time',
+      title: 'Losing won games on time',
+      description: 'Running out of time while ahead on the board',
+      severity: adjustSeverityForConfidence(Math.min(10, tm.lossesOnTimeFromWinning.count * 2 + 2), confidence),
+      frequency: `${tm.lossesOnTimeFromWinning.count} of ${tm.lossesOnTime} time losses`,
+      stats: `${tm.lossesOnTimeFromWinning.count} games flagged from a winning position`,
+      sampleSize: tm.gamesWithClockData,
+      confidence,
+      recommendation: 'When ahead and low on time, simplify and play safe, fast moves instead of looking for the best one',
+      exampleGameIds: tm.lossesOnTimeFromWinning.examples.map(e => e.gameId),
+    });
+  }
+
+  return patterns;
+}
+
+const MIN_WINNING_ENDGAMES = 3;
+
+/**
+ * Detect endgame types the user fails to convert (or converts reliably)
+ * from winning positions
+ */
+function detectEndgamePatterns(endgames: EndgameTypeStatsT[], nextId: () => number): PlayerPatternT[] {
+  const patterns: PlayerPatternT[] = [];
+
+  for (const stats of endgames) {
+    const { winning, conversionRate } = stats;
+    if (winning.games < MIN_WINNING_ENDGAMES || conversionRate === null) continue;
+
+    const label = ENDGAME_LABELS[stats.type];
+    const name = label.charAt(0).toLowerCase() + label.slice(1);
+    const confidence = getConfidence(winning.games);
+
+    if (conversionRate < 60) {
+      patterns.push({
+        id: `endgame-weakness-${nextId()}`,
+        type: 'weakness',
+        category: 'endgame',
+        title: `Converting ${name}`,
+        description: `Converts only ${conversionRate}% of winning ${name}`,
+        severity: adjustSeverityForConfidence(Math.min(10, Math.round((100 - conversionRate) / 10) + 1), confidence),
+        frequency: `${winning.games - winning.converted} of ${winning.games} winning ${name} not won`,
+        stats: `${winning.converted}/${winning.games} winning ${name} converted`,
+        sampleSize: winning.games,
+        confidence,
+        recommendation: stats.type === 'rook'
+          ? 'Study the key rook endgame techniques (Lucena, Philidor, rook behind passed pawns) and play out winning rook endings against the engine'
+          : `Play out winning ${name} from your games against the engine until the win comes easily`,
+        exampleGameIds: stats.exampleGameIds,
+      });
+    } else if (conversionRate >= 90 && winning.games >= 5) {
+      patterns.push({
+        id: `endgame-strength-${nextId()}`,
+        type: 'strength',
+        category: 'endgame',
+        title: `Converting ${name}`,
+        description: `Reliably wins ${name} once ahead`,
+        severity: adjustSeverityForConfidence(Math.min(10, Math.round(winning.games / 2) + 3), confidence),
+        frequency: `${winning.games} winning ${name}`,
+        stats: `${winning.converted}/${winning.games} winning ${name} converted`,
+        sampleSize: winning.games,
+        confidence,
+        recommendation: `Trade into ${name} when ahead - you convert them well`,
+        exampleGameIds: [],
+      });
+    }
+  }
+
+  return patterns;
+}
+
+const MIN_TRAINING_REVIEWS = 10;
+
+const TRAINING_LABELS: Record<TrainingStatsT['byKind'][number]['kind'], { title: string; category: PlayerPatternT['category']; recommendation: string }> = {
+  mistake: {
+    title: 'Mistake review',
+    category: 'tactical',
+    recommendation: 'Keep up the daily reviews of your own mistakes - the same ideas come back in new games',
+  },
+  opening: {
+    title: 'Opening review',
+    category: 'opening',
+    recommendation: 'Drill the book moves where you left theory until they come without thinking',
+  },
+  endgame: {
+    title: 'Endgame review',
+    category: 'endgame',
+    recommendation: 'Replay the endgames you misplayed until you find the right plan every time',
+  },
+};
+
+/**
+ * Weaknesses and strengths from review accuracy: positions from the user's
+ * own games they still get wrong, or now get right
+ */
+function detectTrainingPatterns(training: TrainingStatsT): PlayerPatternT[] {
+  const patterns: PlayerPatternT[] = [];
+
+  for (const kind of training.byKind) {
+    if (kind.reviews < MIN_TRAINING_REVIEWS || kind.accuracy === null) continue;
+    const label = TRAINING_LABELS[kind.kind];
+    const confidence = kind.reviews >= 30 ? 'high' : 'medium';
+
+    if (kind.accuracy < 50) {
+      patterns.push({
+        id: `training-weakness-${kind.kind}`,
+        type: 'weakness',
+        category: label.category,
+        title: label.title,
+        description: `Still missing ${100 - kind.accuracy}% of review positions from your own games`,
+        severity: adjustSeverityForConfidence(Math.min(10, Math.round((60 - kind.accuracy) / 5) + 3), confidence),
+        frequency: `${kind.reviews} reviews`,
+        stats: `${kind.accuracy}% review accuracy on ${kind.items} positions`,
+        sampleSize: kind.reviews,
+        confidence,
+        recommendation: label.recommendation,
+        exampleGameIds: [],
+      });
+    } else if (kind.accuracy >= 85 && kind.learned > 0) {
+      patterns.push({
+        id: `training-strength-${kind.kind}`,
+        type: 'strength',
+        category: label.category,
+        title: label.title,
+        description: `Getting ${kind.accuracy}% of review positions right, ${kind.learned} learned for good`,
+        severity: adjustSeverityForConfidence(Math.min(10, Math.round((kind.accuracy - 70) / 3)), confidence),
+        frequency: `${kind.reviews} reviews`,
+        stats: `${kind.accuracy}% review accuracy on ${kind.items} positions`,
+        sampleSize: kind.reviews,
+        confidence,
+        recommendation: `Keep reviewing - ${kind.learned} of ${kind.items} positions are learned`,
+        exampleGameIds: [],
+      });
+    }
+  }
+
   return patterns;
 }
 
+/**
+ * Attach review progress to a profile: replaces earlier review-based patterns
+ * and refreshes the quick summaries to match
+ */
+export function withTrainingStats(profile: PlayerProfileT, training: TrainingStatsT | null): PlayerProfileT {
+  const patterns = training ? detectTrainingPatterns(training) : [];
+  const fromGames = (p: PlayerPatternT) => !p.id.startsWith('training-');
+  const weaknesses = [...profile.weaknesses.filter(fromGames), ...patterns.filter(p => p.type === 'weakness')]
+    .sort((a, b) => b.severity - a.severity);
+  const strengths = [...profile.strengths.filter(fromGames), ...patterns.filter(p => p.type === 'strength')]
+    .sort((a, b) => b.severity - a.severity);
+
+  return {
+    ...profile,
+    training,
+    weaknesses,
+    strengths,
+    // An empty profile keeps its "play some games first" summaries
+    summaries: profile.gamesAnalyzed > 0
+      ? generateSummaries(weaknesses, strengths, [], profile.overall)
+      : profile.summaries,
+  };
+}
+
 /**
  * Generate quick-access summaries for common questions
  */
@@ -6,12 +6,14 @@
  */
 
 import type { CompactGameSummaryT } from '../summaries/schemas';
-import { getFamilyForEco } from '../data/ecoDatabase';
+import { openingHierarchy, variationLabel } from '../openings/ecoTree';
+import { computePerformance } from '../analysis/performance';
 import {
   type HistoricalStatsT,
   type OpeningHistoryT,
   type TimeControlHistoryT,
   type RatingHistoryT,
+  type VariantHistoryT,
   type PeriodStatsT,
   calculateTrend,
   getQuarter,
@@ -34,13 +36,19 @@ export function generateHistoricalStats(
     (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
   );
 
+  // Keep variant results out of the standard breakdowns (unless that's all there is)
+  const standardGames = sortedGames.filter(g => g.variant === 'standard');
+  const mainGames = standardGames.length > 0 ? standardGames : sortedGames;
+
   return {
     userId,
     lastUpdated: new Date().toISOString(),
-    lifetime: computeLifetimeStats(sortedGames),
-    openings: computeOpeningHistory(sortedGames),
-    timeControls: computeTimeControlHistory(sortedGames),
-    ratingHistory: computeRatingHistory(sortedGames),
+    lifetime: computeLifetimeStats(mainGames),
+    openings: computeOpeningHistory(mainGames, 'variation'),
+    openingFamilies: computeOpeningHistory(mainGames, 'family'),
+    timeControls: computeTimeControlHistory(mainGames),
+    ratingHistory: computeRatingHistory(mainGames),
+    variants: computeVariantHistory(sortedGames),
     activityByMonth: computeMonthlyActivity(sortedGames),
     activityByDayOfWeek: computeDayOfWeekActivity(sortedGames),
   };
@@ -63,8 +71,10 @@ function createEmptyHistoricalStats(userId: string): HistoricalStatsT {
       latestGame: null,
     },
     openings: [],
+    openingFamilies: [],
     timeControls: [],
     ratingHistory: [],
+    variants: [],
     activityByMonth: [],
     activityByDayOfWeek: [],
   };
@@ -91,15 +101,17 @@ function computeLifetimeStats(games: CompactGameSummaryT[]) {
 }
 
 /**
- * Compute opening-specific history with trends over time
+ * Compute opening-specific history with trends over time,
+ * grouped by ECO-tree family or by family + variation
  */
-function computeOpeningHistory(games: CompactGameSummaryT[]): OpeningHistoryT[] {
+function computeOpeningHistory(games: CompactGameSummaryT[], level: 'family' | 'variation'): OpeningHistoryT[] {
   // Group games by opening
   const openingMap = new Map<string, CompactGameSummaryT[]>();
 
   for (const game of games) {
-    const name = game.opening?.name || 'Unknown';
-    if (name === 'Unknown') continue;
+    const hierarchy = openingHierarchy(game.opening);
+    const name = level === 'family' ? hierarchy.family : variationLabel(hierarchy);
+    if (!name) continue;
 
     if (!openingMap.has(name)) {
       openingMap.set(name, []);
@@ -111,7 +123,7 @@ function computeOpeningHistory(games: CompactGameSummaryT[]): OpeningHistoryT[]
 
   for (const [name, openingGames] of Array.from(openingMap.entries())) {
     const eco = openingGames[0]?.opening?.eco || null;
-    const family = eco ? getFamilyForEco(eco) : null;
+    const { family, variation } = openingHierarchy(openingGames[0].opening);
 
     // All-time stats
     const wins = openingGames.filter(g => g.result === 'win' || g.result === 'checkmate').length;
@@ -145,6 +157,7 @@ function computeOpeningHistory(games: CompactGameSummaryT[]): OpeningHistoryT[]
       name,
       eco,
       family,
+      variation: level === 'family' ? null : variation,
       allTime: {
         gamesPlayed: openingGames.length,
         wins,
@@ -153,6 +166,7 @@ function computeOpeningHistory(games: CompactGameSummaryT[]): OpeningHistoryT[]
         winRate: total > 0 ? Math.round((wins / total) * 1000) / 10 : 0,
         asWhite: openingGames.filter(g => g.userColor === 'white').length,
         asBlack: openingGames.filter(g => g.userColor === 'black').length,
+        ...performanceSummary(openingGames),
       },
       byPeriod,
       trend,
@@ -196,9 +210,58 @@ function computeTimeControlHistory(games: CompactGameSummaryT[]): TimeControlHis
         losses,
         draws,
         winRate: total > 0 ? Math.round((wins / total) * 1000) / 10 : 0,
+        ...performanceSummary(tcGames),
+      },
+      byPeriod,
+      trend: calculateTrend(byPeriod),
+    });
+  }
+
+  return results.sort((a, b) => b.allTime.gamesPlayed - a.allTime.gamesPlayed);
+}
+
+/**
+ * Performance rating and score vs expected (null without rated games)
+ */
+function performanceSummary(games: CompactGameSummaryT[]) {
+  const performance = computePerformance(games);
+  return {
+    performanceRating: performance?.performanceRating ?? null,
+    scoreVsExpected: performance?.scoreVsExpected ?? null,
+  };
+}
+
+/**
+ * Compute per-variant history (games sorted oldest first)
+ */
+function computeVariantHistory(games: CompactGameSummaryT[]): VariantHistoryT[] {
+  const variantMap = new Map<VariantHistoryT['variant'], CompactGameSummaryT[]>();
+
+  for (const game of games) {
+    if (!variantMap.has(game.variant)) variantMap.set(game.variant, []);
+    variantMap.get(game.variant)!.push(game);
+  }
+
+  const results: VariantHistoryT[] = [];
+
+  for (const [variant, variantGames] of Array.from(variantMap.entries())) {
+    const { wins, losses, draws, winRate } = computeLifetimeStats(variantGames);
+    const byPeriod = computePeriodStats(variantGames, 'quarter');
+
+    results.push({
+      variant,
+      allTime: {
+        gamesPlayed: variantGames.length,
+        wins,
+        losses,
+        draws,
+        winRate,
       },
       byPeriod,
       trend: calculateTrend(byPeriod),
+      ratingHistory: computeRatingHistory(variantGames),
+      firstPlayed: variantGames[0]?.date || null,
+      lastPlayed: variantGames[variantGames.length - 1]?.date || null,
     });
   }
 
@@ -318,6 +381,7 @@ function computePeriodStats(
       draws,
       winRate: total > 0 ? Math.round((wins / total) * 1000) / 10 : 0,
       avgRating,
+      ...performanceSummary(periodGames),
     });
   }
 
@@ -337,7 +401,7 @@ function computeMonthlyActivity(games: CompactGameSummaryT[]) {
     monthMap.get(month)!.push(game);
   }
 
-  const results: Array<{ month: string; gamesPlayed: number; winRate: number }> = [];
+  const results: HistoricalStatsT['activityByMonth'] = [];
 
   for (const [month, monthGames] of Array.from(monthMap.entries())) {
     const wins = monthGames.filter(g => g.result === 'win' || g.result === 'checkmate').length;
@@ -347,6 +411,7 @@ function computeMonthlyActivity(games: CompactGameSummaryT[]) {
       month,
       gamesPlayed: total,
       winRate: total > 0 ? Math.round((wins / total) * 1000) / 10 : 0,
+      ...performanceSummary(monthGames),
     });
   }
 
@@ -19,6 +19,8 @@ export const PeriodStats = z.object({
   draws: z.number(),
   winRate: z.number(),
   avgRating: z.number().nullable(),
+  performanceRating: z.number().nullable().default(null), // Rated games only (see analysis/performance.ts)
+  scoreVsExpected: z.number().nullable().default(null),   // Percentage points vs the ratings' prediction
 });
 
 export type PeriodStatsT = z.infer<typeof PeriodStats>;
@@ -27,9 +29,10 @@ export type PeriodStatsT = z.infer<typeof PeriodStats>;
  * Opening-specific historical stats
  */
 export const OpeningHistory = z.object({
-  name: z.string(),
+  name: z.string(),                 // "Family: Variation", or just the family
   eco: z.string().nullable(),
   family: z.string().nullable(),
+  variation: z.string().nullable().default(null),
 
   // All-time totals
   allTime: z.object({
@@ -40,6 +43,8 @@ export const OpeningHistory = z.object({
     winRate: z.number(),
     asWhite: z.number(),
     asBlack: z.number(),
+    performanceRating: z.number().nullable().default(null),
+    scoreVsExpected: z.number().nullable().default(null),
   }),
 
   // Performance over time (quarterly)
@@ -68,6 +73,8 @@ export const TimeControlHistory = z.object({
     losses: z.number(),
     draws: z.number(),
     winRate: z.number(),
+    performanceRating: z.number().nullable().default(null),
+    scoreVsExpected: z.number().nullable().default(null),
   }),
 
   byPeriod: z.array(PeriodStats),
@@ -105,6 +112,30 @@ export const RatingHistory = z.object({
 
 export type RatingHistoryT = z.infer<typeof RatingHistory>;
 
+/**
+ * Variant historical stats (Chess960 has its own rating pool, so it gets its own history)
+ */
+export const VariantHistory = z.object({
+  variant: z.enum(['standard', 'chess960', 'fromPosition']),
+
+  allTime: z.object({
+    gamesPlayed: z.number(),
+    wins: z.number(),
+    losses: z.number(),
+    draws: z.number(),
+    winRate: z.number(),
+  }),
+
+  byPeriod: z.array(PeriodStats),
+  trend: z.enum(['improving', 'stable', 'declining', 'insufficient_data']),
+  ratingHistory: z.array(RatingHistory),
+
+  firstPlayed: z.string().nullable(),   // ISO date
+  lastPlayed: z.string().nullable(),    // ISO date
+});
+
+export type VariantHistoryT = z.infer<typeof VariantHistory>;
+
 /**
  * Complete Historical Statistics
  *
@@ -115,7 +146,8 @@ export const HistoricalStats = z.object({
   userId: z.string(),
   lastUpdated: z.string(),          // ISO timestamp
 
-  // Overall lifetime stats
+  // Overall lifetime stats (this and the opening/time control/rating
+  // breakdowns below cover standard games; other variants live in `variants`)
   lifetime: z.object({
     totalGames: z.number(),
     wins: z.number(),
@@ -126,8 +158,9 @@ export const HistoricalStats = z.object({
     latestGame: z.string().nullable(),  // ISO date
   }),
 
-  // Opening breakdown (all openings ever played)
+  // Opening breakdown (all openings ever played), by variation and rolled up by family
   openings: z.array(OpeningHistory),
+  openingFamilies: z.array(OpeningHistory).default([]),
 
   // Time control breakdown
   timeControls: z.array(TimeControlHistory),
@@ -135,11 +168,16 @@ export const HistoricalStats = z.object({
   // Rating progression
   ratingHistory: z.array(RatingHistory),
 
-  // Monthly activity (for "when do I play most" questions)
+  // Per-variant breakdown, including standard, most played first
+  variants: z.array(VariantHistory).default([]),
+
+  // Monthly activity (all variants) (for "when do I play most" questions)
   activityByMonth: z.array(z.object({
     month: z.string(),            // "2024-01"
     gamesPlayed: z.number(),
     winRate: z.number(),
+    performanceRating: z.number().nullable().default(null),
+    scoreVsExpected: z.number().nullable().default(null),
   })),
 
   // Day of week patterns (for curiosity questions)
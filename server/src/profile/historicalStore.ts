@@ -99,6 +99,11 @@ export function queryOpeningHistory(
     o.eco?.toLowerCase() === normalized
   );
 
+  // A whole family ("sicilian") is better answered by the family rollup
+  if (!match) {
+    match = stats.openingFamilies.find(o => o.name.toLowerCase().includes(normalized));
+  }
+
   // Try partial match
   if (!match) {
     match = stats.openings.find(o =>
@@ -122,6 +127,9 @@ export function formatOpeningHistorySummary(
   lines.push(`**All-time:** ${opening.allTime.gamesPlayed} games`);
   lines.push(`**Record:** ${opening.allTime.wins}W - ${opening.allTime.losses}L - ${opening.allTime.draws}D (${opening.allTime.winRate}% win rate)`);
   lines.push(`**As White:** ${opening.allTime.asWhite} games | **As Black:** ${opening.allTime.asBlack} games`);
+  if (opening.allTime.performanceRating !== null && opening.allTime.scoreVsExpected !== null) {
+    lines.push(`**Performance rating:** ${opening.allTime.performanceRating} (${formatScoreVsExpected(opening.allTime.scoreVsExpected)} vs what the ratings predicted)`);
+  }
 
   if (opening.firstPlayed && opening.lastPlayed) {
     const first = new Date(opening.firstPlayed).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
@@ -139,9 +147,17 @@ export function formatOpeningHistorySummary(
   if (opening.byPeriod.length > 0) {
     lines.push(`\n**Performance by Quarter:**`);
     for (const period of opening.byPeriod.slice(-6)) { // Last 6 quarters
-      lines.push(`- ${period.period}: ${period.gamesPlayed} games, ${period.winRate}% win rate`);
+      const performance = period.performanceRating !== null ? `, performance ${period.performanceRating}` : '';
+      lines.push(`- ${period.period}: ${period.gamesPlayed} games, ${period.winRate}% win rate${performance}`);
     }
   }
 
   return lines.join('\n');
 }
+
+/**
+ * "+8%" / "-12%"
+ */
+export function formatScoreVsExpected(points: number): string {
+  return `${points >= 0 ? '+' : ''}${Math.round(points)}%`;
+}
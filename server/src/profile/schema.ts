@@ -6,6 +6,27 @@
  */
 
 import { z } from 'zod';
+import { ReviewKind } from '../training/schema';
+
+/**
+ * Results against the ratings (see analysis/performance.ts). Rated games
+ * with both ratings known only; intervals are 95%.
+ */
+export const PerformanceStats = z.object({
+  games: z.number(),
+  score: z.number(),                       // Points (draws count half)
+  expectedScore: z.number(),               // Points the rating gaps predicted
+  scoreRate: z.number(),                   // 0-100
+  expectedRate: z.number(),                // 0-100
+  scoreVsExpected: z.number(),             // Percentage points above (+) or below (-) expectation
+  scoreVsExpectedRange: z.tuple([z.number(), z.number()]),
+  avgRating: z.number(),
+  avgOpponentRating: z.number(),
+  performanceRating: z.number(),           // The rating this score matches against these opponents
+  performanceRange: z.tuple([z.number(), z.number()]),
+});
+
+export type PerformanceStatsT = z.infer<typeof PerformanceStats>;
 
 /**
  * Opening performance tracking
@@ -25,6 +46,7 @@ export const OpeningStats = z.object({
   losses: z.number(),
   draws: z.number(),
   winRate: z.number(),                     // 0-100
+  performance: PerformanceStats.nullable().default(null), // null without rated games
 
   // Quality metrics
   avgAccuracy: z.number().nullable(),      // If available
@@ -37,8 +59,8 @@ export const OpeningStats = z.object({
   typicalDeviationMove: z.number().nullable(), // Where do they leave "book"?
 
   // Classification
-  isWeakness: z.boolean(),                 // Win rate significantly below overall
-  isStrength: z.boolean(),                 // Win rate significantly above overall
+  isWeakness: z.boolean(),                 // Scores well below what the ratings predict (win rate below overall without ratings)
+  isStrength: z.boolean(),                 // Scores well above what the ratings predict (win rate above overall without ratings)
   needsStudy: z.boolean(),                 // Plays it but struggles
 
   // Example games for this opening
@@ -110,6 +132,7 @@ export const TimeControlStats = z.object({
   type: z.enum(['bullet', 'blitz', 'rapid', 'classical', 'daily']),
   gamesPlayed: z.number(),
   winRate: z.number(),
+  performance: PerformanceStats.nullable().default(null),
   avgAccuracy: z.number().nullable(),
   avgMistakesPerGame: z.number(),
 
@@ -120,6 +143,149 @@ export const TimeControlStats = z.object({
 
 export type TimeControlStatsT = z.infer<typeof TimeControlStats>;
 
+/**
+ * Per-variant performance. Chess960 and from-position games are kept out of
+ * the main profile stats and reported here instead.
+ */
+export const VariantStats = z.object({
+  variant: z.enum(['standard', 'chess960', 'fromPosition']),
+  gamesPlayed: z.number(),
+  wins: z.number(),
+  losses: z.number(),
+  draws: z.number(),
+  winRate: z.number(),                     // 0-100
+  ratingRange: z.tuple([z.number(), z.number()]).nullable(),
+  currentRating: z.number().nullable(),
+  avgMistakesPerGame: z.number(),
+  avgBlundersPerGame: z.number(),
+  exampleGameIds: z.array(z.string()),     // Most recent games
+});
+
+export type VariantStatsT = z.infer<typeof VariantStats>;
+
+/**
+ * A single move worth pointing at in a time-management discussion
+ */
+export const TimeExample = z.object({
+  gameId: z.string(),
+  moveNumber: z.number(),
+  move: z.string().nullable(),
+  fen: z.string(),
+  clock: z.number().nullable(),            // Seconds left after the move
+  timeSpent: z.number().nullable(),        // Seconds spent on the move
+  description: z.string(),
+});
+
+export type TimeExampleT = z.infer<typeof TimeExample>;
+
+/**
+ * Clock-based time management analysis (from PGN %clk comments)
+ */
+export const TimeManagementStats = z.object({
+  gamesWithClockData: z.number(),
+  avgTimePerMove: z.number().nullable(),   // Seconds, user's moves only
+
+  // Blunder rate vs time left on the clock
+  blunderRateByTimeLeft: z.array(z.object({
+    label: z.string(),                     // e.g., "<10s", "10-30s"
+    minSeconds: z.number(),
+    maxSeconds: z.number().nullable(),     // null = open-ended
+    moves: z.number(),
+    blunders: z.number(),
+    blunderRate: z.number(),               // 0-100, % of moves that were blunders
+  })),
+
+  // Time scramble (under 2 minutes left)
+  timeScrambleMoves: z.number(),
+  timeScrambleBlunders: z.number(),
+  accuracyLast2Min: z.number().nullable(), // 0-100
+  accuracyOtherwise: z.number().nullable(),
+
+  // Moves that burned clock in positions that didn't need it
+  slowEasyMoves: z.object({
+    count: z.number(),
+    totalTimeSpent: z.number(),            // Seconds
+    examples: z.array(TimeExample),
+  }),
+
+  // Losses on time
+  lossesOnTime: z.number(),
+  lossesOnTimeFromWinning: z.object({
+    count: z.number(),
+    examples: z.array(TimeExample),
+  }),
+});
+
+export type TimeManagementStatsT = z.infer<typeof TimeManagementStats>;
+
+/**
+ * Endgame type by material signature (see analysis/endgames.ts)
+ */
+export const EndgameType = z.enum([
+  'pawn',              // Kings and pawns only
+  'rook',
+  'queen',
+  'opposite_bishops',  // One bishop each, on opposite colors
+  'minor_pieces',      // Knights and bishops otherwise
+  'rook_vs_minor',     // Rooks on one side, minor pieces on the other
+  'rook_and_minor',    // Rooks and minor pieces on the board
+  'mixed',             // Queens with other pieces
+]);
+
+export type EndgameTypeT = z.infer<typeof EndgameType>;
+
+/**
+ * Results in one endgame type, split by the eval when the game first reached it
+ */
+export const EndgameTypeStats = z.object({
+  type: EndgameType,
+  games: z.number(),                       // Games that reached this type
+  wins: z.number(),
+  draws: z.number(),
+  losses: z.number(),
+  avgEntryEval: z.number().nullable(),     // Pawns, user's side (engine-analyzed games only)
+  winning: z.object({                      // Entered at +2 or better (or a tablebase win)
+    games: z.number(),
+    converted: z.number(),                 // Won
+  }),
+  equal: z.object({
+    games: z.number(),
+    won: z.number(),
+    lost: z.number(),
+  }),
+  losing: z.object({                       // Entered at -2 or worse (or a tablebase loss)
+    games: z.number(),
+    saved: z.number(),                     // Drawn or won
+  }),
+  conversionRate: z.number().nullable(),   // 0-100, winning entries won
+  saveRate: z.number().nullable(),         // 0-100, losing entries held
+  exampleGameIds: z.array(z.string()),     // Winning entries that weren't won, most recent first
+});
+
+export type EndgameTypeStatsT = z.infer<typeof EndgameTypeStats>;
+
+/**
+ * Spaced-repetition review progress (see training/scheduler.ts)
+ */
+export const TrainingStats = z.object({
+  items: z.number(),                       // Positions in the review deck
+  newItems: z.number(),                    // Not reviewed yet
+  dueToday: z.number(),
+  reviews: z.number(),                     // Reviews in the log
+  accuracy: z.number().nullable(),         // 0-100, null before the first review
+  recentAccuracy: z.number().nullable(),   // Last 30 days
+  byKind: z.array(z.object({
+    kind: ReviewKind,
+    items: z.number(),
+    learned: z.number(),                   // Remembered for 3+ weeks
+    reviews: z.number(),
+    accuracy: z.number().nullable(),
+  })),
+  lastReviewAt: z.string().nullable(),
+});
+
+export type TrainingStatsT = z.infer<typeof TrainingStats>;
+
 /**
  * Result pattern analysis
  */
@@ -144,6 +310,20 @@ export const ResultPatterns = z.object({
 
 export type ResultPatternsT = z.infer<typeof ResultPatterns>;
 
+/**
+ * Performance against the ratings by color and by month
+ */
+export const PerformanceBreakdown = z.object({
+  overall: PerformanceStats,
+  white: PerformanceStats.nullable(),
+  black: PerformanceStats.nullable(),
+  byMonth: z.array(PerformanceStats.extend({
+    month: z.string(),                     // "2024-01"
+  })),
+});
+
+export type PerformanceBreakdownT = z.infer<typeof PerformanceBreakdown>;
+
 /**
  * Complete Player Profile
  */
@@ -152,7 +332,7 @@ export const PlayerProfile = z.object({
   userId: z.string(),
   chesscomUsername: z.string().nullable(),
   generatedAt: z.string(),                 // ISO timestamp
-  gamesAnalyzed: z.number(),
+  gamesAnalyzed: z.number(),               // All variants
   dateRange: z.object({
     oldest: z.string(),
     newest: z.string(),
@@ -170,11 +350,18 @@ export const PlayerProfile = z.object({
     trend: z.enum(['improving', 'stable', 'declining']),
   }),
 
-  // Detailed breakdowns
+  // Score vs the ratings of the players faced (null without rated games)
+  performance: PerformanceBreakdown.nullable().default(null),
+
+  // Detailed breakdowns (standard games only when the player has any)
   openings: z.array(OpeningStats),
   phases: z.array(PhaseStats),
   timeControls: z.array(TimeControlStats),
+  timeManagement: TimeManagementStats.nullable().default(null), // null when no games carry clock data
+  variants: z.array(VariantStats).default([]),                 // One entry per variant played, most played first
+  endgames: z.array(EndgameTypeStats).default([]),             // Endgame types reached, most played first
   resultPatterns: ResultPatterns,
+  training: TrainingStats.nullable().default(null), // null until the user has review items
 
   // Pre-ranked insights (ready for chatbot)
   weaknesses: z.array(PlayerPattern),      // Sorted by severity
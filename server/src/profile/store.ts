@@ -8,8 +8,10 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import { PlayerProfile, type PlayerProfileT } from './schema';
-import { generateProfile } from './generator';
+import { generateProfile, withTrainingStats } from './generator';
 import type { CompactGameSummaryT } from '../summaries/schemas';
+import { loadReviewDeck } from '../training/store';
+import { trainingStats } from '../training/scheduler';
 
 const DATA_ROOT = path.join(process.cwd(), 'data');
 
@@ -56,13 +58,34 @@ export async function regenerateProfile(
 ): Promise<PlayerProfileT> {
   console.log(`[ProfileStore] Regenerating profile for ${userId} with ${summaries.length} games`);
 
-  const profile = generateProfile(userId, chesscomUsername || null, summaries);
+  const profile = await withTraining(userId, generateProfile(userId, chesscomUsername || null, summaries));
   await saveProfile(userId, profile);
 
   console.log(`[ProfileStore] Profile saved with ${profile.weaknesses.length} weaknesses, ${profile.strengths.length} strengths`);
   return profile;
 }
 
+/**
+ * Add the user's review progress (if they have a review deck)
+ */
+async function withTraining(userId: string, profile: PlayerProfileT): Promise<PlayerProfileT> {
+  const deck = await loadReviewDeck(userId);
+  return deck.items.length > 0 ? withTrainingStats(profile, trainingStats(deck)) : profile;
+}
+
+/**
+ * Update the saved profile's review progress without regenerating it from the
+ * games (call after reviews). Returns null if the user has no profile yet.
+ */
+export async function refreshProfileTraining(userId: string): Promise<PlayerProfileT | null> {
+  const existing = await loadProfile(userId);
+  if (!existing) return null;
+
+  const profile = await withTraining(userId, existing);
+  await saveProfile(userId, profile);
+  return profile;
+}
+
 /**
  * Get or generate profile
  * Returns cached profile if recent, otherwise regenerates
@@ -0,0 +1,281 @@
+/**
+ * Puzzle Generator
+ *
+ * Turns positions from the user's own games into training puzzles:
+ * - own_mistake: the position before a mistake, blunder or missed win by the user
+ * - unpunished_blunder: the position after an opponent's error that the user
+ *   answered with an inaccuracy or worse
+ * Every solution is re-checked with the engine (review profile, MultiPV 2):
+ * the first move must leave the solver clearly winning, and each solver move
+ * must be the only good one - the line stops at the first position with
+ * several, so it always ends on a solver move. Positions are tried once and
+ * remembered in the puzzle set's `checked` list.
+ */
+
+import { Chess, type Move } from 'chess.js';
+import { analyzePosition, type Evaluation } from '../services/positionAnalyzer';
+import { profileForTask } from '../services/engineProfiles';
+import type { EngineLine, EngineRequestOptions } from '../services/stockfish';
+import { loadSummaries } from '../summaries/store';
+import type { CompactGameSummaryT, TacticalMotifT } from '../summaries/schemas';
+import { getMoveClassification, isUserMove, winPercent } from '../analysis/moveClassification';
+import { findMotifs } from '../analysis/tactics';
+import { loadPuzzleSet, updatePuzzleSet } from './store';
+import type { PuzzleT } from './schema';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const MAX_SOLVER_MOVES = 3;
+const WINNING_PERCENT = 70;   // Solver's win chance after the first move
+const UNIQUE_GAP = 20;        // Win-chance points the best move must lead the second best by
+const MAX_CANDIDATES = 12;    // Positions verified per run (each costs a few engine searches)
+
+const ERROR_LABELS = new Set(['mistake', 'blunder', 'missed_win']);
+const UNPUNISHED_LABELS = new Set(['inaccuracy', 'mistake', 'blunder', 'missed_win']);
+
+/**
+ * A position from a game that may make a puzzle
+ */
+export interface PuzzleCandidate {
+  id: string;                 // `${gameId}:${ply}` of the solver's move
+  game: CompactGameSummaryT;
+  ply: number;
+  source: PuzzleT['source'];
+  fen: string;                // Solver to move
+  side: 'W' | 'B';
+  played: string | null;      // What the user played (SAN)
+  hints: TacticalMotifT[];    // Motifs tagged on the game's move
+}
+
+/**
+ * Puzzle candidates from stored games, most recent games first. Chess960 games
+ * are skipped, as are positions already tried.
+ */
+export function findPuzzleCandidates(summaries: CompactGameSummaryT[], checked: Set<string>): PuzzleCandidate[] {
+  const candidates = new Map<string, PuzzleCandidate>();
+  const byDate = [...summaries].sort((a, b) => b.date.localeCompare(a.date));
+
+  for (const game of byDate) {
+    if (game.variant === 'chess960') continue;
+    const positions = game.keyPositions;
+
+    for (let i = 0; i < positions.length; i++) {
+      const pos = positions[i];
+      const fenBefore = i === 0 ? game.startFen ?? START_FEN : positions[i - 1].fen;
+      // Older summaries kept only selected moves - the previous position must be this move's
+      if (fenBefore.split(' ')[1] !== (pos.side === 'W' ? 'w' : 'b')) continue;
+
+      const label = getMoveClassification(pos);
+      if (!label || !ERROR_LABELS.has(label)) continue;
+
+      if (isUserMove(game, pos)) {
+        const id = `${game.gameId}:${i}`;
+        if (checked.has(id) || candidates.has(id)) continue;
+        if (!pos.alternatives[0] || pos.alternatives[0].move === pos.move) continue;
+        candidates.set(id, {
+          id,
+          game,
+          ply: i,
+          source: 'own_mistake',
+          fen: fenBefore,
+          side: pos.side,
+          played: pos.move ?? null,
+          hints: pos.tactics.filter(t => t.kind === 'missed').map(t => t.motif),
+        });
+      } else {
+        // The user's reply let the opponent off the hook
+        const reply = positions[i + 1];
+        const replyLabel = reply ? getMoveClassification(reply) : null;
+        if (!reply || !replyLabel || !UNPUNISHED_LABELS.has(replyLabel)) continue;
+        const id = `${game.gameId}:${i + 1}`;
+        if (checked.has(id) || candidates.has(id)) continue;
+        candidates.set(id, {
+          id,
+          game,
+          ply: i + 1,
+          source: 'unpunished_blunder',
+          fen: pos.fen,
+          side: reply.side,
+          played: reply.move ?? null,
+          hints: [
+            ...pos.tactics.filter(t => t.kind === 'allowed').map(t => t.motif),
+            ...reply.tactics.filter(t => t.kind === 'missed').map(t => t.motif),
+          ],
+        });
+      }
+    }
+  }
+
+  return [...candidates.values()];
+}
+
+/**
+ * Solver's win chance (0-100) for an engine line
+ */
+function solverWinPercent(line: EngineLine, white: boolean): number {
+  if (line.mate !== undefined) return (line.mate > 0) === white ? 100 : 0;
+  const win = winPercent(line.eval / 100);
+  return white ? win : 100 - win;
+}
+
+async function search(fen: string, multiPv: number, engine: EngineRequestOptions): Promise<Evaluation> {
+  const evaluation = await analyzePosition(fen, { profile: profileForTask('review'), multiPv, ...engine });
+  // Depth 0 = no engine, so nothing can be verified (the candidate isn't marked as tried)
+  if (evaluation.depth === 0) throw new Error('No engine available to verify puzzles');
+  return evaluation;
+}
+
+function applyUci(chess: Chess, uci: string): Move | null {
+  try {
+    return chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rough difficulty on the Elo scale: longer solutions, quiet first moves and
+ * positions with many options are harder to see. Attempts correct it over time.
+ */
+function estimateRating(solutionSan: string[], legalMoves: number): number {
+  const solverMoves = Math.ceil(solutionSan.length / 2);
+  const first = solutionSan[0];
+  let rating = 1100 + 250 * (solverMoves - 1);
+  if (!first.includes('x') && !first.includes('+') && !first.includes('#')) rating += 250;
+  else if (!first.includes('x')) rating += 100; // A check is easier to find than a quiet move, harder than a capture
+  rating += Math.max(0, Math.min(200, (legalMoves - 20) * 5));
+  return Math.max(600, Math.min(2400, rating));
+}
+
+/**
+ * Verify a candidate with the engine and build its puzzle. Null when the
+ * position has no clear, unique solution.
+ */
+export async function buildPuzzle(candidate: PuzzleCandidate, engine: EngineRequestOptions = {}): Promise<PuzzleT | null> {
+  const chess = new Chess(candidate.fen);
+  const white = chess.turn() === 'w';
+  const legalMoves = chess.moves().length;
+  const solution: string[] = [];
+  const solutionSan: string[] = [];
+
+  for (let step = 0; step < MAX_SOLVER_MOVES; step++) {
+    const [best, second] = (await search(chess.fen(), 2, engine)).lines ?? [];
+    if (!best) break;
+
+    const bestWin = solverWinPercent(best, white);
+    if (step === 0 && bestWin < WINNING_PERCENT) return null;
+
+    // Mate in one: any mating move is accepted, so two of them don't make it ambiguous
+    const mateInOne = best.mate !== undefined && Math.abs(best.mate) === 1 && (best.mate > 0) === white;
+    const unique = !second || mateInOne || bestWin - solverWinPercent(second, white) >= UNIQUE_GAP;
+    if (!unique) break;
+
+    const move = applyUci(chess, best.move);
+    if (!move) break;
+    solution.push(best.move);
+    solutionSan.push(move.san);
+    if (chess.isGameOver()) break;
+
+    const reply = await search(chess.fen(), 1, engine);
+    const replyMove = reply.bestMove ? applyUci(chess, reply.bestMove) : null;
+    if (!reply.bestMove || !replyMove) break;
+    solution.push(reply.bestMove);
+    solutionSan.push(replyMove.san);
+  }
+
+  // End on the solver's move
+  if (solution.length % 2 === 0) {
+    solution.pop();
+    solutionSan.pop();
+  }
+  if (solution.length === 0) return null;
+
+  const end = new Chess(candidate.fen);
+  for (const san of solutionSan) end.move(san);
+  const mate = end.isCheckmate();
+  const motifs = [...new Set([...findMotifs(candidate.fen, solutionSan).map(m => m.motif), ...candidate.hints])];
+
+  return {
+    id: candidate.id,
+    gameId: candidate.game.gameId,
+    gameUrl: candidate.game.gameUrl,
+    opponent: candidate.game.opponent,
+    date: candidate.game.date,
+    source: candidate.source,
+    moveNo: Number(candidate.fen.split(' ')[5]) || 1,
+    side: candidate.side,
+    fen: candidate.fen,
+    solution,
+    solutionSan,
+    played: candidate.played,
+    theme: mate ? 'mate' : motifs[0] ?? 'advantage',
+    motifs,
+    mateIn: mate ? Math.ceil(solution.length / 2) : null,
+    rating: estimateRating(solutionSan, legalMoves),
+    attempts: 0,
+    solves: 0,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+const running = new Map<string, Promise<number>>();
+
+/**
+ * Generate up to `max` new puzzles from the user's games. Returns how many were
+ * added. One run per user at a time - a second call shares the first.
+ */
+export function generatePuzzles(
+  userId: string,
+  options: { max?: number } & EngineRequestOptions = {}
+): Promise<number> {
+  const existing = running.get(userId);
+  if (existing) return existing;
+
+  const { max = 5, ...engine } = options;
+  const run = (async () => {
+    const [summaries, set] = await Promise.all([loadSummaries(userId), loadPuzzleSet(userId)]);
+    const candidates = findPuzzleCandidates(summaries, new Set(set.checked)).slice(0, MAX_CANDIDATES);
+
+    const puzzles: PuzzleT[] = [];
+    const checked: string[] = [];
+    for (const candidate of candidates) {
+      if (puzzles.length >= max) break;
+      try {
+        const puzzle = await buildPuzzle(candidate, { ...engine, userId });
+        checked.push(candidate.id);
+        if (puzzle) puzzles.push(puzzle);
+      } catch (err: any) {
+        if (engine.signal?.aborted) throw err;
+        console.warn(`[Puzzles] Couldn't verify ${candidate.id}: ${err?.message || err}`);
+        break; // Most likely the engine is down - try the rest next time
+      }
+    }
+
+    if (checked.length > 0) {
+      await updatePuzzleSet(userId, (current) => {
+        const have = new Set(current.puzzles.map(p => p.id));
+        current.puzzles.push(...puzzles.filter(p => !have.has(p.id)));
+        current.checked = [...new Set([...current.checked, ...checked])];
+      });
+    }
+    console.log(`[Puzzles] ${puzzles.length} puzzles from ${checked.length} positions for ${userId}`);
+    return puzzles.length;
+  })().finally(() => running.delete(userId));
+
+  running.set(userId, run);
+  return run;
+}
+
+/**
+ * Start generating puzzles without waiting for them (after an import, or when
+ * the user runs out), behind interactive searches
+ */
+export function generatePuzzlesInBackground(userId: string, max: number = 5): void {
+  generatePuzzles(userId, { max, priority: 'ingest' }).catch((err) => {
+    console.error(`[Puzzles] Background generation failed for ${userId}:`, err);
+  });
+}
+
+export function isGeneratingPuzzles(userId: string): boolean {
+  return running.has(userId);
+}
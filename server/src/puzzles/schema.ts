@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { TacticalMotif } from '../summaries/schemas';
+
+// Main idea of a puzzle: the tactic in its solution, a forced mate, or just the winning move
+export const PuzzleTheme = z.enum([...TacticalMotif.options, "mate", "advantage"]);
+export type PuzzleThemeT = z.infer<typeof PuzzleTheme>;
+
+export const Puzzle = z.object({
+  id: z.string(),                 // `${gameId}:${ply}` - one puzzle per position
+  gameId: z.string(),
+  gameUrl: z.string().nullable().default(null),
+  opponent: z.string().nullable().default(null),
+  date: z.string(),
+  // own_mistake: the user went wrong here; unpunished_blunder: the opponent blundered and the user didn't punish it
+  source: z.enum(["own_mistake", "unpunished_blunder"]),
+  moveNo: z.number(),
+  side: z.enum(["W", "B"]),       // The solver's side (always the user's)
+  fen: z.string(),                // Start position, solver to move
+  solution: z.array(z.string()),  // UCI: solver's moves and the forced replies, ending on a solver move
+  solutionSan: z.array(z.string()),
+  played: z.string().nullable(),  // What the user played in the game (SAN)
+  theme: PuzzleTheme,
+  motifs: z.array(TacticalMotif).default([]),
+  mateIn: z.number().nullable().default(null),
+  rating: z.number(),             // Difficulty on the Elo scale, adjusted by first attempts
+  attempts: z.number().default(0),
+  solves: z.number().default(0),
+  createdAt: z.string(),
+});
+export type PuzzleT = z.infer<typeof Puzzle>;
+
+export const PuzzleAttempt = z.object({
+  puzzleId: z.string(),
+  at: z.string(),
+  solved: z.boolean(),
+  moves: z.array(z.string()),     // The solver's moves (UCI)
+  rated: z.boolean(),             // Only a puzzle's first attempt moves the ratings
+  ratingBefore: z.number(),
+  ratingAfter: z.number(),
+});
+export type PuzzleAttemptT = z.infer<typeof PuzzleAttempt>;
+
+export const PuzzleSet = z.object({
+  userId: z.string(),
+  rating: z.number().default(1500), // The user's puzzle rating
+  puzzles: z.array(Puzzle).default([]),
+  attempts: z.array(PuzzleAttempt).default([]),
+  checked: z.array(z.string()).default([]), // Candidate positions already tried (puzzle or not)
+  updatedAt: z.string(),
+});
+export type PuzzleSetT = z.infer<typeof PuzzleSet>;
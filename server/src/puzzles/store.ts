@@ -0,0 +1,56 @@
+/**
+ * Puzzle Storage
+ *
+ * A user's puzzles, attempts and puzzle rating, next to their game summaries
+ * (data/<userId>/puzzles.json).
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PuzzleSet, type PuzzleSetT } from './schema';
+
+const DATA_ROOT = path.join(process.cwd(), 'data');
+
+function puzzlesPath(userId: string): string {
+  return path.join(DATA_ROOT, userId, 'puzzles.json');
+}
+
+/**
+ * Load a user's puzzles (an empty set if they have none yet)
+ */
+export async function loadPuzzleSet(userId: string): Promise<PuzzleSetT> {
+  try {
+    const raw = await fs.readFile(puzzlesPath(userId), 'utf8');
+    return PuzzleSet.parse(JSON.parse(raw));
+  } catch (err: any) {
+    if (err?.code === 'ENOENT' || err?.code === 'ENOTDIR') {
+      return PuzzleSet.parse({ userId, updatedAt: new Date().toISOString() });
+    }
+    throw err;
+  }
+}
+
+async function savePuzzleSet(userId: string, set: PuzzleSetT): Promise<void> {
+  await fs.mkdir(path.join(DATA_ROOT, userId), { recursive: true });
+  const validated = PuzzleSet.parse({ ...set, updatedAt: new Date().toISOString() });
+  await fs.writeFile(puzzlesPath(userId), JSON.stringify(validated, null, 2), 'utf8');
+}
+
+// Per-user lock: generation and attempts both load-modify-save the same file
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Load, change and save a user's puzzles without racing other updates
+ */
+export function updatePuzzleSet<T>(userId: string, fn: (set: PuzzleSetT) => T | Promise<T>): Promise<T> {
+  const run = async () => {
+    const set = await loadPuzzleSet(userId);
+    const result = await fn(set);
+    await savePuzzleSet(userId, set);
+    return result;
+  };
+  const prev = locks.get(userId) ?? Promise.resolve();
+  const next = prev.then(run, run);
+  locks.set(userId, next.catch(() => undefined));
+  return next;
+}
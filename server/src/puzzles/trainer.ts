@@ -0,0 +1,155 @@
+/**
+ * Puzzle Trainer
+ *
+ * Serving and checking puzzles:
+ * - Next puzzle: unattempted puzzles closest to the user's puzzle rating, then
+ *   failed ones again (least recently tried first)
+ * - Attempts are checked move by move against the solution, so the clients
+ *   don't need move rules: they send from/to squares and get the position back
+ * - A puzzle's first attempt updates both ratings (Elo); retries are recorded
+ *   but unrated. Illegal moves (mis-taps) aren't held against the solver
+ */
+
+import { Chess, type Move } from 'chess.js';
+import type { PuzzleSetT, PuzzleT, PuzzleThemeT } from './schema';
+
+const K_USER = 32;
+const K_PUZZLE = 16;
+
+/**
+ * A puzzle as the solver sees it (no solution)
+ */
+export interface PuzzleView {
+  id: string;
+  fen: string;
+  side: 'W' | 'B';
+  theme: PuzzleThemeT;
+  rating: number;
+  solverMoves: number;
+  source: PuzzleT['source'];
+  moveNo: number;
+  opponent: string | null;
+  gameUrl: string | null;
+  date: string;
+}
+
+export interface AttemptResult {
+  status: 'correct' | 'solved' | 'failed' | 'illegal'; // correct: right so far; illegal: try again
+  fen: string;                              // Position after the solver's move (and the reply, if any)
+  lastMove: string | null;                  // UCI of the last move on the board
+  reply: string | null;                     // The opponent's answer (UCI) when the puzzle continues
+  solution?: string[];                      // SAN, once the puzzle is over
+}
+
+export function toPuzzleView(puzzle: PuzzleT): PuzzleView {
+  return {
+    id: puzzle.id,
+    fen: puzzle.fen,
+    side: puzzle.side,
+    theme: puzzle.theme,
+    rating: puzzle.rating,
+    solverMoves: Math.ceil(puzzle.solution.length / 2),
+    source: puzzle.source,
+    moveNo: puzzle.moveNo,
+    opponent: puzzle.opponent,
+    gameUrl: puzzle.gameUrl,
+    date: puzzle.date,
+  };
+}
+
+function matchesTheme(puzzle: PuzzleT, theme?: PuzzleThemeT): boolean {
+  return !theme || puzzle.theme === theme || (puzzle.motifs as string[]).includes(theme);
+}
+
+/**
+ * Puzzles the user hasn't tried yet
+ */
+export function unattemptedPuzzles(set: PuzzleSetT, theme?: PuzzleThemeT): PuzzleT[] {
+  const attempted = new Set(set.attempts.map(a => a.puzzleId));
+  return set.puzzles.filter(p => !attempted.has(p.id) && matchesTheme(p, theme));
+}
+
+/**
+ * The next puzzle to serve, or null when there's nothing left to solve
+ */
+export function pickNextPuzzle(set: PuzzleSetT, theme?: PuzzleThemeT): PuzzleT | null {
+  const fresh = unattemptedPuzzles(set, theme)
+    .sort((a, b) => Math.abs(a.rating - set.rating) - Math.abs(b.rating - set.rating));
+  if (fresh.length > 0) return fresh[0];
+
+  // Failed and never solved since - the one tried longest ago
+  const solved = new Set(set.attempts.filter(a => a.solved).map(a => a.puzzleId));
+  const lastTried = new Map(set.attempts.map(a => [a.puzzleId, a.at]));
+  const retry = set.puzzles
+    .filter(p => !solved.has(p.id) && matchesTheme(p, theme))
+    .sort((a, b) => (lastTried.get(a.id) ?? '').localeCompare(lastTried.get(b.id) ?? ''));
+  return retry[0] ?? null;
+}
+
+/**
+ * The legal move from one square to another (UCI, promotion optional - a queen by default)
+ */
+export function findMove(chess: Chess, uci: string): Move | null {
+  const from = uci.slice(0, 2);
+  const to = uci.slice(2, 4);
+  const promotion = uci[4] ?? 'q';
+  const candidates = chess.moves({ verbose: true }).filter(m => m.from === from && m.to === to);
+  return candidates.find(m => !m.promotion || m.promotion === promotion) ?? null;
+}
+
+/**
+ * Check the solver's moves so far (UCI) against the solution. On the last
+ * move any checkmate counts, even if it isn't the engine's.
+ */
+export function checkAttempt(puzzle: PuzzleT, moves: string[]): AttemptResult {
+  const chess = new Chess(puzzle.fen);
+  let lastMove: string | null = null;
+  const failed = (): AttemptResult => ({ status: 'failed', fen: chess.fen(), lastMove, reply: null, solution: puzzle.solutionSan });
+
+  for (let i = 0; i < moves.length; i++) {
+    const expected = puzzle.solution[2 * i];
+    if (!expected) return failed();
+    const move = findMove(chess, moves[i]);
+    if (!move) return { status: 'illegal', fen: chess.fen(), lastMove, reply: null };
+
+    chess.move(move);
+    lastMove = move.lan;
+    const isLast = 2 * i === puzzle.solution.length - 1;
+    if (move.lan !== expected && !(isLast && chess.isCheckmate())) return failed();
+    if (isLast) return { status: 'solved', fen: chess.fen(), lastMove, reply: null, solution: puzzle.solutionSan };
+
+    const reply = puzzle.solution[2 * i + 1];
+    chess.move({ from: reply.slice(0, 2), to: reply.slice(2, 4), promotion: reply[4] });
+    lastMove = reply;
+  }
+
+  return { status: 'correct', fen: chess.fen(), lastMove, reply: lastMove };
+}
+
+/**
+ * Record a finished attempt on the set (mutates it). Returns the user's rating change.
+ */
+export function recordAttempt(set: PuzzleSetT, puzzle: PuzzleT, solved: boolean, moves: string[]): number {
+  const rated = !set.attempts.some(a => a.puzzleId === puzzle.id);
+  const ratingBefore = set.rating;
+
+  if (rated) {
+    const expected = 1 / (1 + Math.pow(10, (puzzle.rating - set.rating) / 400));
+    const score = solved ? 1 : 0;
+    set.rating = Math.round(set.rating + K_USER * (score - expected));
+    puzzle.rating = Math.round(puzzle.rating - K_PUZZLE * (score - expected));
+  }
+  puzzle.attempts++;
+  if (solved) puzzle.solves++;
+
+  set.attempts.push({
+    puzzleId: puzzle.id,
+    at: new Date().toISOString(),
+    solved,
+    moves,
+    rated,
+    ratingBefore,
+    ratingAfter: set.rating,
+  });
+  return set.rating - ratingBefore;
+}
@@ -1,4 +1,5 @@
 import type { CompactGameSummaryT } from '../summaries/schemas';
+import { formatAlternatives } from '../analysis/engineLines';
 
 export type RetrievalContext = {
   aggregate: any; // From buildAggregate
@@ -183,7 +184,7 @@ export function formatGamesForPrompt(games: CompactGameSummaryT[]): string {
     const blunders = g.blunders || 0;
     const date = formatDate(g.date);
     const opponent = g.opponent || 'Unknown';
-    const chesscomUrl = g.chesscomUrl || null;
+    const gameUrl = g.gameUrl || null;
     
     // Format key positions with FEN and evaluations for analysis
     const positions = g.keyPositions.map(kp => {
@@ -207,11 +208,13 @@ export function formatGamesForPrompt(games: CompactGameSummaryT[]): string {
         evalText = ` (eval: ${kp.evalAfter > 0 ? '+' : ''}${kp.evalAfter.toFixed(2)})`;
       }
       
-      const bestMove = kp.bestMove ? ` best: ${kp.bestMove}` : '';
+      const bestMove = kp.alternatives.length > 0
+        ? ` best: ${formatAlternatives(kp.alternatives)}`
+        : kp.bestMove ? ` best: ${kp.bestMove}` : '';
       return `\n    Move ${kp.moveNo}${moveNotation} (${kp.side}): ${tags}${evalText}${bestMove}\n    FEN: ${kp.fen}`;
     }).join('');
 
-    const urlLine = chesscomUrl ? `\n  Chess.com URL: ${chesscomUrl}` : '';
+    const urlLine = gameUrl ? `\n  Game URL: ${gameUrl}` : '';
 
     return `
 Game ${idx + 1}: vs ${opponent} (${date})
@@ -8,23 +8,20 @@
 import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { listArchives, fetchArchive } from '../ingest/chesscom';
-import { pgnToSummary } from '../ingest/pgnToSummary';
-import { upsertSummaries, loadSummaries } from '../summaries/store';
+import { fetchLichessGames } from '../ingest/lichess';
+import { loadSummaries } from '../summaries/store';
+import { enqueueIngest, isIngestRunning } from '../jobs/ingestQueue';
 import {
-  createSession,
   getProgress,
-  updateProgress,
-  completeSession,
-  errorSession,
   subscribeToProgress,
   isAnalyzing,
-  type AnalysisProgress,
 } from '../analysis/sessionManager';
 
 const StartAnalysisQuery = z.object({
   username: z.string().min(1),
   userId: z.string().min(1),
   limitGames: z.coerce.number().int().min(1).max(500).default(500),
+  site: z.enum(['chess.com', 'lichess']).default('chess.com'),
 });
 
 const StatusQuery = z.object({
@@ -35,7 +32,7 @@ export default async function analyzeStreamRoutes(app: FastifyInstance) {
   /**
    * Start analysis and stream progress via SSE
    *
-   * GET /analyze/stream?username=xxx&userId=xxx&limitGames=500
+   * GET /analyze/stream?username=xxx&userId=xxx&limitGames=500&site=chess.com|lichess
    *
    * Returns Server-Sent Events with progress updates
    */
@@ -45,7 +42,7 @@ export default async function analyzeStreamRoutes(app: FastifyInstance) {
       return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
     }
 
-    const { username, userId, limitGames } = parse.data;
+    const { username, userId, limitGames, site } = parse.data;
 
     // Set up SSE headers
     reply.raw.writeHead(200, {
@@ -69,8 +66,8 @@ export default async function analyzeStreamRoutes(app: FastifyInstance) {
       // Subscribe to existing session
       const unsubscribe = subscribeToProgress(userId, (progress) => {
         sendEvent('progress', progress);
-        if (progress.status === 'complete') {
-          sendEvent('complete', progress);
+        if (progress.status === 'complete' || progress.status === 'cancelled') {
+          sendEvent(progress.status, progress);
           reply.raw.end();
         }
       });
@@ -82,91 +79,61 @@ export default async function analyzeStreamRoutes(app: FastifyInstance) {
     try {
       // Fetch archives and count games
       sendEvent('status', { message: 'Fetching game archives...' });
-      const archives = await listArchives(username);
-
-      // Collect all PGNs (up to limit)
-      const allPgns: string[] = [];
-      for (const url of archives) {
-        if (allPgns.length >= limitGames) break;
-        const raw = await fetchArchive(url);
-        const games = raw.split(/\n\n(?=\[Event )/).filter(Boolean);
-        for (const pgn of games) {
-          if (allPgns.length >= limitGames) break;
-          allPgns.push(pgn);
-        }
-      }
+      const fetchedPgns = await collectPgns(site, username, limitGames);
+
+      // Queue the games on the user's ingest job - games we already have summaries
+      // for (or that are already queued) are skipped, no need to re-run Stockfish
+      const { job, queued } = await enqueueIngest(userId, fetchedPgns.map((pgn) => ({ pgn, player: username })));
+      sendEvent('games_found', { totalGames: queued, alreadyAnalyzed: fetchedPgns.length - queued, username, site });
+
+      const sendSummary = async () => {
+        const allSummaries = await loadSummaries(userId);
+        sendEvent('summary', {
+          totalGamesAnalyzed: allSummaries.length,
+          userId,
+        });
+        reply.raw.end();
+      };
 
-      const totalGames = allPgns.length;
-      sendEvent('games_found', { totalGames, username });
+      if (job?.status === 'paused') {
+        sendEvent('paused', { message: 'Analysis is paused - resume it at /ingest/jobs/resume', queued });
+        reply.raw.end();
+        return;
+      }
 
-      // Create analysis session
-      const session = createSession(userId, totalGames);
-      updateProgress(userId, { status: 'analyzing' });
+      const progress = getProgress(userId);
+      if (!isIngestRunning(userId) || !progress) {
+        // Nothing new to analyze
+        sendEvent('complete', progress ?? { userId, status: 'complete', totalGames: 0, gamesAnalyzed: 0 });
+        await sendSummary();
+        return;
+      }
 
-      // Subscribe to progress updates and forward to SSE
+      // Forward the job's progress to SSE until it stops
       const unsubscribe = subscribeToProgress(userId, (progress) => {
         sendEvent('progress', progress);
+        if (progress.status === 'complete') {
+          unsubscribe();
+          sendEvent('complete', progress);
+          sendSummary().catch((err) => app.log.error(err));
+        } else if (progress.status === 'cancelled') {
+          unsubscribe();
+          sendEvent('cancelled', { message: 'Analysis cancelled' });
+          reply.raw.end();
+        } else if (progress.status === 'paused') {
+          unsubscribe();
+          sendEvent('paused', { message: 'Analysis paused', progress });
+          reply.raw.end();
+        }
       });
 
-      // Handle client disconnect
+      // Handle client disconnect (the job keeps running)
       req.raw.on('close', () => {
         unsubscribe();
         app.log.info(`[SSE] Client disconnected for ${userId}`);
       });
-
-      // Process games in parallel batches with incremental saves
-      const BATCH_SIZE = 8;
-      let processed = 0;
-      let batchNum = 0;
-
-      for (let i = 0; i < allPgns.length; i += BATCH_SIZE) {
-        // Check if aborted
-        if (session.abortController.signal.aborted) {
-          sendEvent('cancelled', { message: 'Analysis cancelled' });
-          reply.raw.end();
-          return;
-        }
-
-        const batch = allPgns.slice(i, i + BATCH_SIZE);
-        batchNum++;
-
-        // Process batch in parallel
-        const batchResults = await Promise.all(
-          batch.map((pgn) => pgnToSummary(pgn, username))
-        );
-
-        // Save valid summaries immediately (incremental save)
-        const validSummaries = batchResults.filter(Boolean) as any[];
-        if (validSummaries.length > 0) {
-          await upsertSummaries(userId, validSummaries);
-        }
-
-        processed += batch.length;
-
-        // Update progress
-        updateProgress(userId, {
-          gamesAnalyzed: processed,
-          gamesRemaining: totalGames - processed,
-          currentBatch: batchNum,
-        });
-      }
-
-      // Mark complete
-      completeSession(userId);
-      const finalProgress = getProgress(userId);
-      sendEvent('complete', finalProgress);
-
-      // Load final count
-      const allSummaries = await loadSummaries(userId);
-      sendEvent('summary', {
-        totalGamesAnalyzed: allSummaries.length,
-        userId,
-      });
-
-      reply.raw.end();
     } catch (err: any) {
       app.log.error('[SSE] Analysis error:', err);
-      errorSession(userId, err.message || 'Unknown error');
       sendEvent('error', { error: err.message || 'Analysis failed' });
       reply.raw.end();
     }
@@ -240,8 +207,8 @@ export default async function analyzeStreamRoutes(app: FastifyInstance) {
     if (progress) {
       sendEvent('progress', progress);
 
-      if (progress.status === 'complete') {
-        sendEvent('complete', progress);
+      if (progress.status === 'complete' || progress.status === 'cancelled') {
+        sendEvent(progress.status, progress);
         reply.raw.end();
         return;
       }
@@ -249,7 +216,7 @@ export default async function analyzeStreamRoutes(app: FastifyInstance) {
       // Subscribe to updates
       const unsubscribe = subscribeToProgress(userId, (progress) => {
         sendEvent('progress', progress);
-        if (progress.status === 'complete' || progress.status === 'error') {
+        if (progress.status === 'complete' || progress.status === 'error' || progress.status === 'cancelled') {
           reply.raw.end();
         }
       });
@@ -261,3 +228,29 @@ export default async function analyzeStreamRoutes(app: FastifyInstance) {
     }
   });
 }
+
+/**
+ * Collect the latest PGNs (up to limit) from the requested site
+ */
+async function collectPgns(
+  site: 'chess.com' | 'lichess',
+  username: string,
+  limitGames: number
+): Promise<string[]> {
+  if (site === 'lichess') {
+    return fetchLichessGames(username, { max: limitGames });
+  }
+
+  const archives = await listArchives(username);
+  const allPgns: string[] = [];
+  for (const url of archives) {
+    if (allPgns.length >= limitGames) break;
+    const raw = await fetchArchive(url);
+    const games = raw.split(/\n\n(?=\[Event )/).filter(Boolean);
+    for (const pgn of games) {
+      if (allPgns.length >= limitGames) break;
+      allPgns.push(pgn);
+    }
+  }
+  return allPgns;
+}
@@ -2,14 +2,13 @@ import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { createJob, appendTokens, markDone } from '../jobs/registry';
 import { streamAnswer } from '../services/llm';
-import { loadSummaries, upsertSummaries } from '../summaries/store';
-import { listArchives, fetchArchive } from '../ingest/chesscom';
-import { pgnToSummary } from '../ingest/pgnToSummary';
-import { selectContent, computeMetaResponse, formatMetaResponse, detectComplexAnalysisRequest, type SelectedContent, type DataAvailability } from '../selection/contentSelector';
+import { loadSummaries } from '../summaries/store';
+import { syncChessCom } from '../ingest/sync';
+import { selectContent, computeMetaResponse, formatMetaResponse, detectComplexAnalysisRequest, type SelectedContent, type SelectedGame, type DataAvailability } from '../selection/contentSelector';
 import { validateResponse, getValidationSummary } from '../validation/responseValidator';
 import { getGroundedResponse } from '../services/structuredLLM';
 import { getOrGenerateProfile } from '../profile/store';
-import { getOrGenerateHistoricalStats, queryOpeningHistory, formatOpeningHistorySummary } from '../profile/historicalStore';
+import { getOrGenerateHistoricalStats, queryOpeningHistory, formatOpeningHistorySummary, formatScoreVsExpected } from '../profile/historicalStore';
 import {
   estimateScope,
   formatScopePrompt,
@@ -23,6 +22,8 @@ import { analyzeIntent, type IntentAnalysis } from '../services/intentAnalyzer';
 import { getCachedIntent, cacheIntent } from '../services/intentCache';
 import { getCachedResponse, cacheResponse } from '../services/responseCache';
 import { loadProfile } from '../profile/store';
+import { findMentionedReport } from '../scouting/store';
+import { formatScoutingReport } from '../scouting/report';
 import { getProgress, isAnalyzing } from '../analysis/sessionManager';
 import { promises as fs } from 'fs';
 import * as path from 'path';
@@ -147,11 +148,15 @@ function buildSimplePrompt(question: string, content: SelectedContent): string {
   if (isPatternQuestion && content.profile) {
     modeHint = '\nMODE: Pattern analysis. Synthesize across MULTIPLE games. Cite stats. Don\'t focus on one game.';
   } else if (content.questionType.kind === 'endgame') {
-    modeHint = '\nMODE: Endgame focus. Cite late-game positions (move 30+), eval changes, piece coordination.';
+    modeHint = '\nMODE: Endgame focus. Cite late-game positions (move 30+), eval changes, piece coordination. Where a tablebase result is given it is exact: name the move that threw the win or draw away.';
   } else if (content.questionType.kind === 'opening') {
     modeHint = '\nMODE: Opening focus. Cite opening name, ECO code, win/loss record, early positions.';
   } else if (content.questionType.kind === 'blunders') {
     modeHint = '\nMODE: Mistake focus. Cite large eval swings (2+ pawns), move numbers, suggest puzzles.';
+  } else if (content.questionType.kind === 'time_management') {
+    modeHint = '\nMODE: Time management focus. Cite clock times, blunder rate by time left, slow easy moves, losses on time.';
+  } else if (content.questionType.kind === 'variant') {
+    modeHint = '\nMODE: Variant focus. Use only the variant games and stats. No standard opening theory or ECO names - the start position differs.';
   }
 
   return `You are a data-driven chess coach. Write 2-4 sentences based ONLY on context below.
@@ -194,12 +199,23 @@ function assembleResponse(
     .replace(/```[\s\S]*?```/g, '')   // Remove code blocks
     .trim();
 
-  // Get board FENs from pre-selected positions
-  const boards = content.positions.map(p => p.fen);
+  // Get board FENs from pre-selected positions, with the better continuation
+  // as a caption ("fen|12. Nf3 Nc6 13. Bb5") when the move played wasn't best
+  const boards = content.positions.map(p => (p.bestLine ? `${p.fen}|${p.bestLine}` : p.fen));
 
   return { text: cleanText, boards };
 }
 
+/**
+ * Markdown link to the game on the site it was played on
+ */
+function formatGameLink(game: SelectedGame): string | null {
+  if (!game.gameUrl) return null;
+  if (game.site === 'local') return `[View game](${game.gameUrl})`;
+  const siteName = game.site === 'lichess' ? 'Lichess' : 'Chess.com';
+  return `[View game on ${siteName}](${game.gameUrl})`;
+}
+
 /**
  * Build an honest response when no matching games are found
  * This prevents hallucination by NOT calling the LLM at all
@@ -230,6 +246,13 @@ function buildNoDataResponse(
   } else if (questionType.kind === 'blunders') {
     response = `Good news! I couldn't find any games with significant mistakes in your history. `;
     response += `That's actually impressive!`;
+  } else if (questionType.kind === 'time_management') {
+    response = `None of your ${dataAvailability.totalGamesAnalyzed} analyzed games have clock data yet. `;
+    response += `Re-import your games so I can read the move times and look at your time management.`;
+  } else if (questionType.kind === 'variant') {
+    const label = questionType.variant === 'chess960' ? 'Chess960' : 'from-position';
+    response = `I don't have any ${label} games in your history yet. `;
+    response += `None of the ${dataAvailability.totalGamesAnalyzed} games I've analyzed were played in that variant.`;
   } else {
     response = `I couldn't find games matching your request in the ${dataAvailability.totalGamesAnalyzed} games I've analyzed.`;
   }
@@ -273,29 +296,18 @@ async function autoIngestIfEmpty(
   const timer = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
-    const archives = (await listArchives(userId)).slice(0, Math.max(1, limitMonths));
-    const toSave: any[] = [];
-
-    archiveLoop: for (const url of archives) {
-      const raw = await fetchArchive(url);
-      const games = raw.split(/\n\n(?=\[Event )/).filter(Boolean);
-
-      for (const pgn of games) {
-        if (toSave.length >= limitGames) break archiveLoop;
-
-        const s = await pgnToSummary(pgn, userId);
-        if (s) toSave.push(s);
-        if (controller.signal.aborted) break archiveLoop;
-      }
-      if (controller.signal.aborted) break;
-    }
-
-    if (toSave.length > 0) {
-      await upsertSummaries(userId, toSave);
+    // Incremental: only games new since the last sync get fetched and analyzed
+    const result = await syncChessCom(userId, userId, {
+      limitMonths: Math.max(1, limitMonths),
+      limitGames,
+      signal: controller.signal,
+    });
+
+    if (result.added > 0) {
       await fs.mkdir(path.dirname(metaPath), { recursive: true });
       await fs.writeFile(metaPath, JSON.stringify({ lastIngestAt: Date.now() }), 'utf8');
     }
-    return toSave.length;
+    return result.added;
   } catch {
     return 0;
   } finally {
@@ -355,7 +367,7 @@ export default async function askRoutes(app: FastifyInstance) {
             app.log.warn('[Ask] No games available after auto-ingest');
             appendTokens(jobId, [
               "I don't have any of your games to analyze yet. ",
-              "Please connect your Chess.com account first so I can give you personalized advice!"
+              "Please connect your Chess.com or Lichess account first so I can give you personalized advice!"
             ]);
             markDone(jobId);
             return;
@@ -530,6 +542,13 @@ export default async function askRoutes(app: FastifyInstance) {
           const content = selectContent(userQuestion, summaries, 3, 2, profile, intent);
           app.log.info(`[Ask] Selection result: ${content.selectionResult.status}, questionType: ${content.questionType.kind}`);
 
+          // Preparing for someone they've scouted: the coach reads the report first
+          const scoutingReport = await findMentionedReport(userId, userQuestion);
+          if (scoutingReport) {
+            app.log.info(`[Ask] Including scouting report on ${scoutingReport.opponent}`);
+            content.coachingContext = `${formatScoutingReport(scoutingReport)}\n\n${content.coachingContext}`;
+          }
+
           // STAGE 1A: Handle META questions directly (no LLM needed)
           // These are data-oriented questions that want facts, not coaching
           if (content.questionType.kind === 'meta') {
@@ -647,12 +666,16 @@ export default async function askRoutes(app: FastifyInstance) {
                 response = `## ${content.questionType.timeControl.charAt(0).toUpperCase() + content.questionType.timeControl.slice(1)} Performance\n\n`;
                 response += `**All-time:** ${tcHistory.allTime.gamesPlayed} games\n`;
                 response += `**Record:** ${tcHistory.allTime.wins}W - ${tcHistory.allTime.losses}L - ${tcHistory.allTime.draws}D (${tcHistory.allTime.winRate}% win rate)\n`;
+                if (tcHistory.allTime.performanceRating !== null && tcHistory.allTime.scoreVsExpected !== null) {
+                  response += `**Performance rating:** ${tcHistory.allTime.performanceRating} (${formatScoreVsExpected(tcHistory.allTime.scoreVsExpected)} vs what the ratings predicted)\n`;
+                }
                 response += `**Trend:** ${tcHistory.trend}\n`;
 
                 if (tcHistory.byPeriod.length > 0) {
                   response += `\n**By Quarter:**\n`;
                   for (const period of tcHistory.byPeriod.slice(-6)) {
-                    response += `- ${period.period}: ${period.gamesPlayed} games, ${period.winRate}% win rate\n`;
+                    const performance = period.performanceRating !== null ? `, performance ${period.performanceRating}` : '';
+                    response += `- ${period.period}: ${period.gamesPlayed} games, ${period.winRate}% win rate${performance}\n`;
                   }
                 }
               } else {
@@ -781,8 +804,9 @@ export default async function askRoutes(app: FastifyInstance) {
           if (response.boards.length > 0) {
             fullResponseText += '\n\n' + response.boards.map(fen => `[BOARD:${fen}]`).join('\n\n');
           }
-          if (content.games.length > 0 && content.games[0].chesscomUrl) {
-            fullResponseText += `\n[View game on Chess.com](${content.games[0].chesscomUrl})`;
+          const gameLink = content.games.length > 0 ? formatGameLink(content.games[0]) : null;
+          if (gameLink) {
+            fullResponseText += `\n${gameLink}`;
           }
           cacheResponse(userQuestion, summaries.length, fullResponseText);
 
@@ -801,8 +825,8 @@ export default async function askRoutes(app: FastifyInstance) {
           }
 
           // Add game link if available
-          if (content.games.length > 0 && content.games[0].chesscomUrl) {
-            appendTokens(jobId, [`\n[View game on Chess.com](${content.games[0].chesscomUrl})`]);
+          if (gameLink) {
+            appendTokens(jobId, [`\n${gameLink}`]);
           }
 
           // Add confidence indicator if analysis is in progress or limited
@@ -0,0 +1,95 @@
+/**
+ * Drill Routes
+ *
+ * Opening drills from the user's own games (see drills/lines.ts): the server
+ * plays the opponent's moves and checks the user's. New games are turned into
+ * drills whenever the next drill is requested.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { loadSummaries } from '../summaries/store';
+import { updateDrillSet } from '../drills/store';
+import { syncDrills } from '../drills/lines';
+import { checkDrill, drillStats, dueDrills, pickNextDrill, recordDrillAttempt, toDrillView } from '../drills/trainer';
+
+const NextQuery = z.object({
+  userId: z.string().min(1),
+  color: z.enum(['white', 'black']).optional(),
+});
+
+const AttemptBody = z.object({
+  userId: z.string().min(1),
+  drillId: z.string().min(1),
+  moves: z.array(z.string().regex(/^[a-h][1-8][a-h][1-8][qrbn]?$/)).min(1), // User's moves so far (UCI)
+});
+
+export default async function drillRoutes(app: FastifyInstance) {
+  /**
+   * The next opening drill (the answers aren't included), with drill progress
+   *
+   * GET /drills/next?userId=xxx&color=white
+   */
+  app.get('/drills/next', async (req, reply) => {
+    const parse = NextQuery.safeParse((req as any).query);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    }
+
+    const { userId, color } = parse.data;
+
+    try {
+      const summaries = await loadSummaries(userId);
+      const set = await syncDrills(userId, summaries);
+      const drill = pickNextDrill(set, color);
+
+      return reply.send({
+        userId,
+        drill: drill ? toDrillView(drill) : null,
+        due: dueDrills(set, color).length,
+        stats: drillStats(set),
+      });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Failed to load drill' });
+    }
+  });
+
+  /**
+   * Check the user's moves so far. The drill continues ("correct", with the
+   * opponent's reply; "illegal" or "off_line", to try the last move again), or
+   * ends at the critical position ("passed" / "failed", with the accepted
+   * moves) - only finished drills are recorded.
+   *
+   * POST /drills/attempt  { userId, drillId, moves: ["e2e4", ...] }
+   */
+  app.post('/drills/attempt', async (req, reply) => {
+    const parse = AttemptBody.safeParse((req as any).body);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid body', details: parse.error.flatten() });
+    }
+
+    const { userId, drillId, moves } = parse.data;
+
+    try {
+      const result = await updateDrillSet(userId, (set) => {
+        const drill = set.drills.find(d => d.id === drillId);
+        if (!drill) return null;
+
+        const attempt = checkDrill(drill, moves);
+        if (attempt.status !== 'passed' && attempt.status !== 'failed') return attempt;
+
+        recordDrillAttempt(set, drill, attempt.status === 'passed', attempt.move!);
+        return { ...attempt, box: drill.box, nextDrill: drill.due };
+      });
+
+      if (!result) {
+        return reply.code(404).send({ error: 'Drill not found' });
+      }
+      return reply.send({ userId, drillId, ...result });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Failed to check drill' });
+    }
+  });
+}
@@ -1,8 +1,9 @@
 import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { listArchives, fetchArchive } from '../ingest/chesscom';
-import { pgnToSummary } from '../ingest/pgnToSummary';
-import { upsertSummaries, loadSummaries } from '../summaries/store';
+import { isGameStored } from '../ingest/pgnToSummary';
+import { loadSummaries, loadGameIds } from '../summaries/store';
+import { enqueueIngest, waitForGames, getIngestJob, describeIngestJob, pendingMessage } from '../jobs/ingestQueue';
 
 const Query = z.object({
   username: z.string().min(1),
@@ -22,49 +23,57 @@ export default async function ingestRoutes(app: FastifyInstance) {
 
     try {
       const archives = (await listArchives(username)).slice(0, limitMonths);
+      // Games already summarized are skipped instead of re-analyzed
+      const knownIds = await loadGameIds(userId);
       
       // Quick start mode: Analyze a few games quickly, then continue in background
       if (quickStart) {
-        // Phase 1: Quick start with limited games
-        const quickSummaries: any[] = [];
-        let gamesProcessed = 0;
-        
+        // Phase 1: Quick start with limited games, analyzed ahead of anything
+        // else in the user's ingest job
+        const quickPgns: string[] = [];
         archiveLoop1: for (const url of archives) {
           const raw = await fetchArchive(url);
           const games = raw.split(/\n\n(?=\[Event )/).filter(Boolean);
           for (const pgn of games) {
-            if (quickSummaries.length >= quickStartGames) {
+            if (quickPgns.length >= quickStartGames) {
               break archiveLoop1;
             }
-            
-            const sum = await pgnToSummary(pgn, username);
-            if (sum) {
-              quickSummaries.push(sum);
-              gamesProcessed++;
-            }
+            if (isGameStored(knownIds, pgn)) continue;
+            quickPgns.push(pgn);
           }
         }
-        
-        // Save quick start results
-        if (quickSummaries.length > 0) {
-          await upsertSummaries(userId, quickSummaries);
-        }
-        
-        // Start background analysis for remaining games (don't await)
+
+        const { gameIds } = await enqueueIngest(userId, quickPgns.map(pgn => ({ pgn, player: username })), 'interactive');
+        const quick = await waitForGames(userId, gameIds);
+        const gamesProcessed = quick.done;
+
+        // Queue the remaining games for background analysis (collecting them doesn't block the response)
         if (gamesProcessed < limitGames) {
-          continueAnalysisInBackground(app, username, userId, archives, limitGames, quickStartGames).catch((err) => {
+          queueRemainingGames(app, username, userId, archives, limitGames, quickStartGames).catch((err) => {
             app.log.error('Background analysis failed:', err);
           });
         }
-        
+
         const total = (await loadSummaries(userId)).length;
+        if (quick.pending > 0) {
+          const job = await getIngestJob(userId);
+          return reply.code(202).send({
+            userId,
+            added: quick.done,
+            total,
+            quickStart: true,
+            pending: quick.pending,
+            job: job && describeIngestJob(job),
+            message: pendingMessage(userId, quick),
+          });
+        }
         return reply.send({ 
           userId, 
-          added: quickSummaries.length, 
+          added: quick.done, 
           total,
           quickStart: true,
           backgroundAnalysisStarted: gamesProcessed < limitGames,
-          message: `Quick start complete! Analyzed ${quickSummaries.length} games. ${gamesProcessed < limitGames ? 'Continuing analysis in background...' : ''}`
+          message: `Quick start complete! Analyzed ${quick.done} games. ${gamesProcessed < limitGames ? 'Continuing analysis in background...' : ''}`
         });
       }
       
@@ -77,47 +86,37 @@ export default async function ingestRoutes(app: FastifyInstance) {
         const games = raw.split(/\n\n(?=\[Event )/).filter(Boolean);
         for (const pgn of games) {
           if (allPgns.length >= limitGames) break;
+          if (isGameStored(knownIds, pgn)) continue;
           allPgns.push(pgn);
         }
       }
 
-      app.log.info(`[Ingest] Collected ${allPgns.length} PGNs, starting parallel analysis...`);
+      app.log.info(`[Ingest] Collected ${allPgns.length} new PGNs, queueing for analysis...`);
 
-      // Step 2: Process games in parallel batches
-      const BATCH_SIZE = 8; // Process 8 games concurrently
-      const summaries: any[] = [];
+      // Step 2: Analyze through the user's ingest job (shared with any running
+      // import, so the same game is never analyzed twice) and wait for these games
       const startTime = Date.now();
-      let processed = 0;
-
-      for (let i = 0; i < allPgns.length; i += BATCH_SIZE) {
-        const batch = allPgns.slice(i, i + BATCH_SIZE);
-
-        // Process batch in parallel
-        const batchResults = await Promise.all(
-          batch.map(pgn => pgnToSummary(pgn, username))
-        );
-
-        // Collect valid summaries
-        for (const sum of batchResults) {
-          if (sum) {
-            summaries.push(sum);
-          }
-        }
-
-        processed += batch.length;
-
-        // Log progress every batch
-        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-        const avgPerGame = (parseFloat(elapsed) / processed).toFixed(2);
-        const gamesPerMin = (processed / (parseFloat(elapsed) / 60)).toFixed(1);
-        app.log.info(`[Ingest] Progress: ${processed}/${allPgns.length} games (${elapsed}s, ${avgPerGame}s/game, ${gamesPerMin} games/min)`);
-      }
+      const { gameIds } = await enqueueIngest(userId, allPgns.map(pgn => ({ pgn, player: username })));
+      const result = await waitForGames(userId, gameIds);
 
-      const added = summaries.length;
-      
-      if (summaries.length > 0) await upsertSummaries(userId, summaries);
       const total = (await loadSummaries(userId)).length;
-      return reply.send({ userId, added, total, limited: summaries.length >= limitGames });
+      const added = result.done;
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+      app.log.info(`[Ingest] Analyzed ${added} games in ${elapsed}s`);
+
+      // Paused or cancelled job: the games are parked in the queue, not lost
+      if (result.pending > 0) {
+        const job = await getIngestJob(userId);
+        return reply.code(202).send({
+          userId,
+          added,
+          total,
+          pending: result.pending,
+          job: job && describeIngestJob(job),
+          message: pendingMessage(userId, result),
+        });
+      }
+      return reply.send({ userId, added, total, limited: added >= limitGames });
     } catch (err: any) {
       app.log.error(err);
       return reply.code(500).send({ error: 'Ingest failed' });
@@ -126,10 +125,10 @@ export default async function ingestRoutes(app: FastifyInstance) {
 }
 
 /**
- * Continue analysis in background after quick start
- * Uses parallel processing for better throughput
+ * Collect the games left after quick start and hand them to the ingest queue,
+ * which analyzes them in the background and survives restarts
  */
-async function continueAnalysisInBackground(
+async function queueRemainingGames(
   app: FastifyInstance,
   username: string,
   userId: string,
@@ -138,11 +137,11 @@ async function continueAnalysisInBackground(
   alreadyProcessed: number
 ): Promise<void> {
   const remainingGames = totalGames - alreadyProcessed;
-  app.log.info(`[Background] Starting parallel analysis for ${username}, target: ${remainingGames} more games`);
+  app.log.info(`[Background] Collecting up to ${remainingGames} more games for ${username}`);
 
-  // Collect remaining PGNs
+  // Collect remaining PGNs (quick start results are already saved, so they're skipped too)
+  const knownIds = await loadGameIds(userId);
   const allPgns: string[] = [];
-  let skipped = 0;
 
   for (const url of archives) {
     if (allPgns.length >= remainingGames) break;
@@ -150,45 +149,12 @@ async function continueAnalysisInBackground(
     const games = raw.split(/\n\n(?=\[Event )/).filter(Boolean);
 
     for (const pgn of games) {
-      // Skip already processed games
-      if (skipped < alreadyProcessed) {
-        skipped++;
-        continue;
-      }
       if (allPgns.length >= remainingGames) break;
+      if (isGameStored(knownIds, pgn)) continue;
       allPgns.push(pgn);
     }
   }
 
-  app.log.info(`[Background] Collected ${allPgns.length} PGNs for parallel processing`);
-
-  // Process in parallel batches
-  const BATCH_SIZE = 8;
-  const startTime = Date.now();
-  let processed = 0;
-  let totalSaved = 0;
-
-  for (let i = 0; i < allPgns.length; i += BATCH_SIZE) {
-    const batch = allPgns.slice(i, i + BATCH_SIZE);
-
-    const batchResults = await Promise.all(
-      batch.map(pgn => pgnToSummary(pgn, username))
-    );
-
-    const validSummaries = batchResults.filter(Boolean);
-    if (validSummaries.length > 0) {
-      await upsertSummaries(userId, validSummaries as any[]);
-      totalSaved += validSummaries.length;
-    }
-
-    processed += batch.length;
-    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-    const avgPerGame = (parseFloat(elapsed) / processed).toFixed(2);
-    app.log.info(`[Background] Progress: ${processed}/${allPgns.length} games (${elapsed}s, ${avgPerGame}s/game)`);
-  }
-
-  const total = (await loadSummaries(userId)).length;
-  app.log.info(`[Background] Analysis complete for ${username}. Total games: ${total}`);
+  const { queued } = await enqueueIngest(userId, allPgns.map(pgn => ({ pgn, player: username })));
+  app.log.info(`[Background] Queued ${queued} games for ${username} (progress at /analyze/progress?userId=${userId})`);
 }
-
-
@@ -0,0 +1,67 @@
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import {
+  getIngestJob,
+  pauseIngest,
+  resumeIngest,
+  cancelIngest,
+  describeIngestJob,
+} from '../jobs/ingestQueue';
+import { getProgress } from '../analysis/sessionManager';
+
+const Query = z.object({
+  userId: z.string().min(1),
+});
+
+export default async function ingestJobRoutes(app: FastifyInstance) {
+  /**
+   * Background ingest job for a user
+   *
+   * GET /ingest/jobs?userId=xxx
+   */
+  app.get('/ingest/jobs', async (req, reply) => {
+    const parse = Query.safeParse((req as any).query);
+    if (!parse.success) return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    const { userId } = parse.data;
+
+    try {
+      const job = await getIngestJob(userId);
+      if (!job) return reply.code(404).send({ error: 'No ingest job for this user' });
+      return reply.send({ ...describeIngestJob(job), progress: getProgress(userId) });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Failed to load ingest job' });
+    }
+  });
+
+  /**
+   * Pause (after the current batch), resume or cancel a user's ingest job
+   *
+   * POST /ingest/jobs/pause?userId=xxx
+   * POST /ingest/jobs/resume?userId=xxx
+   * POST /ingest/jobs/cancel?userId=xxx
+   */
+  const actions = {
+    pause: { run: pauseIngest, conflict: 'No queued or running job to pause' },
+    resume: { run: resumeIngest, conflict: 'No paused job to resume' },
+    cancel: { run: cancelIngest, conflict: 'No active job to cancel' },
+  } as const;
+
+  for (const [action, { run, conflict }] of Object.entries(actions)) {
+    app.post(`/ingest/jobs/${action}`, async (req, reply) => {
+      const parse = Query.safeParse((req as any).query);
+      if (!parse.success) return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+      const { userId } = parse.data;
+
+      try {
+        const job = await run(userId);
+        if (!job) return reply.code(409).send({ error: conflict });
+        app.log.info(`[IngestJobs] ${action} for ${userId}`);
+        return reply.send(describeIngestJob(job));
+      } catch (err: any) {
+        app.log.error(err);
+        return reply.code(500).send({ error: `Failed to ${action} ingest job` });
+      }
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { fetchLichessGames } from '../ingest/lichess';
+import { loadSummaries } from '../summaries/store';
+import { enqueueIngest, waitForGames, getIngestJob, describeIngestJob, pendingMessage } from '../jobs/ingestQueue';
+
+const Query = z.object({
+  username: z.string().min(1),
+  userId: z.string().min(1),
+  limitMonths: z.coerce.number().int().min(1).max(120).default(12), // Default to 1 year
+  limitGames: z.coerce.number().int().min(1).max(1000).default(100), // Default to last 100 games
+});
+
+export default async function ingestLichessRoutes(app: FastifyInstance) {
+  app.get('/ingest/lichess', async (req, reply) => {
+    const parse = Query.safeParse((req as any).query);
+    if (!parse.success) return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    const { username, userId, limitMonths, limitGames } = parse.data;
+
+    try {
+      // Step 1: Stream the export (latest first), bounded by game count and months
+      const since = new Date();
+      since.setMonth(since.getMonth() - limitMonths);
+      const allPgns = await fetchLichessGames(username, { max: limitGames, since: since.getTime() });
+
+      app.log.info(`[Ingest:lichess] Collected ${allPgns.length} PGNs, queueing for analysis...`);
+
+      // Step 2: Analyze through the user's ingest job (shared with any running
+      // import, so the same game is never analyzed twice) and wait for these games
+      const startTime = Date.now();
+      const { gameIds } = await enqueueIngest(userId, allPgns.map(pgn => ({ pgn, player: username })));
+      const result = await waitForGames(userId, gameIds, {
+        onProgress: ({ done, skipped, failed }) => {
+          const processed = done + skipped + failed;
+          const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+          app.log.info(`[Ingest:lichess] Progress: ${processed}/${gameIds.length} games (${elapsed}s)`);
+        },
+      });
+
+      const added = result.done;
+      const total = (await loadSummaries(userId)).length;
+
+      // Paused or cancelled job: the games are parked in the queue, not lost
+      if (result.pending > 0) {
+        const job = await getIngestJob(userId);
+        return reply.code(202).send({
+          userId,
+          site: 'lichess',
+          added,
+          total,
+          pending: result.pending,
+          job: job && describeIngestJob(job),
+          message: pendingMessage(userId, result),
+        });
+      }
+      return reply.send({ userId, site: 'lichess', added, total, limited: allPgns.length >= limitGames });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Ingest failed' });
+    }
+  });
+}
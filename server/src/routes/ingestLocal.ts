@@ -1,43 +1,204 @@
 import type { FastifyInstance } from 'fastify';
+import multipart from '@fastify/multipart';
 import { z } from 'zod';
-import { pgnToSummary } from '../ingest/pgnToSummary';
-import { upsertSummaries, loadSummaries } from '../summaries/store';
+import { gameIdsFromPgn, parsePgnHeaders } from '../ingest/pgnToSummary';
+import {
+  decodePgnBuffer,
+  splitPgnGames,
+  validatePgnGame,
+  describeGameError,
+  detectMostFrequentPlayer,
+  type PgnGameError,
+} from '../ingest/pgnFile';
+import { loadSummaries, loadGameIds } from '../summaries/store';
+import { enqueueIngest, waitForGames, getIngestJob, describeIngestJob, pendingMessage, type IngestWaitResult } from '../jobs/ingestQueue';
 
-const Query = z.object({ userId: z.string().min(1) });
+const Query = z.object({
+  userId: z.string().min(1),
+  player: z.string().trim().min(1).optional(), // Whose games these are; auto-detected if omitted
+});
+
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024; // 100MB - multi-thousand-game club databases
+const MAX_REPORTED_ERRORS = 200;             // Keep the response readable for very messy files
+const INLINE_ANALYSIS_LIMIT = 20;            // Bigger uploads are analyzed in the background
+
+const PGN_CONTENT_TYPES = ['text/plain', 'application/x-chess-pgn', 'application/vnd.chess-pgn', 'application/octet-stream'];
 
 export default async function ingestLocalRoutes(app: FastifyInstance) {
+  // Raw PGN bodies are read as bytes so we can detect the encoding ourselves
+  app.removeContentTypeParser('text/plain');
+  app.addContentTypeParser(PGN_CONTENT_TYPES, { parseAs: 'buffer', bodyLimit: MAX_UPLOAD_BYTES }, (_req, body, done) => {
+    done(null, body);
+  });
+  await app.register(multipart, { limits: { fileSize: MAX_UPLOAD_BYTES, files: 20 } });
+
+  /**
+   * Import games from a PGN file
+   *
+   * POST /ingest/local?userId=xxx&player=Name
+   * Body: multipart/form-data (one or more PGN files, optional "player" field)
+   *       or the raw PGN text (text/plain, application/x-chess-pgn)
+   */
   app.post('/ingest/local', async (req, reply) => {
     const parse = Query.safeParse((req as any).query);
     if (!parse.success) return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
     const { userId } = parse.data;
-    const bodyText = (req as any).rawBody || (await getRawText(req));
-    if (!bodyText || typeof bodyText !== 'string') return reply.code(400).send({ error: 'Missing PGN text in body' });
-
-    const chunks = bodyText.split(/\n\n(?=\[Event )/).filter(Boolean);
-    let added = 0;
-    const usernameGuess = 'localuser';
-    const summaries: any[] = [];
-    for (const pgn of chunks) {
-      const s = pgnToSummary(pgn, usernameGuess);
-      if (s) {
-        summaries.push(s);
-        added++;
+    let player = parse.data.player;
+
+    // Step 1: Read the upload(s)
+    const texts: string[] = [];
+    try {
+      if (req.isMultipart()) {
+        for await (const part of req.parts()) {
+          if (part.type === 'file') {
+            texts.push(decodePgnBuffer(await part.toBuffer()));
+          } else if (part.fieldname === 'player' && typeof part.value === 'string' && part.value.trim()) {
+            player = player || part.value.trim();
+          }
+        }
+      } else if (Buffer.isBuffer(req.body)) {
+        texts.push(decodePgnBuffer(req.body));
+      } else if (typeof req.body === 'string') {
+        texts.push(req.body);
+      }
+    } catch (err: any) {
+      app.log.error(err);
+      if (err?.code === 'FST_REQ_FILE_TOO_LARGE') {
+        return reply.code(413).send({ error: `PGN file too large (max ${MAX_UPLOAD_BYTES / 1024 / 1024}MB)` });
       }
+      return reply.code(400).send({ error: 'Could not read upload' });
     }
-    if (summaries.length > 0) await upsertSummaries(userId, summaries);
-    const total = (await loadSummaries(userId)).length;
-    return reply.send({ userId, added, total });
-  });
-}
 
-async function getRawText(req: any): Promise<string> {
-  return new Promise((resolve, reject) => {
-    let data = '';
-    req.raw.setEncoding('utf8');
-    req.raw.on('data', (chunk: string) => (data += chunk));
-    req.raw.on('end', () => resolve(data));
-    req.raw.on('error', reject);
+    const pgns = texts.flatMap(splitPgnGames);
+    if (pgns.length === 0) return reply.code(400).send({ error: 'Missing PGN text in body' });
+
+    // Step 2: Work out whose games these are
+    const detected = player ? null : detectMostFrequentPlayer(pgns);
+    player = player || detected?.name;
+    if (!player) {
+      return reply.code(400).send({ error: 'Could not detect the player - pass ?player=Name' });
+    }
+    const playerKey = player.toLowerCase();
+
+    // Step 3: Validate every game before spending engine time on any of them
+    const errors: PgnGameError[] = [];
+    let errorCount = 0;
+    let notPlayerCount = 0;
+    let alreadyImported = 0;
+    let duplicateCount = 0;
+    const knownIds = await loadGameIds(userId);
+    const firstCopy = new Map<string, number>(); // gameId -> index of its first copy in the upload
+    const toAnalyze: { pgn: string; index: number }[] = [];
+
+    pgns.forEach((pgn, i) => {
+      const index = i + 1;
+      const headers = parsePgnHeaders(pgn);
+      const players = [headers.White, headers.Black].map(p => (p || '').trim().toLowerCase());
+      if (!players.includes(playerKey)) {
+        notPlayerCount++;
+        return;
+      }
+      const invalid = validatePgnGame(pgn);
+      if (invalid) {
+        errorCount++;
+        if (errors.length < MAX_REPORTED_ERRORS) errors.push(describeGameError(pgn, index, invalid));
+        return;
+      }
+      const ids = gameIdsFromPgn(pgn);
+      if (ids.some(id => knownIds.has(id))) {
+        alreadyImported++;
+        return;
+      }
+      // Same headers and moves: only one copy can be stored
+      const first = firstCopy.get(ids[0]);
+      if (first !== undefined) {
+        duplicateCount++;
+        if (errors.length < MAX_REPORTED_ERRORS) errors.push(describeGameError(pgn, index, `Duplicate of game ${first} in this upload`));
+        return;
+      }
+      firstCopy.set(ids[0], index);
+      toAnalyze.push({ pgn, index });
+    });
+
+    app.log.info(`[Ingest:local] ${pgns.length} games in upload for "${player}": ${toAnalyze.length} to analyze, ${errorCount} invalid, ${duplicateCount} duplicates, ${notPlayerCount} not involving player, ${alreadyImported} already imported`);
+
+    const report = {
+      userId,
+      player,
+      playerDetected: detected !== null,
+      gamesInFile: pgns.length,
+      skipped: {
+        notPlayer: notPlayerCount,
+        alreadyImported,
+        invalid: errorCount,
+        duplicate: duplicateCount,
+      },
+      errors,
+      errorsTruncated: errorCount + duplicateCount > errors.length,
+    };
+
+    // Step 4a: Small uploads - analyze now and answer with the final numbers
+    if (toAnalyze.length <= INLINE_ANALYSIS_LIMIT) {
+      const { result, analysisErrors } = await analyzeUploadedGames(userId, player, toAnalyze);
+      for (const e of analysisErrors) {
+        if (errors.length < MAX_REPORTED_ERRORS) errors.push(e);
+      }
+      const total = (await loadSummaries(userId)).length;
+      const errorsTruncated = errorCount + duplicateCount + analysisErrors.length > errors.length;
+
+      // Paused or cancelled job: the games are parked in the queue, not lost
+      if (result.pending > 0) {
+        const job = await getIngestJob(userId);
+        return reply.code(202).send({
+          ...report,
+          added: result.done,
+          total,
+          errorsTruncated,
+          pending: result.pending,
+          job: job && describeIngestJob(job),
+          message: pendingMessage(userId, result),
+        });
+      }
+      return reply.send({ ...report, added: result.done, total, errorsTruncated });
+    }
+
+    // Step 4b: Large uploads - queue on the user's ingest job (merged with any
+    // running import), progress via /analyze/progress, failures via /ingest/jobs
+    const { queued } = await enqueueIngest(userId, toAnalyze.map(({ pgn }) => ({ pgn, player })));
+    app.log.info(`[Ingest:local] Queued ${queued} games for background analysis for ${userId}`);
+
+    return reply.code(202).send({
+      ...report,
+      queued,
+      background: true,
+      message: `Analyzing ${queued} games in the background. Follow progress at /analyze/progress?userId=${userId}`,
+    });
   });
 }
 
+/**
+ * Analyze validated games ahead of other queued work on the user's ingest job
+ * and wait for them. A game that fails analysis is reported rather than
+ * failing the whole import.
+ */
+async function analyzeUploadedGames(
+  userId: string,
+  player: string,
+  games: { pgn: string; index: number }[]
+): Promise<{ result: IngestWaitResult; analysisErrors: PgnGameError[] }> {
+  const { gameIds } = await enqueueIngest(userId, games.map(({ pgn }) => ({ pgn, player })), 'interactive');
+  const result = await waitForGames(userId, gameIds);
 
+  const byId = new Map(result.games.map(g => [g.gameId, g]));
+  const analysisErrors: PgnGameError[] = [];
+  for (const { pgn, index } of games) {
+    const game = gameIdsFromPgn(pgn).map(id => byId.get(id)).find(g => g !== undefined);
+    if (game?.status === 'skipped') {
+      analysisErrors.push(describeGameError(pgn, index, 'Unsupported variant'));
+    } else if (game?.error && game.status !== 'done') {
+      analysisErrors.push(describeGameError(pgn, index, game.error));
+    }
+  }
+
+  return { result, analysisErrors };
+}
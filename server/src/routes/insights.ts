@@ -4,6 +4,8 @@ import { loadSummaries } from '../summaries/store';
 import { extractAllFeatures } from '../analysis/features';
 import { discoverPatterns } from '../analysis/patterns';
 import { generateInsights } from '../analysis/insights';
+import { syncReviewItems } from '../training/items';
+import { dueQueue } from '../training/scheduler';
 
 const InsightsQuerySchema = z.object({
   userId: z.string().min(1),
@@ -63,6 +65,15 @@ export default async function insightsRoutes(app: FastifyInstance) {
       
       // Step 4: Generate insights
       const insights = generateInsights(patterns, summaries);
+
+      // Step 5: Point the study plan at the review queue, so it gets followed up
+      const deck = await syncReviewItems(userId, summaries);
+      const due = dueQueue(deck).length;
+      if (due > 0 && insights.length > 0) {
+        insights[0].actionPlan.studyPlan.unshift(
+          `Review today's ${due} positions from your own games - your mistakes, opening lines and endgames come back until you get them right`
+        );
+      }
       
       const endTime = Date.now();
       app.log.info(`[Insights] Generated ${insights.length} insights in ${endTime - startTime}ms`);
@@ -76,6 +87,7 @@ export default async function insightsRoutes(app: FastifyInstance) {
           totalPositions: features.length,
           patternsDiscovered: patterns.length,
           insightsGenerated: insights.length,
+          reviewsDueToday: due,
           analysisTimeMs: endTime - startTime,
           potentialRatingGain: insights.reduce((sum, i) => sum + i.estimatedRatingImpact, 0)
         },
@@ -134,7 +146,7 @@ export default async function insightsRoutes(app: FastifyInstance) {
         return {
           ...ex,
           opponent: game?.opponent || 'Unknown',
-          chesscomUrl: game?.chesscomUrl || null,
+          gameUrl: game?.gameUrl || null,
           userColor: game?.userColor || null,
           opening: game?.opening || null,
           result: game?.result || null
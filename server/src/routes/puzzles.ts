@@ -0,0 +1,151 @@
+/**
+ * Puzzle Routes
+ *
+ * Training puzzles from the user's own games (see puzzles/generator.ts).
+ * New puzzles are generated in the background after imports and when the user
+ * runs out of unsolved ones - serving a puzzle never waits on the engine.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { PuzzleTheme } from '../puzzles/schema';
+import { loadPuzzleSet, updatePuzzleSet } from '../puzzles/store';
+import { generatePuzzlesInBackground, isGeneratingPuzzles } from '../puzzles/generator';
+import { checkAttempt, pickNextPuzzle, recordAttempt, toPuzzleView, unattemptedPuzzles } from '../puzzles/trainer';
+
+const NextQuery = z.object({
+  userId: z.string().min(1),
+  theme: PuzzleTheme.optional(),
+});
+
+const AttemptBody = z.object({
+  userId: z.string().min(1),
+  puzzleId: z.string().min(1),
+  moves: z.array(z.string().regex(/^[a-h][1-8][a-h][1-8][qrbn]?$/)).min(1), // Solver's moves so far (UCI)
+});
+
+const HistoryQuery = z.object({
+  userId: z.string().min(1),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(50),
+});
+
+export default async function puzzleRoutes(app: FastifyInstance) {
+  /**
+   * The next puzzle to solve (the solution isn't included)
+   *
+   * GET /puzzles/next?userId=xxx&theme=fork
+   */
+  app.get('/puzzles/next', async (req, reply) => {
+    const parse = NextQuery.safeParse((req as any).query);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    }
+
+    const { userId, theme } = parse.data;
+
+    try {
+      const set = await loadPuzzleSet(userId);
+      const remaining = unattemptedPuzzles(set, theme).length;
+      // Serve what's stored (failed puzzles come back meanwhile); more are on the way
+      if (remaining === 0) generatePuzzlesInBackground(userId, 3);
+
+      const puzzle = pickNextPuzzle(set, theme);
+      return reply.send({
+        userId,
+        rating: set.rating,
+        puzzle: puzzle ? toPuzzleView(puzzle) : null,
+        remaining,
+        generating: isGeneratingPuzzles(userId),
+      });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Failed to load puzzle' });
+    }
+  });
+
+  /**
+   * Check the solver's moves so far. The puzzle continues ("correct", with the
+   * opponent's reply; "illegal", to try the last move again), or ends ("solved" /
+   * "failed", with the solution) - only finished attempts are recorded.
+   *
+   * POST /puzzles/attempt  { userId, puzzleId, moves: ["e2e4", ...] }
+   */
+  app.post('/puzzles/attempt', async (req, reply) => {
+    const parse = AttemptBody.safeParse((req as any).body);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid body', details: parse.error.flatten() });
+    }
+
+    const { userId, puzzleId, moves } = parse.data;
+
+    try {
+      const result = await updatePuzzleSet(userId, (set) => {
+        const puzzle = set.puzzles.find(p => p.id === puzzleId);
+        if (!puzzle) return null;
+
+        const attempt = checkAttempt(puzzle, moves);
+        const ratingChange = attempt.status === 'correct' || attempt.status === 'illegal'
+          ? 0
+          : recordAttempt(set, puzzle, attempt.status === 'solved', moves);
+        return { ...attempt, rating: set.rating, ratingChange };
+      });
+
+      if (!result) {
+        return reply.code(404).send({ error: 'Puzzle not found' });
+      }
+      return reply.send({ userId, puzzleId, ...result });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Failed to check attempt' });
+    }
+  });
+
+  /**
+   * Past attempts (newest first), with success rates by theme
+   *
+   * GET /puzzles/history?userId=xxx&limit=50
+   */
+  app.get('/puzzles/history', async (req, reply) => {
+    const parse = HistoryQuery.safeParse((req as any).query);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    }
+
+    const { userId, limit } = parse.data;
+
+    try {
+      const set = await loadPuzzleSet(userId);
+      const puzzles = new Map(set.puzzles.map(p => [p.id, p]));
+
+      // First attempts only, so retries don't inflate the success rates
+      const rated = set.attempts.filter(a => a.rated);
+      const byTheme: Record<string, { attempted: number; solved: number }> = {};
+      for (const attempt of rated) {
+        const theme = puzzles.get(attempt.puzzleId)?.theme;
+        if (!theme) continue;
+        byTheme[theme] ??= { attempted: 0, solved: 0 };
+        byTheme[theme].attempted++;
+        if (attempt.solved) byTheme[theme].solved++;
+      }
+
+      return reply.send({
+        userId,
+        rating: set.rating,
+        totalPuzzles: set.puzzles.length,
+        attempted: rated.length,
+        solved: rated.filter(a => a.solved).length,
+        byTheme,
+        attempts: set.attempts.slice(-limit).reverse().map(attempt => {
+          const puzzle = puzzles.get(attempt.puzzleId);
+          return {
+            ...attempt,
+            puzzle: puzzle ? { ...toPuzzleView(puzzle), solution: puzzle.solutionSan, played: puzzle.played } : null,
+          };
+        }),
+      });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Failed to load puzzle history' });
+    }
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * Re-analysis Routes
+ *
+ * Re-runs the engine over stored games that were analyzed below a target depth
+ * (see jobs/reanalysisQueue.ts). Progress streams over Server-Sent Events like
+ * /analyze/stream.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { loadSummaries } from '../summaries/store';
+import {
+  startReanalysis,
+  cancelReanalysis,
+  isReanalysisRunning,
+  needsReanalysis,
+  defaultTargetDepth,
+  reanalysisSessionId,
+} from '../jobs/reanalysisQueue';
+import { getProgress, subscribeToProgress } from '../analysis/sessionManager';
+
+const StartQuery = z.object({
+  userId: z.string().min(1),
+  targetDepth: z.coerce.number().int().min(1).max(40).optional(), // Default: the reanalysis profile's depth
+});
+
+const StatusQuery = z.object({
+  userId: z.string().min(1),
+  targetDepth: z.coerce.number().int().min(1).max(40).optional(),
+});
+
+const CancelQuery = z.object({
+  userId: z.string().min(1),
+});
+
+export default async function reanalyzeRoutes(app: FastifyInstance) {
+  /**
+   * Re-analyze games below the target depth and stream progress via SSE
+   *
+   * GET /reanalyze/stream?userId=xxx&targetDepth=14
+   *
+   * Events: games_found, progress, complete, cancelled, error
+   * (already_running when a run is in progress - its progress is streamed instead)
+   */
+  app.get('/reanalyze/stream', async (req, reply) => {
+    const parse = StartQuery.safeParse((req as any).query);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    }
+
+    const { userId } = parse.data;
+    const targetDepth = parse.data.targetDepth ?? defaultTargetDepth();
+    if (!targetDepth) {
+      return reply.code(400).send({ error: 'The reanalysis profile has no depth limit - pass targetDepth' });
+    }
+    const sessionId = reanalysisSessionId(userId);
+
+    // Set up SSE headers
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+    });
+
+    const sendEvent = (event: string, data: any) => {
+      reply.raw.write(`event: ${event}\n`);
+      reply.raw.write(`data: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const running = isReanalysisRunning(userId);
+      if (running) {
+        sendEvent('already_running', getProgress(sessionId));
+      } else {
+        const { queued, upToDate } = await startReanalysis(userId, targetDepth);
+        sendEvent('games_found', { totalGames: queued, upToDate, targetDepth, userId });
+        if (queued === 0) {
+          sendEvent('complete', { userId, status: 'complete', totalGames: 0, gamesAnalyzed: 0 });
+          reply.raw.end();
+          return;
+        }
+      }
+
+      // Forward the run's progress to SSE until it stops
+      const unsubscribe = subscribeToProgress(sessionId, (progress) => {
+        sendEvent('progress', progress);
+        if (progress.status === 'complete' || progress.status === 'cancelled' || progress.status === 'error') {
+          unsubscribe();
+          sendEvent(progress.status, progress.status === 'error' ? { error: progress.error } : progress);
+          reply.raw.end();
+        }
+      });
+
+      // Handle client disconnect (the run keeps going)
+      req.raw.on('close', () => {
+        unsubscribe();
+        app.log.info(`[SSE] Client disconnected from re-analysis for ${userId}`);
+      });
+    } catch (err: any) {
+      app.log.error('[SSE] Re-analysis error:', err);
+      sendEvent('error', { error: err.message || 'Re-analysis failed' });
+      reply.raw.end();
+    }
+  });
+
+  /**
+   * Re-analysis progress, and how many stored games are below the target depth
+   *
+   * GET /reanalyze/status?userId=xxx&targetDepth=14
+   */
+  app.get('/reanalyze/status', async (req, reply) => {
+    const parse = StatusQuery.safeParse((req as any).query);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    }
+
+    const { userId } = parse.data;
+    const targetDepth = parse.data.targetDepth ?? defaultTargetDepth();
+
+    try {
+      const summaries = await loadSummaries(userId);
+      return reply.send({
+        userId,
+        running: isReanalysisRunning(userId),
+        progress: getProgress(reanalysisSessionId(userId)),
+        targetDepth,
+        totalGames: summaries.length,
+        belowTarget: targetDepth ? summaries.filter(s => needsReanalysis(s, targetDepth)).length : null,
+      });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Failed to load re-analysis status' });
+    }
+  });
+
+  /**
+   * Stop a re-analysis after the games in flight (finished games are kept)
+   *
+   * POST /reanalyze/cancel?userId=xxx
+   */
+  app.post('/reanalyze/cancel', async (req, reply) => {
+    const parse = CancelQuery.safeParse((req as any).query);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    }
+
+    const { userId } = parse.data;
+    if (!cancelReanalysis(userId)) {
+      return reply.code(409).send({ error: 'No re-analysis running' });
+    }
+    app.log.info(`[Reanalyze] cancel for ${userId}`);
+    return reply.send({ userId, cancelled: true, progress: getProgress(reanalysisSessionId(userId)) });
+  });
+}
@@ -0,0 +1,58 @@
+/**
+ * Repertoire Routes
+ *
+ * The user's opening tree, built from their stored games (see
+ * openings/repertoire.ts). Subtrees are addressed by the SAN moves leading to
+ * them, so clients can browse the tree a few moves at a time.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { loadSummaries } from '../summaries/store';
+import { buildRepertoire, findDeviations, findNode, pruneNode, DEFAULT_MAX_PLY } from '../openings/repertoire';
+
+const RepertoireQuery = z.object({
+  userId: z.string().min(1),
+  color: z.enum(['white', 'black']).optional().default('white'),
+  moves: z.string().optional().default(''),                            // SAN path, e.g. "e4 c5 Nf3"
+  depth: z.coerce.number().int().min(1).max(DEFAULT_MAX_PLY).optional().default(2),
+  minGames: z.coerce.number().int().min(1).optional().default(1),
+});
+
+export default async function repertoireRoutes(app: FastifyInstance) {
+  /**
+   * A subtree of the user's repertoire, plus where they deviate inside it
+   *
+   * GET /repertoire?userId=xxx&color=black&moves=e4 c5 Nf3&depth=2&minGames=2
+   */
+  app.get('/repertoire', async (req, reply) => {
+    const parse = RepertoireQuery.safeParse((req as any).query);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    }
+
+    const { userId, color, moves, depth, minGames } = parse.data;
+    const path = moves.split(/[\s,]+/).filter(Boolean);
+
+    try {
+      const summaries = await loadSummaries(userId);
+      const tree = buildRepertoire(summaries, color);
+      const node = findNode(tree, path);
+      if (!node) {
+        return reply.code(404).send({ error: 'Line not found in your games', path });
+      }
+
+      return reply.send({
+        userId,
+        color,
+        games: tree.games,
+        path,
+        node: pruneNode(node, depth, minGames),
+        deviations: findDeviations(node, path, Math.max(2, minGames)).slice(0, 10),
+      });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Failed to build repertoire' });
+    }
+  });
+}
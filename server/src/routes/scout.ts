@@ -0,0 +1,202 @@
+/**
+ * Scouting Routes
+ *
+ * Preparation against a specific Chess.com opponent (see scouting/report.ts).
+ * Their recent games are analyzed from their side in the background (see
+ * jobs/scoutQueue.ts) and stored with the scouting report, never in the
+ * requesting user's summaries. Progress streams over Server-Sent Events like
+ * /reanalyze/stream.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { listArchives } from '../ingest/chesscom';
+import { loadScoutFile } from '../scouting/store';
+import { formatScoutingReport } from '../scouting/report';
+import {
+  startScouting,
+  cancelScouting,
+  isScoutRunning,
+  waitForScouting,
+  scoutSessionId,
+  type ScoutResult,
+} from '../jobs/scoutQueue';
+import { getProgress, subscribeToProgress } from '../analysis/sessionManager';
+
+const Username = z.string().regex(/^[A-Za-z0-9_-]{2,50}$/).transform(v => v.toLowerCase()); // Chess.com username to scout
+
+const Query = z.object({
+  userId: z.string().min(1),
+  username: Username,
+  limitGames: z.coerce.number().int().min(1).max(100).default(30),
+  limitMonths: z.coerce.number().int().min(1).max(12).default(3),
+});
+
+const CancelQuery = z.object({
+  userId: z.string().min(1),
+  username: Username,
+});
+
+function describeResult(userId: string, opponent: string, result: ScoutResult) {
+  return {
+    userId,
+    opponent,
+    added: result.added,
+    failed: result.failed,
+    report: result.report,
+    coachContext: formatScoutingReport(result.report),
+  };
+}
+
+export default async function scoutRoutes(app: FastifyInstance) {
+  // Null when the Chess.com player doesn't exist
+  const findArchives = async (username: string, limitMonths: number): Promise<string[] | null> => {
+    try {
+      return (await listArchives(username)).slice(0, limitMonths);
+    } catch (err: any) {
+      app.log.warn(`[Scout] No archives for ${username}: ${err.message}`);
+      return null;
+    }
+  };
+
+  /**
+   * Scout an opponent: analyze their most recent games (new ones only) and build
+   * the scouting report, with lines from the user's own repertoire to aim for.
+   * `coachContext` is the report as the chat coach reads it. With new games to
+   * analyze it answers 202 with the run's progress (and the previous report, if
+   * any) - ask again once it's done, or follow /scout/stream.
+   *
+   * GET /scout?userId=xxx&username=opponent&limitGames=30&limitMonths=3
+   */
+  app.get('/scout', async (req, reply) => {
+    const parse = Query.safeParse((req as any).query);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    }
+
+    const { userId, username, limitGames, limitMonths } = parse.data;
+
+    try {
+      if (!isScoutRunning(userId, username)) {
+        const archives = await findArchives(username, limitMonths);
+        if (!archives) {
+          return reply.code(404).send({ error: 'Chess.com player not found' });
+        }
+        const { result } = await startScouting(userId, username, { archives, limitGames });
+        if (result) return reply.send(describeResult(userId, username, result));
+      }
+
+      const progress = getProgress(scoutSessionId(userId, username));
+      const { report } = await loadScoutFile(userId, username);
+      return reply.code(202).send({
+        userId,
+        opponent: username,
+        progress,
+        report,
+        message: `Analyzing ${progress?.gamesRemaining ?? 'the'} new games of ${username} - ask again when it's done or follow /scout/stream`,
+      });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Failed to scout opponent' });
+    }
+  });
+
+  /**
+   * Scout an opponent and stream progress via SSE
+   *
+   * GET /scout/stream?userId=xxx&username=opponent&limitGames=30&limitMonths=3
+   *
+   * Events: games_found, progress, complete, cancelled, error
+   * (already_running when a run is in progress - its progress is streamed instead)
+   */
+  app.get('/scout/stream', async (req, reply) => {
+    const parse = Query.safeParse((req as any).query);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    }
+
+    const { userId, username, limitGames, limitMonths } = parse.data;
+    const sessionId = scoutSessionId(userId, username);
+
+    const running = isScoutRunning(userId, username);
+    const archives = running ? [] : await findArchives(username, limitMonths);
+    if (!archives) {
+      return reply.code(404).send({ error: 'Chess.com player not found' });
+    }
+
+    // Set up SSE headers
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+    });
+
+    let closed = false;
+    const sendEvent = (event: string, data: any) => {
+      if (closed) return;
+      reply.raw.write(`event: ${event}\n`);
+      reply.raw.write(`data: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      if (running) {
+        sendEvent('already_running', getProgress(sessionId));
+      } else {
+        const { queued, result } = await startScouting(userId, username, { archives, limitGames });
+        sendEvent('games_found', { totalGames: queued, userId, opponent: username });
+        if (result) {
+          sendEvent('complete', describeResult(userId, username, result));
+          reply.raw.end();
+          return;
+        }
+      }
+
+      // Forward the run's progress to SSE until it stops
+      const unsubscribe = subscribeToProgress(sessionId, (progress) => sendEvent('progress', progress));
+
+      // Handle client disconnect (the run keeps going)
+      req.raw.on('close', () => {
+        closed = true;
+        unsubscribe();
+        app.log.info(`[SSE] Client disconnected from scouting ${username} for ${userId}`);
+      });
+
+      const result = await waitForScouting(userId, username);
+      unsubscribe();
+      const progress = getProgress(sessionId);
+      if (!result) {
+        sendEvent('error', { error: progress?.error || 'Scouting failed' });
+      } else if (progress?.status === 'cancelled') {
+        sendEvent('cancelled', { ...describeResult(userId, username, result), progress });
+      } else {
+        sendEvent('complete', describeResult(userId, username, result));
+      }
+      reply.raw.end();
+    } catch (err: any) {
+      app.log.error('[SSE] Scouting error:', err);
+      sendEvent('error', { error: err.message || 'Scouting failed' });
+      reply.raw.end();
+    }
+  });
+
+  /**
+   * Stop scouting an opponent after the games in flight (finished games are
+   * kept and the report is rebuilt with them)
+   *
+   * POST /scout/cancel?userId=xxx&username=opponent
+   */
+  app.post('/scout/cancel', async (req, reply) => {
+    const parse = CancelQuery.safeParse((req as any).query);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    }
+
+    const { userId, username } = parse.data;
+    if (!cancelScouting(userId, username)) {
+      return reply.code(409).send({ error: 'No scouting run for this opponent' });
+    }
+    app.log.info(`[Scout] cancel ${username} for ${userId}`);
+    return reply.send({ userId, opponent: username, cancelled: true, progress: getProgress(scoutSessionId(userId, username)) });
+  });
+}
@@ -0,0 +1,54 @@
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { syncChessCom } from '../ingest/sync';
+import { getIngestJob, describeIngestJob, pendingMessage } from '../jobs/ingestQueue';
+
+const Query = z.object({
+  username: z.string().min(1),
+  userId: z.string().min(1),
+  limitMonths: z.coerce.number().int().min(1).max(120).default(12), // Only used on the first sync
+  limitGames: z.coerce.number().int().min(1).max(1000).default(100), // Max new games per sync
+});
+
+export default async function syncRoutes(app: FastifyInstance) {
+  /**
+   * Incremental sync - fetch and analyze only games played since the last sync
+   *
+   * GET /sync?username=xxx&userId=xxx
+   */
+  app.get('/sync', async (req, reply) => {
+    const parse = Query.safeParse((req as any).query);
+    if (!parse.success) return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    const { username, userId, limitMonths, limitGames } = parse.data;
+
+    try {
+      const startTime = Date.now();
+      const result = await syncChessCom(userId, username, {
+        limitMonths,
+        limitGames,
+        onProgress: (processed, total) => {
+          app.log.info(`[Sync] Progress: ${processed}/${total} new games`);
+        },
+      });
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+      app.log.info(`[Sync] ${username}: +${result.added} games in ${elapsed}s (total ${result.total})`);
+
+      // Paused or cancelled job: the new games are parked in the queue, not lost
+      if (result.pending > 0) {
+        const job = await getIngestJob(userId);
+        return reply.code(202).send({
+          userId,
+          site: 'chess.com',
+          ...result,
+          upToDate: false,
+          job: job && describeIngestJob(job),
+          message: pendingMessage(userId, { status: result.jobStatus, pending: result.pending }),
+        });
+      }
+      return reply.send({ userId, site: 'chess.com', ...result, upToDate: result.added === 0 && !result.limited });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Sync failed' });
+    }
+  });
+}
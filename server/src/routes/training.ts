@@ -0,0 +1,136 @@
+/**
+ * Training Routes
+ *
+ * Spaced-repetition reviews of positions from the user's own games (see
+ * training/scheduler.ts). New games are turned into review items whenever the
+ * queue is loaded; answers update the schedule and the profile's review stats.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { loadSummaries } from '../summaries/store';
+import { refreshProfileTraining } from '../profile/store';
+import { loadReviewDeck, updateReviewDeck } from '../training/store';
+import { syncReviewItems } from '../training/items';
+import { checkAnswer, dueQueue, recordReview, reviewQuality, toReviewView, trainingStats } from '../training/scheduler';
+import { ReviewKind } from '../training/schema';
+
+const DueQuery = z.object({
+  userId: z.string().min(1),
+  kind: ReviewKind.optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+const ReviewBody = z.object({
+  userId: z.string().min(1),
+  itemId: z.string().min(1),
+  move: z.string().regex(/^[a-h][1-8][a-h][1-8][qrbn]?$/), // UCI
+  grade: z.enum(['hard', 'good', 'easy']).optional(),     // How the answer felt (right answers only)
+});
+
+const StatsQuery = z.object({
+  userId: z.string().min(1),
+});
+
+export default async function trainingRoutes(app: FastifyInstance) {
+  /**
+   * Today's review queue (answers aren't included)
+   *
+   * GET /training/due?userId=xxx&kind=opening&limit=20
+   */
+  app.get('/training/due', async (req, reply) => {
+    const parse = DueQuery.safeParse((req as any).query);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    }
+
+    const { userId, kind, limit } = parse.data;
+
+    try {
+      const summaries = await loadSummaries(userId);
+      const deck = await syncReviewItems(userId, summaries);
+      const queue = dueQueue(deck).filter(i => !kind || i.kind === kind);
+
+      return reply.send({
+        userId,
+        date: new Date().toISOString().slice(0, 10),
+        due: queue.length,
+        reviews: queue.filter(i => i.introducedAt !== null).length,
+        new: queue.filter(i => i.introducedAt === null).length,
+        items: queue.slice(0, limit).map(toReviewView),
+      });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Failed to load reviews' });
+    }
+  });
+
+  /**
+   * Answer a review item. Illegal moves aren't recorded.
+   *
+   * POST /training/review  { userId, itemId, move: "e2e4", grade?: "hard" | "good" | "easy" }
+   */
+  app.post('/training/review', async (req, reply) => {
+    const parse = ReviewBody.safeParse((req as any).body);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid body', details: parse.error.flatten() });
+    }
+
+    const { userId, itemId, move, grade } = parse.data;
+
+    try {
+      const result = await updateReviewDeck(userId, (deck) => {
+        const item = deck.items.find(i => i.id === itemId);
+        if (!item) return null;
+
+        const answer = checkAnswer(item, move);
+        if (!answer.move) return { status: 'illegal' as const };
+
+        recordReview(deck, item, answer.move, answer.correct, reviewQuality(answer.correct, grade));
+        return {
+          status: answer.correct ? 'correct' as const : 'wrong' as const,
+          move: answer.move,
+          answers: item.answers,
+          played: item.played,
+          interval: item.interval,
+          nextReview: item.due,
+          remaining: dueQueue(deck).length,
+        };
+      });
+
+      if (!result) {
+        return reply.code(404).send({ error: 'Review item not found' });
+      }
+
+      if (result.status !== 'illegal') {
+        await refreshProfileTraining(userId).catch(err => app.log.error(err));
+      }
+      return reply.send({ userId, itemId, ...result });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Failed to record review' });
+    }
+  });
+
+  /**
+   * Review progress and accuracy (also stored on the profile)
+   *
+   * GET /training/stats?userId=xxx
+   */
+  app.get('/training/stats', async (req, reply) => {
+    const parse = StatsQuery.safeParse((req as any).query);
+    if (!parse.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parse.error.flatten() });
+    }
+
+    const { userId } = parse.data;
+
+    try {
+      const deck = await loadReviewDeck(userId);
+      return reply.send({ userId, ...trainingStats(deck) });
+    } catch (err: any) {
+      app.log.error(err);
+      return reply.code(500).send({ error: 'Failed to load training stats' });
+    }
+  });
+}
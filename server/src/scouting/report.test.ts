@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Chess } from 'chess.js';
+import { buildScoutingReport, formatScoutingReport } from './report';
+import { CompactGameSummary, type CompactGameSummaryT } from '../summaries/schemas';
+
+let gameCount = 0;
+
+// A game from one side: its moves (SAN), color and result
+function game(userColor: 'white' | 'black', result: string, sans: string[], date = '2026-09-01'): CompactGameSummaryT {
+  const chess = new Chess();
+  const keyPositions = sans.map((san, i) => {
+    chess.move(san);
+    return { moveNo: Math.floor(i / 2) + 1, side: i % 2 ? 'B' : 'W', move: san, fen: chess.fen() };
+  });
+  return CompactGameSummary.parse({
+    gameId: `g${++gameCount}`,
+    date,
+    userColor,
+    result,
+    opponent: 'x',
+    timeControl: { type: 'blitz', base: 300, increment: 0 },
+    keyPositions,
+  });
+}
+
+const OPEN_GAME = ['e4', 'e5', 'Nf3', 'Nc6'];
+
+// The opponent's side: they lose with Black in the open game and win with White
+const opponentGames = [
+  game('black', 'loss', OPEN_GAME, '2026-09-01'),
+  game('black', 'resign', OPEN_GAME, '2026-09-02'),
+  game('white', 'win', ['d4', 'd5', 'c4'], '2026-09-03'),
+];
+const userGames = [game('white', 'win', OPEN_GAME)];
+
+test('the report covers the opponent\'s record and repertoire by color', () => {
+  const report = buildScoutingReport('u1', 'opp', opponentGames, userGames);
+  assert.equal(report.opponent, 'opp');
+  assert.equal(report.gamesAnalyzed, 3);
+  assert.deepEqual(report.dateRange, { oldest: '2026-09-01', newest: '2026-09-03' });
+  assert.deepEqual([report.record.wins, report.record.draws, report.record.losses], [1, 0, 2]);
+  assert.deepEqual(report.repertoire.white.firstMoves.map(m => m.line), [['d4']]);
+  assert.deepEqual(report.repertoire.black.firstMoves.map(m => m.line), [['e4', 'e5']]);
+  assert.deepEqual(report.repertoire.black.mainLine, OPEN_GAME);
+});
+
+test('lines the user plays into the opponent\'s losses are suggested', () => {
+  const report = buildScoutingReport('u1', 'opp', opponentGames, userGames);
+  // The longest line through the same games: 1. e4 alone says less
+  assert.deepEqual(report.suggestions.map(s => s.line), [['e4', 'e5', 'Nf3']]);
+  const [best] = report.suggestions;
+  assert.equal(best.color, 'white');
+  assert.equal(best.opponentGames, 2);
+  assert.equal(best.opponentScore, 0);
+
+  // Without the user's own games there's nothing of theirs to aim for
+  assert.deepEqual(buildScoutingReport('u1', 'opp', opponentGames, []).suggestions, []);
+});
+
+test('an opponent without games gets an empty report', () => {
+  const report = buildScoutingReport('u1', 'opp', [], userGames);
+  assert.equal(report.gamesAnalyzed, 0);
+  assert.equal(report.dateRange, null);
+  assert.deepEqual(report.suggestions, []);
+  assert.match(formatScoutingReport(report), /opp/);
+});
@@ -0,0 +1,320 @@
+/**
+ * Scouting Report
+ *
+ * Preparation against a specific opponent from their recent public games:
+ * - Their repertoire by color, and the openings they score worst in
+ *   (against the ratings when the games were rated)
+ * - The game phase where they blunder most, time-control habits and rating trend
+ * - Lines to aim for: positions from the user's own repertoire that the
+ *   opponent has reached in their games and scored poorly in
+ *
+ * The opponent's games are summarized from their side (pgnToSummary with
+ * their username), so the regular profile generator reads them as their profile.
+ */
+
+import type { CompactGameSummaryT } from '../summaries/schemas';
+import type { PlayerProfileT } from '../profile/schema';
+import { generateProfile } from '../profile/generator';
+import { computePerformance, formatPerformance } from '../analysis/performance';
+import { buildRepertoire, type RepertoireColor, type RepertoireNode } from '../openings/repertoire';
+import { openingHierarchy, variationLabel } from '../openings/ecoTree';
+import { formatLine } from '../analysis/engineLines';
+import type { ScoutingReportT, ScoutOpeningT, ScoutRepertoireT, ScoutSuggestionT } from './schema';
+
+const REPERTOIRE_PLY = 16;
+const MAIN_LINE_PLY = 10;
+const MIN_LINE_GAMES = 2;      // Opponent games through a position before it counts
+const POOR_SCORE = 40;         // Opponent score (0-100) that makes a line worth aiming for
+const MAX_SUGGESTIONS = 5;
+const MAX_OPENINGS = 5;
+
+function opposite(color: RepertoireColor): RepertoireColor {
+  return color === 'white' ? 'black' : 'white';
+}
+
+/**
+ * Openings the opponent played with one color, most played first
+ */
+function openingsFor(games: CompactGameSummaryT[], color: RepertoireColor): ScoutOpeningT[] {
+  const byName = new Map<string, CompactGameSummaryT[]>();
+  for (const game of games) {
+    if (game.userColor !== color) continue;
+    const name = variationLabel(openingHierarchy(game.opening));
+    if (!name) continue;
+    if (!byName.has(name)) byName.set(name, []);
+    byName.get(name)!.push(game);
+  }
+
+  const openings: ScoutOpeningT[] = [];
+  for (const [name, openingGames] of Array.from(byName.entries())) {
+    const wins = openingGames.filter(g => g.result === 'win' || g.result === 'checkmate').length;
+    const losses = openingGames.filter(g => g.result === 'loss' || g.result === 'resign' || g.result === 'timeout').length;
+    const draws = openingGames.filter(g => g.result === 'draw' || g.result === 'stalemate').length;
+    const decided = wins + draws + losses;
+    openings.push({
+      name,
+      eco: openingGames[0].opening.eco,
+      color,
+      games: openingGames.length,
+      wins,
+      draws,
+      losses,
+      score: decided > 0 ? Math.round(((wins + draws / 2) / decided) * 100) : 0,
+      performance: computePerformance(openingGames),
+    });
+  }
+  return openings.sort((a, b) => b.games - a.games);
+}
+
+function repertoireFor(games: CompactGameSummaryT[], color: RepertoireColor): ScoutRepertoireT {
+  const tree = buildRepertoire(games, color, REPERTOIRE_PLY);
+
+  // As White their first moves; as Black their usual reply to each first move
+  const firstMoves = color === 'white'
+    ? tree.root.children.map(c => ({ line: [c.move!], games: c.games, score: c.score }))
+    : tree.root.children
+        .filter(c => c.children.length > 0)
+        .map(c => ({ line: [c.move!, c.children[0].move!], games: c.children[0].games, score: c.children[0].score }));
+
+  const mainLine: string[] = [];
+  let node: RepertoireNode | undefined = tree.root.children[0];
+  while (node && node.games >= MIN_LINE_GAMES && mainLine.length < MAIN_LINE_PLY) {
+    mainLine.push(node.move!);
+    node = node.children[0];
+  }
+
+  return {
+    games: tree.games,
+    firstMoves: firstMoves.slice(0, 3),
+    mainLine,
+    openings: openingsFor(games, color).slice(0, MAX_OPENINGS),
+  };
+}
+
+// How badly an opening goes for the opponent: against the ratings when rated, else vs 50%
+function openingShortfall(opening: ScoutOpeningT): number {
+  return opening.performance && opening.performance.games >= MIN_LINE_GAMES
+    ? opening.performance.scoreVsExpected
+    : opening.score - 50;
+}
+
+/**
+ * Walk the user's tree for one color alongside the opponent's tree for the
+ * other, and collect positions reached by the user's own moves where the
+ * opponent scored poorly
+ */
+function suggestLines(
+  userGames: CompactGameSummaryT[],
+  opponentGames: CompactGameSummaryT[],
+  color: RepertoireColor
+): ScoutSuggestionT[] {
+  const userTree = buildRepertoire(userGames, color, REPERTOIRE_PLY);
+  const opponentTree = buildRepertoire(opponentGames, opposite(color), REPERTOIRE_PLY);
+  const found: ScoutSuggestionT[] = [];
+
+  const walk = (mine: RepertoireNode, theirs: RepertoireNode, path: string[], opening: string | null) => {
+    for (const child of mine.children) {
+      const match = theirs.children.find(c => c.move === child.move);
+      if (!match || match.games < MIN_LINE_GAMES) continue;
+      const line = [...path, child.move!];
+      const name = child.opening ?? opening;
+
+      if (child.byUser && match.score <= POOR_SCORE) {
+        found.push({
+          color,
+          line,
+          opening: name,
+          opponentGames: match.games,
+          opponentScore: match.score,
+          userGames: child.games,
+          userScore: child.score,
+          reason: `They score ${match.score}% in ${match.games} games after ${formatLine(line, 1, 'W')}; you score ${child.score}% in ${child.games}`,
+        });
+      }
+      walk(child, match, line, name);
+    }
+  };
+  walk(userTree.root, opponentTree.root, [], null);
+
+  // A longer line through the same games says more than its start
+  return found.filter(s => !found.some(o =>
+    o !== s && o.line.length > s.line.length && o.opponentGames === s.opponentGames &&
+    s.line.every((move, i) => o.line[i] === move)
+  ));
+}
+
+// Poorer opponent scores first, backed by more games
+function suggestionWeight(s: ScoutSuggestionT): number {
+  return (50 - s.opponentScore) * Math.sqrt(s.opponentGames);
+}
+
+function ratingsFor(games: CompactGameSummaryT[]): ScoutingReportT['ratings'] {
+  const byTc = new Map<ScoutingReportT['ratings'][number]['timeControl'], number[]>();
+  for (const game of games) {
+    if (game.userRating === null) continue;
+    if (!byTc.has(game.timeControl.type)) byTc.set(game.timeControl.type, []);
+    byTc.get(game.timeControl.type)!.push(game.userRating);
+  }
+
+  return Array.from(byTc.entries())
+    .map(([timeControl, ratings]) => ({
+      timeControl,
+      games: ratings.length,
+      current: ratings[ratings.length - 1],
+      first: ratings[0],
+      peak: Math.max(...ratings),
+      change: ratings[ratings.length - 1] - ratings[0],
+    }))
+    .sort((a, b) => b.games - a.games);
+}
+
+function blundersFor(games: CompactGameSummaryT[], profile: PlayerProfileT): ScoutingReportT['blunders'] {
+  const byPhase = profile.phases.map(p => ({ phase: p.phase, blunderRate: p.blunderRate, mistakeRate: p.mistakeRate }));
+  const worst = [...byPhase].sort((a, b) => b.blunderRate - a.blunderRate)[0];
+  const blunders = games.reduce((sum, g) => sum + g.blunders, 0);
+  return {
+    perGame: games.length > 0 ? Math.round((blunders / games.length) * 10) / 10 : 0,
+    byPhase,
+    worstPhase: worst && worst.blunderRate > 0 ? worst.phase : null,
+  };
+}
+
+/**
+ * Build a report on an opponent from their summaries (analyzed from their
+ * side) and the user's own summaries
+ */
+export function buildScoutingReport(
+  userId: string,
+  opponent: string,
+  opponentGames: CompactGameSummaryT[],
+  userGames: CompactGameSummaryT[]
+): ScoutingReportT {
+  const sorted = [...opponentGames].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const standard = sorted.filter(g => g.variant === 'standard');
+  const games = standard.length > 0 ? standard : sorted;
+  const profile = generateProfile(opponent, opponent, games);
+
+  const repertoire = {
+    white: repertoireFor(games, 'white'),
+    black: repertoireFor(games, 'black'),
+  };
+  const weakestOpenings = [...openingsFor(games, 'white'), ...openingsFor(games, 'black')]
+    .filter(o => o.games >= MIN_LINE_GAMES && openingShortfall(o) < 0)
+    .sort((a, b) => openingShortfall(a) - openingShortfall(b))
+    .slice(0, 3);
+
+  const tm = profile.timeManagement;
+  const suggestions = [...suggestLines(userGames, games, 'white'), ...suggestLines(userGames, games, 'black')]
+    .sort((a, b) => suggestionWeight(b) - suggestionWeight(a))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return {
+    opponent,
+    userId,
+    generatedAt: new Date().toISOString(),
+    gamesAnalyzed: games.length,
+    dateRange: games.length > 0 ? { oldest: games[0].date, newest: games[games.length - 1].date } : null,
+    record: {
+      wins: profile.overall.wins,
+      draws: profile.overall.draws,
+      losses: profile.overall.losses,
+      winRate: profile.overall.winRate,
+    },
+    performance: profile.performance?.overall ?? null,
+    ratings: ratingsFor(games),
+    trend: profile.overall.trend,
+    repertoire,
+    weakestOpenings,
+    blunders: blundersFor(games, profile),
+    timeControls: profile.timeControls.map(tc => ({
+      type: tc.type,
+      games: tc.gamesPlayed,
+      share: games.length > 0 ? Math.round((tc.gamesPlayed / games.length) * 100) : 0,
+      winRate: tc.winRate,
+      performance: tc.performance,
+    })),
+    clock: tm
+      ? {
+          gamesWithClockData: tm.gamesWithClockData,
+          avgTimePerMove: tm.avgTimePerMove,
+          timeScrambleBlunders: tm.timeScrambleBlunders,
+          lossesOnTime: tm.lossesOnTime,
+        }
+      : null,
+    weaknesses: profile.weaknesses.slice(0, 3),
+    suggestions,
+  };
+}
+
+function formatOpening(o: ScoutOpeningT): string {
+  const vsExpected = o.performance && o.performance.games >= MIN_LINE_GAMES
+    ? `, ${o.performance.scoreVsExpected >= 0 ? '+' : ''}${o.performance.scoreVsExpected}% vs expected`
+    : '';
+  return `${o.name} (${o.games} games, ${o.score}%${vsExpected})`;
+}
+
+/**
+ * The report as a coaching-context block for the chat coach
+ */
+export function formatScoutingReport(report: ScoutingReportT): string {
+  const lines: string[] = [];
+  const range = report.dateRange
+    ? `, ${report.dateRange.oldest.slice(0, 10)} to ${report.dateRange.newest.slice(0, 10)}`
+    : '';
+  lines.push(`OPPONENT SCOUTING REPORT - ${report.opponent} (${report.gamesAnalyzed} recent games${range}):`);
+  lines.push(`  Record: ${report.record.wins}W-${report.record.draws}D-${report.record.losses}L (${report.record.winRate.toFixed(0)}% wins)`);
+  if (report.performance) {
+    lines.push(`  Against the ratings: ${formatPerformance(report.performance)}`);
+  }
+  if (report.ratings.length > 0) {
+    const ratings = report.ratings.map(r => `${r.timeControl} ${r.current} (${r.change >= 0 ? '+' : ''}${r.change} over the sample, peak ${r.peak})`);
+    lines.push(`  Ratings: ${ratings.join('; ')}. Trend: ${report.trend}`);
+  }
+
+  for (const color of ['white', 'black'] as const) {
+    const rep = report.repertoire[color];
+    if (rep.games === 0) continue;
+    const label = color === 'white' ? 'As White' : 'As Black';
+    const moves = rep.firstMoves.map(m => `${formatLine(m.line, 1, 'W')} (${m.games} games, ${m.score}%)`).join(', ');
+    lines.push(`  ${label} (${rep.games} games): ${moves}`);
+    if (rep.mainLine.length > 0) {
+      lines.push(`    Main line: ${formatLine(rep.mainLine, 1, 'W')}`);
+    }
+    if (rep.openings.length > 0) {
+      lines.push(`    Openings: ${rep.openings.map(formatOpening).join(', ')}`);
+    }
+  }
+
+  if (report.weakestOpenings.length > 0) {
+    lines.push(`  Weakest openings: ${report.weakestOpenings.map(o => `${formatOpening(o)} as ${o.color}`).join('; ')}`);
+  }
+
+  const phases = report.blunders.byPhase.map(p => `${p.phase} ${p.blunderRate.toFixed(1)}`).join(', ');
+  lines.push(`  Blunders: ${report.blunders.perGame}/game${phases ? ` (per game by phase: ${phases})` : ''}`);
+  if (report.blunders.worstPhase) {
+    lines.push(`    Most blunders in the ${report.blunders.worstPhase}`);
+  }
+
+  if (report.timeControls.length > 0) {
+    lines.push(`  Time controls: ${report.timeControls.map(tc => `${tc.type} ${tc.share}% (${tc.winRate.toFixed(0)}% wins)`).join(', ')}`);
+  }
+  if (report.clock) {
+    const avg = report.clock.avgTimePerMove !== null ? `${report.clock.avgTimePerMove.toFixed(1)}s per move, ` : '';
+    lines.push(`  Clock: ${avg}${report.clock.timeScrambleBlunders} blunders under 2 minutes, ${report.clock.lossesOnTime} losses on time`);
+  }
+
+  for (const weakness of report.weaknesses) {
+    lines.push(`  Weakness - ${weakness.title}: ${weakness.description} (${weakness.stats})`);
+  }
+
+  if (report.suggestions.length > 0) {
+    lines.push(`  LINES TO AIM FOR (from your own repertoire):`);
+    for (const s of report.suggestions) {
+      lines.push(`    As ${s.color}: ${s.reason}${s.opening ? ` [${s.opening}]` : ''}`);
+    }
+  } else {
+    lines.push(`  No overlap yet between your repertoire and the lines they score poorly in`);
+  }
+
+  return lines.join('\n');
+}
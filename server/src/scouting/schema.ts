@@ -0,0 +1,107 @@
+import { z } from "zod";
+import { CompactGameSummary } from "../summaries/schemas";
+import { PerformanceStats, PlayerPattern } from "../profile/schema";
+
+export const ScoutOpening = z.object({
+  name: z.string(),                 // "Family: Variation"
+  eco: z.string().nullable(),
+  color: z.enum(["white", "black"]), // The opponent's color
+  games: z.number(),
+  wins: z.number(),
+  draws: z.number(),
+  losses: z.number(),
+  score: z.number(),                // 0-100, the opponent's points per game
+  performance: PerformanceStats.nullable(),
+});
+export type ScoutOpeningT = z.infer<typeof ScoutOpening>;
+
+export const ScoutRepertoire = z.object({
+  games: z.number(),
+  firstMoves: z.array(z.object({    // Their own first move (White) or reply to the user's most common first moves (Black)
+    line: z.array(z.string()),      // SAN from the starting position
+    games: z.number(),
+    score: z.number(),              // 0-100, the opponent's points per game
+  })),
+  mainLine: z.array(z.string()),    // Their most played line (SAN)
+  openings: z.array(ScoutOpening),  // Most played first
+});
+export type ScoutRepertoireT = z.infer<typeof ScoutRepertoire>;
+
+/**
+ * A line worth steering the game into: the opponent has reached it in their
+ * games and scored poorly, and the user plays into it themselves
+ */
+export const ScoutSuggestion = z.object({
+  color: z.enum(["white", "black"]), // The user's color
+  line: z.array(z.string()),        // SAN from the starting position, ending with the user's move
+  opening: z.string().nullable(),
+  opponentGames: z.number(),
+  opponentScore: z.number(),        // 0-100
+  userGames: z.number(),
+  userScore: z.number(),            // 0-100
+  reason: z.string(),
+});
+export type ScoutSuggestionT = z.infer<typeof ScoutSuggestion>;
+
+export const ScoutingReport = z.object({
+  opponent: z.string(),             // Chess.com username (lowercase)
+  userId: z.string(),               // Who the report was prepared for
+  generatedAt: z.string(),
+  gamesAnalyzed: z.number(),
+  dateRange: z.object({ oldest: z.string(), newest: z.string() }).nullable(),
+
+  record: z.object({ wins: z.number(), draws: z.number(), losses: z.number(), winRate: z.number() }),
+  performance: PerformanceStats.nullable(),
+  ratings: z.array(z.object({
+    timeControl: z.enum(["bullet", "blitz", "rapid", "daily"]),
+    games: z.number(),
+    current: z.number(),
+    first: z.number(),              // Oldest game in the sample
+    peak: z.number(),
+    change: z.number(),             // current - first
+  })),
+  trend: z.enum(["improving", "stable", "declining"]),
+
+  repertoire: z.object({ white: ScoutRepertoire, black: ScoutRepertoire }),
+  weakestOpenings: z.array(ScoutOpening), // Lowest scores (against the ratings when rated) first
+
+  blunders: z.object({
+    perGame: z.number(),
+    byPhase: z.array(z.object({
+      phase: z.enum(["opening", "middlegame", "endgame"]),
+      blunderRate: z.number(),      // Per game that reached the phase
+      mistakeRate: z.number(),
+    })),
+    worstPhase: z.enum(["opening", "middlegame", "endgame"]).nullable(),
+  }),
+
+  timeControls: z.array(z.object({
+    type: z.enum(["bullet", "blitz", "rapid", "classical", "daily"]),
+    games: z.number(),
+    share: z.number(),              // 0-100 of the games scouted
+    winRate: z.number(),
+    performance: PerformanceStats.nullable(),
+  })),
+  clock: z.object({
+    gamesWithClockData: z.number(),
+    avgTimePerMove: z.number().nullable(),
+    timeScrambleBlunders: z.number(),
+    lossesOnTime: z.number(),
+  }).nullable(),
+
+  weaknesses: z.array(PlayerPattern), // From the profile generator, most severe first
+  suggestions: z.array(ScoutSuggestion),
+});
+export type ScoutingReportT = z.infer<typeof ScoutingReport>;
+
+/**
+ * One scouted opponent: their analyzed games (kept apart from the user's own
+ * summaries) and the latest report
+ */
+export const ScoutFile = z.object({
+  opponent: z.string(),
+  summaries: z.array(CompactGameSummary).default([]),
+  report: ScoutingReport.nullable().default(null),
+  updatedAt: z.string(),
+});
+export type ScoutFileT = z.infer<typeof ScoutFile>;
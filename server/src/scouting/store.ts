@@ -0,0 +1,99 @@
+/**
+ * Scouting Storage
+ *
+ * Opponents a user has scouted, one file each (data/<userId>/scouting/<opponent>.json).
+ * Their games stay here, out of the user's own summaries and profile.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ScoutFile, type ScoutFileT, type ScoutingReportT } from './schema';
+
+const DATA_ROOT = path.join(process.cwd(), 'data');
+
+function scoutingDir(userId: string): string {
+  return path.join(DATA_ROOT, userId, 'scouting');
+}
+
+function scoutPath(userId: string, opponent: string): string {
+  return path.join(scoutingDir(userId), `${encodeURIComponent(opponent)}.json`);
+}
+
+/**
+ * Load a scouted opponent (empty if they haven't been scouted yet)
+ */
+export async function loadScoutFile(userId: string, opponent: string): Promise<ScoutFileT> {
+  try {
+    const raw = await fs.readFile(scoutPath(userId, opponent), 'utf8');
+    return ScoutFile.parse(JSON.parse(raw));
+  } catch (err: any) {
+    if (err?.code === 'ENOENT' || err?.code === 'ENOTDIR') {
+      return ScoutFile.parse({ opponent, updatedAt: new Date().toISOString() });
+    }
+    throw err;
+  }
+}
+
+async function saveScoutFile(userId: string, file: ScoutFileT): Promise<void> {
+  await fs.mkdir(scoutingDir(userId), { recursive: true });
+  const validated = ScoutFile.parse({ ...file, updatedAt: new Date().toISOString() });
+  await fs.writeFile(scoutPath(userId, file.opponent), JSON.stringify(validated, null, 2), 'utf8');
+}
+
+// Per-opponent lock: two scouting runs for the same opponent must not drop each other's games
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Load, change and save a scouted opponent without racing other updates
+ */
+export function updateScoutFile<T>(
+  userId: string,
+  opponent: string,
+  fn: (file: ScoutFileT) => T | Promise<T>
+): Promise<T> {
+  const run = async () => {
+    const file = await loadScoutFile(userId, opponent);
+    const result = await fn(file);
+    await saveScoutFile(userId, file);
+    return result;
+  };
+  const key = `${userId}:${opponent}`;
+  const prev = locks.get(key) ?? Promise.resolve();
+  const next = prev.then(run, run);
+  locks.set(key, next.catch(() => undefined));
+  return next;
+}
+
+/**
+ * Opponents the user has scouted
+ */
+export async function listScoutedOpponents(userId: string): Promise<string[]> {
+  try {
+    const names = await fs.readdir(scoutingDir(userId));
+    return names
+      .filter(n => n.endsWith('.json'))
+      .map(n => decodeURIComponent(n.slice(0, -'.json'.length)));
+  } catch (err: any) {
+    if (err?.code === 'ENOENT' || err?.code === 'ENOTDIR') return [];
+    throw err;
+  }
+}
+
+/**
+ * The report on a scouted opponent named in a question ("how do I beat hikaru?"), if any
+ */
+export async function findMentionedReport(userId: string, question: string): Promise<ScoutingReportT | null> {
+  const q = question.toLowerCase();
+  for (const opponent of await listScoutedOpponents(userId)) {
+    const at = q.indexOf(opponent);
+    if (at < 0) continue;
+    // Whole usernames only ("bob" isn't mentioned in "bobby")
+    const before = q[at - 1] ?? ' ';
+    const after = q[at + opponent.length] ?? ' ';
+    if (/[a-z0-9_-]/.test(before) || /[a-z0-9_-]/.test(after)) continue;
+
+    const file = await loadScoutFile(userId, opponent);
+    if (file.report) return file.report;
+  }
+  return null;
+}
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { selectContent } from './contentSelector';
+
+function kind(question: string): string {
+  return selectContent(question, []).questionType.kind;
+}
+
+test('clock questions are time management', () => {
+  assert.equal(kind('Why do I keep losing on time?'), 'time_management');
+  assert.equal(kind('How often do I get flagged?'), 'time_management');
+  assert.equal(kind('Do I blunder in time trouble?'), 'time_management');
+  assert.equal(kind('I always run out of time'), 'time_management');
+});
+
+test('time control and unrelated words are not clock questions', () => {
+  assert.notEqual(kind("What's my most common time control?"), 'time_management');
+  assert.notEqual(kind('Is my flagship opening any good?'), 'time_management');
+  assert.notEqual(kind('Any red flag in my middlegames?'), 'time_management');
+  assert.deepEqual(selectContent('Do I flag a lot in blitz?', []).questionType, { kind: 'time_control', timeControl: 'blitz' });
+});
@@ -1,11 +1,16 @@
-import { type CompactGameSummaryT, KeyPosition } from '../summaries/schemas';
+import { type CompactGameSummaryT, type EngineLineT, type KeyPositionTablebaseT, type TacticT, KeyPosition } from '../summaries/schemas';
 import type { z } from 'zod';
 
 type KeyPositionT = z.infer<typeof KeyPosition>;
-import { matchOpeningFromQuestion, type OpeningMatch } from './openingMatcher';
-import { isEcoInFamily } from '../data/ecoDatabase';
-import type { PlayerProfileT } from '../profile/schema';
+import { matchOpeningFromQuestion, gameMatchesOpening, type OpeningMatch } from './openingMatcher';
+import type { EndgameTypeStatsT, PlayerProfileT, TrainingStatsT } from '../profile/schema';
 import type { IntentAnalysis } from '../services/intentAnalyzer';
+import { countTimeScrambleBlunders, hasClockData, lostOnTimeFromWinning, TIME_SCRAMBLE_SECONDS } from '../analysis/timeManagement';
+import { countUserErrors, getMoveClassification, isBlunder, isUserMove } from '../analysis/moveClassification';
+import { formatAlternatives, formatLine, soundAlternatives } from '../analysis/engineLines';
+import { describeTactic } from '../analysis/tactics';
+import { classifyEndgame, ENDGAME_LABELS } from '../analysis/endgames';
+import { computePerformance, formatPerformance } from '../analysis/performance';
 
 // Analysis depth for complex queries
 export type AnalysisDepthChoice = 'quick' | 'standard' | 'deep';
@@ -44,7 +49,7 @@ export function detectComplexAnalysisRequest(q: string): {
 
   // Try to extract context
   const openingMatch = matchOpeningFromQuestion(q);
-  const opening = openingMatch.matched ? (openingMatch.opening?.name || openingMatch.family) : undefined;
+  const opening = openingMatch.matched ? (openingMatch.opening?.name || openingMatch.family || undefined) : undefined;
 
   let timeControl: string | undefined;
   if (lowerQ.includes('bullet')) timeControl = 'bullet';
@@ -60,6 +65,8 @@ export type QuestionType =
   | { kind: 'endgame' }
   | { kind: 'blunders' }
   | { kind: 'time_control'; timeControl: 'bullet' | 'blitz' | 'rapid' | 'daily' }
+  | { kind: 'time_management' }
+  | { kind: 'variant'; variant: 'chess960' | 'fromPosition' }
   | { kind: 'result'; result: 'win' | 'loss' | 'draw' }
   | { kind: 'meta'; metaType: 'count' | 'overview' | 'openings' | 'stats' }
   | { kind: 'historical'; opening?: string; timeControl?: string }
@@ -77,7 +84,8 @@ export interface SelectedGame {
   userRating: number | null;
   oppRating: number | null;
   timeControl: string;
-  chesscomUrl: string | null;
+  site: CompactGameSummaryT['site'];
+  gameUrl: string | null;
   relevanceReason: string;
 }
 
@@ -90,9 +98,15 @@ export interface SelectedPosition {
   side: 'W' | 'B';
   movePlayed: string | null;
   bestMove: string | null;
+  alternatives: EngineLineT[];  // Engine's top moves before the move, best first
+  bestLine: string | null;      // Best continuation with move numbers, when the move played wasn't it
   evalBefore: number;
   evalAfter: number;
   evalSwing: number;
+  clock: number | null;      // Seconds left after the move, if the PGN had clocks
+  timeSpent: number | null;  // Seconds spent on the move
+  tablebase: KeyPositionTablebaseT | null;  // Exact endgame result, when the tablebases cover it
+  tactics: TacticT[];        // Tactics missed or allowed with the move
   displayReason: string;
 }
 
@@ -148,7 +162,11 @@ export function selectContent(
     ? intentToQuestionType(intent, question)
     : classifyQuestion(question);
 
-  const selectionResult = selectGames(summaries, questionType, maxGames);
+  // Variants are kept apart: Chess960 questions look at Chess960 games, everything
+  // else at standard games (or all games if the player has nothing but variants)
+  const scopedGames = gamesInScope(summaries, questionType);
+
+  const selectionResult = selectGames(scopedGames, questionType, maxGames);
 
   // Extract games array from result (empty if no_matches)
   const games = selectionResult.status === 'found' ? selectionResult.games : [];
@@ -156,10 +174,10 @@ export function selectContent(
 
   // Only select positions if we have matching games
   const positions = games.length > 0
-    ? selectPositionsFromSummaries(summaries, gameIds, questionType, maxPositions)
+    ? selectPositionsFromSummaries(scopedGames, gameIds, questionType, maxPositions)
     : [];
 
-  const statistics = computeStatistics(summaries, questionType);
+  const statistics = computeStatistics(scopedGames, questionType);
 
   // Build data availability info
   const dataAvailability: DataAvailability = {
@@ -191,6 +209,36 @@ export function selectContent(
   };
 }
 
+/**
+ * The games a question is about: one variant for variant questions, standard play otherwise
+ */
+function gamesInScope(summaries: CompactGameSummaryT[], questionType: QuestionType): CompactGameSummaryT[] {
+  if (questionType.kind === 'variant') {
+    return summaries.filter(g => g.variant === questionType.variant);
+  }
+  const standard = summaries.filter(g => g.variant === 'standard');
+  return standard.length > 0 ? standard : summaries;
+}
+
+function variantLabel(variant: 'standard' | 'chess960' | 'fromPosition'): string {
+  if (variant === 'chess960') return 'Chess960';
+  if (variant === 'fromPosition') return 'from-position';
+  return 'standard';
+}
+
+/**
+ * Detect questions about a chess variant rather than standard play
+ */
+function detectVariantQuestion(q: string): 'chess960' | 'fromPosition' | null {
+  if (q.includes('960') || q.includes('fischer random') || q.includes('fischerandom') || q.includes('freestyle')) {
+    return 'chess960';
+  }
+  if (q.includes('from position') || q.includes('custom position') || q.includes('thematic')) {
+    return 'fromPosition';
+  }
+  return null;
+}
+
 /**
  * Build context string when no matching games were found
  */
@@ -358,7 +406,7 @@ function detectAnalysisDepthChoice(q: string): { hasChoice: boolean; depth?: Ana
 
   // Try to extract context (opening or time control)
   const openingMatch = matchOpeningFromQuestion(q);
-  const opening = openingMatch.matched ? (openingMatch.opening?.name || openingMatch.family) : undefined;
+  const opening = openingMatch.matched ? (openingMatch.opening?.name || openingMatch.family || undefined) : undefined;
 
   let timeControl: string | undefined;
   if (q.includes('bullet')) timeControl = 'bullet';
@@ -382,6 +430,12 @@ function classifyQuestion(question: string): QuestionType {
     };
   }
 
+  // Variant questions ("how do I do in 960?") get their own games and stats
+  const variant = detectVariantQuestion(q);
+  if (variant) {
+    return { kind: 'variant', variant };
+  }
+
   // Check for HISTORICAL questions FIRST (all-time stats, trends over time)
   // These take priority over meta questions when they reference specific openings or time controls
   const historical = detectHistoricalQuestion(q);
@@ -419,6 +473,29 @@ function classifyQuestion(question: string): QuestionType {
     return { kind: 'endgame' };
   }
 
+  // Check for time control mentions (before clock mentions - "my most common time control")
+  if (q.includes('bullet')) {
+    return { kind: 'time_control', timeControl: 'bullet' };
+  }
+  if (q.includes('blitz')) {
+    return { kind: 'time_control', timeControl: 'blitz' };
+  }
+  if (q.includes('rapid')) {
+    return { kind: 'time_control', timeControl: 'rapid' };
+  }
+
+  // Check for clock / time management mentions (before blunders - "blunder in time trouble").
+  // Whole words only: "common time control" isn't "on time", "red flag" isn't flagging
+  if (
+    /\btime (trouble|pressure|management|scrambles?)\b/.test(q) ||
+    /\bon time\b/.test(q) ||
+    /\bmy clock\b/.test(q) ||
+    /(?<!red )\bflag(s|ged|ging)?\b/.test(q) ||
+    /\b(run|runs|running|ran) out of time\b/.test(q)
+  ) {
+    return { kind: 'time_management' };
+  }
+
   // Check for blunder/mistake mentions
   if (q.includes('mistake') || q.includes('blunder') || q.includes('error') || q.includes('worst')) {
     return { kind: 'blunders' };
@@ -435,17 +512,6 @@ function classifyQuestion(question: string): QuestionType {
     return { kind: 'result', result: 'draw' };
   }
 
-  // Check for time control mentions
-  if (q.includes('bullet')) {
-    return { kind: 'time_control', timeControl: 'bullet' };
-  }
-  if (q.includes('blitz')) {
-    return { kind: 'time_control', timeControl: 'blitz' };
-  }
-  if (q.includes('rapid')) {
-    return { kind: 'time_control', timeControl: 'rapid' };
-  }
-
   return { kind: 'general' };
 }
 
@@ -454,6 +520,12 @@ function classifyQuestion(question: string): QuestionType {
  * This allows the intelligent LLM-based intent to drive content selection
  */
 export function intentToQuestionType(intent: IntentAnalysis, question: string): QuestionType {
+  // The intent analyzer doesn't know about variants - check the question itself
+  const variant = detectVariantQuestion(question.toLowerCase());
+  if (variant) {
+    return { kind: 'variant', variant };
+  }
+
   // If intent has specific filters, use them
   if (intent.filters.opening) {
     const openingMatch = matchOpeningFromQuestion(question);
@@ -463,9 +535,11 @@ export function intentToQuestionType(intent: IntentAnalysis, question: string):
       openingMatch: openingMatch.matched ? openingMatch : {
         matched: true,
         confidence: 0.9,
-        opening: { name: intent.filters.opening, eco: null },
+        opening: null,
+        matchType: 'none',
+        ecoCodes: [],
         family: null,
-        matchedText: intent.filters.opening,
+        variation: null,
       },
     };
   }
@@ -601,13 +675,10 @@ function selectGames(
       const openingMatch = questionType.openingMatch;
       requestedFilter = `${questionType.opening} opening`;
 
-      // Use ECO code matching if we have ECO codes from the match
-      if (openingMatch.ecoCodes.length > 0 && openingMatch.family) {
+      // Use the ECO tree hierarchy if the question resolved to a family/variation
+      if (openingMatch.family) {
         filtered = summaries.filter(g => {
-          const gameEco = g.opening.eco?.toUpperCase() || '';
-
-          // Check if game ECO is in the matched family
-          if (gameEco && isEcoInFamily(gameEco, openingMatch.family!)) {
+          if (gameMatchesOpening(g.opening, openingMatch)) {
             return true;
           }
 
@@ -629,46 +700,28 @@ function selectGames(
     }
     case 'endgame': {
       requestedFilter = 'games with endgame positions';
-      // Find games that have positions at move 30+ (likely endgame)
+      // Find games that reached an endgame by material (see analysis/endgames.ts)
       filtered = summaries
-        .filter(g => {
-          const maxMove = Math.max(...g.keyPositions.map(p => p.moveNo), 0);
-          return maxMove >= 30; // Game reached at least move 30
-        })
-        .sort((a, b) => {
-          // Prioritize games with more late-game positions
-          const aLatePositions = a.keyPositions.filter(p => p.moveNo >= 30).length;
-          const bLatePositions = b.keyPositions.filter(p => p.moveNo >= 30).length;
-          return bLatePositions - aLatePositions;
-        });
+        .map(g => ({ g, endgamePositions: g.keyPositions.filter(p => classifyEndgame(p.fen) !== null).length }))
+        .filter(x => x.endgamePositions > 0)
+        // Prioritize games with more endgame positions
+        .sort((a, b) => b.endgamePositions - a.endgamePositions)
+        .map(x => x.g);
       reason = 'games with endgame positions';
       break;
     }
     case 'blunders': {
       requestedFilter = 'games with mistakes';
-      // Look for games with large eval swings (indicates mistakes) since tags may not exist
+      // Rank games by the user's classified errors (blunders weigh most).
+      // Counted from the move labels so older summaries without counts still qualify.
       filtered = summaries
         .map(g => {
-          // Calculate max eval swing in the game
-          let maxSwing = 0;
-          for (const pos of g.keyPositions) {
-            if (pos.evalBefore !== null && pos.evalAfter !== null) {
-              const swing = Math.abs(pos.evalAfter - pos.evalBefore);
-              if (swing > maxSwing) maxSwing = swing;
-            }
-          }
-          return { game: g, maxSwing };
+          const errors = countUserErrors(g.keyPositions, g.userColor);
+          return { game: g, weight: errors.blunders * 3 + errors.mistakes };
         })
-        .filter(({ maxSwing }) => maxSwing > 150) // More than 1.5 pawns swing
-        .sort((a, b) => b.maxSwing - a.maxSwing)
+        .filter(({ weight }) => weight > 0)
+        .sort((a, b) => b.weight - a.weight)
         .map(({ game }) => game);
-
-      // Fall back to mistakes/blunders count if no eval swings found
-      if (filtered.length === 0) {
-        filtered = summaries
-          .filter(g => (g.mistakes || 0) + (g.blunders || 0) > 0)
-          .sort((a, b) => ((b.blunders || 0) + (b.mistakes || 0)) - ((a.blunders || 0) + (a.mistakes || 0)));
-      }
       reason = requestedFilter;
       break;
     }
@@ -684,6 +737,26 @@ function selectGames(
       reason = requestedFilter;
       break;
     }
+    case 'time_management': {
+      requestedFilter = 'games with clock data';
+      // Prefer games where the clock visibly cost something: time-scramble blunders or flagging while winning
+      const timeCost = (g: CompactGameSummaryT) =>
+        countTimeScrambleBlunders(g) + (lostOnTimeFromWinning(g) ? 3 : 0) + (g.termination === 'time' ? 1 : 0);
+      filtered = summaries
+        .filter(g => hasClockData(g))
+        .sort((a, b) => timeCost(b) - timeCost(a));
+      reason = 'games where the clock played a role';
+      break;
+    }
+    case 'variant': {
+      requestedFilter = `${variantLabel(questionType.variant)} games`;
+      // Already narrowed to the variant by gamesInScope - most recent first
+      filtered = summaries
+        .filter(g => g.variant === questionType.variant)
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+      reason = requestedFilter;
+      break;
+    }
     case 'general':
     default: {
       // For general questions, prioritize games with interesting positions
@@ -721,7 +794,8 @@ function selectGames(
     userRating: g.userRating,
     oppRating: g.oppRating,
     timeControl: g.timeControl.type,
-    chesscomUrl: g.chesscomUrl || null,
+    site: g.site,
+    gameUrl: g.gameUrl || null,
     relevanceReason: reason,
   }));
 
@@ -793,9 +867,10 @@ function generateAlternativeSuggestions(
 function scorePosition(
   pos: KeyPositionT,
   questionType: QuestionType,
-  gameResult: string
+  game: CompactGameSummaryT
 ): number {
   let score = 0;
+  const gameResult = game.result;
 
   // Eval swing is always important
   const evalBefore = pos.evalBefore ?? 0;
@@ -807,27 +882,39 @@ function scorePosition(
     score += swing * 20;
   }
 
-  // Tag-based relevance
-  if (pos.tag.includes('blunder')) {
-    score += 50;
+  // Move classification (the user's own errors are what they can learn from)
+  const label = getMoveClassification(pos);
+  const userMove = isUserMove(game, pos);
+  if (isBlunder(pos)) {
+    score += userMove ? 50 : 20;
   }
-  if (pos.tag.includes('mistake')) {
-    score += 30;
+  if (label === 'mistake') {
+    score += userMove ? 30 : 10;
   }
   if (pos.tag.includes('missed_tactic')) {
     score += 40;
   }
+  if (pos.tag.includes('allowed_tactic') && userMove) {
+    score += 20;
+  }
 
   // Question-specific boosts
-  if (questionType.kind === 'blunders') {
-    if (pos.tag.includes('blunder')) score += 100;
-    if (swing > 2) score += 50;
+  if (questionType.kind === 'blunders' && userMove) {
+    if (isBlunder(pos)) score += 100;
+    if (label === 'mistake') score += 50;
   }
 
   if (questionType.kind === 'opening' && pos.moveNo <= 15) {
     score += 30;
   }
 
+  // Time management: low-clock moves and big thinks
+  if (questionType.kind === 'time_management' && pos.clock !== null) {
+    if (pos.clock < TIME_SCRAMBLE_SECONDS) score += 40;
+    if (pos.clock < 30 && swing > 1) score += 60;
+    if (pos.timeSpent !== null && pos.timeSpent >= 30) score += 20;
+  }
+
   // Endgame: strongly prioritize late-game positions
   if (questionType.kind === 'endgame') {
     if (pos.moveNo >= 40) {
@@ -837,10 +924,18 @@ function scorePosition(
     } else if (pos.moveNo < 20) {
       score -= 30; // Penalize early positions
     }
+    // Actual endgame material, whatever the move number
+    if (classifyEndgame(pos.fen) !== null) {
+      score += 60;
+    }
     // Extra boost for positions with big eval swings in endgame (conversion issues)
     if (pos.moveNo >= 30 && swing > 1.5) {
       score += 40;
     }
+    // Tablebase-proven: the move gave away the theoretical result
+    if (pos.tablebase?.thrown) {
+      score += userMove ? 120 : 40;
+    }
   }
 
   // Prefer positions from losses (more to learn)
@@ -886,7 +981,7 @@ export function selectPositionsFromSummaries(
 
   for (const game of selectedGames) {
     for (const pos of game.keyPositions) {
-      const score = scorePosition(pos, questionType, game.result);
+      const score = scorePosition(pos, questionType, game);
       if (score > 0) {
         scoredPositions.push({ pos, game, score });
       }
@@ -946,8 +1041,16 @@ export function selectPositionsFromSummaries(
     const swing = cappedEvalAfter - cappedEvalBefore;
 
     // Build clear display reason - avoid confusing "Lost X pawns" terminology
+    const label = getMoveClassification(pos);
+    const userMove = isUserMove(game, pos);
+    const evalText = `eval: ${cappedEvalBefore > 0 ? '+' : ''}${cappedEvalBefore.toFixed(1)} → ${cappedEvalAfter > 0 ? '+' : ''}${cappedEvalAfter.toFixed(1)}`;
     let displayReason = '';
-    if (beforeIsMate || afterIsMate) {
+    const thrown = pos.tablebase?.thrown;
+    if (thrown) {
+      // Exact, so it comes before anything the evals suggest
+      const what = thrown === 'draw_to_loss' ? 'Turned a drawn ending into a loss' : `Threw away a tablebase win (${thrown === 'win_to_draw' ? 'now drawn' : 'now lost'})`;
+      displayReason = userMove ? what : `Opponent: ${what.charAt(0).toLowerCase()}${what.slice(1)}`;
+    } else if (beforeIsMate || afterIsMate) {
       // Mate-related position
       if (afterIsMate && !beforeIsMate) {
         displayReason = cappedEvalAfter > 0 ? 'Checkmate threat created' : 'Allowed checkmate';
@@ -956,32 +1059,31 @@ export function selectPositionsFromSummaries(
       } else {
         displayReason = 'Critical position';
       }
-    } else if (Math.abs(swing) > 2) {
-      // Significant eval swing - use clearer terminology
-      const absSwing = Math.abs(swing).toFixed(1);
-      if (swing < 0) {
-        if (Math.abs(swing) >= 5) {
-          displayReason = `Major blunder (eval: ${cappedEvalBefore > 0 ? '+' : ''}${cappedEvalBefore.toFixed(1)} → ${cappedEvalAfter > 0 ? '+' : ''}${cappedEvalAfter.toFixed(1)})`;
-        } else {
-          displayReason = `Mistake (eval dropped ${absSwing} points)`;
-        }
-      } else {
-        if (Math.abs(swing) >= 5) {
-          displayReason = `Opponent blundered (eval: ${cappedEvalBefore > 0 ? '+' : ''}${cappedEvalBefore.toFixed(1)} → ${cappedEvalAfter > 0 ? '+' : ''}${cappedEvalAfter.toFixed(1)})`;
-        } else {
-          displayReason = `Good move (eval gained ${absSwing} points)`;
-        }
-      }
-    } else if (pos.tag.includes('blunder')) {
-      displayReason = 'Blunder';
-    } else if (pos.tag.includes('mistake')) {
-      displayReason = 'Mistake';
+    } else if (label === 'missed_win') {
+      displayReason = userMove ? `Missed win (${evalText})` : `Opponent let a win slip (${evalText})`;
+    } else if (label === 'blunder') {
+      displayReason = userMove ? `Blunder (${evalText})` : `Opponent blundered (${evalText})`;
+    } else if (label === 'mistake') {
+      displayReason = userMove ? `Mistake (${evalText})` : `Opponent mistake (${evalText})`;
+    } else if (label === 'inaccuracy' && userMove) {
+      displayReason = `Inaccuracy (${evalText})`;
     } else if (pos.tag.includes('missed_tactic')) {
       displayReason = 'Missed tactic';
     } else {
       displayReason = 'Key position';
     }
 
+    // Name the tactic behind it ("Blunder (...) - missed knight fork")
+    const tactic = pos.tactics.find(t => t.kind === 'missed') ?? pos.tactics[0];
+    if (tactic && !thrown) {
+      const named = `${tactic.kind} ${describeTactic(tactic)}`;
+      displayReason = displayReason === 'Missed tactic'
+        ? `Missed ${describeTactic(tactic)}`
+        : `${displayReason} - ${named}`;
+    }
+
+    const best = pos.alternatives[0];
+
     return {
       fen: pos.fen,
       gameId: game.gameId,
@@ -989,10 +1091,16 @@ export function selectPositionsFromSummaries(
       moveNumber: pos.moveNo,
       side: pos.side,
       movePlayed: pos.move || null,
-      bestMove: pos.bestMove || null,
+      bestMove: pos.alternatives[0]?.move ?? pos.bestMove ?? null,
+      alternatives: pos.alternatives,
+      bestLine: best && best.move !== pos.move ? formatLine(best.line, pos.moveNo, pos.side) : null,
       evalBefore: cappedEvalBefore,
       evalAfter: cappedEvalAfter,
       evalSwing: swing,
+      clock: pos.clock,
+      timeSpent: pos.timeSpent,
+      tablebase: pos.tablebase,
+      tactics: pos.tactics,
       displayReason,
     };
   });
@@ -1010,7 +1118,7 @@ function computeStatistics(
   const losses = summaries.filter(g => g.result === 'loss').length;
   const draws = summaries.filter(g => g.result === 'draw').length;
 
-  const totalBlunders = summaries.reduce((sum, g) => sum + (g.blunders || 0), 0);
+  const totalBlunders = summaries.reduce((sum, g) => sum + countUserErrors(g.keyPositions, g.userColor).blunders, 0);
   const avgBlundersPerGame = totalGames > 0 ? totalBlunders / totalGames : 0;
 
   let relevantStat: string | null = null;
@@ -1019,12 +1127,10 @@ function computeStatistics(
     case 'opening': {
       const openingMatch = questionType.openingMatch;
 
-      // Use ECO matching if available
+      // Use the ECO tree hierarchy if available
       const openingGames = summaries.filter(g => {
-        if (openingMatch.family && g.opening.eco) {
-          if (isEcoInFamily(g.opening.eco, openingMatch.family)) {
-            return true;
-          }
+        if (gameMatchesOpening(g.opening, openingMatch)) {
+          return true;
         }
         // Fallback to name matching
         return g.opening.name?.toLowerCase().includes(questionType.opening);
@@ -1034,7 +1140,7 @@ function computeStatistics(
       if (openingGames.length > 0) {
         const winRate = ((openingWins / openingGames.length) * 100).toFixed(0);
         const openingName = openingMatch.opening?.name || questionType.opening;
-        relevantStat = `${winRate}% win rate in ${openingGames.length} ${openingName} games`;
+        relevantStat = `${winRate}% win rate in ${openingGames.length} ${openingName} games${performanceNote(openingGames)}`;
       }
       break;
     }
@@ -1043,7 +1149,7 @@ function computeStatistics(
       const tcWins = tcGames.filter(g => g.result === 'win').length;
       if (tcGames.length > 0) {
         const winRate = ((tcWins / tcGames.length) * 100).toFixed(0);
-        relevantStat = `${winRate}% win rate in ${tcGames.length} ${questionType.timeControl} games`;
+        relevantStat = `${winRate}% win rate in ${tcGames.length} ${questionType.timeControl} games${performanceNote(tcGames)}`;
       }
       break;
     }
@@ -1051,6 +1157,21 @@ function computeStatistics(
       relevantStat = `Average ${avgBlundersPerGame.toFixed(1)} blunders per game`;
       break;
     }
+    case 'time_management': {
+      const clockGames = summaries.filter(g => hasClockData(g));
+      const scrambleBlunders = clockGames.reduce((sum, g) => sum + countTimeScrambleBlunders(g), 0);
+      if (clockGames.length > 0) {
+        relevantStat = `${scrambleBlunders} blunders with under 2 minutes left across ${clockGames.length} games with clock data`;
+      }
+      break;
+    }
+    case 'variant': {
+      if (totalGames > 0) {
+        const winRate = ((wins / totalGames) * 100).toFixed(0);
+        relevantStat = `${winRate}% win rate in ${totalGames} ${variantLabel(questionType.variant)} games`;
+      }
+      break;
+    }
   }
 
   return {
@@ -1086,6 +1207,16 @@ function buildCoachingContext(
   if (profile?.overall.trend) {
     lines.push(`Trend: ${profile.overall.trend}`);
   }
+  if (profile?.performance) {
+    const { overall, white, black } = profile.performance;
+    lines.push(`Against the ratings: ${formatPerformance(overall)}`);
+    if (white && black) {
+      lines.push(`  As White: ${formatPerformance(white)}; as Black: ${formatPerformance(black)}`);
+    }
+  }
+  if (profile?.training && profile.training.reviews > 0) {
+    lines.push(`Position reviews (spaced repetition): ${formatTraining(profile.training)}`);
+  }
   lines.push('');
 
   // PROFILE-BASED PATTERNS (holistic view across all games)
@@ -1128,19 +1259,64 @@ function buildCoachingContext(
         lines.push(`OPENING PROFILE - ${matchingOpening.name}:`);
         lines.push(`  Games: ${matchingOpening.gamesPlayed} (${matchingOpening.asWhite}W/${matchingOpening.asBlack}B)`);
         lines.push(`  Record: ${matchingOpening.wins}W-${matchingOpening.losses}L-${matchingOpening.draws}D (${matchingOpening.winRate.toFixed(0)}%)`);
+        if (matchingOpening.performance) {
+          lines.push(`  Against the ratings: ${formatPerformance(matchingOpening.performance)}`);
+        }
         lines.push(`  Avg mistakes/game: ${matchingOpening.avgMistakesPerGame.toFixed(1)}`);
         if (matchingOpening.typicalDeviationMove) {
           lines.push(`  Typical deviation from book: move ${matchingOpening.typicalDeviationMove}`);
         }
         if (matchingOpening.isWeakness) {
-          lines.push(`  ⚠️ This is a WEAK opening for you (below average win rate)`);
+          lines.push(`  ⚠️ This is a WEAK opening for you (scores below expectation)`);
         } else if (matchingOpening.isStrength) {
-          lines.push(`  ✓ This is a STRONG opening for you (above average win rate)`);
+          lines.push(`  ✓ This is a STRONG opening for you (scores above expectation)`);
         }
         lines.push('');
       }
     }
 
+    // Clock-based time management for time questions
+    if (
+      (questionType.kind === 'time_management' || questionType.kind === 'time_control') &&
+      profile.timeManagement
+    ) {
+      const tm = profile.timeManagement;
+      lines.push(`TIME MANAGEMENT (${tm.gamesWithClockData} games with clock data):`);
+      if (tm.avgTimePerMove !== null) {
+        lines.push(`  Avg time per move: ${tm.avgTimePerMove.toFixed(1)}s`);
+      }
+      const rates = tm.blunderRateByTimeLeft
+        .filter(b => b.moves > 0)
+        .map(b => `${b.label}: ${b.blunderRate.toFixed(0)}% (${b.blunders}/${b.moves})`);
+      if (rates.length > 0) {
+        lines.push(`  Blunder rate by time left: ${rates.join(', ')}`);
+      }
+      if (tm.accuracyLast2Min !== null && tm.accuracyOtherwise !== null) {
+        lines.push(`  Accuracy under 2 min: ${tm.accuracyLast2Min.toFixed(0)}% vs ${tm.accuracyOtherwise.toFixed(0)}% otherwise`);
+      }
+      if (tm.slowEasyMoves.count > 0) {
+        lines.push(`  Slow moves in easy positions: ${tm.slowEasyMoves.count} (${Math.round(tm.slowEasyMoves.totalTimeSpent / 60)} min total)`);
+        for (const ex of tm.slowEasyMoves.examples) {
+          lines.push(`    - Move ${ex.moveNumber}: ${ex.description}`);
+        }
+      }
+      lines.push(`  Losses on time: ${tm.lossesOnTime} (${tm.lossesOnTimeFromWinning.count} from a winning position)`);
+      for (const ex of tm.lossesOnTimeFromWinning.examples) {
+        lines.push(`    - ${ex.description}`);
+      }
+      lines.push('');
+    }
+
+    // Variant results next to standard play, so the coach can compare them
+    if (questionType.kind === 'variant' && profile.variants.length > 0) {
+      lines.push(`VARIANTS (kept separate from standard stats):`);
+      for (const v of profile.variants) {
+        const rating = v.currentRating !== null ? `, rating ${v.currentRating}` : '';
+        lines.push(`  ${variantLabel(v.variant)}: ${v.gamesPlayed} games, ${v.wins}W-${v.losses}L-${v.draws}D (${v.winRate.toFixed(0)}%)${rating}, ${v.avgBlundersPerGame.toFixed(1)} blunders/game`);
+      }
+      lines.push('');
+    }
+
     // Phase-specific profile data for endgame questions
     if (questionType.kind === 'endgame' && profile.phases.length > 0) {
       const endgamePhase = profile.phases.find(p => p.phase === 'endgame');
@@ -1159,6 +1335,15 @@ function buildCoachingContext(
         lines.push('');
       }
     }
+
+    // Results by endgame type, with conversion of winning endings
+    if (questionType.kind === 'endgame' && profile.endgames.length > 0) {
+      lines.push(`ENDGAME TYPES:`);
+      for (const e of profile.endgames) {
+        lines.push(`  ${formatEndgameType(e)}`);
+      }
+      lines.push('');
+    }
   }
 
   // Selected games (specific examples)
@@ -1169,8 +1354,8 @@ function buildCoachingContext(
       lines.push(`${resultEmoji} vs ${game.opponent} (${game.date})`);
       lines.push(`  Opening: ${game.opening.name || game.opening.eco || 'Unknown'}`);
       lines.push(`  Result: ${game.result} as ${game.userColor}`);
-      if (game.chesscomUrl) {
-        lines.push(`  Link: ${game.chesscomUrl}`);
+      if (game.gameUrl) {
+        lines.push(`  Link: ${game.gameUrl}`);
       }
     }
     lines.push('');
@@ -1186,7 +1371,26 @@ function buildCoachingContext(
       if (pos.movePlayed) {
         lines.push(`  Played: ${pos.movePlayed}${pos.bestMove ? `, Better: ${pos.bestMove}` : ''}`);
       }
+      if (pos.alternatives.length > 0) {
+        const sound = soundAlternatives(pos.alternatives, pos.side).map(l => l.move);
+        lines.push(`  Engine's top moves: ${formatAlternatives(pos.alternatives)}`);
+        if (sound.length > 1) {
+          lines.push(`  Equally good options: ${sound.join(', ')}`);
+        }
+      }
+      if (pos.bestLine) {
+        lines.push(`  Best line: ${pos.bestLine}`);
+      }
       lines.push(`  Eval: ${pos.evalBefore.toFixed(1)} → ${pos.evalAfter.toFixed(1)} (${pos.evalSwing > 0 ? '+' : ''}${pos.evalSwing.toFixed(1)})`);
+      if (pos.clock !== null) {
+        lines.push(`  Clock: ${Math.round(pos.clock)}s left${pos.timeSpent !== null ? `, spent ${Math.round(pos.timeSpent)}s` : ''}`);
+      }
+      if (pos.tablebase) {
+        lines.push(`  Tablebase (exact, overrules the eval): ${formatTablebase(pos.tablebase)}`);
+      }
+      if (pos.tactics.length > 0) {
+        lines.push(`  Tactics: ${formatTactics(pos.tactics)}`);
+      }
     }
     lines.push('');
   }
@@ -1200,6 +1404,62 @@ function buildCoachingContext(
   return lines.join('\n');
 }
 
+/**
+ * "theoretically won → drawn for the mover (12 plies to a capture or pawn move) - the move gave the result away"
+ */
+function formatTablebase(tb: KeyPositionTablebaseT): string {
+  const result = tb.before ? `${tb.before} → ${tb.after}` : tb.after;
+  const dtz = tb.dtz ? ` (${Math.abs(tb.dtz)} plies to a capture or pawn move)` : '';
+  return `theoretically ${result} for the mover${dtz}${tb.thrown ? ' - the move gave the result away' : ''}`;
+}
+
+/**
+ * "missed knight fork (in the best line); allowed back-rank mate (in the opponent's reply)"
+ */
+function formatTactics(tactics: TacticT[]): string {
+  return tactics
+    .map(t => `${t.kind} ${describeTactic(t)} (${t.kind === 'missed' ? 'in the best line' : "in the opponent's reply"})`)
+    .join('; ');
+}
+
+/**
+ * "Rook endings: 12 games, 5W-4D-3L, converted 3/10 winning (30%), saved 1/4 losing"
+ */
+function formatEndgameType(stats: EndgameTypeStatsT): string {
+  const parts = [`${stats.games} games`, `${stats.wins}W-${stats.draws}D-${stats.losses}L`];
+  if (stats.winning.games > 0) {
+    parts.push(`converted ${stats.winning.converted}/${stats.winning.games} winning (${stats.conversionRate}%)`);
+  }
+  if (stats.losing.games > 0) {
+    parts.push(`saved ${stats.losing.saved}/${stats.losing.games} losing`);
+  }
+  if (stats.avgEntryEval !== null) {
+    parts.push(`avg eval at entry ${stats.avgEntryEval >= 0 ? '+' : ''}${stats.avgEntryEval.toFixed(1)}`);
+  }
+  return `${ENDGAME_LABELS[stats.type]}: ${parts.join(', ')}`;
+}
+
+/**
+ * " (performance 1640, +8% vs the ratings' prediction)", or '' without rated games
+ */
+function performanceNote(games: CompactGameSummaryT[]): string {
+  const performance = computePerformance(games);
+  if (!performance) return '';
+  const sign = performance.scoreVsExpected >= 0 ? '+' : '';
+  return ` (performance ${performance.performanceRating}, ${sign}${performance.scoreVsExpected}% vs the ratings' prediction)`;
+}
+
+/**
+ * "62% right over 40 reviews (openings 45%, endgames 80%), 12 due today"
+ */
+function formatTraining(training: TrainingStatsT): string {
+  const byKind = training.byKind
+    .filter(k => k.accuracy !== null)
+    .map(k => `${k.kind === 'mistake' ? 'mistakes' : `${k.kind}s`} ${k.accuracy}%`);
+  const kinds = byKind.length > 0 ? ` (${byKind.join(', ')})` : '';
+  return `${training.accuracy}% right over ${training.reviews} reviews${kinds}, ${training.dueToday} due today`;
+}
+
 /**
  * Get patterns relevant to the question type
  */
@@ -1217,6 +1477,8 @@ function getRelevantPatterns(
       return patterns.filter(p => p.category === 'endgame' || p.category === 'positional');
     case 'blunders':
       return patterns.filter(p => p.category === 'tactical');
+    case 'time_management':
+      return patterns.filter(p => p.category === 'time');
     default:
       // For general questions, return top patterns by severity
       return patterns.slice(0, 3);
@@ -1324,7 +1586,7 @@ export function computeMetaResponse(
     }));
 
   // Blunders and mistakes
-  const totalBlunders = summaries.reduce((sum, g) => sum + (g.blunders || 0), 0);
+  const totalBlunders = summaries.reduce((sum, g) => sum + countUserErrors(g.keyPositions, g.userColor).blunders, 0);
   const totalMistakes = summaries.reduce((sum, g) => sum + (g.mistakes || 0), 0);
   const avgBlundersPerGame = totalGames > 0 ? totalBlunders / totalGames : 0;
   const avgMistakesPerGame = totalGames > 0 ? totalMistakes / totalGames : 0;
@@ -1363,7 +1625,7 @@ export function formatMetaResponse(data: MetaResponseData): string {
 
   switch (data.type) {
     case 'count':
-      lines.push(`I have **${data.totalGames} games** from your Chess.com history.`);
+      lines.push(`I have **${data.totalGames} games** from your game history.`);
       if (data.dateRange) {
         lines.push(`These games span from ${data.dateRange.oldest} to ${data.dateRange.newest}.`);
       }
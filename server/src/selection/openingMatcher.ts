@@ -1,9 +1,18 @@
 /**
  * Fuzzy Opening Matcher
- * Provides accurate opening detection using multiple matching strategies
+ * Provides accurate opening detection using multiple matching strategies.
+ * Openings come from the ECO tree (family → variation), so a question about
+ * "the Najdorf" resolves to Sicilian Defense: Najdorf Variation.
  */
 
-import { ECO_DATABASE, OPENING_FAMILIES, getEcoCodesForFamily, type OpeningInfo } from '../data/ecoDatabase';
+import { getFamilies, openingHierarchy } from '../openings/ecoTree';
+import type { CompactGameSummaryT } from '../summaries/schemas';
+
+export interface OpeningInfo {
+  name: string;               // "Family" or "Family: Variation"
+  family: string;
+  variation: string | null;
+}
 
 export interface OpeningMatch {
   matched: boolean;
@@ -12,94 +21,189 @@ export interface OpeningMatch {
   matchType: 'exact' | 'alias' | 'partial' | 'family' | 'fuzzy' | 'none';
   ecoCodes: string[];  // All ECO codes that should match
   family: string | null;
+  variation: string | null;
+}
+
+interface OpeningEntry extends OpeningInfo {
+  keyword: string;      // Distinctive part of the name, e.g. "sicilian", "najdorf"
+  ecoCodes: string[];
+  positions: number;    // Named positions in the family (tie-breaker for popularity)
+}
+
+// Names players use that don't appear in the dataset names
+const ALIASES: Record<string, string> = {
+  'spanish': 'Ruy Lopez',
+  'petroff': "Petrov's Defense",
+  'russian game': "Petrov's Defense",
+  'kid': "King's Indian Defense",
+  'qgd': "Queen's Gambit Declined",
+  'qga': "Queen's Gambit Accepted",
+  'nimzo': 'Nimzo-Indian Defense',
+  'caro': 'Caro-Kann Defense',
+  'scandi': 'Scandinavian Defense',
+  'center counter': 'Scandinavian Defense',
+  'fried liver': 'Italian Game: Two Knights Defense',
+  'giuoco piano': 'Italian Game: Giuoco Piano',
+  'morra': 'Sicilian Defense: Smith-Morra Gambit',
+  'jobava': 'Rapport-Jobava System',
+};
+
+// Trailing words too generic to identify an opening on their own
+const GENERIC_SUFFIXES = new Set(['defense', 'opening', 'game', 'variation', 'system', 'line']);
+
+let entries: OpeningEntry[] | null = null;
+
+/**
+ * Lowercase, strip accents (Grünfeld → grunfeld), apostrophes and hyphens
+ * (King's → kings, Caro-Kann → caro kann), British spelling
+ */
+function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/defence/g, 'defense')
+    .replace(/'/g, '')
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function keywordFor(name: string): string {
+  const words = normalize(name).split(' ');
+  if (words.length > 1 && GENERIC_SUFFIXES.has(words[words.length - 1])) words.pop();
+  return words.join(' ');
+}
+
+function containsWords(text: string, phrase: string): boolean {
+  return phrase.length >= 3 && ` ${text} `.includes(` ${phrase} `);
 }
 
 /**
- * Match an opening name/query to ECO codes using multiple strategies
- * Strategies tried in order: exact → alias → partial → family keyword → fuzzy
+ * Family and variation entries from the ECO tree (subvariations are too fine
+ * for questions and stats)
+ */
+function getEntries(): OpeningEntry[] {
+  if (entries) return entries;
+  entries = [];
+  for (const fam of getFamilies()) {
+    entries.push({
+      name: fam.name,
+      family: fam.name,
+      variation: null,
+      keyword: keywordFor(fam.name),
+      ecoCodes: [...fam.ecoCodes].sort(),
+      positions: fam.positions,
+    });
+    for (const v of fam.variations.values()) {
+      entries.push({
+        name: `${fam.name}: ${v.name}`,
+        family: fam.name,
+        variation: v.name,
+        keyword: keywordFor(v.name),
+        ecoCodes: [...v.ecoCodes].sort(),
+        positions: fam.positions,
+      });
+    }
+  }
+  return entries;
+}
+
+function findEntry(name: string): OpeningEntry | undefined {
+  return getEntries().find(e => e.name === name);
+}
+
+function toMatch(entry: OpeningEntry, confidence: number, matchType: OpeningMatch['matchType']): OpeningMatch {
+  return {
+    matched: true,
+    opening: { name: entry.name, family: entry.family, variation: entry.variation },
+    confidence,
+    matchType,
+    ecoCodes: entry.ecoCodes,
+    family: entry.family,
+    variation: entry.variation,
+  };
+}
+
+/**
+ * Longest keyword wins ("king's indian" over "indian"), then the bigger family
+ */
+function bestByKeyword(candidates: OpeningEntry[]): OpeningEntry | null {
+  return [...candidates].sort((a, b) => b.keyword.length - a.keyword.length || b.positions - a.positions)[0] ?? null;
+}
+
+/**
+ * Match an opening name/query to the ECO tree using multiple strategies
+ * Strategies tried in order: exact → alias → family/variation keyword → partial → fuzzy
  */
 export function matchOpening(query: string): OpeningMatch {
-  const normalized = query.toLowerCase().trim();
+  const normalized = normalize(query);
 
   if (!normalized || normalized.length < 2) {
     return noMatch();
   }
 
+  const all = getEntries();
+
   // Strategy 1: Exact name match
-  const exactMatch = ECO_DATABASE.find(o =>
-    o.name.toLowerCase() === normalized
-  );
+  const exactMatch = all.find(e => normalize(e.name) === normalized);
   if (exactMatch) {
-    return {
-      matched: true,
-      opening: exactMatch,
-      confidence: 1.0,
-      matchType: 'exact',
-      ecoCodes: getEcoCodesForFamily(exactMatch.family),
-      family: exactMatch.family,
-    };
+    return toMatch(exactMatch, 1.0, 'exact');
   }
 
   // Strategy 2: Exact alias match
-  const aliasMatch = ECO_DATABASE.find(o =>
-    o.aliases.some(alias => alias.toLowerCase() === normalized)
-  );
-  if (aliasMatch) {
-    return {
-      matched: true,
-      opening: aliasMatch,
-      confidence: 0.95,
-      matchType: 'alias',
-      ecoCodes: getEcoCodesForFamily(aliasMatch.family),
-      family: aliasMatch.family,
-    };
+  const aliasTarget = ALIASES[normalized] && findEntry(ALIASES[normalized]);
+  if (aliasTarget) {
+    return toMatch(aliasTarget, 0.95, 'alias');
   }
 
-  // Strategy 3: Check for family keywords (e.g., "sicilian" anywhere in query)
-  for (const [familyName, familyInfo] of Object.entries(OPENING_FAMILIES)) {
-    for (const keyword of familyInfo.keywords) {
-      if (normalized.includes(keyword)) {
-        // Find the main opening for this family
-        const mainOpening = ECO_DATABASE.find(o => o.family === familyName);
-        return {
-          matched: true,
-          opening: mainOpening || null,
-          confidence: 0.9,
-          matchType: 'family',
-          ecoCodes: getEcoCodesForFamily(familyName),
-          family: familyName,
-        };
-      }
+  // Strategy 3: Family keyword anywhere in the query ("sicilian"), narrowed to a
+  // variation of that family if one is named too ("sicilian dragon")
+  const aliasHits = Object.entries(ALIASES)
+    .filter(([alias]) => containsWords(normalized, alias))
+    .map(([, target]) => findEntry(target))
+    .filter((e): e is OpeningEntry => !!e);
+  const familyHit = bestByKeyword([
+    ...all.filter(e => !e.variation && containsWords(normalized, e.keyword)),
+    ...aliasHits.filter(e => !e.variation),
+  ]);
+
+  if (familyHit) {
+    const variationHit = bestByKeyword(
+      all.filter(e => e.family === familyHit.family && e.variation && containsWords(normalized, e.keyword))
+    );
+    // Naming the variation too is more specific than the family alone
+    return variationHit ? toMatch(variationHit, 0.92, 'family') : toMatch(familyHit, 0.9, 'family');
+  }
+
+  // A variation named on its own ("najdorf") - only if the name belongs to one family
+  const variationHits = [
+    ...all.filter(e => e.variation && containsWords(normalized, e.keyword)),
+    ...aliasHits.filter(e => e.variation),
+  ];
+  const variationHit = bestByKeyword(variationHits);
+  if (variationHit) {
+    const families = new Set(variationHits.filter(e => e.keyword === variationHit.keyword).map(e => e.family));
+    if (families.size === 1) {
+      return toMatch(variationHit, 0.85, 'family');
     }
   }
 
   // Strategy 4: Partial/contains match (name contains query or query contains name)
-  const partialMatches: Array<{ opening: OpeningInfo; score: number }> = [];
+  const partialMatches: Array<{ entry: OpeningEntry; score: number }> = [];
 
-  for (const opening of ECO_DATABASE) {
-    const nameLower = opening.name.toLowerCase();
+  for (const entry of all) {
+    const nameLower = normalize(entry.name);
 
     // Check if query is contained in opening name
     if (nameLower.includes(normalized)) {
       const score = normalized.length / nameLower.length; // Longer match = better
-      partialMatches.push({ opening, score: score * 0.85 });
+      partialMatches.push({ entry, score: score * 0.85 });
     }
     // Check if opening name is contained in query
     else if (normalized.includes(nameLower)) {
       const score = nameLower.length / normalized.length;
-      partialMatches.push({ opening, score: score * 0.8 });
-    }
-
-    // Check aliases
-    for (const alias of opening.aliases) {
-      const aliasLower = alias.toLowerCase();
-      if (aliasLower.includes(normalized)) {
-        const score = normalized.length / aliasLower.length;
-        partialMatches.push({ opening, score: score * 0.82 });
-      } else if (normalized.includes(aliasLower)) {
-        const score = aliasLower.length / normalized.length;
-        partialMatches.push({ opening, score: score * 0.78 });
-      }
+      partialMatches.push({ entry, score: score * 0.8 });
     }
   }
 
@@ -108,14 +212,7 @@ export function matchOpening(query: string): OpeningMatch {
     partialMatches.sort((a, b) => b.score - a.score);
     const best = partialMatches[0];
     if (best.score > 0.5) {
-      return {
-        matched: true,
-        opening: best.opening,
-        confidence: best.score,
-        matchType: 'partial',
-        ecoCodes: getEcoCodesForFamily(best.opening.family),
-        family: best.opening.family,
-      };
+      return toMatch(best.entry, best.score, 'partial');
     }
   }
 
@@ -129,29 +226,21 @@ export function matchOpening(query: string): OpeningMatch {
 }
 
 /**
- * Find fuzzy match using Levenshtein distance
+ * Find fuzzy match using Levenshtein distance against names and keywords
  */
 function findFuzzyMatch(query: string): OpeningMatch | null {
-  let bestMatch: OpeningInfo | null = null;
+  let bestMatch: OpeningEntry | null = null;
   let bestDistance = Infinity;
   let bestTarget = '';
 
-  for (const opening of ECO_DATABASE) {
-    // Check name
-    const nameDistance = levenshteinDistance(query, opening.name.toLowerCase());
-    if (nameDistance < bestDistance) {
-      bestDistance = nameDistance;
-      bestMatch = opening;
-      bestTarget = opening.name;
-    }
-
-    // Check aliases
-    for (const alias of opening.aliases) {
-      const aliasDistance = levenshteinDistance(query, alias.toLowerCase());
-      if (aliasDistance < bestDistance) {
-        bestDistance = aliasDistance;
-        bestMatch = opening;
-        bestTarget = alias;
+  for (const entry of getEntries()) {
+    for (const target of [normalize(entry.name), entry.keyword]) {
+      if (Math.abs(target.length - query.length) > 3) continue; // Can't be within 3 edits
+      const distance = levenshteinDistance(query, target);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestMatch = entry;
+        bestTarget = target;
       }
     }
   }
@@ -160,20 +249,23 @@ function findFuzzyMatch(query: string): OpeningMatch | null {
   if (bestMatch && bestDistance <= 3) {
     const maxLen = Math.max(query.length, bestTarget.length);
     const confidence = 1 - (bestDistance / maxLen);
-
-    return {
-      matched: true,
-      opening: bestMatch,
-      confidence: Math.max(0.65, confidence * 0.85), // Cap confidence for fuzzy matches
-      matchType: 'fuzzy',
-      ecoCodes: getEcoCodesForFamily(bestMatch.family),
-      family: bestMatch.family,
-    };
+    return toMatch(bestMatch, Math.max(0.65, confidence * 0.85), 'fuzzy'); // Cap confidence for fuzzy matches
   }
 
   return null;
 }
 
+/**
+ * Does a game's opening fall under a match? Compares the game's family (and
+ * variation, if the match names one) from the ECO tree.
+ */
+export function gameMatchesOpening(opening: CompactGameSummaryT['opening'], match: OpeningMatch): boolean {
+  if (!match.family) return false;
+  const game = openingHierarchy(opening);
+  if (game.family !== match.family) return false;
+  return !match.variation || game.variation === match.variation;
+}
+
 /**
  * Calculate Levenshtein distance between two strings
  */
@@ -219,6 +311,7 @@ function noMatch(): OpeningMatch {
     matchType: 'none',
     ecoCodes: [],
     family: null,
+    variation: null,
   };
 }
 
@@ -228,7 +321,6 @@ function noMatch(): OpeningMatch {
  */
 export function extractOpeningCandidates(question: string): string[] {
   const candidates: string[] = [];
-  const normalized = question.toLowerCase();
 
   // Pattern 1: "in the X" or "with the X" or "about the X"
   const patterns = [
@@ -246,12 +338,20 @@ export function extractOpeningCandidates(question: string): string[] {
     }
   }
 
-  // Pattern 2: Check for any known opening keywords
-  for (const familyInfo of Object.values(OPENING_FAMILIES)) {
-    for (const keyword of familyInfo.keywords) {
-      if (normalized.includes(keyword)) {
-        candidates.push(keyword);
-      }
+  // Pattern 2: Check for any known opening family keywords or aliases
+  // (skipping ones inside a longer hit - "indian" in "king's indian")
+  const normalized = normalize(question);
+  const keywordHits = getEntries()
+    .filter(e => !e.variation && containsWords(normalized, e.keyword))
+    .map(e => e.keyword);
+  for (const keyword of keywordHits) {
+    if (!keywordHits.some(other => other !== keyword && containsWords(other, keyword))) {
+      candidates.push(keyword);
+    }
+  }
+  for (const alias of Object.keys(ALIASES)) {
+    if (containsWords(normalized, alias)) {
+      candidates.push(alias);
     }
   }
 
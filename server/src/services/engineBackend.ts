@@ -0,0 +1,142 @@
+/**
+ * Engine Backends
+ *
+ * Ways to start a UCI Stockfish process for the engine pool:
+ * - native: the system binary (STOCKFISH_PATH, default `stockfish` on the PATH)
+ * - wasm: the bundled stockfish.js WebAssembly build, run in a Node child process
+ *   that bridges stdin/stdout to its web-worker interface - slower and single
+ *   threaded, but always there
+ *
+ * STOCKFISH_BACKEND picks one (native | wasm); by default the native binary is
+ * used when it answers and the WASM build otherwise. Other registered UCI
+ * engines (engineProfiles.ts) always run natively from their configured path.
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { createRequire } from 'module';
+import * as os from 'os';
+import * as path from 'path';
+import type { EngineDefinition } from './engineProfiles';
+
+export type EngineBackendName = 'native' | 'wasm';
+
+export interface EngineBackend {
+  name: EngineBackendName;
+  description: string;        // For logs and /health
+  defaultPoolSize: number;    // Used when STOCKFISH_POOL_SIZE isn't set
+  spawn(): ChildProcess;
+}
+
+const PROBE_TIMEOUT_MS = 3000;
+
+function nativeBackend(enginePath: string, args: string[], defaultPoolSize: number): EngineBackend {
+  return {
+    name: 'native',
+    description: `native (${enginePath})`,
+    defaultPoolSize,
+    spawn: () => spawn(enginePath, args, { stdio: ['pipe', 'pipe', 'pipe'] }),
+  };
+}
+
+function stockfishNativeBackend(engine: EngineDefinition): EngineBackend {
+  // On macOS with Homebrew: /opt/homebrew/bin/stockfish
+  // On Linux: usually /usr/bin/stockfish or /usr/games/stockfish
+  const stockfishPath = engine.path || process.env.STOCKFISH_PATH || 'stockfish';
+  return nativeBackend(stockfishPath, engine.args, 32);
+}
+
+/**
+ * The stockfish.js build expects to run as a web worker (onmessage/postMessage).
+ * This bridge provides those on top of stdin/stdout. fetch is removed so the
+ * .wasm file is read from disk next to the script (the child runs in its directory).
+ */
+function wasmBridge(script: string): string {
+  return `
+globalThis.fetch = undefined;
+globalThis.postMessage = (line) => process.stdout.write(line + '\\n');
+globalThis.close = () => process.exit(0);
+require(${JSON.stringify(script)});
+require('readline').createInterface({ input: process.stdin })
+  .on('line', (cmd) => globalThis.onmessage({ data: cmd }));
+`;
+}
+
+function wasmBackend(): EngineBackend | null {
+  let script: string;
+  try {
+    script = createRequire(import.meta.url).resolve('stockfish.js/stockfish.wasm.js');
+  } catch {
+    return null;
+  }
+  return {
+    name: 'wasm',
+    description: 'wasm (bundled stockfish.js)',
+    // One search thread per process - more than the core count only adds memory
+    defaultPoolSize: Math.max(1, Math.min(8, os.cpus().length)),
+    spawn: () => spawn(process.execPath, ['-e', wasmBridge(script)], {
+      cwd: path.dirname(script),
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }),
+  };
+}
+
+/**
+ * Start the backend once and check it answers `uci` with `uciok`
+ */
+function probe(backend: EngineBackend): Promise<boolean> {
+  return new Promise((resolve) => {
+    let engine: ChildProcess;
+    try {
+      engine = backend.spawn();
+    } catch {
+      resolve(false);
+      return;
+    }
+
+    let done = false;
+    const finish = (ok: boolean) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timeout);
+      engine.stdin?.write('quit\n');
+      engine.kill();
+      resolve(ok);
+    };
+    const timeout = setTimeout(() => finish(false), PROBE_TIMEOUT_MS);
+
+    engine.on('error', () => finish(false));
+    engine.stdout?.on('data', (data: Buffer) => {
+      if (data.toString().includes('uciok')) finish(true);
+    });
+    engine.stdin?.on('error', () => {});
+    engine.stdin?.write('uci\n');
+  });
+}
+
+/**
+ * Pick the backend for an engine. For Stockfish: the one STOCKFISH_BACKEND (or
+ * the engine's `backend`) names, else native if the binary works, else the
+ * bundled WASM build. Null when nothing runs.
+ */
+export async function selectEngineBackend(engine: EngineDefinition): Promise<EngineBackend | null> {
+  let candidates: (EngineBackend | null)[];
+  if (engine.name !== 'stockfish') {
+    candidates = [nativeBackend(engine.path!, engine.args, 4)];
+  } else {
+    const requested = (engine.backend || process.env.STOCKFISH_BACKEND || 'auto').toLowerCase();
+    candidates =
+      requested === 'native' ? [stockfishNativeBackend(engine)] :
+      requested === 'wasm' ? [wasmBackend()] :
+      [stockfishNativeBackend(engine), wasmBackend()];
+  }
+
+  for (const backend of candidates) {
+    if (!backend) continue;
+    if (await probe(backend)) {
+      console.log(`[Stockfish] Using ${backend.description} engine for ${engine.name}`);
+      return backend;
+    }
+    console.log(`[Stockfish] ${backend.description} engine not available for ${engine.name}`);
+  }
+  return null;
+}
@@ -0,0 +1,203 @@
+/**
+ * Engine Profiles
+ *
+ * Which UCI engine analyzes a position, with which options and search limits:
+ * - Engines: any UCI binary (path, args, pool size, options set on every process).
+ *   `stockfish` is built in and runs on the native binary or the bundled WASM
+ *   build (see engineBackend.ts)
+ * - Profiles: an engine plus per-search options (Skill Level, Contempt, ...) and
+ *   limits (depth, nodes and/or movetime)
+ * - Tasks: what the analysis is for; each task uses a profile, so bulk ingest
+ *   can stay fast while critical moments (and background re-analysis of stored
+ *   games) get a deeper look
+ *
+ * Built-in engines and profiles can be extended or replaced with a JSON file
+ * (ENGINE_CONFIG, default ./engines.json when present). It's validated at startup.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+
+const OptionValue = z.union([z.string(), z.number(), z.boolean()]);
+export type UciOptionValue = z.infer<typeof OptionValue>;
+
+const Limits = z.object({
+  depth: z.number().int().positive().optional(),
+  nodes: z.number().int().positive().optional(),
+  movetime: z.number().int().positive().optional(), // ms
+}).refine(l => l.depth || l.nodes || l.movetime, 'a profile needs a depth, nodes or movetime limit');
+export type SearchLimits = z.infer<typeof Limits>;
+
+const EngineDefinitionSchema = z.object({
+  path: z.string().optional(),                           // Binary; the built-in stockfish uses STOCKFISH_PATH
+  args: z.array(z.string()).default([]),
+  backend: z.enum(['auto', 'native', 'wasm']).optional(), // Built-in stockfish only: STOCKFISH_BACKEND
+  poolSize: z.number().int().positive().optional(),
+  options: z.record(z.string(), OptionValue).default({}), // Set on every process (Threads, Hash, ...)
+});
+
+const ProfileSchema = z.object({
+  engine: z.string().default('stockfish'),
+  options: z.record(z.string(), OptionValue).default({}), // Set before each search
+  limits: Limits,
+  timeoutMs: z.number().int().positive().optional(),      // Default 20s (movetime + 5s if longer)
+});
+
+export const ENGINE_TASKS = ['ingest', 'review', 'reanalysis'] as const;
+export type EngineTask = typeof ENGINE_TASKS[number];
+
+const ConfigSchema = z.object({
+  engines: z.record(z.string(), EngineDefinitionSchema).default({}),
+  profiles: z.record(z.string(), ProfileSchema).default({}),
+  tasks: z.object({
+    ingest: z.string().optional(), // Every move of imported games
+    review: z.string().optional(), // Critical moments worth a deeper search
+    reanalysis: z.string().optional(), // Stored games brought up to a higher depth in the background
+  }).default({}),
+});
+
+export type EngineDefinition = z.infer<typeof EngineDefinitionSchema> & { name: string };
+export type EngineProfile = z.infer<typeof ProfileSchema> & { name: string };
+
+/**
+ * What produced an evaluation - stored with it in the eval cache
+ */
+export interface EvaluationEngine {
+  engine: string;                           // Registered engine name
+  backend: 'native' | 'wasm';
+  profile: string;
+  options: Record<string, UciOptionValue>;  // Engine and profile options combined
+  limits: SearchLimits;
+}
+
+const DEFAULT_TIMEOUT_MS = 20000; // Fail fast on complex positions
+const MOVETIME_MARGIN_MS = 5000;
+
+// Options that change speed, not the evaluation - they don't split the eval cache
+const NON_EVAL_OPTIONS = new Set(['threads', 'hash', 'ponder', 'move overhead', 'debug log file', 'multipv', 'uci_chess960']);
+
+function builtinConfig(): z.infer<typeof ConfigSchema> {
+  const scanDepth = parseInt(process.env.STOCKFISH_DEPTH || '', 10) || 10;
+  return {
+    engines: {
+      stockfish: { args: [], options: {} },
+    },
+    profiles: {
+      scan: { engine: 'stockfish', options: {}, limits: { depth: scanDepth } },
+      deep: { engine: 'stockfish', options: {}, limits: { depth: 14 }, timeoutMs: 60000 },
+    },
+    tasks: { ingest: 'scan', review: 'deep', reanalysis: 'deep' },
+  };
+}
+
+function loadEngineConfig() {
+  const builtin = builtinConfig();
+  const file = process.env.ENGINE_CONFIG || path.join(process.cwd(), 'engines.json');
+  if (!process.env.ENGINE_CONFIG && !existsSync(file)) return builtin;
+
+  const custom = ConfigSchema.parse(JSON.parse(readFileSync(file, 'utf8')));
+  const config = {
+    engines: { ...builtin.engines, ...custom.engines },
+    profiles: { ...builtin.profiles, ...custom.profiles },
+    tasks: { ...builtin.tasks, ...custom.tasks },
+  };
+
+  for (const [name, profile] of Object.entries(config.profiles)) {
+    if (!config.engines[profile.engine]) {
+      throw new Error(`Engine profile "${name}" uses unknown engine "${profile.engine}"`);
+    }
+  }
+  for (const [task, profile] of Object.entries(config.tasks)) {
+    if (!profile || !config.profiles[profile]) {
+      throw new Error(`Engine task "${task}" uses unknown profile "${profile}"`);
+    }
+  }
+  for (const [name, engine] of Object.entries(config.engines)) {
+    if (name !== 'stockfish' && !engine.path) {
+      throw new Error(`Engine "${name}" needs a path`);
+    }
+  }
+  console.log(`[Engines] Loaded ${file}`);
+  return config;
+}
+
+const config = loadEngineConfig();
+
+export function getEngineDefinition(name: string): EngineDefinition {
+  const engine = config.engines[name];
+  if (!engine) throw new Error(`Unknown engine "${name}"`);
+  return { name, ...engine };
+}
+
+export function getEngineProfile(name: string): EngineProfile {
+  const profile = config.profiles[name];
+  if (!profile) throw new Error(`Unknown engine profile "${name}"`);
+  return { name, ...profile };
+}
+
+/**
+ * The profile a task runs with
+ */
+export function profileForTask(task: EngineTask): EngineProfile {
+  return getEngineProfile(config.tasks[task]!);
+}
+
+/**
+ * Registered engines, profiles and task assignments (for monitoring)
+ */
+export function listEngineProfiles() {
+  return {
+    engines: Object.keys(config.engines),
+    profiles: Object.entries(config.profiles).map(([name, p]) => ({ name, engine: p.engine, options: p.options, limits: p.limits })),
+    tasks: config.tasks,
+  };
+}
+
+/**
+ * Options for each search with a profile: the engine's, then the profile's on top
+ */
+export function profileOptions(profile: EngineProfile): Record<string, UciOptionValue> {
+  return { ...getEngineDefinition(profile.engine).options, ...profile.options };
+}
+
+export function profileTimeout(profile: EngineProfile): number {
+  const timeout = profile.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  return profile.limits.movetime ? Math.max(timeout, profile.limits.movetime + MOVETIME_MARGIN_MS) : timeout;
+}
+
+/**
+ * `go` arguments for the limits: "depth 20", "nodes 1000000 movetime 5000", ...
+ */
+export function goCommand(limits: SearchLimits): string {
+  const parts = ['go'];
+  if (limits.depth) parts.push(`depth ${limits.depth}`);
+  if (limits.nodes) parts.push(`nodes ${limits.nodes}`);
+  if (limits.movetime) parts.push(`movetime ${limits.movetime}`);
+  return parts.join(' ');
+}
+
+/**
+ * Part of the eval cache key that tells engines and evaluation-changing
+ * options apart. Empty for plain Stockfish, so existing entries stay valid.
+ */
+export function evaluationSignature(profile: EngineProfile): string {
+  const options = Object.entries(profileOptions(profile))
+    .filter(([name]) => !NON_EVAL_OPTIONS.has(name.toLowerCase()))
+    .map(([name, value]) => `${name.toLowerCase()}=${value}`)
+    .sort();
+  if (profile.engine === 'stockfish' && options.length === 0) return '';
+  return `${profile.engine}${options.length > 0 ? `[${options.join(',')}]` : ''}`;
+}
+
+/**
+ * Whether a search with `done` limits (which reached `depth`) is at least as
+ * thorough as one with `wanted` limits. Node and time limits only compare with
+ * the same kind of limit.
+ */
+export function limitsCover(done: SearchLimits, depth: number, wanted: SearchLimits): boolean {
+  if (wanted.depth && depth < wanted.depth) return false;
+  if (wanted.nodes && (done.nodes ?? 0) < wanted.nodes) return false;
+  if (wanted.movetime && (done.movetime ?? 0) < wanted.movetime) return false;
+  return true;
+}
@@ -0,0 +1,60 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import type { Evaluation } from './positionAnalyzer';
+
+// Six positions: a white pawn on a2..f2
+const fens = ['P7', '1P6', '2P5', '3P4', '4P3', '5P2'].map(rank => `4k3/8/8/8/8/8/${rank}/4K3 w - - 0 1`);
+const limits = { depth: 10 };
+
+function evaluation(fen: string): Evaluation {
+  return { fen, eval: 100, depth: 12, source: 'stockfish' };
+}
+
+// The cache reads its size limit and data directory when it loads
+let cache: typeof import('./evalCache');
+
+before(async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'eval-cache-'));
+  process.chdir(dir);
+  process.env.EVAL_CACHE_MAX_ENTRIES = '3';
+
+  // A log from an earlier run with more positions than the limit (latest lines kept)
+  mkdirSync('data');
+  writeFileSync('data/eval-cache.jsonl', fens.slice(0, 4).map(fen => JSON.stringify({
+    key: fen.split(' ').slice(0, 4).join(' '), depth: 12, eval: 50, mate: null, bestMove: null, multiPv: 1, lines: null, source: 'stockfish',
+  })).join('\n') + '\n');
+
+  cache = await import('./evalCache');
+});
+
+test('loading keeps only the most recent entries up to the limit', async () => {
+  assert.equal(await cache.getCachedEval(fens[0], { limits }), null);
+  for (const fen of fens.slice(1, 4)) {
+    assert.equal((await cache.getCachedEval(fen, { limits }))?.eval, 50);
+  }
+  assert.equal(cache.getEvalCacheSize(), 3);
+});
+
+test('the least recently used entry is dropped first', async () => {
+  // b was read longest ago; reading it again makes c the oldest
+  await cache.getCachedEval(fens[1], { limits });
+  await cache.cacheEval(evaluation(fens[4]));
+
+  assert.equal(cache.getEvalCacheSize(), 3);
+  assert.equal(await cache.getCachedEval(fens[2], { limits }), null);
+  assert.ok(await cache.getCachedEval(fens[1], { limits }));
+  assert.ok(await cache.getCachedEval(fens[4], { limits }));
+});
+
+test('the log is compacted once dropped entries pile up', async () => {
+  // 4 lines loaded + 4 appended (e from the last test and these) is over twice the 3 kept
+  for (const fen of [fens[5], fens[0], fens[2]]) await cache.cacheEval(evaluation(fen));
+  await cache.flushEvalCache();
+
+  const lines = readFileSync('data/eval-cache.jsonl', 'utf8').trim().split('\n');
+  assert.equal(lines.length, 3);
+  assert.deepEqual(lines.map(l => JSON.parse(l).key), [fens[5], fens[0], fens[2]].map(f => f.split(' ').slice(0, 4).join(' ')));
+});
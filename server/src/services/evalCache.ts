@@ -0,0 +1,240 @@
+/**
+ * Evaluation Cache
+ *
+ * Disk-backed engine evaluations shared by every user, so common positions
+ * (the opening plies above all) are only analyzed once:
+ * - Keyed by FEN without the move counters; Chess960 positions, other engines and
+ *   evaluation-changing options (Skill Level, Contempt, ...) get their own keys
+ * - An entry is reused when its search covers the request's limits (at least as
+ *   deep; node and time limits at least as large), with at least as many
+ *   MultiPV lines
+ * - Stored as an append-only JSONL log (later lines win), loaded into memory on
+ *   first use and compacted when superseded lines pile up
+ * - At most EVAL_CACHE_MAX_ENTRIES positions are kept, least recently used
+ *   dropped first (compaction drops them from the log too)
+ */
+
+import { promises as fs, appendFileSync, createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import * as path from 'path';
+import type { Evaluation } from './positionAnalyzer';
+import type { EngineLine } from './stockfish';
+import { limitsCover, type EvaluationEngine, type SearchLimits } from './engineProfiles';
+
+const DATA_ROOT = path.join(process.cwd(), 'data');
+const CACHE_FILE = path.join(DATA_ROOT, 'eval-cache.jsonl');
+
+const FLUSH_INTERVAL_MS = 2000;  // Batch appends instead of writing per position
+const FLUSH_BATCH = 500;         // ...or flush as soon as this many are waiting
+const COMPACT_RATIO = 2;         // Rewrite the log when it has 2x more lines than entries
+// Each entry keeps its MultiPV lines, so this bounds the cache's memory (and log size)
+const MAX_ENTRIES = Math.max(1, parseInt(process.env.EVAL_CACHE_MAX_ENTRIES || '100000', 10) || 100000);
+
+interface CachedEval {
+  key: string;
+  depth: number;
+  eval: number;         // Centipawns, White's perspective
+  mate: number | null;
+  bestMove: string | null;
+  multiPv: number;      // Lines requested when this was searched
+  lines: EngineLine[] | null;
+  source: Evaluation['source'];
+  limits?: SearchLimits;           // Missing on entries from before engine profiles: depth only
+  engine?: EvaluationEngine | null;
+}
+
+let entries: Map<string, CachedEval> | null = null;
+let loading: Promise<Map<string, CachedEval>> | null = null;
+let pending: CachedEval[] = [];
+let flushTimer: NodeJS.Timeout | null = null;
+let writing: Promise<void> = Promise.resolve();
+let logLines = 0;  // Lines in the log file, for deciding when to compact
+
+/**
+ * Cache key: board, side to move, castling and en passant, prefixed with the
+ * engine signature (see evaluationSignature) when it isn't plain Stockfish
+ */
+export function evalCacheKey(fen: string, chess960: boolean = false, signature: string = ''): string {
+  const epd = fen.trim().split(/\s+/).slice(0, 4).join(' ');
+  const key = chess960 ? `960:${epd}` : epd;
+  return signature ? `${signature}:${key}` : key;
+}
+
+function entryLimits(entry: CachedEval): SearchLimits {
+  return entry.limits ?? { depth: entry.depth };
+}
+
+/**
+ * Store or touch an entry as the most recently used (Maps keep insertion
+ * order), dropping the least recently used past MAX_ENTRIES
+ */
+function remember(map: Map<string, CachedEval>, entry: CachedEval): void {
+  map.delete(entry.key);
+  map.set(entry.key, entry);
+  while (map.size > MAX_ENTRIES) {
+    map.delete(map.keys().next().value!);
+  }
+}
+
+async function loadEntries(): Promise<Map<string, CachedEval>> {
+  if (entries) return entries;
+  if (!loading) {
+    loading = (async () => {
+      const map = new Map<string, CachedEval>();
+      let lineCount = 0;
+      try {
+        // Line by line - the log can be much bigger than what's kept
+        const lines = createInterface({ input: createReadStream(CACHE_FILE, 'utf8'), crlfDelay: Infinity });
+        for await (const line of lines) {
+          if (!line) continue;
+          lineCount++;
+          try {
+            remember(map, JSON.parse(line) as CachedEval);
+          } catch {
+            // Partial line from an interrupted write
+          }
+        }
+        console.log(`[EvalCache] Loaded ${map.size} positions`);
+      } catch (err: any) {
+        if (err?.code !== 'ENOENT') {
+          console.error('[EvalCache] Failed to load cache:', err);
+        }
+      }
+      entries = map;
+      logLines = lineCount;
+      process.once('exit', flushSync);
+      if (lineCount > map.size * COMPACT_RATIO && map.size > 0) {
+        writing = writing.then(compact);
+      }
+      return map;
+    })();
+  }
+  return loading;
+}
+
+/**
+ * Cached evaluation for a position, or null if there's none thorough enough
+ */
+export async function getCachedEval(
+  fen: string,
+  options: { limits: SearchLimits; signature?: string; multiPv?: number; chess960?: boolean }
+): Promise<Evaluation | null> {
+  const map = await loadEntries();
+  const entry = map.get(evalCacheKey(fen, options.chess960, options.signature));
+  if (!entry) return null;
+  remember(map, entry);
+  if (!limitsCover(entryLimits(entry), entry.depth, options.limits) || entry.multiPv < (options.multiPv ?? 1)) return null;
+
+  return {
+    fen,
+    eval: entry.eval,
+    mate: entry.mate ?? undefined,
+    depth: entry.depth,
+    bestMove: entry.bestMove ?? undefined,
+    lines: entry.lines ?? undefined,
+    source: entry.source,
+    engine: entry.engine ?? undefined,
+  };
+}
+
+/**
+ * Store an evaluation. Results never replace ones from a more thorough search.
+ */
+export async function cacheEval(
+  evaluation: Evaluation,
+  options: { signature?: string; multiPv?: number; chess960?: boolean } = {}
+): Promise<void> {
+  if (evaluation.depth <= 0) return; // Placeholder result, no engine ran
+
+  const map = await loadEntries();
+  const key = evalCacheKey(evaluation.fen, options.chess960, options.signature);
+  const multiPv = options.multiPv ?? 1;
+  const limits = evaluation.engine?.limits ?? { depth: evaluation.depth };
+  const existing = map.get(key);
+  if (existing && limitsCover(entryLimits(existing), existing.depth, limits) &&
+      existing.depth >= evaluation.depth && existing.multiPv >= multiPv) return;
+
+  const entry: CachedEval = {
+    key,
+    depth: evaluation.depth,
+    eval: evaluation.eval,
+    mate: evaluation.mate ?? null,
+    bestMove: evaluation.bestMove ?? null,
+    multiPv,
+    lines: evaluation.lines ?? null,
+    source: evaluation.source,
+    limits,
+    engine: evaluation.engine ?? null,
+  };
+  remember(map, entry);
+  pending.push(entry);
+
+  if (pending.length >= FLUSH_BATCH) {
+    void flushEvalCache();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => void flushEvalCache(), FLUSH_INTERVAL_MS);
+    flushTimer.unref();
+  }
+}
+
+/**
+ * Append waiting entries to disk
+ */
+export function flushEvalCache(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (pending.length === 0) return writing;
+
+  const batch = pending;
+  pending = [];
+  writing = writing.then(async () => {
+    try {
+      await fs.mkdir(DATA_ROOT, { recursive: true });
+      await fs.appendFile(CACHE_FILE, batch.map(e => JSON.stringify(e)).join('\n') + '\n', 'utf8');
+      logLines += batch.length;
+    } catch (err) {
+      console.error('[EvalCache] Failed to write cache:', err);
+    }
+    // Superseded and evicted entries pile up in a long-running server too
+    if (entries && logLines > Math.max(entries.size, 1) * COMPACT_RATIO) await compact();
+  });
+  return writing;
+}
+
+/**
+ * Last-chance write for entries still waiting when the process exits
+ */
+function flushSync(): void {
+  if (pending.length === 0) return;
+  try {
+    appendFileSync(CACHE_FILE, pending.map(e => JSON.stringify(e)).join('\n') + '\n', 'utf8');
+    pending = [];
+  } catch {
+    // Nothing more to do on the way out
+  }
+}
+
+/**
+ * Rewrite the log with one line per position
+ */
+async function compact(): Promise<void> {
+  if (!entries) return;
+  const tmp = `${CACHE_FILE}.tmp`;
+  try {
+    await fs.writeFile(tmp, [...entries.values()].map(e => JSON.stringify(e)).join('\n') + '\n', 'utf8');
+    await fs.rename(tmp, CACHE_FILE);
+    logLines = entries.size;
+    console.log(`[EvalCache] Compacted to ${entries.size} positions`);
+  } catch (err) {
+    console.error('[EvalCache] Failed to compact cache:', err);
+  }
+}
+
+/**
+ * Positions currently cached (for monitoring)
+ */
+export function getEvalCacheSize(): number {
+  return entries?.size ?? 0;
+}
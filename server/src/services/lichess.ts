@@ -3,6 +3,8 @@
  * https://lichess.org/api#tag/Analysis/operation/apiCloudEval
  */
 
+import type { EngineLine } from './stockfish';
+
 interface LichessEvaluation {
   fen: string;
   knodes: number;
@@ -20,6 +22,7 @@ interface Evaluation {
   mate?: number;      // Mate in X moves (positive = white mates)
   depth: number;
   bestMove?: string;
+  lines?: EngineLine[]; // Top candidate moves, best first (MultiPV)
   source: 'lichess' | 'stockfish';
 }
 
@@ -62,14 +65,16 @@ const lichessLimiter = new RateLimiter(10); // Conservative: 10 req/sec
 /**
  * Fetch position evaluation from Lichess Cloud API
  * Returns null if position not in cache or API fails
+ * multiPv: also return the top N candidate moves (the cloud stores up to 5)
  */
 export async function fetchLichessEval(
   fen: string,
-  minDepth: number = 18
+  minDepth: number = 18,
+  multiPv: number = 1
 ): Promise<Evaluation | null> {
   try {
     const result = await lichessLimiter.throttle(async () => {
-      const url = `https://lichess.org/api/cloud-eval?fen=${encodeURIComponent(fen)}`;
+      const url = `https://lichess.org/api/cloud-eval?fen=${encodeURIComponent(fen)}&multiPv=${multiPv}`;
       
       const controller = new AbortController();
       const timeout = setTimeout(() => controller.abort(), 2000); // 2s timeout
@@ -122,6 +127,12 @@ export async function fetchLichessEval(
       mate: pv.mate,
       depth: result.depth,
       bestMove,
+      lines: multiPv > 1
+        ? result.pvs.map(p => {
+            const moves = p.moves.split(' ');
+            return { move: moves[0], eval: p.cp ?? (p.mate ? p.mate * 10000 : 0), mate: p.mate, pv: moves };
+          })
+        : undefined,
       source: 'lichess'
     };
   } catch (error) {
@@ -4,16 +4,29 @@
  * Uses local Stockfish for fast parallel analysis.
  * Lichess Cloud API available as optional fallback but disabled by default
  * due to rate limiting bottleneck (10 req/sec makes bulk analysis slow).
+ * Results go through the shared evaluation cache (evalCache.ts), and identical
+ * positions requested at the same time share one analysis.
+ * Engine, options and search limits come from an engine profile (engineProfiles.ts);
+ * by default the one for bulk ingest.
  *
  * Benchmark results: Pure Stockfish ×8 is ~10x faster than Lichess hybrid.
  */
 
 import { fetchLichessEval } from './lichess';
-import { analyzeWithStockfish, isStockfishAvailable } from './stockfish';
+import { analyzeWithStockfish, getEngineBackend, getEngineHealth, isStockfishAvailable, type EngineLine, type EnginePriority, type EngineRequestOptions } from './stockfish';
+import { getCachedEval, cacheEval, evalCacheKey, getEvalCacheSize } from './evalCache';
+import {
+  evaluationSignature,
+  getEngineProfile,
+  limitsCover,
+  profileForTask,
+  type EngineProfile,
+  type EvaluationEngine,
+  type SearchLimits,
+} from './engineProfiles';
 
-// Cache Stockfish availability check
-let stockfishAvailabilityChecked = false;
-let stockfishIsAvailable = false;
+// Cache engine availability checks, per engine
+const engineAvailability = new Map<string, boolean>();
 
 export interface Evaluation {
   fen: string;
@@ -21,11 +34,15 @@ export interface Evaluation {
   mate?: number;      // Mate in X moves (positive = white mates)
   depth: number;
   bestMove?: string;
+  lines?: EngineLine[]; // Top candidate moves, best first (when multiPv > 1)
   source: 'lichess' | 'stockfish';
+  engine?: EvaluationEngine; // Engine, profile and settings (local engine results)
 }
 
 interface AnalysisStats {
   total: number;
+  evalCacheHits: number;    // Served from the shared evaluation cache (or an identical in-flight request)
+  evalCacheMisses: number;
   lichessHits: number;
   stockfishFallbacks: number;
   errors: number;
@@ -34,36 +51,119 @@ interface AnalysisStats {
 // Track statistics for monitoring
 const stats: AnalysisStats = {
   total: 0,
+  evalCacheHits: 0,
+  evalCacheMisses: 0,
   lichessHits: 0,
   stockfishFallbacks: 0,
   errors: 0
 };
 
+// Analyses in progress, so positions repeated within a batch run the engine once
+const inFlight = new Map<string, {
+  promise: Promise<Evaluation>;
+  limits: SearchLimits;
+  multiPv: number;
+  priority: EnginePriority;
+}>();
+
+const PRIORITY_RANK: Record<EnginePriority, number> = { interactive: 0, ingest: 1, reanalysis: 2 };
+
 /**
  * Analyze a position using hybrid approach:
  * 1. Try Lichess Cloud API (fast, high depth)
- * 2. Fallback to local Stockfish if needed (reliable, depth 12)
+ * 2. Fallback to the local engine if needed (reliable, depth 12 with the default profile)
+ * profile: engine profile (or its name) for local searches
+ * multiPv: also return the engine's top N candidate moves
+ * priority / userId / signal: engine scheduling (see stockfish.ts); an aborted
+ * request throws instead of returning a placeholder evaluation
  */
 export async function analyzePosition(
   fen: string,
   options: {
     minDepth?: number;
-    stockfishDepth?: number;
+    profile?: EngineProfile | string;
     skipLichess?: boolean;
-  } = {}
+    chess960?: boolean;
+    multiPv?: number;
+  } & EngineRequestOptions = {}
 ): Promise<Evaluation> {
   const {
     minDepth = 18,
-    stockfishDepth = 12, // Reduced from 15 for better performance
-    skipLichess = true   // Skip Lichess by default - pure Stockfish is ~10x faster for bulk analysis
+    chess960 = false,
+    multiPv = 1,
+    priority = 'interactive',
+    userId,
+    signal,
   } = options;
+  // Skip Lichess by default - pure Stockfish is ~10x faster for bulk analysis.
+  // The cloud eval only covers standard chess, so Chess960 always goes to Stockfish.
+  const skipLichess = chess960 || (options.skipLichess ?? true);
+  const profile = typeof options.profile === 'string'
+    ? getEngineProfile(options.profile)
+    : options.profile ?? profileForTask('ingest');
+  const signature = evaluationSignature(profile);
 
   stats.total++;
 
+  // Step 0: Reuse an evaluation at least as thorough as the one we'd compute
+  const cached = await getCachedEval(fen, { limits: profile.limits, signature, multiPv, chess960 });
+  if (cached) {
+    stats.evalCacheHits++;
+    return cached;
+  }
+
+  // Share an identical search already running, unless it's queued behind less urgent work
+  const key = evalCacheKey(fen, chess960, signature);
+  const running = inFlight.get(key);
+  if (
+    running &&
+    limitsCover(running.limits, running.limits.depth ?? 0, profile.limits) &&
+    running.multiPv >= multiPv &&
+    PRIORITY_RANK[running.priority] <= PRIORITY_RANK[priority]
+  ) {
+    try {
+      const shared = await running.promise;
+      stats.evalCacheHits++;
+      return { ...shared, fen };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // The other request was cancelled - analyze it ourselves
+    }
+  }
+  stats.evalCacheMisses++;
+
+  const promise = analyzeUncached(fen, {
+    minDepth, profile, chess960, multiPv, skipLichess, priority, userId, signal,
+  });
+  inFlight.set(key, { promise, limits: profile.limits, multiPv, priority });
+  try {
+    const result = await promise;
+    await cacheEval(result, { signature, multiPv, chess960 });
+    return result;
+  } finally {
+    if (inFlight.get(key)?.promise === promise) inFlight.delete(key);
+  }
+}
+
+/**
+ * Lichess (if enabled) then Stockfish, without the cache
+ */
+async function analyzeUncached(
+  fen: string,
+  options: {
+    minDepth: number;
+    profile: EngineProfile;
+    chess960: boolean;
+    multiPv: number;
+    skipLichess: boolean;
+  } & EngineRequestOptions
+): Promise<Evaluation> {
+  const { minDepth, profile, chess960, multiPv, skipLichess, priority, userId, signal } = options;
+
   // Step 1: Try Lichess API (only if explicitly enabled)
   if (!skipLichess) {
     try {
-      const lichessResult = await fetchLichessEval(fen, minDepth);
+      const lichessResult = await fetchLichessEval(fen, minDepth, multiPv);
 
       if (lichessResult) {
         stats.lichessHits++;
@@ -74,18 +174,22 @@ export async function analyzePosition(
     }
   }
 
-  // Step 2: Use local Stockfish (check availability once and cache)
-  if (!stockfishAvailabilityChecked) {
-    stockfishIsAvailable = await isStockfishAvailable();
-    stockfishAvailabilityChecked = true;
-    if (stockfishIsAvailable) {
-      console.log('[Analysis] Stockfish pool initialized (8 engines)');
-    } else {
-      console.log('[Analysis] Stockfish not available - analysis disabled');
+  // Step 2: Use the local engine (check availability once and cache)
+  if (!engineAvailability.has(profile.engine)) {
+    const available = await isStockfishAvailable(profile.engine);
+    if (!engineAvailability.has(profile.engine)) {
+      engineAvailability.set(profile.engine, available);
+      if (available) {
+        console.log(`[Analysis] ${profile.engine} pool initialized (${getEngineHealth(profile.engine).expected} ${getEngineBackend(profile.engine)} engines)`);
+      } else if (profile.engine === 'stockfish') {
+        console.warn('[Analysis] No Stockfish engine (native or WASM) available - games will be saved unanalyzed and flagged for re-analysis');
+      } else {
+        console.warn(`[Analysis] Engine ${profile.engine} not available - positions using profile "${profile.name}" won't be analyzed`);
+      }
     }
   }
 
-  if (!stockfishIsAvailable) {
+  if (!engineAvailability.get(profile.engine)) {
     // Return a fallback evaluation without logging (reduce noise)
     return {
       fen,
@@ -97,9 +201,10 @@ export async function analyzePosition(
 
   try {
     stats.stockfishFallbacks++;
-    const stockfishResult = await analyzeWithStockfish(fen, stockfishDepth);
+    const stockfishResult = await analyzeWithStockfish(fen, profile, { chess960, multiPv, priority, userId, signal });
     return stockfishResult;
   } catch (error) {
+    if (signal?.aborted) throw error;
     stats.errors++;
     console.error(`[Analysis] Stockfish failed:`, error);
 
@@ -121,7 +226,7 @@ export async function analyzePositions(
   fens: string[],
   options: {
     minDepth?: number;
-    stockfishDepth?: number;
+    profile?: EngineProfile | string;
     skipLichess?: boolean;
     onProgress?: (completed: number, total: number) => void;
   } = {}
@@ -152,6 +257,8 @@ export function getAnalysisStats(): AnalysisStats {
  */
 export function resetAnalysisStats(): void {
   stats.total = 0;
+  stats.evalCacheHits = 0;
+  stats.evalCacheMisses = 0;
   stats.lichessHits = 0;
   stats.stockfishFallbacks = 0;
   stats.errors = 0;
@@ -170,9 +277,11 @@ export function getCacheHitRate(): number {
  */
 export function logAnalysisStats(): void {
   const hitRate = getCacheHitRate().toFixed(1);
+  const evalCacheRate = stats.total === 0 ? '0.0' : ((stats.evalCacheHits / stats.total) * 100).toFixed(1);
   console.log(`
 [Position Analysis Stats]
   Total positions: ${stats.total}
+  Eval cache hits: ${stats.evalCacheHits} (${evalCacheRate}%), ${getEvalCacheSize()} positions cached
   Lichess hits: ${stats.lichessHits} (${hitRate}%)
   Stockfish analyzed: ${stats.stockfishFallbacks}
   Errors: ${stats.errors}
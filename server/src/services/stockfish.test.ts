@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toWhitePerspective } from './stockfish';
+
+const WHITE_TO_MOVE = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 1';
+const BLACK_TO_MOVE = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+test('scores with White to move are kept', () => {
+  const scores = toWhitePerspective(WHITE_TO_MOVE, { score: 35, lines: [{ move: 'd2d4', eval: 35, pv: ['d2d4'] }] });
+  assert.equal(scores.eval, 35);
+  assert.equal(scores.mate, undefined);
+  assert.equal(scores.lines[0].eval, 35);
+});
+
+test('scores with Black to move are flipped to White\'s side', () => {
+  // Black is better by 0.5 from its own side = -50 for White
+  const scores = toWhitePerspective(BLACK_TO_MOVE, {
+    score: 50,
+    lines: [
+      { move: 'e7e5', eval: 50, pv: ['e7e5'] },
+      { move: 'c7c5', eval: -20, pv: ['c7c5'] },
+    ],
+  });
+  assert.equal(scores.eval, -50);
+  assert.deepEqual(scores.lines.map(l => l.eval), [-50, 20]);
+});
+
+test('mate scores follow the same sign and dominate the eval', () => {
+  // Black to move mates in 2
+  const black = toWhitePerspective(BLACK_TO_MOVE, { score: 0, mate: 2, lines: [{ move: 'd8h4', eval: 0, mate: 2, pv: ['d8h4'] }] });
+  assert.equal(black.mate, -2);
+  assert.equal(black.eval, -20000);
+  assert.equal(black.lines[0].mate, -2);
+
+  const white = toWhitePerspective(WHITE_TO_MOVE, { score: 0, mate: 3, lines: [] });
+  assert.equal(white.mate, 3);
+  assert.equal(white.eval, 30000);
+});
@@ -1,9 +1,34 @@
 /**
  * Stockfish Chess Engine Service
- * Analyzes positions locally using Stockfish
+ * Analyzes positions locally using Stockfish (native binary or the bundled
+ * WASM build - see engineBackend.ts) or any other registered UCI engine, with
+ * the options and limits of an engine profile (see engineProfiles.ts).
+ * Each engine gets its own pool, started on first use.
  */
 
-import { spawn, ChildProcess } from 'child_process';
+import type { ChildProcess } from 'child_process';
+import { selectEngineBackend, type EngineBackend, type EngineBackendName } from './engineBackend';
+import {
+  getEngineDefinition,
+  getEngineProfile,
+  goCommand,
+  profileForTask,
+  profileOptions,
+  profileTimeout,
+  type EngineProfile,
+  type EvaluationEngine,
+  type UciOptionValue,
+} from './engineProfiles';
+
+/**
+ * One MultiPV line: a candidate move and where it leads
+ */
+export interface EngineLine {
+  move: string;       // UCI
+  eval: number;       // Centipawn score (positive = white advantage)
+  mate?: number;      // Mate in X moves (positive = white mates)
+  pv: string[];       // Principal variation in UCI, starting with `move`
+}
 
 interface Evaluation {
   fen: string;
@@ -11,86 +36,186 @@ interface Evaluation {
   mate?: number;      // Mate in X moves (positive = white mates)
   depth: number;
   bestMove?: string;
+  lines?: EngineLine[]; // Top candidate moves, best first (MultiPV)
   source: 'lichess' | 'stockfish';
+  engine?: EvaluationEngine; // Engine, profile and settings that produced it
 }
 
+// Raw engine output - scores are from the side to move, as UCI reports them
 interface EngineOutput {
   depth: number;
   score: number;
   mate?: number;
   bestMove?: string;
+  lines: EngineLine[];
 }
 
-// Track if Stockfish is available
-let stockfishAvailable: boolean | null = null;
+/**
+ * Who a search is for. Interactive requests (a user waiting on an answer) are
+ * served first, then background ingest, then re-analysis of stored games.
+ */
+export type EnginePriority = 'interactive' | 'ingest' | 'reanalysis';
+
+const PRIORITIES: EnginePriority[] = ['interactive', 'ingest', 'reanalysis'];
 
 /**
- * Check if Stockfish binary exists
+ * Scheduling options for a search
  */
-async function checkStockfishAvailable(): Promise<boolean> {
-  if (stockfishAvailable !== null) {
-    return stockfishAvailable;
-  }
+export interface EngineRequestOptions {
+  priority?: EnginePriority;  // Default: interactive
+  userId?: string;            // Within a priority, users are served round-robin
+  signal?: AbortSignal;       // Cancels the search, whether queued or running
+}
 
-  const stockfishPath = process.env.STOCKFISH_PATH || 'stockfish';
+export interface EngineSchedulerStats {
+  engines: number;
+  busy: number;
+  queued: Record<EnginePriority, number>;
+  waitingUsers: number;
+  waits: Record<EnginePriority, { count: number; avgMs: number; maxMs: number }>;
+  cancelled: number;
+}
 
-  return new Promise((resolve) => {
-    try {
-      const testProcess = spawn(stockfishPath, [], {
-        stdio: ['pipe', 'pipe', 'pipe']
-      });
+export interface EngineHealth {
+  status: 'ok' | 'degraded' | 'down' | 'unavailable' | 'not_started';
+  backend: EngineBackendName | null;
+  expected: number;       // Configured pool size
+  alive: number;
+  idle: number;
+  crashes: number;        // Engines that exited on their own
+  unresponsive: number;   // Engines killed for not answering
+  restarts: number;
+  lastFailureAt: string | null;
+}
 
-      const timeout = setTimeout(() => {
-        testProcess.kill();
-        stockfishAvailable = false;
-        resolve(false);
-      }, 3000);
+const STOP_GRACE_MS = 2000;           // How long a stopped search gets to report its bestmove
+const PING_TIMEOUT_MS = 5000;         // isready -> readyok
+const HEALTH_CHECK_INTERVAL_MS = 30 * 1000;
+const RESPAWN_BACKOFF_MS = 1000;      // Doubles per failed respawn, capped below
+const MAX_RESPAWN_BACKOFF_MS = 60 * 1000;
+const MAX_SEARCH_ATTEMPTS = 3;        // A search on a crashed engine moves to another one
+
+function abortError(): Error {
+  const err = new Error('Stockfish analysis cancelled');
+  err.name = 'AbortError';
+  return err;
+}
 
-      testProcess.on('error', () => {
-        clearTimeout(timeout);
-        stockfishAvailable = false;
-        console.log('[Stockfish] Binary not found - Stockfish analysis disabled');
-        resolve(false);
-      });
+// The engine died or stopped answering mid-search - the search can be retried elsewhere
+function engineFailure(message: string): Error {
+  const err = new Error(message);
+  err.name = 'EngineFailure';
+  return err;
+}
 
-      testProcess.stdout?.once('data', () => {
-        clearTimeout(timeout);
-        testProcess.stdin?.write('quit\n');
-        testProcess.kill();
-        stockfishAvailable = true;
-        console.log('[Stockfish] Binary found - Stockfish analysis enabled');
-        resolve(true);
-      });
-
-      testProcess.stdin?.write('uci\n');
-    } catch {
-      stockfishAvailable = false;
-      resolve(false);
+/**
+ * UCI options of one engine process: the defaults it reported after `uci`, and
+ * what's been set since. Pool engines serve every profile of their engine, so
+ * each search only sends the options that differ and resets the ones it doesn't use.
+ */
+interface EngineOptionState {
+  defaults: Map<string, string | null>;  // Lowercase name -> default value (null: none, e.g. buttons)
+  applied: Map<string, { name: string; value: string }>;
+}
+
+const optionState = new WeakMap<ChildProcess, EngineOptionState>();
+const warnedOptions = new Set<string>();
+
+interface Waiter {
+  userId: string;
+  enqueuedAt: number;
+  resolve: (engine: ChildProcess) => void;
+}
+
+/**
+ * FIFO queue per user, served round-robin so one user's bulk import
+ * doesn't starve everyone else at the same priority
+ */
+class FairQueue {
+  private queues = new Map<string, Waiter[]>();
+  private order: string[] = []; // Users with waiters, next to be served first
+  size = 0;
+
+  push(waiter: Waiter): void {
+    let queue = this.queues.get(waiter.userId);
+    if (!queue) {
+      queue = [];
+      this.queues.set(waiter.userId, queue);
+      this.order.push(waiter.userId);
     }
-  });
+    queue.push(waiter);
+    this.size++;
+  }
+
+  shift(): Waiter | undefined {
+    const userId = this.order.shift();
+    if (userId === undefined) return undefined;
+    const queue = this.queues.get(userId)!;
+    const waiter = queue.shift()!;
+    this.size--;
+    if (queue.length > 0) this.order.push(userId);
+    else this.queues.delete(userId);
+    return waiter;
+  }
+
+  remove(waiter: Waiter): boolean {
+    const queue = this.queues.get(waiter.userId);
+    const index = queue ? queue.indexOf(waiter) : -1;
+    if (!queue || index < 0) return false;
+    queue.splice(index, 1);
+    this.size--;
+    if (queue.length === 0) {
+      this.queues.delete(waiter.userId);
+      this.order = this.order.filter(u => u !== waiter.userId);
+    }
+    return true;
+  }
+
+  users(): string[] {
+    return [...this.queues.keys()];
+  }
 }
 
 /**
  * Stockfish Engine Pool
- * Manages multiple Stockfish instances for parallel analysis
+ * Manages multiple Stockfish instances for parallel analysis.
+ * Searches wait in a queue per priority class; a freed engine goes to the
+ * highest-priority waiter, round-robin across users.
  */
 class StockfishPool {
   private engines: ChildProcess[] = [];
   private available: ChildProcess[] = [];
   private readonly poolSize: number;
+  private readonly backend: EngineBackend | null;
+  readonly engineName: string;
   private initialized: boolean = false;
   private initFailed: boolean = false;
-
-  constructor(poolSize: number = 2) {
+  private queues: Record<EnginePriority, FairQueue> = {
+    interactive: new FairQueue(),
+    ingest: new FairQueue(),
+    reanalysis: new FairQueue(),
+  };
+  private waits: Record<EnginePriority, { count: number; totalMs: number; maxMs: number }> = {
+    interactive: { count: 0, totalMs: 0, maxMs: 0 },
+    ingest: { count: 0, totalMs: 0, maxMs: 0 },
+    reanalysis: { count: 0, totalMs: 0, maxMs: 0 },
+  };
+  private cancelled: number = 0;
+  private health = { crashes: 0, unresponsive: 0, restarts: 0, lastFailureAt: null as string | null };
+  private respawning: number = 0;
+  private healthTimer: NodeJS.Timeout | null = null;
+  private shuttingDown: boolean = false;
+
+  constructor(engineName: string, poolSize: number, backend: EngineBackend | null) {
+    this.engineName = engineName;
     this.poolSize = poolSize;
+    this.backend = backend;
   }
 
   async initialize(): Promise<void> {
-    // Check if Stockfish is available first
-    const isAvailable = await checkStockfishAvailable();
-    if (!isAvailable) {
+    if (!this.backend) {
       this.initFailed = true;
-      console.log('[StockfishPool] Stockfish not available, pool disabled');
+      console.log(`[StockfishPool] No ${this.engineName} engine available, pool disabled`);
       return;
     }
 
@@ -105,28 +230,38 @@ class StockfishPool {
       this.initialized = this.engines.length > 0;
       if (!this.initialized) {
         this.initFailed = true;
+        return;
       }
+      // Engines that failed to start are retried like crashed ones
+      for (let i = this.engines.length; i < this.poolSize; i++) {
+        this.respawn();
+      }
+      this.healthTimer = setInterval(() => void this.checkIdleEngines(), HEALTH_CHECK_INTERVAL_MS);
+      this.healthTimer.unref();
     } catch (err) {
       console.error('[StockfishPool] Failed to initialize:', err);
       this.initFailed = true;
     }
   }
 
+  /**
+   * Usable while at least one engine is alive or one is being brought back
+   */
   isAvailable(): boolean {
-    return this.initialized && !this.initFailed && this.engines.length > 0;
+    return this.initialized && !this.initFailed && (this.engines.length > 0 || this.respawning > 0);
+  }
+
+  backendName(): EngineBackendName | null {
+    return this.backend?.name ?? null;
   }
 
   private async createEngine(): Promise<ChildProcess | null> {
-    // Use system-installed Stockfish binary
-    // On macOS with Homebrew: /opt/homebrew/bin/stockfish
-    // On Linux: usually /usr/bin/stockfish or /usr/games/stockfish
-    const stockfishPath = process.env.STOCKFISH_PATH || 'stockfish';
+    const backend = this.backend;
+    if (!backend) return null;
 
     return new Promise((resolve) => {
       try {
-        const engine = spawn(stockfishPath, [], {
-          stdio: ['pipe', 'pipe', 'pipe']
-        });
+        const engine = backend.spawn();
 
         // Handle spawn errors
         engine.on('error', (err) => {
@@ -139,10 +274,24 @@ class StockfishPool {
           resolve(null);
         }, 5000);
 
+        // Options the engine supports, reported before uciok
+        const defaults = new Map<string, string | null>();
+        let buffered = '';
         const onData = (data: Buffer) => {
+          buffered += data.toString();
+          const lines = buffered.split('\n');
+          buffered = lines.pop() ?? '';
+          for (const line of lines) {
+            const option = line.trim().match(/^option name (.+?) type \S+(?: default ?(.*?))?(?: min | max | var |$)/);
+            if (option) defaults.set(option[1].toLowerCase(), option[2] ?? null);
+          }
           if (data.toString().includes('uciok')) {
             clearTimeout(timeout);
+            optionState.set(engine, { defaults, applied: new Map() });
             engine.stdout?.removeListener('data', onData);
+            // Writes to a dead engine fail with EPIPE; the exit handler deals with it
+            engine.stdin?.on('error', () => {});
+            engine.once('exit', (code, sig) => this.onEngineExit(engine, code, sig));
             resolve(engine);
           }
         };
@@ -156,18 +305,200 @@ class StockfishPool {
     });
   }
 
-  async acquire(): Promise<ChildProcess> {
-    while (this.available.length === 0) {
-      await new Promise(resolve => setTimeout(resolve, 100));
+  /**
+   * Wait for a free engine. Rejects if the signal aborts while queued.
+   */
+  acquire(priority: EnginePriority, userId: string, signal?: AbortSignal): Promise<ChildProcess> {
+    if (signal?.aborted) {
+      this.cancelled++;
+      return Promise.reject(abortError());
     }
-    return this.available.pop()!;
+
+    const waiting = PRIORITIES.some(p => this.queues[p].size > 0);
+    if (this.available.length > 0 && !waiting) {
+      this.recordWait(priority, 0);
+      return Promise.resolve(this.available.pop()!);
+    }
+
+    return new Promise((resolve, reject) => {
+      const queue = this.queues[priority];
+      const onAbort = () => {
+        if (queue.remove(waiter)) {
+          this.cancelled++;
+          reject(abortError());
+        }
+      };
+      const waiter: Waiter = {
+        userId,
+        enqueuedAt: Date.now(),
+        resolve: (engine) => {
+          signal?.removeEventListener('abort', onAbort);
+          this.recordWait(priority, Date.now() - waiter.enqueuedAt);
+          resolve(engine);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(waiter);
+    });
   }
 
+  /**
+   * Hand the engine to the next waiter, or back to the free list
+   */
   release(engine: ChildProcess): void {
+    if (!this.engines.includes(engine)) return; // Pool was shut down meanwhile
+    for (const priority of PRIORITIES) {
+      const waiter = this.queues[priority].shift();
+      if (waiter) {
+        waiter.resolve(engine);
+        return;
+      }
+    }
     this.available.push(engine);
   }
 
+  recordCancelled(): void {
+    this.cancelled++;
+  }
+
+  /**
+   * isready -> readyok within the timeout
+   */
+  ping(engine: ChildProcess): Promise<boolean> {
+    if (engine.exitCode !== null || engine.signalCode !== null) return Promise.resolve(false);
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => finish(false), PING_TIMEOUT_MS);
+      const onData = (data: Buffer) => {
+        if (data.toString().includes('readyok')) finish(true);
+      };
+      const finish = (ok: boolean) => {
+        clearTimeout(timeout);
+        engine.stdout?.removeListener('data', onData);
+        resolve(ok);
+      };
+      engine.stdout?.on('data', onData);
+      engine.stdin?.write('isready\n');
+    });
+  }
+
+  /**
+   * Return an engine after a failed search: back to work if it still answers,
+   * otherwise replaced
+   */
+  async checkAndRelease(engine: ChildProcess): Promise<void> {
+    if (await this.ping(engine)) {
+      this.release(engine);
+    } else {
+      this.retire(engine);
+    }
+  }
+
+  /**
+   * Kill an unresponsive engine and start a replacement
+   */
+  retire(engine: ChildProcess): void {
+    if (!this.remove(engine)) return;
+    console.warn(`[StockfishPool] ${this.engineName} engine unresponsive, restarting it`);
+    this.health.unresponsive++;
+    this.health.lastFailureAt = new Date().toISOString();
+    engine.kill('SIGKILL');
+    this.respawn();
+  }
+
+  private onEngineExit(engine: ChildProcess, code: number | null, signal: NodeJS.Signals | null): void {
+    if (this.shuttingDown || !this.remove(engine)) return; // Shut down or already retired
+    console.warn(`[StockfishPool] ${this.engineName} engine exited (code ${code}, signal ${signal}), restarting it`);
+    this.health.crashes++;
+    this.health.lastFailureAt = new Date().toISOString();
+    this.respawn();
+  }
+
+  private remove(engine: ChildProcess): boolean {
+    if (!this.engines.includes(engine)) return false;
+    this.engines = this.engines.filter(e => e !== engine);
+    this.available = this.available.filter(e => e !== engine);
+    return true;
+  }
+
+  /**
+   * Start a replacement engine, backing off while spawning keeps failing.
+   * Queued searches pick it up as soon as it's ready.
+   */
+  private respawn(attempt: number = 0): void {
+    if (this.shuttingDown) return;
+    this.respawning++;
+    void this.createEngine().then((engine) => {
+      this.respawning--;
+      if (this.shuttingDown) {
+        engine?.kill();
+        return;
+      }
+      if (!engine) {
+        const delay = Math.min(MAX_RESPAWN_BACKOFF_MS, RESPAWN_BACKOFF_MS * 2 ** attempt);
+        console.error(`[StockfishPool] Failed to restart ${this.engineName} engine, retrying in ${delay / 1000}s`);
+        this.respawning++; // Still coming back, as far as isAvailable() is concerned
+        setTimeout(() => {
+          this.respawning--;
+          this.respawn(attempt + 1);
+        }, delay).unref();
+        return;
+      }
+      this.health.restarts++;
+      this.engines.push(engine);
+      this.release(engine);
+    });
+  }
+
+  /**
+   * Ping idle engines so a hung one is replaced before it's handed out
+   */
+  private async checkIdleEngines(): Promise<void> {
+    const idle = this.available.splice(0);
+    await Promise.all(idle.map(engine => this.checkAndRelease(engine)));
+  }
+
+  getHealth(): EngineHealth {
+    const alive = this.engines.length;
+    let status: EngineHealth['status'] = 'ok';
+    if (this.initFailed) status = 'unavailable';
+    else if (alive === 0) status = 'down';
+    else if (alive < this.poolSize) status = 'degraded';
+    return {
+      status,
+      backend: this.backendName(),
+      expected: this.poolSize,
+      alive,
+      idle: this.available.length,
+      ...this.health,
+    };
+  }
+
+  private recordWait(priority: EnginePriority, ms: number): void {
+    const w = this.waits[priority];
+    w.count++;
+    w.totalMs += ms;
+    w.maxMs = Math.max(w.maxMs, ms);
+  }
+
+  stats(): EngineSchedulerStats {
+    const byPriority = <T>(fn: (p: EnginePriority) => T) =>
+      Object.fromEntries(PRIORITIES.map(p => [p, fn(p)])) as Record<EnginePriority, T>;
+    return {
+      engines: this.engines.length,
+      busy: this.engines.length - this.available.length,
+      queued: byPriority(p => this.queues[p].size),
+      waitingUsers: new Set(PRIORITIES.flatMap(p => this.queues[p].users())).size,
+      waits: byPriority(p => {
+        const w = this.waits[p];
+        return { count: w.count, avgMs: w.count ? Math.round(w.totalMs / w.count) : 0, maxMs: w.maxMs };
+      }),
+      cancelled: this.cancelled,
+    };
+  }
+
   async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+    if (this.healthTimer) clearInterval(this.healthTimer);
     for (const engine of this.engines) {
       engine.stdin?.write('quit\n');
       engine.kill();
@@ -177,122 +508,322 @@ class StockfishPool {
   }
 }
 
-// Global engine pool (lazy initialized)
-let enginePool: StockfishPool | null = null;
-let poolInitPromise: Promise<StockfishPool> | null = null;
-
-async function getEnginePool(): Promise<StockfishPool> {
-  if (!enginePool) {
-    if (!poolInitPromise) {
-      poolInitPromise = (async () => {
-        // 32 engines to support heavy parallel game processing
-        // Each game can request 40+ concurrent analyses, so we need a large pool
-        // Can be tuned via STOCKFISH_POOL_SIZE env var
-        const poolSize = parseInt(process.env.STOCKFISH_POOL_SIZE || '32', 10);
-        const pool = new StockfishPool(poolSize);
-        await pool.initialize();
-        console.log(`[StockfishPool] Initialized with ${poolSize} engines`);
-        enginePool = pool;
-        return pool;
-      })();
-    }
-    return poolInitPromise;
+// Engine pools by engine name (lazy initialized)
+const enginePools = new Map<string, StockfishPool>();
+const poolInitPromises = new Map<string, Promise<StockfishPool>>();
+
+async function getEnginePool(engineName: string = 'stockfish'): Promise<StockfishPool> {
+  const pool = enginePools.get(engineName);
+  if (pool) return pool;
+
+  let init = poolInitPromises.get(engineName);
+  if (!init) {
+    init = (async () => {
+      // 32 native Stockfish engines to support heavy parallel game processing
+      // Each game can request 40+ concurrent analyses, so we need a large pool
+      // (WASM engines default to the core count, other engines to 4). Can be tuned
+      // via STOCKFISH_POOL_SIZE env var, or `poolSize` in the engine config
+      const engine = getEngineDefinition(engineName);
+      const backend = await selectEngineBackend(engine);
+      const envPoolSize = engineName === 'stockfish' ? parseInt(process.env.STOCKFISH_POOL_SIZE || '', 10) : NaN;
+      const poolSize = engine.poolSize || envPoolSize || backend?.defaultPoolSize || 0;
+      const pool = new StockfishPool(engineName, poolSize, backend);
+      await pool.initialize();
+      if (backend) console.log(`[StockfishPool] Initialized with ${poolSize} ${backend.name} ${engineName} engines`);
+      enginePools.set(engineName, pool);
+      return pool;
+    })();
+    poolInitPromises.set(engineName, init);
   }
-  return enginePool;
+  return init;
 }
 
 /**
- * Check if Stockfish analysis is available
+ * Which backend an engine's pool runs on (null until started, or if none works)
  */
-export async function isStockfishAvailable(): Promise<boolean> {
-  const pool = await getEnginePool();
+export function getEngineBackend(engineName: string = 'stockfish'): EngineBackendName | null {
+  return enginePools.get(engineName)?.backendName() ?? null;
+}
+
+/**
+ * Check if an engine (Stockfish by default) can analyze positions
+ */
+export async function isStockfishAvailable(engineName: string = 'stockfish'): Promise<boolean> {
+  const pool = await getEnginePool(engineName);
   return pool.isAvailable();
 }
 
 /**
- * Analyze a position with Stockfish
- * Throws an error if Stockfish is not available
+ * Engine pool health, without starting the pool
+ */
+export function getEngineHealth(engineName: string = 'stockfish'): EngineHealth {
+  const pool = enginePools.get(engineName);
+  if (pool) return pool.getHealth();
+  return {
+    status: 'not_started',
+    backend: null,
+    expected: engineName === 'stockfish' ? parseInt(process.env.STOCKFISH_POOL_SIZE || '', 10) || 0 : 0,
+    alive: 0,
+    idle: 0,
+    crashes: 0,
+    unresponsive: 0,
+    restarts: 0,
+    lastFailureAt: null,
+  };
+}
+
+/**
+ * Health of every engine pool started so far
+ */
+export function getAllEngineHealth(): Record<string, EngineHealth> {
+  return Object.fromEntries([...enginePools.keys()].map(name => [name, getEngineHealth(name)]));
+}
+
+/**
+ * Engine scheduler state: queue depth per priority and time spent waiting
+ * (null until the pool has started)
+ */
+export function getEngineSchedulerStats(engineName: string = 'stockfish'): EngineSchedulerStats | null {
+  const pool = enginePools.get(engineName);
+  return pool?.isAvailable() ? pool.stats() : null;
+}
+
+/**
+ * Analyze a position with an engine profile (default: the ingest task's)
+ * Throws an error if the profile's engine is not available, and an AbortError
+ * if the signal fires while the search is queued or running
+ * chess960: put the engine in UCI_Chess960 mode (X-FEN castling rights)
+ * multiPv: also return the top N candidate moves with their lines
  */
 export async function analyzeWithStockfish(
   fen: string,
-  depth: number = 15
+  profile: EngineProfile | string = profileForTask('ingest'),
+  options: { chess960?: boolean; multiPv?: number } & EngineRequestOptions = {}
 ): Promise<Evaluation> {
-  const pool = await getEnginePool();
+  const searchProfile = typeof profile === 'string' ? getEngineProfile(profile) : profile;
+  const pool = await getEnginePool(searchProfile.engine);
 
   if (!pool.isAvailable()) {
-    throw new Error('Stockfish is not available');
+    throw new Error(`${searchProfile.engine} is not available`);
   }
 
-  const engine = await pool.acquire();
+  const multiPv = Math.max(1, options.multiPv ?? 1);
+  const result = await searchWithRetry(pool, fen, searchProfile, options.chess960 ?? false, multiPv, options);
+
+  const scores = toWhitePerspective(fen, result);
+
+  return {
+    fen,
+    eval: scores.eval,
+    mate: scores.mate,
+    depth: result.depth,
+    bestMove: result.bestMove,
+    lines: multiPv > 1 ? scores.lines : undefined,
+    source: 'stockfish',
+    engine: {
+      engine: searchProfile.engine,
+      backend: pool.backendName()!,
+      profile: searchProfile.name,
+      options: profileOptions(searchProfile),
+      limits: searchProfile.limits,
+    },
+  };
+}
 
-  try {
-    const result = await analyzePosition(engine, fen, depth);
+/**
+ * UCI scores are from the side to move; evaluations are always from White's side
+ * (summaries record this as EVAL_PERSPECTIVE_VERSION)
+ */
+export function toWhitePerspective(
+  fen: string,
+  output: { score: number; mate?: number; lines: EngineLine[] }
+): { eval: number; mate?: number; lines: EngineLine[] } {
+  const sign = fen.split(' ')[1] === 'b' ? -1 : 1;
+  const mate = output.mate !== undefined ? output.mate * sign : undefined;
+  return {
+    eval: mate ? mate * 10000 : output.score * sign,
+    mate,
+    lines: output.lines.map(line => ({
+      ...line,
+      eval: line.eval * sign,
+      mate: line.mate !== undefined ? line.mate * sign : undefined,
+    })),
+  };
+}
 
-    return {
-      fen,
-      eval: result.mate ? result.mate * 10000 : result.score,
-      mate: result.mate,
-      depth: result.depth,
-      bestMove: result.bestMove,
-      source: 'stockfish'
-    };
-  } finally {
-    pool.release(engine);
+/**
+ * Run a search, moving it to another engine if the one it ran on crashed or
+ * hung. Other errors (timeouts, cancellation) are passed on.
+ */
+async function searchWithRetry(
+  pool: StockfishPool,
+  fen: string,
+  profile: EngineProfile,
+  chess960: boolean,
+  multiPv: number,
+  options: EngineRequestOptions
+): Promise<EngineOutput> {
+  const { priority = 'interactive', userId = '', signal } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    const engine = await pool.acquire(priority, userId, signal);
+    try {
+      const result = await analyzePosition(engine, fen, profile, chess960, multiPv, signal);
+      pool.release(engine);
+      return result;
+    } catch (err: any) {
+      const engineFailed = err?.name === 'EngineFailure';
+      if (engineFailed) {
+        pool.retire(engine); // No-op if it already exited
+      } else if (signal?.aborted) {
+        pool.release(engine); // The engine acknowledged the stop
+      } else {
+        void pool.checkAndRelease(engine);
+      }
+
+      if (signal?.aborted) {
+        pool.recordCancelled();
+        throw err;
+      }
+      if (engineFailed && attempt < MAX_SEARCH_ATTEMPTS && pool.isAvailable()) {
+        console.warn(`[Stockfish] ${err.message}, retrying on another engine`);
+        continue;
+      }
+      throw err;
+    }
+  }
+}
+
+/**
+ * `setoption` commands to bring an engine's options in line with a search:
+ * changed options are set, options a previous search set but this one doesn't
+ * go back to their defaults, and options the engine doesn't have are skipped
+ */
+function optionCommands(engine: ChildProcess, engineName: string, wanted: Record<string, UciOptionValue>): string[] {
+  const state = optionState.get(engine);
+  if (!state) return [];
+
+  const commands: string[] = [];
+  const wantedKeys = new Set<string>();
+  for (const [name, raw] of Object.entries(wanted)) {
+    const key = name.toLowerCase();
+    if (state.defaults.size > 0 && !state.defaults.has(key)) {
+      // UCI_Chess960 / MultiPV are only needed when used; anything else is a config mistake
+      if (!key.startsWith('uci_chess960') && !key.startsWith('multipv') && !warnedOptions.has(`${engineName}:${key}`)) {
+        warnedOptions.add(`${engineName}:${key}`);
+        console.warn(`[Stockfish] ${engineName} has no option "${name}", ignoring it`);
+      }
+      continue;
+    }
+    wantedKeys.add(key);
+    const value = String(raw);
+    if (state.applied.get(key)?.value === value) continue;
+    state.applied.set(key, { name, value });
+    commands.push(`setoption name ${name} value ${value}`);
+  }
+
+  for (const [key, { name }] of state.applied) {
+    if (wantedKeys.has(key)) continue;
+    state.applied.delete(key);
+    const fallback = state.defaults.get(key);
+    if (fallback !== null && fallback !== undefined) commands.push(`setoption name ${name} value ${fallback}`);
   }
+  return commands;
 }
 
 /**
- * Analyze a single position with a Stockfish engine instance
+ * Analyze a single position with an engine instance
  */
 function analyzePosition(
   engine: ChildProcess,
   fen: string,
-  depth: number
+  profile: EngineProfile,
+  chess960: boolean,
+  multiPv: number,
+  signal?: AbortSignal
 ): Promise<EngineOutput> {
   return new Promise((resolve, reject) => {
     let bestMove: string | undefined;
     let score: number = 0;
     let mate: number | undefined;
     let currentDepth: number = 0;
+    const lines = new Map<number, EngineLine>(); // Latest (deepest) line per MultiPV slot
+    let stopped: Error | null = null;
+    let graceTimer: NodeJS.Timeout | null = null;
+
+    // Stop the search but keep listening until its bestmove arrives, so the
+    // output doesn't leak into the next search on this engine
+    const stop = (reason: Error) => {
+      if (stopped) return;
+      stopped = reason;
+      engine.stdin?.write('stop\n');
+      graceTimer = setTimeout(() => {
+        cleanup();
+        reject(engineFailure('Stockfish engine unresponsive'));
+      }, STOP_GRACE_MS);
+    };
 
     const timeout = setTimeout(() => {
-      cleanup();
-      reject(new Error('Stockfish analysis timeout'));
-    }, 20000); // 20 second timeout - fail fast on complex positions
+      stop(new Error('Stockfish analysis timeout'));
+    }, profileTimeout(profile));
+
+    const onAbort = () => stop(abortError());
 
     const onData = (data: Buffer) => {
-      const lines = data.toString().split('\n');
+      const output = data.toString().split('\n');
       
-      for (const line of lines) {
+      for (const line of output) {
+        // Only the first line's score is the position's eval
+        const multiPvMatch = line.match(/ multipv (\d+)/);
+        const slot = multiPvMatch ? parseInt(multiPvMatch[1]) : 1;
+
         // Parse depth
         const depthMatch = line.match(/depth (\d+)/);
-        if (depthMatch) {
+        if (depthMatch && slot === 1) {
           currentDepth = parseInt(depthMatch[1]);
         }
 
         // Parse score
+        let lineScore: number | undefined;
+        let lineMate: number | undefined;
         const cpMatch = line.match(/score cp (-?\d+)/);
         if (cpMatch) {
-          score = parseInt(cpMatch[1]);
-          mate = undefined;
+          lineScore = parseInt(cpMatch[1]);
         }
 
         const mateMatch = line.match(/score mate (-?\d+)/);
         if (mateMatch) {
-          mate = parseInt(mateMatch[1]);
-          score = mate * 10000; // Convert to large number
+          lineMate = parseInt(mateMatch[1]);
+          lineScore = lineMate * 10000; // Convert to large number
+        }
+
+        if (lineScore !== undefined && slot === 1) {
+          score = lineScore;
+          mate = lineMate;
         }
 
-        // Parse best move
-        const bestMoveMatch = line.match(/bestmove ([a-h][1-8][a-h][1-8][qrbn]?)/);
+        // Parse the principal variation of this slot
+        const pvMatch = line.match(/ pv ((?:[a-h][1-8][a-h][1-8][qrbn]? ?)+)/);
+        if (pvMatch && lineScore !== undefined) {
+          const pv = pvMatch[1].trim().split(' ');
+          lines.set(slot, { move: pv[0], eval: lineScore, mate: lineMate, pv });
+        }
+
+        // Parse best move ("(none)" when the side to move is mated or stalemated)
+        const bestMoveMatch = line.match(/bestmove (\S+)/);
         if (bestMoveMatch) {
-          bestMove = bestMoveMatch[1];
+          bestMove = /^[a-h][1-8][a-h][1-8][qrbn]?$/.test(bestMoveMatch[1]) ? bestMoveMatch[1] : undefined;
           cleanup();
+          if (stopped) {
+            reject(stopped);
+            return;
+          }
           resolve({
             depth: currentDepth,
             score,
             mate,
-            bestMove
+            bestMove,
+            lines: [...lines.entries()].sort((a, b) => a[0] - b[0]).map(([, l]) => l),
           });
         }
       }
@@ -303,18 +834,43 @@ function analyzePosition(
       reject(error);
     };
 
+    const onExit = () => {
+      cleanup();
+      reject(engineFailure('Stockfish engine exited'));
+    };
+
     const cleanup = () => {
       clearTimeout(timeout);
+      if (graceTimer) clearTimeout(graceTimer);
+      signal?.removeEventListener('abort', onAbort);
       engine.stdout?.removeListener('data', onData);
       engine.stderr?.removeListener('data', onError);
+      engine.removeListener('exit', onExit);
     };
 
     engine.stdout?.on('data', onData);
     engine.stderr?.on('data', onError);
-
-    // Send commands to engine
+    engine.once('exit', onExit);
+    if (engine.exitCode !== null || engine.signalCode !== null) {
+      onExit();
+      return;
+    }
+    if (signal?.aborted) {
+      cleanup();
+      reject(abortError());
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // Send commands to engine. Pool engines are shared between profiles, standard
+    // and Chess960 games and single- and multi-line requests, so the options are
+    // brought up to date on every request.
+    const options = { ...profileOptions(profile), UCI_Chess960: chess960, MultiPV: multiPv };
+    for (const command of optionCommands(engine, profile.engine, options)) {
+      engine.stdin?.write(`${command}\n`);
+    }
     engine.stdin?.write(`position fen ${fen}\n`);
-    engine.stdin?.write(`go depth ${depth}\n`);
+    engine.stdin?.write(`${goCommand(profile.limits)}\n`);
   });
 }
 
@@ -322,10 +878,11 @@ function analyzePosition(
  * Shutdown all Stockfish engines (call on server shutdown)
  */
 export async function shutdownStockfish(): Promise<void> {
-  if (enginePool) {
-    await enginePool.shutdown();
-    enginePool = null;
+  for (const pool of enginePools.values()) {
+    await pool.shutdown();
   }
+  enginePools.clear();
+  poolInitPromises.clear();
 }
 
 /**
@@ -334,7 +891,7 @@ export async function shutdownStockfish(): Promise<void> {
 export async function testStockfish(): Promise<boolean> {
   try {
     const fen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
-    const result = await analyzeWithStockfish(fen, 10);
+    const result = await analyzeWithStockfish(fen, { name: 'test', engine: 'stockfish', options: {}, limits: { depth: 10 } });
     return result.depth >= 10;
   } catch {
     return false;
@@ -0,0 +1,59 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync, readFileSync, chmodSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+// A stand-in for Fathom that logs when each probe starts and ends
+const dir = mkdtempSync(path.join(tmpdir(), 'tablebase-test-'));
+const log = path.join(dir, 'probes.log');
+let tablebase: typeof import('./tablebase');
+
+before(async () => {
+  writeFileSync(path.join(dir, 'KQvK.rtbw'), '');
+  const fathom = path.join(dir, 'fathom');
+  writeFileSync(fathom, `#!/bin/sh\necho start >> "${log}"\nsleep 0.2\necho end >> "${log}"\necho '[WDL "Draw"]'\n`);
+  chmodSync(fathom, 0o755);
+  process.env.SYZYGY_PATH = dir;
+  process.env.FATHOM_PATH = fathom;
+  process.env.FATHOM_CONCURRENCY = '2';
+  tablebase = await import('./tablebase');
+});
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function readLog(): string[] {
+  try {
+    return readFileSync(log, 'utf8').split('\n').filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+test('concurrent probes of one position share a Fathom run', async () => {
+  writeFileSync(log, '');
+  const probes = await Promise.all([
+    tablebase.probeTablebase('4k3/8/8/8/8/8/8/Q3K3 w - - 0 60'),
+    tablebase.probeTablebase('4k3/8/8/8/8/8/8/Q3K3 w - - 3 61'),
+    tablebase.probeTablebase('4k3/8/8/8/8/8/8/Q3K3 w - - 0 60'),
+  ]);
+  assert.deepEqual(probes.map(p => p?.wdl), ['draw', 'draw', 'draw']);
+  assert.equal(readLog().filter(line => line === 'start').length, 1);
+});
+
+test('at most FATHOM_CONCURRENCY probes run at once', async () => {
+  writeFileSync(log, '');
+  const fens = ['1Q6', '2Q5', '3Q4', '5Q2', '6Q1', '7Q'].map(rank => `4k3/8/8/8/8/8/${rank}/4K3 w - - 0 1`);
+  const probes = await Promise.all(fens.map(fen => tablebase.probeTablebase(fen)));
+  assert.ok(probes.every(p => p?.wdl === 'draw'));
+
+  const lines = readLog();
+  assert.equal(lines.filter(line => line === 'start').length, fens.length);
+  let running = 0;
+  let most = 0;
+  for (const line of lines) {
+    running += line === 'start' ? 1 : -1;
+    most = Math.max(most, running);
+  }
+  assert.equal(most, 2);
+});
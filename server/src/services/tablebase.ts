@@ -0,0 +1,199 @@
+/**
+ * Syzygy Tablebases
+ *
+ * Exact results for endgames with few pieces, from a local Syzygy directory:
+ * - SYZYGY_PATH: the tablebase directory (several separated by ':', like
+ *   Stockfish's SyzygyPath). Probing is off without it
+ * - Positions are probed with the Fathom command-line tool (FATHOM_PATH,
+ *   default `fathom` on the PATH), which reads the .rtbw/.rtbz files
+ * - Only positions within the largest tables present (e.g. 5 pieces for the
+ *   3-4-5 set) and without castling rights are probed
+ * - Results are cached in memory by position; at most FATHOM_CONCURRENCY (default 2)
+ *   probes run at once, and concurrent probes of one position share a run
+ */
+
+import { execFile } from 'child_process';
+import { readdirSync } from 'fs';
+import * as path from 'path';
+
+// For the side to move. Cursed wins and blessed losses are draws under the 50-move rule.
+export type TablebaseWdl = 'win' | 'cursed_win' | 'draw' | 'blessed_loss' | 'loss';
+export type TablebaseOutcome = 'won' | 'drawn' | 'lost';
+
+export interface TablebaseProbe {
+  wdl: TablebaseWdl;
+  dtz: number | null;       // Plies to a capture or pawn move with best play (negative when losing)
+  winningMoves: string[];   // SAN
+  drawingMoves: string[];
+}
+
+/**
+ * What a move did to the theoretical result, for the side that made it
+ */
+export interface TablebaseMove {
+  before: TablebaseOutcome | null;  // null: more pieces than the tables hold (e.g. a capture into them)
+  after: TablebaseOutcome;
+  wdl: TablebaseWdl;                // Exact result after the move, for the side to move
+  dtz: number | null;
+  thrown: 'win_to_draw' | 'win_to_loss' | 'draw_to_loss' | null;
+}
+
+const PROBE_TIMEOUT_MS = 5000;
+const MAX_CACHE_ENTRIES = 50000;
+const MAX_CONCURRENT_PROBES = Math.max(1, parseInt(process.env.FATHOM_CONCURRENCY || '2', 10) || 2);
+
+// Fathom's [WDL "..."] names
+const WDL_NAMES: Record<string, TablebaseWdl> = {
+  Win: 'win',
+  CursedWin: 'cursed_win',
+  Draw: 'draw',
+  BlessedLoss: 'blessed_loss',
+  Loss: 'loss',
+};
+
+const cache = new Map<string, TablebaseProbe | null>();
+const inFlight = new Map<string, Promise<TablebaseProbe | null>>();
+const waiting: (() => void)[] = [];
+let running = 0;
+let pieceLimit: number | null = null;
+let fathomMissing = false;
+
+function tablebaseDirs(): string[] {
+  return (process.env.SYZYGY_PATH || '').split(path.delimiter).filter(Boolean);
+}
+
+/**
+ * Most pieces in any WDL table present (0 when probing is off)
+ */
+export function tablebasePieceLimit(): number {
+  if (pieceLimit !== null) return pieceLimit;
+
+  const dirs = tablebaseDirs();
+  let limit = 0;
+  for (const dir of dirs) {
+    try {
+      for (const file of readdirSync(dir)) {
+        const match = /^(K[QRBNP]*)v(K[QRBNP]*)\.rtbw$/.exec(file);
+        if (match) limit = Math.max(limit, match[1].length + match[2].length);
+      }
+    } catch {
+      console.warn(`[Tablebase] Can't read ${dir}`);
+    }
+  }
+
+  if (limit > 0) console.log(`[Tablebase] Syzygy tables for up to ${limit} pieces`);
+  else if (dirs.length > 0) console.warn('[Tablebase] No Syzygy WDL tables (.rtbw) found in SYZYGY_PATH');
+  pieceLimit = limit;
+  return limit;
+}
+
+export function isTablebaseAvailable(): boolean {
+  return !fathomMissing && tablebasePieceLimit() > 0;
+}
+
+/**
+ * Whether the tables can answer for a position: few enough pieces, no castling rights
+ */
+export function isTablebasePosition(fen: string): boolean {
+  const [placement, , castling] = fen.split(' ');
+  const pieces = placement.replace(/[^a-zA-Z]/g, '').length;
+  return isTablebaseAvailable() && (!castling || castling === '-') && pieces <= tablebasePieceLimit();
+}
+
+/**
+ * Practical result: the 50-move rule turns cursed wins and blessed losses into draws
+ */
+export function tablebaseOutcome(wdl: TablebaseWdl): TablebaseOutcome {
+  return wdl === 'win' ? 'won' : wdl === 'loss' ? 'lost' : 'drawn';
+}
+
+function flip(outcome: TablebaseOutcome): TablebaseOutcome {
+  return outcome === 'won' ? 'lost' : outcome === 'lost' ? 'won' : 'drawn';
+}
+
+function parseFathom(output: string): TablebaseProbe | null {
+  const tags = new Map<string, string>();
+  for (const [, name, value] of output.matchAll(/^\[(\w+) "(.*)"\]$/gm)) tags.set(name, value);
+
+  const wdl = WDL_NAMES[tags.get('WDL') ?? ''];
+  if (!wdl) return null;
+  const moves = (name: string) => (tags.get(name) ?? '').split(/[\s,]+/).filter(Boolean);
+  const dtz = parseInt(tags.get('DTZ') ?? '', 10);
+  return {
+    wdl,
+    dtz: Number.isNaN(dtz) ? null : (wdl === 'loss' || wdl === 'blessed_loss' ? -Math.abs(dtz) : Math.abs(dtz)),
+    winningMoves: moves('WinningMoves'),
+    drawingMoves: moves('DrawingMoves'),
+  };
+}
+
+function runFathom(fen: string): Promise<TablebaseProbe | null> {
+  const fathom = process.env.FATHOM_PATH || 'fathom';
+  return new Promise((resolve) => {
+    execFile(fathom, [`--path=${tablebaseDirs().join(path.delimiter)}`, fen], { timeout: PROBE_TIMEOUT_MS }, (err, stdout) => {
+      if ((err as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+        fathomMissing = true;
+        console.warn(`[Tablebase] ${fathom} not found - set FATHOM_PATH to probe SYZYGY_PATH`);
+        resolve(null);
+        return;
+      }
+      // Fathom exits non-zero when a table is missing or the position can't be probed
+      resolve(err ? null : parseFathom(stdout));
+    });
+  });
+}
+
+/**
+ * Run a Fathom probe once a slot is free (a long endgame asks for every position at once)
+ */
+async function runLimited(fen: string): Promise<TablebaseProbe | null> {
+  // A finished probe hands its slot straight to the next one waiting
+  if (running < MAX_CONCURRENT_PROBES) running++;
+  else await new Promise<void>(resolve => waiting.push(resolve));
+  try {
+    return await runFathom(fen);
+  } finally {
+    const next = waiting.shift();
+    if (next) next();
+    else running--;
+  }
+}
+
+/**
+ * Exact result for a position, or null when the tables don't cover it
+ */
+export async function probeTablebase(fen: string): Promise<TablebaseProbe | null> {
+  if (!isTablebasePosition(fen)) return null;
+
+  // The move counters don't change the result
+  const key = fen.split(' ').slice(0, 4).join(' ');
+  if (cache.has(key)) return cache.get(key)!;
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const probe = runLimited(fen).then((result) => {
+    if (cache.size >= MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value!);
+    cache.set(key, result);
+    return result;
+  }).finally(() => inFlight.delete(key));
+  inFlight.set(key, probe);
+  return probe;
+}
+
+/**
+ * What a move did to the theoretical result, from probes of the positions
+ * before and after it (each for its side to move). Null when the position
+ * after the move isn't covered.
+ */
+export function tablebaseMove(before: TablebaseProbe | null, after: TablebaseProbe | null): TablebaseMove | null {
+  if (!after) return null;
+
+  const was = before ? tablebaseOutcome(before.wdl) : null;
+  const now = flip(tablebaseOutcome(after.wdl)); // The opponent is to move after it
+  const thrown =
+    was === 'won' && now === 'drawn' ? 'win_to_draw' :
+    was === 'won' && now === 'lost' ? 'win_to_loss' :
+    was === 'drawn' && now === 'lost' ? 'draw_to_loss' :
+    null;
+  return { before: was, after: now, wdl: after.wdl, dtz: after.dtz, thrown };
+}
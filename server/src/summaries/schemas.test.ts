@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CompactGameSummary, EVAL_PERSPECTIVE_VERSION, hasLegacyEvalPerspective } from './schemas';
+
+const base = {
+  gameId: 'g1',
+  date: '2026-01-01',
+  userColor: 'black',
+  result: 'win',
+  opponent: 'x',
+  timeControl: { type: 'blitz', base: 300, increment: 0 },
+  opening: { eco: 'B20', name: 'Sicilian Defense' },
+  keyPositions: [{ moveNo: 1, side: 'W', move: 'e4', fen: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1' }],
+};
+const analysis = { engine: 'native', depth: 12, analyzedAt: '2026-01-01T00:00:00.000Z' };
+
+test('summaries without an analysis record may use the old eval sign convention', () => {
+  assert.equal(hasLegacyEvalPerspective(CompactGameSummary.parse(base)), true);
+});
+
+test('analysis records are White\'s perspective, stamped or not', () => {
+  const unstamped = CompactGameSummary.parse({ ...base, analysis });
+  assert.equal(unstamped.analysis?.evalPerspective, EVAL_PERSPECTIVE_VERSION);
+  assert.equal(hasLegacyEvalPerspective(unstamped), false);
+
+  const older = CompactGameSummary.parse({ ...base, analysis: { ...analysis, evalPerspective: 0 } });
+  assert.equal(hasLegacyEvalPerspective(older), true);
+});
+
+test('games without moves have no evals to distrust', () => {
+  assert.equal(hasLegacyEvalPerspective(CompactGameSummary.parse({ ...base, keyPositions: [] })), false);
+});
+
+test('legacy ratings (WhiteElo / BlackElo whatever the color) follow the user\'s color', () => {
+  // Saved as userRating = WhiteElo, oppRating = BlackElo
+  const black = CompactGameSummary.parse({ ...base, userRating: 1620, oppRating: 1480 });
+  assert.deepEqual(
+    [black.userRating, black.oppRating, black.whiteRating, black.blackRating],
+    [1480, 1620, 1620, 1480]
+  );
+
+  const white = CompactGameSummary.parse({ ...base, userColor: 'white', userRating: 1620, oppRating: 1480 });
+  assert.deepEqual(
+    [white.userRating, white.oppRating, white.whiteRating, white.blackRating],
+    [1620, 1480, 1620, 1480]
+  );
+});
+
+test('summaries with per-color ratings are left as they are', () => {
+  const summary = CompactGameSummary.parse({ ...base, userRating: 1480, oppRating: 1620, whiteRating: 1620, blackRating: 1480 });
+  assert.deepEqual([summary.userRating, summary.oppRating], [1480, 1620]);
+  // Parsing again (load, save, load) doesn't flip them back
+  const again = CompactGameSummary.parse(summary);
+  assert.deepEqual([again.userRating, again.oppRating], [1480, 1620]);
+});
@@ -1,5 +1,43 @@
 import { z } from 'zod';
 
+// Move quality from the mover's drop in win probability (see analysis/moveClassification.ts)
+export const MoveClassification = z.enum(["best", "excellent", "good", "inaccuracy", "mistake", "blunder", "missed_win"]);
+export type MoveClassificationT = z.infer<typeof MoveClassification>;
+
+// One of the engine's top candidate moves in the position before a move (MultiPV)
+export const EngineLine = z.object({
+  move: z.string(),                          // SAN
+  uci: z.string(),
+  eval: z.number(),                          // Pawns, White's perspective (same scale as evalBefore)
+  mate: z.number().nullable().default(null), // Mate in X (positive = White mates)
+  line: z.array(z.string()).default([]),     // Principal variation in SAN, starting with `move`
+});
+
+export type EngineLineT = z.infer<typeof EngineLine>;
+
+// Exact endgame result from the Syzygy tablebases (see services/tablebase.ts)
+export const TablebaseOutcome = z.enum(["won", "drawn", "lost"]); // 50-move rule applied
+export const KeyPositionTablebase = z.object({
+  before: TablebaseOutcome.nullable(), // For the mover, before the move (null: more pieces than the tables hold)
+  after: TablebaseOutcome,             // For the mover, after it
+  wdl: z.enum(["win", "cursed_win", "draw", "blessed_loss", "loss"]), // Exact result after the move, for the side to move
+  dtz: z.number().nullable(),          // Plies to a capture or pawn move after the move, for the side to move (negative = losing)
+  thrown: z.enum(["win_to_draw", "win_to_loss", "draw_to_loss"]).nullable(), // Result the move gave away
+});
+export type KeyPositionTablebaseT = z.infer<typeof KeyPositionTablebase>;
+
+// Tactic behind a mistake, read from the engine lines (see analysis/tactics.ts)
+export const TacticalMotif = z.enum([
+  "fork", "pin", "skewer", "discovered_attack", "back_rank_mate", "removal_of_defender", "overloading", "hanging_piece",
+]);
+export type TacticalMotifT = z.infer<typeof TacticalMotif>;
+export const Tactic = z.object({
+  motif: TacticalMotif,
+  kind: z.enum(["missed", "allowed"]),         // missed: in the best line the mover didn't play; allowed: in the opponent's reply
+  piece: z.enum(["p", "n", "b", "r", "q", "k"]), // Piece that carries it out (e.g. the forking knight)
+});
+export type TacticT = z.infer<typeof Tactic>;
+
 export const KeyPosition = z.object({
   moveNo: z.number(),
   side: z.enum(["W", "B"]),
@@ -9,35 +47,139 @@ export const KeyPosition = z.object({
   evalBefore: z.number().nullable().default(null),
   evalAfter: z.number().nullable().default(null),
   bestMove: z.string().nullable().default(null),
+  alternatives: z.array(EngineLine).default([]), // Engine's top moves before this move, best first
+  classification: MoveClassification.nullable().default(null), // null when the move wasn't evaluated
+  clock: z.number().nullable().default(null), // Seconds left on the mover's clock after the move (from %clk)
+  timeSpent: z.number().nullable().default(null), // Seconds the mover spent on this move (increment accounted for)
+  tablebase: KeyPositionTablebase.nullable().default(null), // null = not covered by the tablebases (or none configured)
+  tactics: z.array(Tactic).default([]), // Only looked for on mistakes, blunders and missed wins
+});
+
+// Opening identified from the deepest named position reached (see openings/ecoTree.ts),
+// or taken from the PGN headers when no position matched
+export const GameOpening = z.object({
+  eco: z.string().nullable(),
+  name: z.string().nullable(),
+  family: z.string().nullable().default(null),       // e.g. "Sicilian Defense"
+  variation: z.string().nullable().default(null),    // e.g. "Najdorf Variation"
+  subvariation: z.string().nullable().default(null), // e.g. "English Attack"
+  ply: z.number().nullable().default(null),          // Ply of the named position
+  leftTheoryPly: z.number().nullable().default(null), // First ply out of book (null = never left)
 });
 
-export const CompactGameSummary = z.object({
+// Sign convention of stored evals. 1 = White's perspective (positive = White
+// is better) for every eval and engine line. Stockfish scores used to be stored
+// from the side to move. That was fixed before the analysis record existed, so
+// every record is version 1, and a summary without a record may be either (see
+// hasLegacyEvalPerspective).
+export const EVAL_PERSPECTIVE_VERSION = 1;
+
+// How a game's moves were evaluated, so games analyzed without an engine (or
+// only partly) can be found and re-analyzed
+export const GameAnalysis = z.object({
+  engine: z.enum(["native", "wasm", "lichess", "none"]), // none = no engine ran; every eval is a placeholder
+  depth: z.number().nullable(),                          // Shallowest search among evaluated positions
+  engineName: z.string().nullable().default(null),       // Registered UCI engine (engineProfiles), null if none ran
+  profile: z.string().nullable().default(null),          // Engine profile of the scan over every move
+  reviewed: z.number().default(0),                       // Positions re-searched as critical moments
+  reviewProfile: z.string().nullable().default(null),    // Engine profile of that deeper search
+  unevaluated: z.number().default(0),                    // Positions with no engine result
+  evalPerspective: z.number().default(EVAL_PERSPECTIVE_VERSION), // Sign convention of the evals (EVAL_PERSPECTIVE_VERSION)
+  analyzedAt: z.string(),                                // ISO timestamp
+});
+export type GameAnalysisT = z.infer<typeof GameAnalysis>;
+
+/**
+ * Summaries stored before Lichess support kept the game link in `chesscomUrl`.
+ * Carry it over to `gameUrl` so existing data files keep parsing.
+ */
+function migrateLegacySummary(raw: unknown): unknown {
+  if (!raw || typeof raw !== "object") return raw;
+  const { chesscomUrl, ...rest } = raw as Record<string, unknown>;
+  const migrated = chesscomUrl === undefined || "gameUrl" in rest ? rest : { ...rest, gameUrl: chesscomUrl };
+  return migrateLegacyRatings(migrated);
+}
+
+// Summaries saved before per-color ratings took userRating from WhiteElo and
+// oppRating from BlackElo whatever color the user had
+function migrateLegacyRatings(raw: Record<string, unknown>): Record<string, unknown> {
+  if ("whiteRating" in raw || "blackRating" in raw) return raw;
+  if (raw.userRating == null && raw.oppRating == null) return raw;
+  const whiteRating = raw.userRating ?? null;
+  const blackRating = raw.oppRating ?? null;
+  const white = raw.userColor !== "black";
+  return {
+    ...raw,
+    whiteRating,
+    blackRating,
+    userRating: white ? whiteRating : blackRating,
+    oppRating: white ? blackRating : whiteRating,
+  };
+}
+
+export const GameTermination = z.enum([
+  "checkmate",
+  "resignation",
+  "time",
+  "abandoned",
+  "agreement",
+  "repetition",
+  "stalemate",
+  "insufficient_material",
+  "other",
+]);
+export type GameTerminationT = z.infer<typeof GameTermination>;
+
+// fromPosition = standard rules from a custom start (Lichess "From Position", SetUp/FEN headers)
+export const GameVariant = z.enum(["standard", "chess960", "fromPosition"]);
+export type GameVariantT = z.infer<typeof GameVariant>;
+
+export const GameSite = z.enum(["chess.com", "lichess", "local"]); // local = uploaded PGN (e.g. OTB games)
+export type GameSiteT = z.infer<typeof GameSite>;
+
+const CompactGameSummaryObject = z.object({
   gameId: z.string(),
   date: z.string(),
-  site: z.literal("chess.com"),
+  site: GameSite.default("chess.com"),
   rated: z.boolean().default(true),
-  variant: z.literal("standard").default("standard"),
+  variant: GameVariant.default("standard"),
+  startFen: z.string().nullable().default(null), // Initial position for chess960/fromPosition games
   timeControl: z.object({
     type: z.enum(["bullet", "blitz", "rapid", "daily"]),
     base: z.number().nullable(),
     increment: z.number().nullable(),
   }),
   userColor: z.enum(["white", "black"]),
-  userRating: z.number().nullable().default(null),
+  userRating: z.number().nullable().default(null),  // The user's rating for this game (their color's Elo)
   oppRating: z.number().nullable().default(null),
+  whiteRating: z.number().nullable().default(null), // From the WhiteElo / BlackElo headers
+  blackRating: z.number().nullable().default(null),
   result: z.enum(["win", "loss", "draw", "abort", "timeout", "resign", "checkmate", "stalemate", "other"]).default("other"),
-  opening: z.object({ eco: z.string().nullable(), name: z.string().nullable() }).default({ eco: null, name: null }),
+  termination: GameTermination.nullable().default(null), // How the game ended (from the Termination header)
+  opening: GameOpening.default({ eco: null, name: null, family: null, variation: null, subvariation: null, ply: null, leftTheoryPly: null }),
   mistakes: z.number().default(0),
   blunders: z.number().default(0),
   inaccuracies: z.number().default(0),
+  missedWins: z.number().default(0), // Winning positions thrown away (also counted in blunders)
   keyPositions: z.array(KeyPosition).default([]), // No limit - analyze all moves
+  analysis: GameAnalysis.nullable().default(null), // null = saved before this was recorded
   // Enhanced game references for better coaching
-  chesscomUrl: z.string().nullable().default(null), // Link to view full game
+  gameUrl: z.string().nullable().default(null), // Link to view full game on its site
   whitePlayer: z.string().nullable().default(null), // White player username
   blackPlayer: z.string().nullable().default(null), // Black player username
   opponent: z.string().nullable().default(null), // Opponent's username (derived from userColor)
 });
 
-export type CompactGameSummaryT = z.infer<typeof CompactGameSummary>;
+export const CompactGameSummary = z.preprocess(migrateLegacySummary, CompactGameSummaryObject);
 
+export type CompactGameSummaryT = z.infer<typeof CompactGameSummary>;
 
+/**
+ * Whether a game's evals may use an older sign convention (side to move
+ * instead of White's perspective). Their classifications are wrong whatever
+ * the search depth, so these games are re-analyzed.
+ */
+export function hasLegacyEvalPerspective(summary: CompactGameSummaryT): boolean {
+  if (summary.keyPositions.length === 0) return false;
+  return (summary.analysis?.evalPerspective ?? 0) < EVAL_PERSPECTIVE_VERSION;
+}
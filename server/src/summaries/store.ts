@@ -31,6 +31,36 @@ export async function loadSummaries(userId: string): Promise<CompactGameSummaryT
   }
 }
 
+/**
+ * Users with stored games
+ */
+export async function listSummaryUsers(): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(DATA_ROOT);
+  } catch {
+    return [];
+  }
+  const users: string[] = [];
+  for (const userId of entries) {
+    try {
+      await fs.access(summariesPath(userId));
+      users.push(userId);
+    } catch {
+      // No games for this user
+    }
+  }
+  return users;
+}
+
+/**
+ * IDs of every stored game, for skipping already-analyzed games during ingest
+ */
+export async function loadGameIds(userId: string): Promise<Set<string>> {
+  const summaries = await loadSummaries(userId);
+  return new Set(summaries.map((s) => s.gameId));
+}
+
 export async function saveSummaries(userId: string, items: CompactGameSummaryT[]): Promise<void> {
   const dir = userDir(userId);
   await ensureDir(dir);
@@ -40,12 +70,25 @@ export async function saveSummaries(userId: string, items: CompactGameSummaryT[]
   await fs.writeFile(file, JSON.stringify(valid, null, 2), 'utf8');
 }
 
-export async function upsertSummaries(userId: string, items: CompactGameSummaryT[]): Promise<void> {
-  const existing = await loadSummaries(userId);
-  const map = new Map<string, CompactGameSummaryT>();
-  for (const it of existing) map.set(it.gameId, it);
-  for (const it of items) map.set(it.gameId, CompactGameSummary.parse(it));
-  await saveSummaries(userId, Array.from(map.values()));
+// Per-user lock: ingest and re-analysis both upsert, and a load-modify-save
+// must not drop the other's games
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+  const prev = locks.get(userId) ?? Promise.resolve();
+  const next = prev.then(fn, fn);
+  locks.set(userId, next.catch(() => undefined));
+  return next;
+}
+
+export function upsertSummaries(userId: string, items: CompactGameSummaryT[]): Promise<void> {
+  return withLock(userId, async () => {
+    const existing = await loadSummaries(userId);
+    const map = new Map<string, CompactGameSummaryT>();
+    for (const it of existing) map.set(it.gameId, it);
+    for (const it of items) map.set(it.gameId, CompactGameSummary.parse(it));
+    await saveSummaries(userId, Array.from(map.values()));
+  });
 }
 
 
@@ -0,0 +1,146 @@
+/**
+ * Review Items
+ *
+ * Positions from the user's games worth seeing again:
+ * - mistake: the position before a user mistake, blunder or missed win; the
+ *   engine's best move and any near-equal alternative are accepted
+ * - endgame: the same, when the position is an endgame (or a tablebase one)
+ * - opening: the last book position before the user left theory; any move
+ *   that stays in the book is accepted (one item per position, however many
+ *   games reached it)
+ * No engine runs here - the answers come from the stored analysis.
+ */
+
+import { Chess } from 'chess.js';
+import type { CompactGameSummaryT, EngineLineT } from '../summaries/schemas';
+import { getMoveClassification, isUserMove, winPercent } from '../analysis/moveClassification';
+import { phaseOfPosition } from '../analysis/features';
+import { lookupPosition, toEpd } from '../openings/ecoTree';
+import { updateReviewDeck } from './store';
+import type { ReviewDeckT, ReviewItemT, ReviewKindT } from './schema';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const ERROR_LABELS = new Set(['mistake', 'blunder', 'missed_win']);
+const ACCEPT_LOSS = 5; // Win-chance points behind the best move an answer may be (a "good" move or better)
+
+/**
+ * Mover's win chance (0-100) for an engine line
+ */
+function moverWinPercent(line: EngineLineT, side: 'W' | 'B'): number {
+  if (line.mate !== null) return (line.mate > 0) === (side === 'W') ? 100 : 0;
+  const win = winPercent(line.eval);
+  return side === 'W' ? win : 100 - win;
+}
+
+/**
+ * Moves (SAN) as good as the engine's best, from the stored MultiPV lines
+ */
+export function engineAnswers(alternatives: EngineLineT[], side: 'W' | 'B'): string[] {
+  if (alternatives.length === 0) return [];
+  const best = moverWinPercent(alternatives[0], side);
+  return alternatives.filter(a => best - moverWinPercent(a, side) < ACCEPT_LOSS).map(a => a.move);
+}
+
+/**
+ * Legal moves (SAN) that lead to a named book position
+ */
+export function bookAnswers(fen: string): string[] {
+  const chess = new Chess(fen);
+  return chess.moves({ verbose: true }).filter(m => lookupPosition(m.after) !== null).map(m => m.san);
+}
+
+/**
+ * New review items from stored games (most recent games first), skipping ids
+ * the deck already has. Chess960 games are skipped.
+ */
+export function collectReviewItems(
+  summaries: CompactGameSummaryT[],
+  existing: Set<string>,
+  now: Date = new Date()
+): ReviewItemT[] {
+  const items = new Map<string, ReviewItemT>();
+  const byDate = [...summaries].sort((a, b) => b.date.localeCompare(a.date));
+
+  const add = (
+    kind: ReviewKindT,
+    id: string,
+    game: CompactGameSummaryT,
+    pos: CompactGameSummaryT['keyPositions'][number],
+    fen: string,
+    answers: string[]
+  ) => {
+    if (existing.has(id) || items.has(id)) return;
+    if (answers.length === 0 || (pos.move && answers.includes(pos.move))) return;
+    items.set(id, {
+      id,
+      kind,
+      gameId: game.gameId,
+      gameUrl: game.gameUrl,
+      opponent: game.opponent,
+      date: game.date,
+      moveNo: pos.moveNo,
+      side: pos.side,
+      fen,
+      answers,
+      played: pos.move ?? null,
+      opening: game.opening.name,
+      ease: 2.5,
+      interval: 0,
+      repetitions: 0,
+      lapses: 0,
+      due: now.toISOString(),
+      reviews: 0,
+      correct: 0,
+      introducedAt: null,
+      lastReviewedAt: null,
+      createdAt: now.toISOString(),
+    });
+  };
+
+  for (const game of byDate) {
+    if (game.variant === 'chess960') continue;
+    const positions = game.keyPositions;
+    const fenBefore = (i: number) => (i === 0 ? game.startFen ?? START_FEN : positions[i - 1].fen);
+    // Older summaries kept only selected moves - the previous position must be this move's
+    const isFullMove = (i: number) =>
+      fenBefore(i).split(' ')[1] === (positions[i].side === 'W' ? 'w' : 'b');
+
+    // Where the user left the book
+    const leftPly = game.opening.leftTheoryPly;
+    if (game.variant === 'standard' && leftPly !== null && leftPly >= 1 && leftPly <= positions.length) {
+      const i = leftPly - 1;
+      const pos = positions[i];
+      if (isUserMove(game, pos) && isFullMove(i)) {
+        const fen = fenBefore(i);
+        add('opening', `opening:${toEpd(fen)}`, game, pos, fen, bookAnswers(fen));
+      }
+    }
+
+    // The user's errors
+    for (let i = 0; i < positions.length; i++) {
+      const pos = positions[i];
+      const label = getMoveClassification(pos);
+      if (!label || !ERROR_LABELS.has(label) || !isUserMove(game, pos) || !isFullMove(i)) continue;
+
+      const fen = fenBefore(i);
+      const endgame = (pos.tablebase !== null && pos.tablebase.before !== null) || phaseOfPosition(fen, pos.moveNo) === 'endgame';
+      const kind: ReviewKindT = endgame ? 'endgame' : 'mistake';
+      add(kind, `${kind}:${game.gameId}:${i}`, game, pos, fen, engineAnswers(pos.alternatives, pos.side));
+    }
+  }
+
+  return [...items.values()];
+}
+
+/**
+ * Add review items for games stored since the last sync. Returns the updated deck.
+ */
+export function syncReviewItems(userId: string, summaries: CompactGameSummaryT[]): Promise<ReviewDeckT> {
+  return updateReviewDeck(userId, (deck) => {
+    const added = collectReviewItems(summaries, new Set(deck.items.map(i => i.id)));
+    deck.items.push(...added);
+    if (added.length > 0) console.log(`[Training] ${added.length} new review items for ${userId}`);
+    return deck;
+  });
+}
@@ -0,0 +1,188 @@
+/**
+ * Review Scheduler
+ *
+ * SM-2 spaced repetition over the user's review items:
+ * - Answers are checked against the item's accepted moves and graded 0-5
+ *   (wrong = 1; right = 3 / 4 / 5 for hard / good / easy, good by default)
+ * - Right answers stretch the interval (1 day, 6 days, then x ease); wrong
+ *   ones reset it to a day and lower the ease
+ * - "Due today" runs to the end of the current UTC day: items due for review,
+ *   then up to NEW_PER_DAY items the user hasn't seen yet
+ * - Accuracy over the review log feeds the player profile (see profile/generator.ts)
+ */
+
+import { Chess } from 'chess.js';
+import type { TrainingStatsT } from '../profile/schema';
+import { findMove } from '../puzzles/trainer';
+import { ReviewKind, type ReviewDeckT, type ReviewItemT, type ReviewKindT } from './schema';
+
+export const NEW_PER_DAY = 10;
+const MIN_EASE = 1.3;
+const MATURE_INTERVAL = 21;  // Days - an item remembered this long counts as learned
+const LOG_LIMIT = 2000;      // Reviews kept for accuracy stats
+const RECENT_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReviewGrade = 'hard' | 'good' | 'easy';
+
+/**
+ * A review item as the user sees it (no answers)
+ */
+export interface ReviewView {
+  id: string;
+  kind: ReviewKindT;
+  prompt: string;
+  fen: string;
+  side: 'W' | 'B';
+  moveNo: number;
+  opening: string | null;
+  opponent: string | null;
+  gameUrl: string | null;
+  date: string;
+  isNew: boolean;
+  interval: number;
+}
+
+function endOfDay(now: Date): Date {
+  const end = new Date(now);
+  end.setUTCHours(23, 59, 59, 999);
+  return end;
+}
+
+function sameDay(iso: string, now: Date): boolean {
+  return iso.slice(0, 10) === now.toISOString().slice(0, 10);
+}
+
+function reviewPrompt(item: ReviewItemT): string {
+  if (item.kind === 'opening') {
+    return `${item.opening ?? 'Your opening'}: you left the book here with ${item.played ?? 'a new move'}. What's the book move?`;
+  }
+  const played = item.played ? `You played ${item.played} here. ` : '';
+  return item.kind === 'endgame'
+    ? `${played}Find the move that keeps your endgame on track.`
+    : `${played}Find a better move.`;
+}
+
+export function toReviewView(item: ReviewItemT): ReviewView {
+  return {
+    id: item.id,
+    kind: item.kind,
+    prompt: reviewPrompt(item),
+    fen: item.fen,
+    side: item.side,
+    moveNo: item.moveNo,
+    opening: item.opening,
+    opponent: item.opponent,
+    gameUrl: item.gameUrl,
+    date: item.date,
+    isNew: item.introducedAt === null,
+    interval: item.interval,
+  };
+}
+
+/**
+ * Today's queue: reviews that are due (most overdue first), then new items
+ * (most recent games first) up to what's left of today's new-item allowance
+ */
+export function dueQueue(deck: ReviewDeckT, now: Date = new Date()): ReviewItemT[] {
+  const cutoff = endOfDay(now).toISOString();
+  const due = deck.items
+    .filter(i => i.introducedAt !== null && i.due <= cutoff)
+    .sort((a, b) => a.due.localeCompare(b.due));
+
+  const introducedToday = deck.items.filter(i => i.introducedAt !== null && sameDay(i.introducedAt, now)).length;
+  const fresh = deck.items
+    .filter(i => i.introducedAt === null)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, Math.max(0, NEW_PER_DAY - introducedToday));
+
+  return [...due, ...fresh];
+}
+
+/**
+ * Check an answer (UCI). `move` is null when it isn't legal in the position.
+ */
+export function checkAnswer(item: ReviewItemT, uci: string): { move: string | null; correct: boolean } {
+  const move = findMove(new Chess(item.fen), uci);
+  if (!move) return { move: null, correct: false };
+  return { move: move.san, correct: item.answers.includes(move.san) };
+}
+
+/**
+ * SM-2 grade (0-5) for an answer
+ */
+export function reviewQuality(correct: boolean, grade: ReviewGrade = 'good'): number {
+  if (!correct) return 1;
+  return grade === 'easy' ? 5 : grade === 'hard' ? 3 : 4;
+}
+
+/**
+ * Apply an SM-2 review to an item (mutates it)
+ */
+export function scheduleReview(item: ReviewItemT, quality: number, now: Date = new Date()): void {
+  if (quality < 3) {
+    item.repetitions = 0;
+    item.interval = 1;
+    item.lapses++;
+  } else {
+    item.repetitions++;
+    item.interval = item.repetitions === 1 ? 1 : item.repetitions === 2 ? 6 : Math.round(item.interval * item.ease);
+  }
+  item.ease = Math.max(MIN_EASE, item.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  item.due = new Date(now.getTime() + item.interval * DAY_MS).toISOString();
+}
+
+/**
+ * Record an answer on the deck: reschedule the item and log the review (mutates both)
+ */
+export function recordReview(
+  deck: ReviewDeckT,
+  item: ReviewItemT,
+  move: string,
+  correct: boolean,
+  quality: number,
+  now: Date = new Date()
+): void {
+  scheduleReview(item, quality, now);
+  item.reviews++;
+  if (correct) item.correct++;
+  item.introducedAt ??= now.toISOString();
+  item.lastReviewedAt = now.toISOString();
+
+  deck.log.push({ itemId: item.id, kind: item.kind, at: now.toISOString(), move, correct, quality });
+  if (deck.log.length > LOG_LIMIT) deck.log.splice(0, deck.log.length - LOG_LIMIT);
+}
+
+function percent(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 100) : null;
+}
+
+/**
+ * Review accuracy and progress for the player profile
+ */
+export function trainingStats(deck: ReviewDeckT, now: Date = new Date()): TrainingStatsT {
+  const recentCutoff = new Date(now.getTime() - RECENT_DAYS * DAY_MS).toISOString();
+  const recent = deck.log.filter(r => r.at >= recentCutoff);
+
+  return {
+    items: deck.items.length,
+    newItems: deck.items.filter(i => i.introducedAt === null).length,
+    dueToday: dueQueue(deck, now).length,
+    reviews: deck.log.length,
+    accuracy: percent(deck.log.filter(r => r.correct).length, deck.log.length),
+    recentAccuracy: percent(recent.filter(r => r.correct).length, recent.length),
+    byKind: ReviewKind.options.map(kind => {
+      const log = deck.log.filter(r => r.kind === kind);
+      const items = deck.items.filter(i => i.kind === kind);
+      return {
+        kind,
+        items: items.length,
+        learned: items.filter(i => i.interval >= MATURE_INTERVAL).length,
+        reviews: log.length,
+        accuracy: percent(log.filter(r => r.correct).length, log.length),
+      };
+    }),
+    lastReviewAt: deck.log[deck.log.length - 1]?.at ?? null,
+  };
+}
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+// mistake: a user error outside the endgame; opening: where the user left book;
+// endgame: a user error in an endgame position
+export const ReviewKind = z.enum(["mistake", "opening", "endgame"]);
+export type ReviewKindT = z.infer<typeof ReviewKind>;
+
+export const ReviewItem = z.object({
+  id: z.string(),                   // `${kind}:${gameId}:${ply}`, or `opening:${epd}` (one per book position)
+  kind: ReviewKind,
+  gameId: z.string(),               // Game the position came from (the first one, for openings)
+  gameUrl: z.string().nullable().default(null),
+  opponent: z.string().nullable().default(null),
+  date: z.string(),
+  moveNo: z.number(),
+  side: z.enum(["W", "B"]),         // The user's side, to move
+  fen: z.string(),
+  answers: z.array(z.string()),     // Accepted moves (SAN): the engine's best and near-equal ones, or the book moves
+  played: z.string().nullable(),    // What the user played in the game (SAN)
+  opening: z.string().nullable().default(null),
+
+  // SM-2 scheduling state
+  ease: z.number().default(2.5),
+  interval: z.number().default(0),  // Days until the next review
+  repetitions: z.number().default(0), // Correct answers in a row
+  lapses: z.number().default(0),
+  due: z.string(),                  // ISO timestamp
+  reviews: z.number().default(0),
+  correct: z.number().default(0),
+  introducedAt: z.string().nullable().default(null), // First review (null = still new)
+  lastReviewedAt: z.string().nullable().default(null),
+  createdAt: z.string(),
+});
+export type ReviewItemT = z.infer<typeof ReviewItem>;
+
+export const ReviewLogEntry = z.object({
+  itemId: z.string(),
+  kind: ReviewKind,
+  at: z.string(),
+  move: z.string(),                 // SAN
+  correct: z.boolean(),
+  quality: z.number(),              // SM-2 grade, 0-5
+});
+export type ReviewLogEntryT = z.infer<typeof ReviewLogEntry>;
+
+export const ReviewDeck = z.object({
+  userId: z.string(),
+  items: z.array(ReviewItem).default([]),
+  log: z.array(ReviewLogEntry).default([]), // Most recent reviews, oldest first (capped)
+  updatedAt: z.string(),
+});
+export type ReviewDeckT = z.infer<typeof ReviewDeck>;
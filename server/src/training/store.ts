@@ -0,0 +1,56 @@
+/**
+ * Review Storage
+ *
+ * A user's review items, their scheduling state and recent answers, next to
+ * their game summaries (data/<userId>/reviews.json).
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ReviewDeck, type ReviewDeckT } from './schema';
+
+const DATA_ROOT = path.join(process.cwd(), 'data');
+
+function reviewsPath(userId: string): string {
+  return path.join(DATA_ROOT, userId, 'reviews.json');
+}
+
+/**
+ * Load a user's review deck (an empty deck if they have none yet)
+ */
+export async function loadReviewDeck(userId: string): Promise<ReviewDeckT> {
+  try {
+    const raw = await fs.readFile(reviewsPath(userId), 'utf8');
+    return ReviewDeck.parse(JSON.parse(raw));
+  } catch (err: any) {
+    if (err?.code === 'ENOENT' || err?.code === 'ENOTDIR') {
+      return ReviewDeck.parse({ userId, updatedAt: new Date().toISOString() });
+    }
+    throw err;
+  }
+}
+
+async function saveReviewDeck(userId: string, deck: ReviewDeckT): Promise<void> {
+  await fs.mkdir(path.join(DATA_ROOT, userId), { recursive: true });
+  const validated = ReviewDeck.parse({ ...deck, updatedAt: new Date().toISOString() });
+  await fs.writeFile(reviewsPath(userId), JSON.stringify(validated, null, 2), 'utf8');
+}
+
+// Per-user lock: syncing new items and answering reviews both load-modify-save the same file
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Load, change and save a user's review deck without racing other updates
+ */
+export function updateReviewDeck<T>(userId: string, fn: (deck: ReviewDeckT) => T | Promise<T>): Promise<T> {
+  const run = async () => {
+    const deck = await loadReviewDeck(userId);
+    const result = await fn(deck);
+    await saveReviewDeck(userId, deck);
+    return result;
+  };
+  const prev = locks.get(userId) ?? Promise.resolve();
+  const next = prev.then(run, run);
+  locks.set(userId, next.catch(() => undefined));
+  return next;
+}
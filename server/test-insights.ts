@@ -96,8 +96,8 @@ async function testInsights() {
       insight.evidence.exampleGames.forEach((game, idx) => {
         console.log(`      ${idx + 1}. vs ${game.opponent} - Move ${game.moveNo} (${game.evalLoss}cp)`);
         console.log(`         ${game.description}`);
-        if (game.chesscomUrl) {
-          console.log(`         View game: ${game.chesscomUrl}`);
+        if (game.gameUrl) {
+          console.log(`         View game: ${game.gameUrl}`);
         }
         console.log(`         FEN: ${game.fen}`);
       });
@@ -1,5 +1,5 @@
 import React, { memo } from 'react';
-import { Linking, useColorScheme, View, StyleSheet } from 'react-native';
+import { Linking, useColorScheme, View, Text, StyleSheet } from 'react-native';
 import Markdown from 'react-native-markdown-display';
 import { colors, radii } from '../theme';
 import { Board } from './chess/Board';
@@ -16,17 +16,20 @@ function getTextFromChildren(children: any): string {
   return '';
 }
 
+type BoardTag = { fen: string; bestLine: string | null };
+
 /**
- * Parse [POSITION:fen] and [BOARD:fen] tags and replace them with board components
+ * Parse [POSITION:fen] and [BOARD:fen] tags and replace them with board components.
+ * Boards can carry the better continuation after a pipe: [BOARD:fen|12. Nf3 Nc6]
  */
-function parsePositionTags(text: string): { content: string; boards: Map<string, string> } {
-  const boards = new Map<string, string>();
+function parsePositionTags(text: string): { content: string; boards: Map<string, BoardTag> } {
+  const boards = new Map<string, BoardTag>();
   let counter = 0;
   
   // Replace both [POSITION:fen] and [BOARD:fen] with placeholders
-  let content = text.replace(/\[(?:POSITION|BOARD):([^\]]+)\]/g, (match, fen) => {
+  let content = text.replace(/\[(?:POSITION|BOARD):([^\]|]+)(?:\|([^\]]*))?\]/g, (match, fen, bestLine) => {
     const boardId = `__BOARD_${counter}__`;
-    boards.set(boardId, fen.trim());
+    boards.set(boardId, { fen: fen.trim(), bestLine: bestLine?.trim() || null });
     counter++;
     return `\n\n${boardId}\n\n`;
   });
@@ -148,12 +151,17 @@ const MarkdownMessage = ({ text }: Props) => {
       
       if (boardMatch) {
         const boardId = textContent.trim();
-        const fen = boards.get(boardId);
+        const board = boards.get(boardId);
         
-        if (fen) {
+        if (board) {
           return (
             <View key={boardId} style={boardStyles.container}>
-              <Board fen={fen} size={280} />
+              <Board fen={board.fen} size={280} />
+              {board.bestLine && (
+                <Text style={[boardStyles.bestLine, { color: isDark ? '#d1d5db' : colors.mutedText }]}>
+                  Better: {board.bestLine}
+                </Text>
+              )}
             </View>
           );
         }
@@ -189,6 +197,11 @@ const boardStyles = StyleSheet.create({
     marginVertical: 12,
     paddingVertical: 8,
   },
+  bestLine: {
+    marginTop: 6,
+    fontSize: 13,
+    textAlign: 'center',
+  },
 });
 
 export default memo(MarkdownMessage);
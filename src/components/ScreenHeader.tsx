@@ -2,8 +2,8 @@ import React from 'react';
 import { View, Text } from 'react-native';
 import { colors } from '../theme';
 
-export const ScreenHeader: React.FC<{ title: string; subtitle?: string; LeftIcon?: React.ComponentType<{ size?: number; color?: string }> }>
-= ({ title, subtitle, LeftIcon }) => {
+export const ScreenHeader: React.FC<{ title: string; subtitle?: string; LeftIcon?: React.ComponentType<{ size?: number; color?: string }>; right?: React.ReactNode }>
+= ({ title, subtitle, LeftIcon, right }) => {
   return (
     <View style={{ backgroundColor: colors.headerBg, padding: 24 }}>
       <View style={{ flexDirection: 'row', alignItems: 'center' }}>
@@ -12,10 +12,11 @@ export const ScreenHeader: React.FC<{ title: string; subtitle?: string; LeftIcon
             <LeftIcon size={24} color={colors.coachAccent} />
           </View>
         )}
-        <View>
+        <View style={{ flex: 1 }}>
           <Text style={{ color: 'white', fontSize: 18, fontWeight: '700' }}>{title}</Text>
           {!!subtitle && <Text style={{ color: 'rgba(255,255,255,0.8)', fontSize: 12 }}>{subtitle}</Text>}
         </View>
+        {right}
       </View>
     </View>
   );
@@ -1,5 +1,5 @@
 import React from 'react';
-import { View } from 'react-native';
+import { View, Pressable } from 'react-native';
 import Svg, { Rect } from 'react-native-svg';
 import WK from '../../../assets/pieces/cburnett/wK.svg';
 import WQ from '../../../assets/pieces/cburnett/wQ.svg';
@@ -19,17 +19,37 @@ type BoardProps = {
   size?: number; // total board size in px
   lightColor?: string;
   darkColor?: string;
+  flipped?: boolean; // black at the bottom
+  highlights?: string[]; // squares to tint, e.g. ['e2', 'e4']
+  selected?: string | null; // the piece picked up to move, tinted apart from the highlights
+  onSquarePress?: (square: string) => void; // makes the board tappable
 };
 
+const HIGHLIGHT_COLOR = 'rgba(212,175,55,0.5)';
+const SELECTED_COLOR = 'rgba(14,165,233,0.45)';
+
 const pieceToSvg: Record<string, React.FC<any>> = {
   K: WK, Q: WQ, R: WR, B: WB, N: WN, P: WP,
   k: BK, q: BQ, r: BR, b: BB, n: BN, p: BP,
 };
 
-export const Board: React.FC<BoardProps> = ({ fen, size = 224, lightColor = '#f0d9b5', darkColor = '#b58863' }) => {
-  const grid = parseFenBoard(fen);
-  if (!grid) return null;
+export const Board: React.FC<BoardProps> = ({
+  fen,
+  size = 224,
+  lightColor = '#f0d9b5',
+  darkColor = '#b58863',
+  flipped = false,
+  highlights = [],
+  selected = null,
+  onSquarePress,
+}) => {
+  const parsed = parseFenBoard(fen);
+  if (!parsed) return null;
+  const grid = flipped ? parsed.map(row => [...row].reverse()).reverse() : parsed;
   const square = size / 8;
+  // Algebraic name of the square drawn at row r, column c
+  const squareAt = (r: number, c: number) =>
+    flipped ? `${'hgfedcba'[c]}${r + 1}` : `${'abcdefgh'[c]}${8 - r}`;
 
   return (
     <View style={{ width: size, height: size }}>
@@ -46,6 +66,20 @@ export const Board: React.FC<BoardProps> = ({ fen, size = 224, lightColor = '#f0
             />
           )),
         )}
+        {Array.from({ length: 8 }).map((_, r) =>
+          Array.from({ length: 8 }).map((_, c) =>
+            squareAt(r, c) === selected || highlights.includes(squareAt(r, c)) ? (
+              <Rect
+                key={`hl-${r}-${c}`}
+                x={c * square}
+                y={r * square}
+                width={square}
+                height={square}
+                fill={squareAt(r, c) === selected ? SELECTED_COLOR : HIGHLIGHT_COLOR}
+              />
+            ) : null,
+          ),
+        )}
       </Svg>
       {/* Piece layer */}
       <View style={{ position: 'absolute', left: 0, top: 0, width: size, height: size }} pointerEvents="none">
@@ -62,6 +96,22 @@ export const Board: React.FC<BoardProps> = ({ fen, size = 224, lightColor = '#f0
           </View>
         ))}
       </View>
+      {/* Touch layer */}
+      {!!onSquarePress && (
+        <View style={{ position: 'absolute', left: 0, top: 0, width: size, height: size }}>
+          {Array.from({ length: 8 }).map((_, r) => (
+            <View key={`tr-${r}`} style={{ flexDirection: 'row' }}>
+              {Array.from({ length: 8 }).map((_, c) => (
+                <Pressable
+                  key={`tc-${r}-${c}`}
+                  style={{ width: square, height: square }}
+                  onPress={() => onSquarePress(squareAt(r, c))}
+                />
+              ))}
+            </View>
+          ))}
+        </View>
+      )}
     </View>
   );
 };
@@ -115,3 +115,176 @@ async function safeText(res: Response): Promise<string> {
 }
 
 
+
+
+// --- Puzzles from the user's own games ---
+
+export type PuzzleView = {
+  id: string;
+  fen: string;
+  side: 'W' | 'B';
+  theme: string;
+  rating: number;
+  solverMoves: number;
+  source: 'own_mistake' | 'unpunished_blunder';
+  moveNo: number;
+  opponent: string | null;
+  gameUrl: string | null;
+  date: string;
+};
+
+export type NextPuzzleResponse = { rating: number; puzzle: PuzzleView | null; remaining: number };
+
+export type PuzzleAttemptResponse = {
+  status: 'correct' | 'solved' | 'failed' | 'illegal';
+  fen: string;
+  lastMove: string | null;
+  reply: string | null;
+  solution?: string[];
+  rating: number;
+  ratingChange: number;
+};
+
+export async function getNextPuzzle(userId: string, theme?: string): Promise<NextPuzzleResponse> {
+  const params = `userId=${encodeURIComponent(userId)}${theme ? `&theme=${encodeURIComponent(theme)}` : ''}`;
+  const res = await fetch(`${getApiBaseUrl()}/puzzles/next?${params}`);
+  if (!res.ok) {
+    const text = await safeText(res);
+    throw new Error(`next puzzle failed: ${res.status} ${text}`);
+  }
+  return (await res.json()) as NextPuzzleResponse;
+}
+
+// moves: all of the solver's moves so far (UCI, e.g. "e2e4")
+export async function submitPuzzleAttempt(userId: string, puzzleId: string, moves: string[]): Promise<PuzzleAttemptResponse> {
+  const res = await fetch(`${getApiBaseUrl()}/puzzles/attempt`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ userId, puzzleId, moves }),
+  });
+  if (!res.ok) {
+    const text = await safeText(res);
+    throw new Error(`puzzle attempt failed: ${res.status} ${text}`);
+  }
+  return (await res.json()) as PuzzleAttemptResponse;
+}
+
+// --- Opening repertoire from the user's own games ---
+
+export type RepertoireNode = {
+  move: string | null;
+  uci: string | null;
+  ply: number;
+  byUser: boolean;
+  fen: string;
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  score: number;
+  frequency: number;
+  avgEval: number | null;
+  engineBest: string | null;
+  inBook: boolean;
+  opening: string | null;
+  mainLine: boolean;
+  deviation: 'left_book' | 'off_main_line' | null;
+  children: RepertoireNode[];
+};
+
+export type RepertoireDeviation = {
+  path: string[];
+  kind: 'left_book' | 'off_main_line';
+  move: string;
+  games: number;
+  frequency: number;
+  mainMove: string | null;
+  bookMoves: string[];
+};
+
+export type RepertoireResponse = {
+  color: 'white' | 'black';
+  games: number;
+  path: string[];
+  node: RepertoireNode;
+  deviations: RepertoireDeviation[];
+};
+
+// moves: SAN path from the starting position, e.g. ['e4', 'c5']
+export async function getRepertoire(userId: string, color: 'white' | 'black', moves: string[] = []): Promise<RepertoireResponse> {
+  const params = `userId=${encodeURIComponent(userId)}&color=${color}&moves=${encodeURIComponent(moves.join(' '))}&depth=1`;
+  const res = await fetch(`${getApiBaseUrl()}/repertoire?${params}`);
+  if (!res.ok) {
+    const text = await safeText(res);
+    throw new Error(`repertoire failed: ${res.status} ${text}`);
+  }
+  return (await res.json()) as RepertoireResponse;
+}
+
+// --- Opening drills from the user's own games ---
+
+export type DrillView = {
+  id: string;
+  color: 'white' | 'black';
+  side: 'W' | 'B';
+  fen: string;
+  lastMove: string | null;
+  userMoves: number;
+  moveNo: number;
+  played: string;
+  opening: string | null;
+  games: number;
+  gameUrl: string | null;
+  date: string;
+  box: number;
+  attempts: number;
+  passes: number;
+};
+
+export type DrillStats = {
+  drills: number;
+  tried: number;
+  mastered: number;
+  passRate: number | null;
+  weakest: Array<{ id: string; opening: string | null; line: string[]; played: string; attempts: number; passes: number }>;
+};
+
+export type NextDrillResponse = { drill: DrillView | null; due: number; stats: DrillStats };
+
+export type DrillAttemptResponse = {
+  status: 'correct' | 'off_line' | 'illegal' | 'passed' | 'failed';
+  fen: string;
+  lastMove: string | null;
+  reply: string | null;
+  critical: boolean;
+  expected?: string;
+  move?: string;
+  answers?: string[];
+  played?: string;
+  box?: number;
+  nextDrill?: string;
+};
+
+export async function getNextDrill(userId: string, color?: 'white' | 'black'): Promise<NextDrillResponse> {
+  const params = `userId=${encodeURIComponent(userId)}${color ? `&color=${color}` : ''}`;
+  const res = await fetch(`${getApiBaseUrl()}/drills/next?${params}`);
+  if (!res.ok) {
+    const text = await safeText(res);
+    throw new Error(`next drill failed: ${res.status} ${text}`);
+  }
+  return (await res.json()) as NextDrillResponse;
+}
+
+// moves: all of the user's moves in the drill so far (UCI, e.g. "e2e4")
+export async function submitDrillAttempt(userId: string, drillId: string, moves: string[]): Promise<DrillAttemptResponse> {
+  const res = await fetch(`${getApiBaseUrl()}/drills/attempt`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ userId, drillId, moves }),
+  });
+  if (!res.ok) {
+    const text = await safeText(res);
+    throw new Error(`drill attempt failed: ${res.status} ${text}`);
+  }
+  return (await res.json()) as DrillAttemptResponse;
+}
@@ -361,7 +361,21 @@ function AskCoach(props: any) {
         return null;
       })()}
       {ScreenHeader ? (
-        <ScreenHeader title="Ask Your Coach" subtitle="Personalized guidance from your games" LeftIcon={Crown} />
+        <ScreenHeader
+          title="Ask Your Coach"
+          subtitle="Personalized guidance from your games"
+          LeftIcon={Crown}
+          right={
+            <View style={{ flexDirection: 'row' }}>
+              <Button variant="outline" size="sm" style={{ marginRight: 8 }} onPress={() => props.navigation?.navigate('Repertoire')}>
+                Openings
+              </Button>
+              <Button variant="gold" size="sm" onPress={() => props.navigation?.navigate('Puzzles')}>
+                Puzzles
+              </Button>
+            </View>
+          }
+        />
       ) : (
         <View style={{ padding: 24, backgroundColor: colors.headerBg }}>
           <Text style={{ color: 'white' }}>Header not loaded</Text>
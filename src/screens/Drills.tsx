@@ -0,0 +1,236 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, ActivityIndicator, Linking, ScrollView, useWindowDimensions } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { colors, radii } from '../theme';
+import { Button } from '../components/ui/Button';
+import { ScreenHeader } from '../components/ScreenHeader';
+import { Board } from '../components/chess/Board';
+import { getNextDrill, submitDrillAttempt, type DrillStats, type DrillView } from '../lib/api';
+
+type Status = 'playing' | 'passed' | 'failed';
+
+// Piece on a square of a FEN position (e.g. 'N'), or null
+function pieceAt(fen: string, square: string): string | null {
+  const rows = fen.split(' ')[0].split('/');
+  const row = rows[8 - Number(square[1])];
+  if (!row) return null;
+  const file = square.charCodeAt(0) - 97;
+  let col = 0;
+  for (const ch of row) {
+    if (/[1-8]/.test(ch)) {
+      col += Number(ch);
+      if (col > file) return null;
+    } else {
+      if (col === file) return ch;
+      col += 1;
+    }
+  }
+  return null;
+}
+
+export default function Drills() {
+  const { width } = useWindowDimensions();
+  const boardSize = Math.min(width - 32, 400);
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [drill, setDrill] = useState<DrillView | null>(null);
+  const [stats, setStats] = useState<DrillStats | null>(null);
+  const [fen, setFen] = useState('');
+  const [moves, setMoves] = useState<string[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [lastMove, setLastMove] = useState<string | null>(null);
+  const [critical, setCritical] = useState(false);
+  const [status, setStatus] = useState<Status>('playing');
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [checking, setChecking] = useState(false);
+
+  const loadNext = useCallback(async (id: string) => {
+    setLoading(true);
+    setMessage('');
+    try {
+      const next = await getNextDrill(id);
+      setStats(next.stats);
+      setDrill(next.drill);
+      setFen(next.drill?.fen ?? '');
+      setLastMove(next.drill?.lastMove ?? null);
+      setMoves([]);
+      setSelected(null);
+      setCritical(next.drill?.userMoves === 1);
+      setStatus('playing');
+    } catch (e) {
+      console.error('[Drills] Failed to load drill:', e);
+      setMessage('Could not load a drill. Is the server running?');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      const saved = await AsyncStorage.getItem('chesscom.username');
+      setUserId(saved);
+      if (saved) {
+        await loadNext(saved);
+      } else {
+        setLoading(false);
+        setMessage('Add your Chess.com username to drill the openings from your games.');
+      }
+    })();
+  }, [loadNext]);
+
+  const userColor = drill?.side === 'B' ? 'b' : 'w';
+  const isOwnPiece = (square: string) => {
+    const piece = pieceAt(fen, square);
+    return !!piece && (piece === piece.toUpperCase() ? 'w' : 'b') === userColor;
+  };
+
+  const tryMove = async (uci: string) => {
+    if (!userId || !drill) return;
+    setChecking(true);
+    try {
+      const tried = [...moves, uci];
+      const result = await submitDrillAttempt(userId, drill.id, tried);
+      if (result.status === 'illegal') {
+        setMessage("That move isn't legal here.");
+        return;
+      }
+      if (result.status === 'off_line') {
+        setMessage(`In your game you played ${result.expected} here. Play it to follow the line.`);
+        return;
+      }
+
+      setFen(result.fen);
+      setLastMove(result.lastMove);
+      if (result.status === 'correct') {
+        setMoves(tried);
+        setCritical(result.critical);
+        setMessage(result.critical
+          ? `Your opponent played ${result.reply}. This is where you played ${drill.played} - find a better move.`
+          : `Your opponent played ${result.reply}.`);
+        return;
+      }
+
+      setStatus(result.status);
+      const others = (result.answers ?? []).filter(a => a !== result.move).slice(0, 3).join(', ');
+      setMessage(result.status === 'passed'
+        ? `${result.move} is good!${others ? ` Also fine: ${others}.` : ''}`
+        : `${result.move} isn't it. Try ${result.answers?.slice(0, 3).join(', ')}.`);
+    } catch (e) {
+      console.error('[Drills] Failed to check move:', e);
+      setMessage('Could not check your move. Try again.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const onSquarePress = (square: string) => {
+    if (status !== 'playing' || checking) return;
+    if (isOwnPiece(square)) {
+      setSelected(square === selected ? null : square);
+      return;
+    }
+    if (!selected) return;
+    setSelected(null);
+    void tryMove(`${selected}${square}`);
+  };
+
+  const highlights = lastMove ? [lastMove.slice(0, 2), lastMove.slice(2, 4)] : [];
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScreenHeader
+        title="Opening Drills"
+        subtitle={stats && stats.passRate !== null ? `Lines from your games · ${stats.passRate}% passed` : 'Lines from your games'}
+      />
+      <ScrollView contentContainerStyle={{ padding: 16, alignItems: 'center' }}>
+        {loading ? (
+          <View style={{ marginTop: 60, alignItems: 'center' }}>
+            <ActivityIndicator size="large" color={colors.coachPrimary} />
+            <Text style={{ color: colors.mutedText, marginTop: 12 }}>Finding a line from your games...</Text>
+          </View>
+        ) : !drill ? (
+          <View style={{ marginTop: 60, alignItems: 'center' }}>
+            <Text style={{ color: colors.mutedText, textAlign: 'center' }}>
+              {message || 'No opening mistakes to drill yet. Import and analyze a few more games, then check back.'}
+            </Text>
+            {!!userId && (
+              <Button variant="outline" style={{ marginTop: 16 }} onPress={() => loadNext(userId)}>
+                Try again
+              </Button>
+            )}
+          </View>
+        ) : (
+          <>
+            <View style={{ alignSelf: 'stretch', marginBottom: 12 }}>
+              <Text style={{ color: colors.text, fontSize: 16, fontWeight: '700' }}>
+                {drill.opening ?? 'Your opening'} · as {drill.color === 'white' ? 'White' : 'Black'}
+              </Text>
+              <Text style={{ color: colors.mutedText, fontSize: 12, marginTop: 2 }}>
+                {critical
+                  ? `Move ${drill.moveNo}: find a better move than ${drill.played}`
+                  : `Play your moves from the game - you went wrong on move ${drill.moveNo}`}
+                {drill.games > 1 ? ` · ${drill.games} games` : ''}
+              </Text>
+            </View>
+
+            <Board
+              fen={fen}
+              size={boardSize}
+              flipped={drill.side === 'B'}
+              highlights={highlights}
+              selected={selected}
+              onSquarePress={onSquarePress}
+            />
+
+            {!!message && (
+              <View
+                style={{
+                  alignSelf: 'stretch',
+                  marginTop: 12,
+                  padding: 12,
+                  borderRadius: radii.md,
+                  backgroundColor: colors.secondaryBg,
+                }}
+              >
+                <Text
+                  style={{
+                    color: status === 'passed' ? colors.success : status === 'failed' ? colors.danger : colors.text,
+                    fontWeight: '600',
+                  }}
+                >
+                  {message}
+                </Text>
+              </View>
+            )}
+
+            {status !== 'playing' && (
+              <View style={{ flexDirection: 'row', marginTop: 16 }}>
+                {!!drill.gameUrl && (
+                  <Button variant="outline" style={{ marginRight: 8 }} onPress={() => Linking.openURL(drill.gameUrl!)}>
+                    View game
+                  </Button>
+                )}
+                <Button variant="gold" onPress={() => userId && loadNext(userId)}>
+                  Next line
+                </Button>
+              </View>
+            )}
+
+            {!!stats && stats.weakest.length > 0 && (
+              <View style={{ alignSelf: 'stretch', marginTop: 16, padding: 12, borderRadius: radii.md, backgroundColor: colors.secondaryBg }}>
+                <Text style={{ color: colors.text, fontWeight: '700', marginBottom: 6 }}>Lines to work on</Text>
+                {stats.weakest.map(w => (
+                  <Text key={w.id} style={{ color: colors.text, fontSize: 13, marginBottom: 4 }}>
+                    {w.opening ?? w.line.join(' ')} · {w.passes}/{w.attempts} passed
+                  </Text>
+                ))}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
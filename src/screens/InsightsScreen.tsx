@@ -32,7 +32,7 @@ interface Insight {
     exampleGames: Array<{
       gameId: string;
       opponent: string;
-      chesscomUrl: string | null;
+      gameUrl: string | null;
       moveNo: number;
       fen: string;
       description: string;
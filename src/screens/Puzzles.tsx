@@ -0,0 +1,229 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, ActivityIndicator, Linking, useWindowDimensions } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { colors, radii } from '../theme';
+import { Button } from '../components/ui/Button';
+import { ScreenHeader } from '../components/ScreenHeader';
+import { Board } from '../components/chess/Board';
+import { getNextPuzzle, submitPuzzleAttempt, type PuzzleView } from '../lib/api';
+
+type Status = 'solving' | 'solved' | 'failed';
+
+const THEME_LABELS: Record<string, string> = {
+  hanging_piece: 'Hanging piece',
+  fork: 'Fork',
+  pin: 'Pin',
+  skewer: 'Skewer',
+  discovered_attack: 'Discovered attack',
+  removal_of_defender: 'Removal of the defender',
+  overloading: 'Overloading',
+  back_rank_mate: 'Back-rank mate',
+  mate: 'Checkmate',
+  advantage: 'Winning move',
+};
+
+// Piece on a square of a FEN position (e.g. 'N'), or null
+function pieceAt(fen: string, square: string): string | null {
+  const rows = fen.split(' ')[0].split('/');
+  const row = rows[8 - Number(square[1])];
+  if (!row) return null;
+  const file = square.charCodeAt(0) - 97;
+  let col = 0;
+  for (const ch of row) {
+    if (/[1-8]/.test(ch)) {
+      col += Number(ch);
+      if (col > file) return null;
+    } else {
+      if (col === file) return ch;
+      col += 1;
+    }
+  }
+  return null;
+}
+
+export default function Puzzles() {
+  const { width } = useWindowDimensions();
+  const boardSize = Math.min(width - 32, 400);
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [puzzle, setPuzzle] = useState<PuzzleView | null>(null);
+  const [fen, setFen] = useState('');
+  const [moves, setMoves] = useState<string[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [lastMove, setLastMove] = useState<string | null>(null);
+  const [status, setStatus] = useState<Status>('solving');
+  const [message, setMessage] = useState('');
+  const [rating, setRating] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [checking, setChecking] = useState(false);
+
+  const loadNext = useCallback(async (id: string) => {
+    setLoading(true);
+    setMessage('');
+    try {
+      const next = await getNextPuzzle(id);
+      setRating(next.rating);
+      setPuzzle(next.puzzle);
+      setFen(next.puzzle?.fen ?? '');
+      setMoves([]);
+      setSelected(null);
+      setLastMove(null);
+      setStatus('solving');
+    } catch (e) {
+      console.error('[Puzzles] Failed to load puzzle:', e);
+      setMessage('Could not load a puzzle. Is the server running?');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      const saved = await AsyncStorage.getItem('chesscom.username');
+      setUserId(saved);
+      if (saved) {
+        await loadNext(saved);
+      } else {
+        setLoading(false);
+        setMessage('Add your Chess.com username to get puzzles from your games.');
+      }
+    })();
+  }, [loadNext]);
+
+  const solverColor = puzzle?.side === 'B' ? 'b' : 'w';
+  const isOwnPiece = (square: string) => {
+    const piece = pieceAt(fen, square);
+    return !!piece && (piece === piece.toUpperCase() ? 'w' : 'b') === solverColor;
+  };
+
+  const tryMove = async (uci: string) => {
+    if (!userId || !puzzle) return;
+    setChecking(true);
+    try {
+      const tried = [...moves, uci];
+      const result = await submitPuzzleAttempt(userId, puzzle.id, tried);
+      if (result.status === 'illegal') {
+        setMessage("That move isn't legal here.");
+        return;
+      }
+
+      setFen(result.fen);
+      setLastMove(result.lastMove);
+      if (result.status === 'correct') {
+        setMoves(tried);
+        setMessage('Good move! Keep going.');
+        return;
+      }
+
+      setStatus(result.status);
+      setRating(result.rating);
+      const change = result.ratingChange ? ` (${result.ratingChange > 0 ? '+' : ''}${result.ratingChange})` : '';
+      const solution = result.solution?.join(' ') ?? '';
+      setMessage(result.status === 'solved'
+        ? `Solved!${change}`
+        : `Not quite${change}. The solution was ${solution}.`);
+    } catch (e) {
+      console.error('[Puzzles] Failed to check move:', e);
+      setMessage('Could not check your move. Try again.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const onSquarePress = (square: string) => {
+    if (status !== 'solving' || checking) return;
+    if (isOwnPiece(square)) {
+      setSelected(square === selected ? null : square);
+      return;
+    }
+    if (!selected) return;
+    setSelected(null);
+    void tryMove(`${selected}${square}`);
+  };
+
+  const highlights = lastMove ? [lastMove.slice(0, 2), lastMove.slice(2, 4)] : [];
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScreenHeader
+        title="Puzzles"
+        subtitle={rating !== null ? `From your own games · Rating ${rating}` : 'From your own games'}
+      />
+      <View style={{ flex: 1, padding: 16, alignItems: 'center' }}>
+        {loading ? (
+          <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
+            <ActivityIndicator size="large" color={colors.coachPrimary} />
+            <Text style={{ color: colors.mutedText, marginTop: 12 }}>Finding a position from your games...</Text>
+          </View>
+        ) : !puzzle ? (
+          <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
+            <Text style={{ color: colors.mutedText, textAlign: 'center' }}>
+              {message || 'No puzzles yet. Play and import a few more games, then check back.'}
+            </Text>
+            {!!userId && (
+              <Button variant="outline" style={{ marginTop: 16 }} onPress={() => loadNext(userId)}>
+                Try again
+              </Button>
+            )}
+          </View>
+        ) : (
+          <>
+            <View style={{ alignSelf: 'stretch', marginBottom: 12 }}>
+              <Text style={{ color: colors.text, fontSize: 16, fontWeight: '700' }}>
+                {puzzle.side === 'W' ? 'White' : 'Black'} to move · {THEME_LABELS[puzzle.theme] ?? puzzle.theme}
+              </Text>
+              <Text style={{ color: colors.mutedText, fontSize: 12, marginTop: 2 }}>
+                {puzzle.source === 'own_mistake' ? 'You went wrong here' : 'Your opponent blundered here'}
+                {puzzle.opponent ? ` vs ${puzzle.opponent}` : ''} · move {puzzle.moveNo} · {puzzle.date}
+              </Text>
+            </View>
+
+            <Board
+              fen={fen}
+              size={boardSize}
+              flipped={puzzle.side === 'B'}
+              highlights={highlights}
+              selected={selected}
+              onSquarePress={onSquarePress}
+            />
+
+            {!!message && (
+              <View
+                style={{
+                  alignSelf: 'stretch',
+                  marginTop: 12,
+                  padding: 12,
+                  borderRadius: radii.md,
+                  backgroundColor: colors.secondaryBg,
+                }}
+              >
+                <Text
+                  style={{
+                    color: status === 'solved' ? colors.success : status === 'failed' ? colors.danger : colors.text,
+                    fontWeight: '600',
+                  }}
+                >
+                  {message}
+                </Text>
+              </View>
+            )}
+
+            {status !== 'solving' && (
+              <View style={{ flexDirection: 'row', marginTop: 16 }}>
+                {!!puzzle.gameUrl && (
+                  <Button variant="outline" style={{ marginRight: 8 }} onPress={() => Linking.openURL(puzzle.gameUrl!)}>
+                    View game
+                  </Button>
+                )}
+                <Button variant="gold" onPress={() => userId && loadNext(userId)}>
+                  Next puzzle
+                </Button>
+              </View>
+            )}
+          </>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, ActivityIndicator, ScrollView, Pressable, useWindowDimensions } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { colors, radii } from '../theme';
+import { Button } from '../components/ui/Button';
+import { ScreenHeader } from '../components/ScreenHeader';
+import { Board } from '../components/chess/Board';
+import { getRepertoire, type RepertoireNode, type RepertoireResponse } from '../lib/api';
+
+type Color = 'white' | 'black';
+
+interface Props {
+  navigation: NativeStackNavigationProp<any>;
+}
+
+// "1. e4", "1... c5" for the move at a ply
+function moveLabel(node: RepertoireNode): string {
+  const moveNo = Math.ceil(node.ply / 2);
+  return `${moveNo}${node.ply % 2 === 1 ? '.' : '...'} ${node.move}`;
+}
+
+function formatEval(value: number | null): string {
+  if (value === null) return '–';
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+}
+
+export default function Repertoire({ navigation }: Props) {
+  const { width } = useWindowDimensions();
+  const boardSize = Math.min(width - 32, 320);
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [color, setColor] = useState<Color>('white');
+  const [path, setPath] = useState<string[]>([]);
+  const [data, setData] = useState<RepertoireResponse | null>(null);
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async (id: string, side: Color, moves: string[]) => {
+    setLoading(true);
+    setMessage('');
+    try {
+      setData(await getRepertoire(id, side, moves));
+    } catch (e) {
+      console.error('[Repertoire] Failed to load repertoire:', e);
+      setData(null);
+      setMessage('Could not load your repertoire. Is the server running?');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      const saved = await AsyncStorage.getItem('chesscom.username');
+      setUserId(saved);
+      if (!saved) {
+        setLoading(false);
+        setMessage('Add your Chess.com username to see the openings from your games.');
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (userId) void load(userId, color, path);
+  }, [userId, color, path, load]);
+
+  const switchColor = (side: Color) => {
+    if (side === color) return;
+    setColor(side);
+    setPath([]);
+  };
+
+  const node = data?.node;
+  const highlights = node?.uci ? [node.uci.slice(0, 2), node.uci.slice(2, 4)] : [];
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScreenHeader
+        title="Repertoire"
+        subtitle={data ? `Your openings with ${color} · ${data.games} games` : 'Your openings from your own games'}
+        right={
+          <Button variant="gold" size="sm" onPress={() => navigation.navigate('Drills')}>
+            Drill
+          </Button>
+        }
+      />
+      <ScrollView contentContainerStyle={{ padding: 16, alignItems: 'center' }}>
+        <View style={{ flexDirection: 'row', marginBottom: 12 }}>
+          <Button variant={color === 'white' ? 'default' : 'outline'} size="sm" style={{ marginRight: 8 }} onPress={() => switchColor('white')}>
+            As White
+          </Button>
+          <Button variant={color === 'black' ? 'default' : 'outline'} size="sm" onPress={() => switchColor('black')}>
+            As Black
+          </Button>
+        </View>
+
+        {/* Breadcrumb: tap a move to go back to it */}
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', alignSelf: 'stretch', marginBottom: 12 }}>
+          <Pressable onPress={() => setPath([])}>
+            <Text style={{ color: colors.coachPrimary, fontWeight: '600', marginRight: 6 }}>Start</Text>
+          </Pressable>
+          {path.map((move, i) => (
+            <Pressable key={`${i}-${move}`} onPress={() => setPath(path.slice(0, i + 1))}>
+              <Text style={{ color: i === path.length - 1 ? colors.text : colors.coachPrimary, marginRight: 6 }}>
+                {i % 2 === 0 ? `${i / 2 + 1}. ` : ''}{move}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {loading ? (
+          <ActivityIndicator size="large" color={colors.coachPrimary} style={{ marginTop: 40 }} />
+        ) : !node ? (
+          <Text style={{ color: colors.mutedText, textAlign: 'center', marginTop: 40 }}>
+            {message || 'No games yet. Import some games, then check back.'}
+          </Text>
+        ) : (
+          <>
+            <Board fen={node.fen} size={boardSize} flipped={color === 'black'} highlights={highlights} />
+
+            <View style={{ alignSelf: 'stretch', marginTop: 12 }}>
+              <Text style={{ color: colors.text, fontSize: 16, fontWeight: '700' }}>
+                {node.opening ?? (node.ply === 0 ? 'Starting position' : 'Out of book')}
+              </Text>
+              <Text style={{ color: colors.mutedText, fontSize: 12, marginTop: 2 }}>
+                {node.games} games · {node.wins}W {node.draws}D {node.losses}L · score {node.score}%
+                {node.engineBest && node.move && node.engineBest !== node.move ? ` · engine preferred ${node.engineBest}` : ''}
+              </Text>
+            </View>
+
+            {/* Next moves */}
+            <View style={{ alignSelf: 'stretch', marginTop: 12 }}>
+              {node.children.length === 0 ? (
+                <Text style={{ color: colors.mutedText }}>Your games don't go further than this.</Text>
+              ) : (
+                node.children.map(child => (
+                  <Pressable
+                    key={child.move ?? ''}
+                    onPress={() => setPath([...path, child.move!])}
+                    style={{
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      padding: 10,
+                      marginBottom: 6,
+                      borderRadius: radii.sm,
+                      borderWidth: 1,
+                      borderColor: colors.cardBorder,
+                      backgroundColor: child.byUser ? colors.cardBg : colors.secondaryBg,
+                    }}
+                  >
+                    <View style={{ flex: 1 }}>
+                      <Text style={{ color: colors.text, fontWeight: child.mainLine ? '700' : '500' }}>
+                        {moveLabel(child)}
+                        {child.byUser ? '' : ' (opponent)'}
+                      </Text>
+                      <Text style={{ color: colors.mutedText, fontSize: 12 }}>
+                        {child.games} games ({child.frequency}%) · score {child.score}% · eval {formatEval(child.avgEval)}
+                      </Text>
+                    </View>
+                    {child.deviation === 'left_book' && (
+                      <Text style={{ color: colors.warning, fontSize: 12, fontWeight: '600' }}>Leaves book</Text>
+                    )}
+                    {child.deviation === 'off_main_line' && (
+                      <Text style={{ color: colors.mutedText, fontSize: 12 }}>Sideline</Text>
+                    )}
+                  </Pressable>
+                ))
+              )}
+            </View>
+
+            {/* Where the user goes their own way further down */}
+            {!!data && data.deviations.length > 0 && (
+              <View style={{ alignSelf: 'stretch', marginTop: 12, padding: 12, borderRadius: radii.md, backgroundColor: colors.secondaryBg }}>
+                <Text style={{ color: colors.text, fontWeight: '700', marginBottom: 6 }}>Where you deviate</Text>
+                {data.deviations.slice(0, 5).map(d => (
+                  <Pressable key={d.path.join(' ')} onPress={() => setPath(d.path.slice(0, -1))}>
+                    <Text style={{ color: colors.text, fontSize: 13, marginBottom: 4 }}>
+                      {d.path.join(' ')} · {d.games} games
+                      {d.kind === 'off_main_line'
+                        ? ` · you usually play ${d.mainMove}`
+                        : d.bookMoves.length > 0
+                          ? ` · leaves book (try ${d.bookMoves.slice(0, 2).join(' or ')})`
+                          : ' · leaves book'}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
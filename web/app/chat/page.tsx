@@ -1,7 +1,8 @@
 'use client'
 
 import React, { useState, useEffect, useRef, useCallback } from 'react'
-import { Send, Settings } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { Send, Settings, Puzzle, GitBranch } from 'lucide-react'
 import { ChatMessage } from '@/components/ChatMessage'
 import { ask, poll } from '@/lib/api'
 import { storage, STORAGE_KEYS } from '@/lib/storage'
@@ -13,6 +14,7 @@ interface Message {
 }
 
 export default function ChatPage() {
+  const router = useRouter()
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
   const [isTyping, setIsTyping] = useState(false)
@@ -147,13 +149,29 @@ export default function ChatPage() {
             <p className="text-xs text-gray-400">Ask me about your games</p>
           </div>
         </div>
-        <button
-          onClick={clearChat}
-          className="text-gray-400 hover:text-white transition-colors p-2"
-          title="Clear chat"
-        >
-          <Settings className="w-5 h-5" />
-        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => router.push('/repertoire')}
+            className="text-gray-400 hover:text-white transition-colors p-2"
+            title="Your opening repertoire"
+          >
+            <GitBranch className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => router.push('/puzzles')}
+            className="text-gray-400 hover:text-white transition-colors p-2"
+            title="Puzzles from your games"
+          >
+            <Puzzle className="w-5 h-5" />
+          </button>
+          <button
+            onClick={clearChat}
+            className="text-gray-400 hover:text-white transition-colors p-2"
+            title="Clear chat"
+          >
+            <Settings className="w-5 h-5" />
+          </button>
+        </div>
       </header>
 
       {/* Messages */}
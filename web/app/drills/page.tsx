@@ -0,0 +1,269 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, Loader2, CheckCircle, XCircle, ExternalLink } from 'lucide-react'
+import { ChessBoard } from '@/components/ChessBoard'
+import { Button } from '@/components/Button'
+import { getNextDrill, submitDrillAttempt, type DrillView, type DrillStats } from '@/lib/api'
+import { storage, STORAGE_KEYS } from '@/lib/storage'
+
+type Status = 'playing' | 'passed' | 'failed'
+
+// Piece on a square of a FEN position (e.g. 'N'), or null
+function pieceAt(fen: string, square: string): string | null {
+  const rows = fen.split(' ')[0].split('/')
+  const row = rows[8 - Number(square[1])]
+  if (!row) return null
+  const file = square.charCodeAt(0) - 97
+  let col = 0
+  for (const ch of row) {
+    if (/[1-8]/.test(ch)) {
+      col += Number(ch)
+      if (col > file) return null
+    } else {
+      if (col === file) return ch
+      col += 1
+    }
+  }
+  return null
+}
+
+export default function DrillsPage() {
+  const router = useRouter()
+  const [userId, setUserId] = useState<string | null>(null)
+  const [drill, setDrill] = useState<DrillView | null>(null)
+  const [stats, setStats] = useState<DrillStats | null>(null)
+  const [fen, setFen] = useState('')
+  const [moves, setMoves] = useState<string[]>([])
+  const [selected, setSelected] = useState<string | null>(null)
+  const [lastMove, setLastMove] = useState<string | null>(null)
+  const [critical, setCritical] = useState(false)
+  const [status, setStatus] = useState<Status>('playing')
+  const [message, setMessage] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [checking, setChecking] = useState(false)
+
+  const loadNext = useCallback(async (id: string) => {
+    setLoading(true)
+    setMessage('')
+    try {
+      const next = await getNextDrill(id)
+      setStats(next.stats)
+      setDrill(next.drill)
+      setFen(next.drill?.fen ?? '')
+      setLastMove(next.drill?.lastMove ?? null)
+      setMoves([])
+      setSelected(null)
+      setCritical(next.drill?.userMoves === 1)
+      setStatus('playing')
+    } catch (err) {
+      console.error('Drill error:', err)
+      setMessage('Could not load a drill. Is the server running?')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const id = storage.get(STORAGE_KEYS.USER_ID)
+    setUserId(id)
+    if (id) {
+      loadNext(id)
+    } else {
+      setLoading(false)
+      setMessage('Add your Chess.com username to drill the openings from your games.')
+    }
+  }, [loadNext])
+
+  const userColor = drill?.side === 'B' ? 'b' : 'w'
+  const isOwnPiece = (square: string) => {
+    const piece = pieceAt(fen, square)
+    return !!piece && (piece === piece.toUpperCase() ? 'w' : 'b') === userColor
+  }
+
+  const tryMove = async (uci: string) => {
+    if (!userId || !drill) return
+    setChecking(true)
+    try {
+      const tried = [...moves, uci]
+      const result = await submitDrillAttempt(userId, drill.id, tried)
+      if (result.status === 'illegal') {
+        setMessage("That move isn't legal here.")
+        return
+      }
+      if (result.status === 'off_line') {
+        setMessage(`In your game you played ${result.expected} here. Play it to follow the line.`)
+        return
+      }
+
+      setFen(result.fen)
+      setLastMove(result.lastMove)
+      if (result.status === 'correct') {
+        setMoves(tried)
+        setCritical(result.critical)
+        setMessage(
+          result.critical
+            ? `Your opponent played ${result.reply}. This is where you played ${drill.played} - find a better move.`
+            : `Your opponent played ${result.reply}.`
+        )
+        return
+      }
+
+      setStatus(result.status)
+      const others = (result.answers ?? []).filter((a) => a !== result.move).slice(0, 3).join(', ')
+      setMessage(
+        result.status === 'passed'
+          ? `${result.move} is good!${others ? ` Also fine: ${others}.` : ''}`
+          : `${result.move} isn't it. Try ${result.answers?.slice(0, 3).join(', ')}.`
+      )
+    } catch (err) {
+      console.error('Drill error:', err)
+      setMessage('Could not check your move. Try again.')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const handleSquareClick = (square: string) => {
+    if (status !== 'playing' || checking) return
+    if (isOwnPiece(square)) {
+      setSelected(square === selected ? null : square)
+      return
+    }
+    if (!selected) return
+    setSelected(null)
+    tryMove(`${selected}${square}`)
+  }
+
+  const highlights = lastMove ? [lastMove.slice(0, 2), lastMove.slice(2, 4)] : []
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-header-bg text-white px-4 py-3 flex items-center justify-between shadow-md">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => router.push('/repertoire')}
+            className="text-gray-400 hover:text-white transition-colors p-2"
+            title="Back to your repertoire"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="font-semibold">Opening Drills</h1>
+            <p className="text-xs text-gray-400">Lines from your own games</p>
+          </div>
+        </div>
+        {stats && stats.passRate !== null && (
+          <div className="text-right">
+            <p className="text-xs text-gray-400">Passed</p>
+            <p className="font-semibold text-coach-accent">{stats.passRate}%</p>
+          </div>
+        )}
+      </header>
+
+      <main className="flex-1 p-4">
+        <div className="max-w-3xl mx-auto flex flex-col md:flex-row gap-6">
+          <div className="flex-1 flex flex-col items-center">
+            {loading ? (
+              <div className="flex flex-col items-center text-gray-500 mt-20">
+                <Loader2 className="w-8 h-8 animate-spin text-coach-primary" />
+                <p className="mt-3 text-sm">Finding a line from your games...</p>
+              </div>
+            ) : !drill ? (
+              <div className="text-center text-gray-500 mt-20">
+                <div className="text-6xl mb-4">♞</div>
+                <p className="text-sm max-w-sm mx-auto">
+                  {message || 'No opening mistakes to drill yet. Import and analyze a few more games, then check back.'}
+                </p>
+                {userId && (
+                  <Button variant="outline" className="mt-6" onClick={() => loadNext(userId)}>
+                    Try again
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="self-stretch mb-3">
+                  <h2 className="font-semibold text-gray-900">
+                    {drill.opening ?? 'Your opening'} · as {drill.color === 'white' ? 'White' : 'Black'}
+                  </h2>
+                  <p className="text-xs text-gray-500">
+                    {critical
+                      ? `Move ${drill.moveNo}: find a better move than ${drill.played}`
+                      : `Play your moves from the game - you went wrong on move ${drill.moveNo}`}
+                    {drill.games > 1 ? ` · ${drill.games} games` : ''}
+                  </p>
+                </div>
+
+                <ChessBoard
+                  fen={fen}
+                  size={400}
+                  flipped={drill.side === 'B'}
+                  highlights={highlights}
+                  selected={selected}
+                  onSquareClick={handleSquareClick}
+                />
+
+                {message && (
+                  <div
+                    className={`self-stretch mt-3 px-4 py-3 rounded-lg bg-white border flex items-center gap-2 text-sm font-medium ${
+                      status === 'passed'
+                        ? 'text-green-600'
+                        : status === 'failed'
+                          ? 'text-red-600'
+                          : 'text-gray-800'
+                    }`}
+                  >
+                    {status === 'passed' && <CheckCircle className="w-4 h-4" />}
+                    {status === 'failed' && <XCircle className="w-4 h-4" />}
+                    <span>{message}</span>
+                  </div>
+                )}
+
+                {status !== 'playing' && (
+                  <div className="flex gap-3 mt-4">
+                    {drill.gameUrl && (
+                      <a
+                        href={drill.gameUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 px-4 py-2 rounded-lg border-2 border-gray-300 text-gray-700 hover:bg-gray-50"
+                      >
+                        View game <ExternalLink className="w-4 h-4" />
+                      </a>
+                    )}
+                    <Button variant="gold" onClick={() => userId && loadNext(userId)}>
+                      Next line
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Lines failed most */}
+          {stats && stats.weakest.length > 0 && (
+            <aside className="md:w-56 bg-white rounded-xl border p-4 h-fit">
+              <h3 className="font-semibold text-sm mb-1">Lines to work on</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                {stats.mastered}/{stats.drills} lines mastered
+              </p>
+              <ul className="space-y-2 text-sm">
+                {stats.weakest.map((w) => (
+                  <li key={w.id}>
+                    <p className="text-gray-700">{w.opening ?? w.line.join(' ')}</p>
+                    <p className="text-xs text-gray-500">
+                      {w.passes}/{w.attempts} passed · you played {w.played}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </aside>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,283 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, Loader2, CheckCircle, XCircle, ExternalLink } from 'lucide-react'
+import { ChessBoard } from '@/components/ChessBoard'
+import { Button } from '@/components/Button'
+import {
+  getNextPuzzle,
+  submitPuzzleAttempt,
+  getPuzzleHistory,
+  type PuzzleView,
+  type PuzzleHistoryResponse,
+} from '@/lib/api'
+import { storage, STORAGE_KEYS } from '@/lib/storage'
+
+type Status = 'solving' | 'solved' | 'failed'
+
+const THEME_LABELS: Record<string, string> = {
+  hanging_piece: 'Hanging piece',
+  fork: 'Fork',
+  pin: 'Pin',
+  skewer: 'Skewer',
+  discovered_attack: 'Discovered attack',
+  removal_of_defender: 'Removal of the defender',
+  overloading: 'Overloading',
+  back_rank_mate: 'Back-rank mate',
+  mate: 'Checkmate',
+  advantage: 'Winning move',
+}
+
+// Piece on a square of a FEN position (e.g. 'N'), or null
+function pieceAt(fen: string, square: string): string | null {
+  const rows = fen.split(' ')[0].split('/')
+  const row = rows[8 - Number(square[1])]
+  if (!row) return null
+  const file = square.charCodeAt(0) - 97
+  let col = 0
+  for (const ch of row) {
+    if (/[1-8]/.test(ch)) {
+      col += Number(ch)
+      if (col > file) return null
+    } else {
+      if (col === file) return ch
+      col += 1
+    }
+  }
+  return null
+}
+
+export default function PuzzlesPage() {
+  const router = useRouter()
+  const [userId, setUserId] = useState<string | null>(null)
+  const [puzzle, setPuzzle] = useState<PuzzleView | null>(null)
+  const [fen, setFen] = useState('')
+  const [moves, setMoves] = useState<string[]>([])
+  const [selected, setSelected] = useState<string | null>(null)
+  const [lastMove, setLastMove] = useState<string | null>(null)
+  const [status, setStatus] = useState<Status>('solving')
+  const [message, setMessage] = useState('')
+  const [rating, setRating] = useState<number | null>(null)
+  const [history, setHistory] = useState<PuzzleHistoryResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [checking, setChecking] = useState(false)
+
+  const loadNext = useCallback(async (id: string) => {
+    setLoading(true)
+    setMessage('')
+    try {
+      const [next, past] = await Promise.all([getNextPuzzle(id), getPuzzleHistory(id)])
+      setRating(next.rating)
+      setHistory(past)
+      setPuzzle(next.puzzle)
+      setFen(next.puzzle?.fen ?? '')
+      setMoves([])
+      setSelected(null)
+      setLastMove(null)
+      setStatus('solving')
+    } catch (err) {
+      console.error('Puzzle error:', err)
+      setMessage('Could not load a puzzle. Is the server running?')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const id = storage.get(STORAGE_KEYS.USER_ID)
+    setUserId(id)
+    if (id) {
+      loadNext(id)
+    } else {
+      setLoading(false)
+      setMessage('Add your Chess.com username to get puzzles from your games.')
+    }
+  }, [loadNext])
+
+  const solverColor = puzzle?.side === 'B' ? 'b' : 'w'
+  const isOwnPiece = (square: string) => {
+    const piece = pieceAt(fen, square)
+    return !!piece && (piece === piece.toUpperCase() ? 'w' : 'b') === solverColor
+  }
+
+  const tryMove = async (uci: string) => {
+    if (!userId || !puzzle) return
+    setChecking(true)
+    try {
+      const tried = [...moves, uci]
+      const result = await submitPuzzleAttempt(userId, puzzle.id, tried)
+      if (result.status === 'illegal') {
+        setMessage("That move isn't legal here.")
+        return
+      }
+
+      setFen(result.fen)
+      setLastMove(result.lastMove)
+      if (result.status === 'correct') {
+        setMoves(tried)
+        setMessage('Good move! Keep going.')
+        return
+      }
+
+      setStatus(result.status)
+      setRating(result.rating)
+      const change = result.ratingChange
+        ? ` (${result.ratingChange > 0 ? '+' : ''}${result.ratingChange})`
+        : ''
+      setMessage(
+        result.status === 'solved'
+          ? `Solved!${change}`
+          : `Not quite${change}. The solution was ${result.solution?.join(' ') ?? ''}.`
+      )
+    } catch (err) {
+      console.error('Puzzle error:', err)
+      setMessage('Could not check your move. Try again.')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const handleSquareClick = (square: string) => {
+    if (status !== 'solving' || checking) return
+    if (isOwnPiece(square)) {
+      setSelected(square === selected ? null : square)
+      return
+    }
+    if (!selected) return
+    setSelected(null)
+    tryMove(`${selected}${square}`)
+  }
+
+  const highlights = lastMove ? [lastMove.slice(0, 2), lastMove.slice(2, 4)] : []
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-header-bg text-white px-4 py-3 flex items-center justify-between shadow-md">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => router.push('/chat')}
+            className="text-gray-400 hover:text-white transition-colors p-2"
+            title="Back to chat"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="font-semibold">Puzzles</h1>
+            <p className="text-xs text-gray-400">From your own games</p>
+          </div>
+        </div>
+        {rating !== null && (
+          <div className="text-right">
+            <p className="text-xs text-gray-400">Puzzle rating</p>
+            <p className="font-semibold text-coach-accent">{rating}</p>
+          </div>
+        )}
+      </header>
+
+      <main className="flex-1 p-4">
+        <div className="max-w-3xl mx-auto flex flex-col md:flex-row gap-6">
+          <div className="flex-1 flex flex-col items-center">
+            {loading ? (
+              <div className="flex flex-col items-center text-gray-500 mt-20">
+                <Loader2 className="w-8 h-8 animate-spin text-coach-primary" />
+                <p className="mt-3 text-sm">Finding a position from your games...</p>
+              </div>
+            ) : !puzzle ? (
+              <div className="text-center text-gray-500 mt-20">
+                <div className="text-6xl mb-4">♞</div>
+                <p className="text-sm max-w-sm mx-auto">
+                  {message || 'No puzzles yet. Play and import a few more games, then check back.'}
+                </p>
+                {userId && (
+                  <Button variant="outline" className="mt-6" onClick={() => loadNext(userId)}>
+                    Try again
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="self-stretch mb-3">
+                  <h2 className="font-semibold text-gray-900">
+                    {puzzle.side === 'W' ? 'White' : 'Black'} to move ·{' '}
+                    {THEME_LABELS[puzzle.theme] ?? puzzle.theme}
+                  </h2>
+                  <p className="text-xs text-gray-500">
+                    {puzzle.source === 'own_mistake' ? 'You went wrong here' : 'Your opponent blundered here'}
+                    {puzzle.opponent ? ` vs ${puzzle.opponent}` : ''} · move {puzzle.moveNo} · {puzzle.date}
+                  </p>
+                </div>
+
+                <ChessBoard
+                  fen={fen}
+                  size={400}
+                  flipped={puzzle.side === 'B'}
+                  highlights={highlights}
+                  selected={selected}
+                  onSquareClick={handleSquareClick}
+                />
+
+                {message && (
+                  <div
+                    className={`self-stretch mt-3 px-4 py-3 rounded-lg bg-white border flex items-center gap-2 text-sm font-medium ${
+                      status === 'solved'
+                        ? 'text-green-600'
+                        : status === 'failed'
+                          ? 'text-red-600'
+                          : 'text-gray-800'
+                    }`}
+                  >
+                    {status === 'solved' && <CheckCircle className="w-4 h-4" />}
+                    {status === 'failed' && <XCircle className="w-4 h-4" />}
+                    <span>{message}</span>
+                  </div>
+                )}
+
+                {status !== 'solving' && (
+                  <div className="flex gap-3 mt-4">
+                    {puzzle.gameUrl && (
+                      <a
+                        href={puzzle.gameUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 px-4 py-2 rounded-lg border-2 border-gray-300 text-gray-700 hover:bg-gray-50"
+                      >
+                        View game <ExternalLink className="w-4 h-4" />
+                      </a>
+                    )}
+                    <Button variant="gold" onClick={() => userId && loadNext(userId)}>
+                      Next puzzle
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Results by theme */}
+          {history && history.attempted > 0 && (
+            <aside className="md:w-56 bg-white rounded-xl border p-4 h-fit">
+              <h3 className="font-semibold text-sm mb-1">Your results</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                {history.solved}/{history.attempted} solved on the first try
+              </p>
+              <ul className="space-y-1 text-sm">
+                {Object.entries(history.byTheme)
+                  .sort((a, b) => b[1].attempted - a[1].attempted)
+                  .map(([theme, stats]) => (
+                    <li key={theme} className="flex justify-between">
+                      <span className="text-gray-700">{THEME_LABELS[theme] ?? theme}</span>
+                      <span className="text-gray-500">
+                        {stats.solved}/{stats.attempted}
+                      </span>
+                    </li>
+                  ))}
+              </ul>
+            </aside>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, Loader2 } from 'lucide-react'
+import { ChessBoard } from '@/components/ChessBoard'
+import { getRepertoire, type RepertoireNode, type RepertoireResponse } from '@/lib/api'
+import { storage, STORAGE_KEYS } from '@/lib/storage'
+
+type Color = 'white' | 'black'
+
+// "1. e4", "1... c5" for the move at a ply
+function moveLabel(node: RepertoireNode): string {
+  const moveNo = Math.ceil(node.ply / 2)
+  return `${moveNo}${node.ply % 2 === 1 ? '.' : '...'} ${node.move}`
+}
+
+function formatEval(value: number | null): string {
+  if (value === null) return '–'
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`
+}
+
+export default function RepertoirePage() {
+  const router = useRouter()
+  const [userId, setUserId] = useState<string | null>(null)
+  const [color, setColor] = useState<Color>('white')
+  const [path, setPath] = useState<string[]>([])
+  const [data, setData] = useState<RepertoireResponse | null>(null)
+  const [message, setMessage] = useState('')
+  const [loading, setLoading] = useState(true)
+
+  const load = useCallback(async (id: string, side: Color, moves: string[]) => {
+    setLoading(true)
+    setMessage('')
+    try {
+      setData(await getRepertoire(id, side, moves))
+    } catch (err) {
+      console.error('Repertoire error:', err)
+      setData(null)
+      setMessage('Could not load your repertoire. Is the server running?')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const id = storage.get(STORAGE_KEYS.USER_ID)
+    setUserId(id)
+    if (!id) {
+      setLoading(false)
+      setMessage('Add your Chess.com username to see the openings from your games.')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (userId) load(userId, color, path)
+  }, [userId, color, path, load])
+
+  const switchColor = (side: Color) => {
+    if (side === color) return
+    setColor(side)
+    setPath([])
+  }
+
+  const node = data?.node
+  const highlights = node?.uci ? [node.uci.slice(0, 2), node.uci.slice(2, 4)] : []
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-header-bg text-white px-4 py-3 flex items-center justify-between shadow-md">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => router.push('/chat')}
+            className="text-gray-400 hover:text-white transition-colors p-2"
+            title="Back to chat"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="font-semibold">Repertoire</h1>
+            <p className="text-xs text-gray-400">
+              {data ? `Your openings with ${color} · ${data.games} games` : 'Your openings from your own games'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1 text-sm">
+          {(['white', 'black'] as const).map((side) => (
+            <button
+              key={side}
+              onClick={() => switchColor(side)}
+              className={`px-3 py-1 rounded-lg transition-colors ${
+                color === side ? 'bg-coach-primary text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              As {side === 'white' ? 'White' : 'Black'}
+            </button>
+          ))}
+          <button
+            onClick={() => router.push('/drills')}
+            className="ml-2 px-3 py-1 rounded-lg bg-coach-accent text-gray-900 hover:bg-amber-500 transition-colors"
+            title="Drill the lines where you went wrong"
+          >
+            Drill
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4">
+        <div className="max-w-4xl mx-auto">
+          {/* Breadcrumb: click a move to go back to it */}
+          <nav className="flex flex-wrap gap-x-2 text-sm mb-4">
+            <button onClick={() => setPath([])} className="font-semibold text-coach-primary hover:underline">
+              Start
+            </button>
+            {path.map((move, i) => (
+              <button
+                key={`${i}-${move}`}
+                onClick={() => setPath(path.slice(0, i + 1))}
+                className={i === path.length - 1 ? 'text-gray-900' : 'text-coach-primary hover:underline'}
+              >
+                {i % 2 === 0 ? `${i / 2 + 1}. ` : ''}
+                {move}
+              </button>
+            ))}
+          </nav>
+
+          {loading ? (
+            <div className="flex flex-col items-center text-gray-500 mt-20">
+              <Loader2 className="w-8 h-8 animate-spin text-coach-primary" />
+              <p className="mt-3 text-sm">Building your opening tree...</p>
+            </div>
+          ) : !node ? (
+            <p className="text-center text-sm text-gray-500 mt-20">
+              {message || 'No games yet. Import some games, then check back.'}
+            </p>
+          ) : (
+            <div className="flex flex-col md:flex-row gap-6">
+              <div className="flex flex-col items-center">
+                <ChessBoard fen={node.fen} size={360} flipped={color === 'black'} highlights={highlights} />
+                <div className="self-stretch mt-3">
+                  <h2 className="font-semibold text-gray-900">
+                    {node.opening ?? (node.ply === 0 ? 'Starting position' : 'Out of book')}
+                  </h2>
+                  <p className="text-xs text-gray-500">
+                    {node.games} games · {node.wins}W {node.draws}D {node.losses}L · score {node.score}%
+                    {node.engineBest && node.move && node.engineBest !== node.move
+                      ? ` · engine preferred ${node.engineBest}`
+                      : ''}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex-1 space-y-4">
+                {/* Next moves */}
+                <section className="bg-white rounded-xl border">
+                  {node.children.length === 0 ? (
+                    <p className="p-4 text-sm text-gray-500">Your games don&apos;t go further than this.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead className="text-xs text-gray-500 border-b">
+                        <tr>
+                          <th className="text-left font-medium px-4 py-2">Move</th>
+                          <th className="text-right font-medium px-2 py-2">Games</th>
+                          <th className="text-right font-medium px-2 py-2">Score</th>
+                          <th className="text-right font-medium px-2 py-2">Eval</th>
+                          <th className="px-4 py-2" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {node.children.map((child) => (
+                          <tr
+                            key={child.move ?? ''}
+                            onClick={() => setPath([...path, child.move!])}
+                            className={`border-b last:border-0 cursor-pointer hover:bg-gray-50 ${
+                              child.byUser ? '' : 'text-gray-600'
+                            }`}
+                          >
+                            <td className={`px-4 py-2 ${child.mainLine ? 'font-semibold' : ''}`}>
+                              {moveLabel(child)}
+                              {child.byUser ? '' : <span className="text-xs text-gray-400"> opponent</span>}
+                            </td>
+                            <td className="text-right px-2 py-2">
+                              {child.games} <span className="text-xs text-gray-400">({child.frequency}%)</span>
+                            </td>
+                            <td className="text-right px-2 py-2">{child.score}%</td>
+                            <td className="text-right px-2 py-2">{formatEval(child.avgEval)}</td>
+                            <td className="text-right px-4 py-2 text-xs">
+                              {child.deviation === 'left_book' && (
+                                <span className="text-amber-600 font-medium">Leaves book</span>
+                              )}
+                              {child.deviation === 'off_main_line' && (
+                                <span className="text-gray-500">Sideline</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </section>
+
+                {/* Where the user goes their own way further down */}
+                {data && data.deviations.length > 0 && (
+                  <section className="bg-white rounded-xl border p-4">
+                    <h3 className="font-semibold text-sm mb-2">Where you deviate</h3>
+                    <ul className="space-y-1 text-sm">
+                      {data.deviations.slice(0, 5).map((d) => (
+                        <li key={d.path.join(' ')}>
+                          <button
+                            onClick={() => setPath(d.path.slice(0, -1))}
+                            className="text-left text-gray-700 hover:text-coach-primary"
+                          >
+                            {d.path.join(' ')} · {d.games} games
+                            {d.kind === 'off_main_line'
+                              ? ` · you usually play ${d.mainMove}`
+                              : d.bookMoves.length > 0
+                                ? ` · leaves book (try ${d.bookMoves.slice(0, 2).join(' or ')})`
+                                : ' · leaves book'}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
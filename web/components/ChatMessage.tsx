@@ -43,7 +43,12 @@ export function ChatMessage({ role, content }: ChatMessageProps) {
           if (part.type === 'board') {
             return (
               <div key={i} className="my-3 flex justify-center">
-                <ChessBoard fen={part.fen} size={240} />
+                <div className="flex flex-col items-center">
+                  <ChessBoard fen={part.fen} size={240} />
+                  {part.bestLine && (
+                    <p className="mt-2 text-xs text-gray-500">Better: {part.bestLine}</p>
+                  )}
+                </div>
               </div>
             )
           }
@@ -74,11 +79,14 @@ export function ChatMessage({ role, content }: ChatMessageProps) {
   )
 }
 
-type ContentPart = { type: 'text'; text: string } | { type: 'board'; fen: string }
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'board'; fen: string; bestLine: string | null }
 
 function parseContentWithBoards(content: string): ContentPart[] {
-  // Match [BOARD:fen] or [POSITION:fen] tags
-  const boardRegex = /\[(BOARD|POSITION):([^\]]+)\]/gi
+  // Match [BOARD:fen] or [POSITION:fen] tags, optionally with the better
+  // continuation after a pipe: [BOARD:fen|12. Nf3 Nc6]
+  const boardRegex = /\[(BOARD|POSITION):([^\]|]+)(?:\|([^\]]*))?\]/gi
   const parts: ContentPart[] = []
   let lastIndex = 0
   let match
@@ -92,7 +100,7 @@ function parseContentWithBoards(content: string): ContentPart[] {
       }
     }
     // Add the board
-    parts.push({ type: 'board', fen: match[2] })
+    parts.push({ type: 'board', fen: match[2].trim(), bestLine: match[3]?.trim() || null })
     lastIndex = match.index + match[0].length
   }
 
@@ -7,8 +7,15 @@ type BoardProps = {
   size?: number
   lightColor?: string
   darkColor?: string
+  flipped?: boolean // black at the bottom
+  highlights?: string[] // squares to tint, e.g. ['e2', 'e4']
+  selected?: string | null // the piece picked up to move, tinted apart from the highlights
+  onSquareClick?: (square: string) => void // makes the board clickable
 }
 
+const HIGHLIGHT_COLOR = 'rgba(212,175,55,0.5)'
+const SELECTED_COLOR = 'rgba(14,165,233,0.45)'
+
 // Using Lichess piece images (free CDN)
 const PIECE_BASE_URL = 'https://lichess1.org/assets/piece/cburnett'
 
@@ -32,11 +39,19 @@ export function ChessBoard({
   size = 280,
   lightColor = '#f0d9b5',
   darkColor = '#b58863',
+  flipped = false,
+  highlights = [],
+  selected = null,
+  onSquareClick,
 }: BoardProps) {
-  const grid = parseFenBoard(fen)
-  if (!grid) return null
+  const parsed = parseFenBoard(fen)
+  if (!parsed) return null
 
+  const grid = flipped ? parsed.map((row) => [...row].reverse()).reverse() : parsed
   const squareSize = size / 8
+  // Algebraic name of the square drawn at row r, column c
+  const squareAt = (r: number, c: number) =>
+    flipped ? `${'hgfedcba'[c]}${r + 1}` : `${'abcdefgh'[c]}${8 - r}`
 
   return (
     <div
@@ -57,6 +72,20 @@ export function ChessBoard({
             />
           ))
         )}
+        {Array.from({ length: 8 }).map((_, r) =>
+          Array.from({ length: 8 }).map((_, c) =>
+            squareAt(r, c) === selected || highlights.includes(squareAt(r, c)) ? (
+              <rect
+                key={`hl-${r}-${c}`}
+                x={c * squareSize}
+                y={r * squareSize}
+                width={squareSize}
+                height={squareSize}
+                fill={squareAt(r, c) === selected ? SELECTED_COLOR : HIGHLIGHT_COLOR}
+              />
+            ) : null
+          )
+        )}
       </svg>
 
       {/* Pieces layer */}
@@ -82,6 +111,26 @@ export function ChessBoard({
           </div>
         ))}
       </div>
+
+      {/* Click layer */}
+      {onSquareClick && (
+        <div className="absolute inset-0">
+          {Array.from({ length: 8 }).map((_, r) => (
+            <div key={`click-row-${r}`} className="flex">
+              {Array.from({ length: 8 }).map((_, c) => (
+                <button
+                  key={`click-${r}-${c}`}
+                  type="button"
+                  aria-label={squareAt(r, c)}
+                  className="cursor-pointer focus:outline-none"
+                  style={{ width: squareSize, height: squareSize }}
+                  onClick={() => onSquareClick(squareAt(r, c))}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -101,3 +101,242 @@ export async function validateChessComUser(username: string): Promise<{
     return { valid: false }
   }
 }
+
+// --- Puzzles from the user's own games ---
+
+export interface PuzzleView {
+  id: string
+  fen: string
+  side: 'W' | 'B'
+  theme: string
+  rating: number
+  solverMoves: number
+  source: 'own_mistake' | 'unpunished_blunder'
+  moveNo: number
+  opponent: string | null
+  gameUrl: string | null
+  date: string
+}
+
+export interface NextPuzzleResponse {
+  userId: string
+  rating: number
+  puzzle: PuzzleView | null
+  remaining: number
+}
+
+export interface PuzzleAttemptResponse {
+  status: 'correct' | 'solved' | 'failed' | 'illegal'
+  fen: string
+  lastMove: string | null
+  reply: string | null
+  solution?: string[]
+  rating: number
+  ratingChange: number
+}
+
+export interface PuzzleHistoryResponse {
+  userId: string
+  rating: number
+  totalPuzzles: number
+  attempted: number
+  solved: number
+  byTheme: Record<string, { attempted: number; solved: number }>
+  attempts: Array<{
+    puzzleId: string
+    at: string
+    solved: boolean
+    ratingBefore: number
+    ratingAfter: number
+    puzzle: (PuzzleView & { solution: string[]; played: string | null }) | null
+  }>
+}
+
+export async function getNextPuzzle(userId: string, theme?: string): Promise<NextPuzzleResponse> {
+  const params = new URLSearchParams({ userId })
+  if (theme) params.set('theme', theme)
+
+  const response = await fetch(`${API_URL}/puzzles/next?${params}`)
+
+  if (!response.ok) {
+    throw new Error(`Next puzzle failed: ${response.statusText}`)
+  }
+
+  return response.json()
+}
+
+// moves: all of the solver's moves so far (UCI, e.g. "e2e4")
+export async function submitPuzzleAttempt(
+  userId: string,
+  puzzleId: string,
+  moves: string[]
+): Promise<PuzzleAttemptResponse> {
+  const response = await fetch(`${API_URL}/puzzles/attempt`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, puzzleId, moves }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Puzzle attempt failed: ${response.statusText}`)
+  }
+
+  return response.json()
+}
+
+export async function getPuzzleHistory(userId: string, limit = 10): Promise<PuzzleHistoryResponse> {
+  const params = new URLSearchParams({ userId, limit: String(limit) })
+  const response = await fetch(`${API_URL}/puzzles/history?${params}`)
+
+  if (!response.ok) {
+    throw new Error(`Puzzle history failed: ${response.statusText}`)
+  }
+
+  return response.json()
+}
+
+// --- Opening repertoire from the user's own games ---
+
+export interface RepertoireNode {
+  move: string | null
+  uci: string | null
+  ply: number
+  byUser: boolean
+  fen: string
+  games: number
+  wins: number
+  draws: number
+  losses: number
+  score: number
+  frequency: number
+  avgEval: number | null
+  engineBest: string | null
+  inBook: boolean
+  opening: string | null
+  mainLine: boolean
+  deviation: 'left_book' | 'off_main_line' | null
+  children: RepertoireNode[]
+}
+
+export interface RepertoireDeviation {
+  path: string[]
+  kind: 'left_book' | 'off_main_line'
+  move: string
+  games: number
+  frequency: number
+  mainMove: string | null
+  bookMoves: string[]
+}
+
+export interface RepertoireResponse {
+  userId: string
+  color: 'white' | 'black'
+  games: number
+  path: string[]
+  node: RepertoireNode
+  deviations: RepertoireDeviation[]
+}
+
+// moves: SAN path from the starting position, e.g. ['e4', 'c5']
+export async function getRepertoire(
+  userId: string,
+  color: 'white' | 'black',
+  moves: string[] = []
+): Promise<RepertoireResponse> {
+  const params = new URLSearchParams({ userId, color, moves: moves.join(' '), depth: '1' })
+  const response = await fetch(`${API_URL}/repertoire?${params}`)
+
+  if (!response.ok) {
+    throw new Error(`Repertoire failed: ${response.statusText}`)
+  }
+
+  return response.json()
+}
+
+// --- Opening drills from the user's own games ---
+
+export interface DrillView {
+  id: string
+  color: 'white' | 'black'
+  side: 'W' | 'B'
+  fen: string
+  lastMove: string | null
+  userMoves: number
+  moveNo: number
+  played: string
+  opening: string | null
+  games: number
+  gameUrl: string | null
+  date: string
+  box: number
+  attempts: number
+  passes: number
+}
+
+export interface DrillStats {
+  drills: number
+  tried: number
+  mastered: number
+  passRate: number | null
+  weakest: Array<{
+    id: string
+    opening: string | null
+    line: string[]
+    played: string
+    attempts: number
+    passes: number
+  }>
+}
+
+export interface NextDrillResponse {
+  userId: string
+  drill: DrillView | null
+  due: number
+  stats: DrillStats
+}
+
+export interface DrillAttemptResponse {
+  status: 'correct' | 'off_line' | 'illegal' | 'passed' | 'failed'
+  fen: string
+  lastMove: string | null
+  reply: string | null
+  critical: boolean
+  expected?: string
+  move?: string
+  answers?: string[]
+  played?: string
+  box?: number
+  nextDrill?: string
+}
+
+export async function getNextDrill(userId: string, color?: 'white' | 'black'): Promise<NextDrillResponse> {
+  const params = new URLSearchParams({ userId })
+  if (color) params.set('color', color)
+
+  const response = await fetch(`${API_URL}/drills/next?${params}`)
+
+  if (!response.ok) {
+    throw new Error(`Next drill failed: ${response.statusText}`)
+  }
+
+  return response.json()
+}
+
+// moves: all of the user's moves in the drill so far (UCI, e.g. "e2e4")
+export async function submitDrillAttempt(
+  userId: string,
+  drillId: string,
+  moves: string[]
+): Promise<DrillAttemptResponse> {
+  const response = await fetch(`${API_URL}/drills/attempt`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, drillId, moves }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Drill attempt failed: ${response.statusText}`)
+  }
+
+  return response.json()
+}